@@ -1,14 +1,16 @@
-import { openai } from '../config/openai';
+import { llm } from '../config/llm';
+import { DEFAULT_LOCALE, Locale, LOCALE_NAMES, t } from '../i18n/i18n';
 import { getBiologicalAgeState } from './ageStore';
 
 export async function generateAgeMessage(
   userId: string,
-  mode: 'morning' | 'evening'
+  mode: 'morning' | 'evening',
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<string> {
   const state = getBiologicalAgeState(userId);
 
   if (!state) {
-    return "We don't have enough data yet. Let's start with your first daily check-in.";
+    return t(locale, 'coach.briefing.no_data');
   }
 
   const lastEntry = state.history.length > 0 ? state.history[state.history.length - 1] : null;
@@ -39,14 +41,14 @@ Rules:
 Style:
 - Warm, motivational, not preachy.
 - Concise and actionable.
+- Write the message in ${LOCALE_NAMES[locale]}.
 
 ${mode === 'morning' 
   ? 'This is a morning briefing. Reflect on yesterday\'s results and set the tone for today.'
   : 'This is an evening briefing. Reflect on today\'s behaviors and prepare for recovery.'
 }`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.complete({
     messages: [
       {
         role: 'system',
@@ -59,9 +61,7 @@ ${mode === 'morning'
     ],
   });
 
-  const message =
-    completion.choices[0]?.message?.content ??
-    "I couldn't generate a message right now.";
+  const message = completion ?? t(locale, 'coach.briefing.unavailable');
 
   return message;
 }
@@ -5,6 +5,9 @@
  * NOTE: This is a simplified educational model and should not be used as medical advice.
  */
 
+import { DEFAULT_LOCALE, MessageRef, renderMessages } from '../i18n/i18n';
+import { BandCondition, DailyScoreResult, FactorContribution } from '../scoring/scoringModel';
+
 export interface DailyMetrics {
   date: string; // ISO date, e.g. "2025-12-04"
   sleepQuality: number; // 0 (worst) – 4 (best)
@@ -37,55 +40,83 @@ export interface BiologicalAgeState {
   totalAccelerationDays: number; // how many days had positive deltaYears
 }
 
+// Score points per year of delta: the score maps -0.2..+0.3 years onto 100..0
+const SCORE_POINTS_PER_YEAR = 200;
+
+const FIVE_OPTION_LEVELS = ['very_poor', 'poor', 'moderate', 'good', 'excellent'];
+const FIVE_OPTION_DELTAS = [0.03, 0.02, 0.01, -0.01, -0.02];
+
 /**
  * Calculates a daily biological age delta based on 10 health signals.
  * Max daily change: +0.3 years (aging) to -0.2 years (rejuvenation).
  *
+ * Factor points are shares of the score relative to its neutral 60 (deltaYears 0).
+ *
  * @param metrics - Daily health metrics
- * @returns Score (0-100 placeholder), deltaYears, and human-readable reasons
+ * @returns Score (0-100 placeholder), deltaYears, reason keys with their English rendering,
+ *   and per-factor contributions
  */
-export function calculateDailyScore(metrics: DailyMetrics): {
-  score: number;
-  deltaYears: number;
-  reasons: string[];
-} {
+export function calculateDailyScore(metrics: DailyMetrics): DailyScoreResult {
   let deltaYears = 0;
-  const reasons: string[] = [];
+  const reasonCodes: MessageRef[] = [];
+  const factors: Array<{
+    factor: keyof DailyMetrics;
+    deltaYears: number;
+    band: string | null;
+    target: { band: string; condition: BandCondition | null; deltaYears: number } | null;
+  }> = [];
+
+  const record = (
+    factor: keyof DailyMetrics,
+    delta: number,
+    band: MessageRef | null,
+    best: { band: string; condition: BandCondition | null; deltaYears: number }
+  ) => {
+    deltaYears += delta;
+    if (band) reasonCodes.push(band);
+    factors.push({
+      factor,
+      deltaYears: delta,
+      band: band?.key ?? null,
+      target: band?.key === best.band ? null : { ...best, deltaYears: best.deltaYears - delta },
+    });
+  };
 
   // Helper to map 5-option questions (0-4)
-  const mapFiveOption = (val: number, label: string) => {
-    switch (val) {
-      case 0: deltaYears += 0.03; reasons.push(`${label}: Very poor`); break;
-      case 1: deltaYears += 0.02; reasons.push(`${label}: Poor`); break;
-      case 2: deltaYears += 0.01; reasons.push(`${label}: Moderate`); break;
-      case 3: deltaYears -= 0.01; reasons.push(`${label}: Good`); break;
-      case 4: deltaYears -= 0.02; reasons.push(`${label}: Excellent`); break;
+  const mapFiveOption = (factor: keyof DailyMetrics, name: string) => {
+    const val = metrics[factor] as number;
+    const level = FIVE_OPTION_LEVELS[val];
+    const best = { band: `questionnaire.${name}.excellent`, condition: { equals: 4 }, deltaYears: FIVE_OPTION_DELTAS[4] };
+    if (level === undefined) {
+      factors.push({ factor, deltaYears: 0, band: null, target: best });
+      return;
     }
+    record(factor, FIVE_OPTION_DELTAS[val], { key: `questionnaire.${name}.${level}` }, best);
   };
 
-  mapFiveOption(metrics.sleepQuality, 'Sleep');
-  mapFiveOption(metrics.energyLevel, 'Energy');
-  mapFiveOption(metrics.physicalActivity, 'Activity');
-  mapFiveOption(metrics.nutritionQuality, 'Nutrition');
-  mapFiveOption(metrics.stressLevel, 'Stress');
-  mapFiveOption(metrics.mentalEmotionalLoad, 'Mental load');
-  mapFiveOption(metrics.circadianRhythm, 'Circadian');
+  mapFiveOption('sleepQuality', 'sleep');
+  mapFiveOption('energyLevel', 'energy');
+  mapFiveOption('physicalActivity', 'activity');
+  mapFiveOption('nutritionQuality', 'nutrition');
+  mapFiveOption('stressLevel', 'stress');
+  mapFiveOption('mentalEmotionalLoad', 'mental_load');
+  mapFiveOption('circadianRhythm', 'circadian');
 
   // Sugar & Alcohol (0-3)
+  const noSugarAlcohol = { band: 'questionnaire.sugar_alcohol.none', condition: { equals: 3 }, deltaYears: -0.02 };
   switch (metrics.sugarAlcoholExposure) {
-    case 0: deltaYears += 0.03; reasons.push('Sugar/Alcohol: High'); break;
-    case 1: deltaYears += 0.01; reasons.push('Sugar/Alcohol: Moderate'); break;
-    case 2: deltaYears -= 0.01; reasons.push('Sugar/Alcohol: Low'); break;
-    case 3: deltaYears -= 0.02; reasons.push('Sugar/Alcohol: None'); break;
+    case 0: record('sugarAlcoholExposure', 0.03, { key: 'questionnaire.sugar_alcohol.high' }, noSugarAlcohol); break;
+    case 1: record('sugarAlcoholExposure', 0.01, { key: 'questionnaire.sugar_alcohol.moderate' }, noSugarAlcohol); break;
+    case 2: record('sugarAlcoholExposure', -0.01, { key: 'questionnaire.sugar_alcohol.low' }, noSugarAlcohol); break;
+    case 3: record('sugarAlcoholExposure', -0.02, { key: 'questionnaire.sugar_alcohol.none' }, noSugarAlcohol); break;
   }
 
   // Body Signals (Multi-select)
+  const feelingGreat = { band: 'questionnaire.body.great', condition: null, deltaYears: -0.02 };
   if (metrics.bodySignals.includes('Great')) {
-    deltaYears -= 0.02;
-    reasons.push('Feeling physically great');
+    record('bodySignals', -0.02, { key: 'questionnaire.body.great' }, feelingGreat);
   } else if (metrics.bodySignals.includes('None')) {
-    deltaYears -= 0.01;
-    reasons.push('No physical discomfort');
+    record('bodySignals', -0.01, { key: 'questionnaire.body.no_discomfort' }, feelingGreat);
   } else {
     let symptomsCount = 0;
     if (metrics.bodySignals.includes('Bloating')) symptomsCount++;
@@ -94,26 +125,29 @@ export function calculateDailyScore(metrics: DailyMetrics): {
     
     if (symptomsCount > 0) {
       const load = Math.min(0.03, symptomsCount * 0.01);
-      deltaYears += load;
-      reasons.push(`Physical discomfort (${symptomsCount} signals)`);
+      record('bodySignals', load, { key: 'questionnaire.body.discomfort', params: { count: symptomsCount } }, feelingGreat);
+    } else {
+      record('bodySignals', 0, null, feelingGreat);
     }
   }
 
   // Rejuvenation Behaviors (Multi-select)
+  const activeRecovery = { band: 'questionnaire.recovery.multiple', condition: null, deltaYears: -0.02 };
   if (metrics.rejuvenationBehaviors.includes('None')) {
-    deltaYears += 0.03;
-    reasons.push('No intentional recovery');
+    record('rejuvenationBehaviors', 0.03, { key: 'questionnaire.recovery.none' }, activeRecovery);
   } else {
     const behaviorCount = metrics.rejuvenationBehaviors.filter(b => b !== 'None').length;
     if (behaviorCount >= 2) {
-      deltaYears -= 0.02;
-      reasons.push('Active recovery (2+ behaviors)');
+      record('rejuvenationBehaviors', -0.02, { key: 'questionnaire.recovery.multiple' }, activeRecovery);
     } else if (behaviorCount === 1) {
-      deltaYears -= 0.01;
-      reasons.push('Active recovery (1 behavior)');
-  }
+      record('rejuvenationBehaviors', -0.01, { key: 'questionnaire.recovery.single' }, activeRecovery);
+    } else {
+      record('rejuvenationBehaviors', 0, null, activeRecovery);
+    }
   }
 
+  const unclampedDeltaYears = deltaYears;
+
   // Clamp results to user specified range
   deltaYears = Math.max(-0.20, Math.min(0.30, deltaYears));
   
@@ -121,7 +155,23 @@ export function calculateDailyScore(metrics: DailyMetrics): {
   // -0.2 -> 100, +0.3 -> 0
   const score = Math.round(((0.3 - deltaYears) / 0.5) * 100);
 
-  return { score, deltaYears, reasons };
+  // Clamping scales every factor's share alike
+  const scale = unclampedDeltaYears === 0 ? 1 : deltaYears / unclampedDeltaYears;
+  const contributions: FactorContribution[] = factors.map((factor) => ({
+    factor: factor.factor,
+    value: metrics[factor.factor],
+    points: -factor.deltaYears * scale * SCORE_POINTS_PER_YEAR,
+    deltaYears: factor.deltaYears * scale,
+    band: factor.band,
+    target: factor.target && {
+      band: factor.target.band,
+      condition: factor.target.condition,
+      points: -factor.target.deltaYears * SCORE_POINTS_PER_YEAR,
+      deltaYears: factor.target.deltaYears,
+    },
+  }));
+
+  return { score, deltaYears, reasons: renderMessages(DEFAULT_LOCALE, reasonCodes), reasonCodes, contributions };
 }
 
 /**
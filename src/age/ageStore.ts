@@ -236,3 +236,12 @@ export function getDailyEntries(
   const userDailyEntries = dailyStore.get(userId) || [];
   return userDailyEntries.slice(0, limit);
 }
+
+/**
+ * Removes a user's profile, state and daily entries (account deletion).
+ */
+export function deleteAgeState(userId: string): void {
+  profileStore.delete(userId);
+  stateStore.delete(userId);
+  dailyStore.delete(userId);
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyIdToken, AuthUser } from './firebaseAuth';
 import { hasActiveSubscription } from '../subscription/appleSubscription';
+import { sendError } from '../i18n/i18n';
 
 export interface AuthenticatedRequest extends Request {
   user?: AuthUser;
@@ -17,12 +18,12 @@ export async function requireAuth(req: AuthenticatedRequest, res: Response, next
   try {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
 
     const idToken = authHeader.replace('Bearer ', '').trim();
     if (!idToken) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
 
     const decoded = await verifyIdToken(idToken);
@@ -30,7 +31,7 @@ export async function requireAuth(req: AuthenticatedRequest, res: Response, next
     return next();
   } catch (error) {
     console.error('[requireAuth] verify error:', error);
-    return res.status(401).json({ error: 'Unauthorized' });
+    return sendError(res, 401, 'api.unauthorized');
   }
 }
 
@@ -53,13 +54,13 @@ export async function requireEmailVerification(
   try {
     // First ensure user is authenticated
     if (!req.user) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
 
     // Get fresh token to check email verification status
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
 
     const idToken = authHeader.replace('Bearer ', '').trim();
@@ -67,16 +68,13 @@ export async function requireEmailVerification(
 
     // Check if email is verified
     if (!decoded.email_verified) {
-      return res.status(403).json({
-        error: 'email_verification_required',
-        message: 'Email verification is required for this action. Please verify your email address.',
-      });
+      return sendError(res, 403, 'api.email_verification_required', {}, { error: 'email_verification_required' });
     }
 
     return next();
   } catch (error) {
     console.error('[requireEmailVerification] error:', error);
-    return res.status(401).json({ error: 'Unauthorized' });
+    return sendError(res, 401, 'api.unauthorized');
   }
 }
 
@@ -97,7 +95,7 @@ export async function requireSubscription(
   try {
     // First ensure user is authenticated
     if (!req.user) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
 
     const userId = req.user.uid;
@@ -106,9 +104,8 @@ export async function requireSubscription(
     const hasActive = await hasActiveSubscription(userId);
 
     if (!hasActive) {
-      return res.status(403).json({
+      return sendError(res, 403, 'api.subscription_required', {}, {
         error: 'subscription_required',
-        message: 'An active subscription is required to access this feature.',
         code: 'SUBSCRIPTION_REQUIRED',
       });
     }
@@ -116,7 +113,44 @@ export async function requireSubscription(
     return next();
   } catch (error) {
     console.error('[requireSubscription] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 }
 
+
+/**
+ * Express middleware to restrict operational endpoints (e.g. scoring recomputes) to admins.
+ *
+ * A user is an admin when their token carries the `admin: true` custom claim or their
+ * uid is listed in ADMIN_USER_IDS (comma-separated).
+ *
+ * Returns 403 for authenticated users who are not admins.
+ */
+export async function requireAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    // First ensure user is authenticated
+    if (!req.user) {
+      return sendError(res, 401, 'api.unauthorized');
+    }
+
+    const adminUserIds = (process.env.ADMIN_USER_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (adminUserIds.includes(req.user.uid)) {
+      return next();
+    }
+
+    // Custom claims are only on the token, so decode it again
+    const idToken = (req.headers.authorization || '').replace('Bearer ', '').trim();
+    const decoded = await verifyIdToken(idToken);
+    if (decoded.admin !== true) {
+      return sendError(res, 403, 'api.admin_required', {}, { error: 'forbidden' });
+    }
+
+    return next();
+  } catch (error) {
+    console.error('[requireAdmin] error:', error);
+    return sendError(res, 401, 'api.unauthorized');
+  }
+}
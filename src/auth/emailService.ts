@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { DEFAULT_LOCALE, Locale, t } from '../i18n/i18n';
 
 /**
  * Email service for sending password reset OTP codes.
@@ -46,11 +47,17 @@ function getTransporter(): nodemailer.Transporter | null {
   return transporter;
 }
 
+const OTP_EXPIRY_MINUTES = 10;
+
 /**
- * Sends a password reset OTP code to the user's email.
+ * Sends a password reset OTP code to the user's email, written in the given locale.
  * In development mode without SMTP configured, logs the code to console instead.
  */
-export async function sendPasswordResetOTP(email: string, code: string): Promise<void> {
+export async function sendPasswordResetOTP(
+  email: string,
+  code: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<void> {
   const transporter = getTransporter();
 
   // If SMTP is not configured, log to console for development
@@ -64,21 +71,22 @@ export async function sendPasswordResetOTP(email: string, code: string): Promise
   }
 
   const fromEmail = process.env.SMTP_FROM || process.env.SMTP_USER || 'noreply@thelongevityapp.com';
+  const expiry = t(locale, 'email.otp.expiry', { minutes: OTP_EXPIRY_MINUTES });
 
   const mailOptions = {
     from: `Longevity AI <${fromEmail}>`,
     to: email,
-    subject: 'Your verification code',
-    text: `Your Longevity AI verification code is: ${code}\n\nThis code expires in 10 minutes.`,
+    subject: t(locale, 'email.otp.subject'),
+    text: `${t(locale, 'email.otp.intro')} ${code}\n\n${expiry}`,
     html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #333;">Password Reset Verification</h2>
-        <p>Your Longevity AI verification code is:</p>
+      <div lang="${locale}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${t(locale, 'email.otp.heading')}</h2>
+        <p>${t(locale, 'email.otp.intro')}</p>
         <div style="background-color: #f5f5f5; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 4px; margin: 20px 0;">
           ${code}
         </div>
-        <p style="color: #666;">This code expires in 10 minutes.</p>
-        <p style="color: #666; font-size: 12px; margin-top: 30px;">If you didn't request this code, please ignore this email.</p>
+        <p style="color: #666;">${expiry}</p>
+        <p style="color: #666; font-size: 12px; margin-top: 30px;">${t(locale, 'email.otp.ignore')}</p>
       </div>
     `,
   };
@@ -1,5 +1,7 @@
 import * as admin from 'firebase-admin';
-import { firestore, firestoreToJSON } from '../config/firestore';
+import '../config/firestore'; // Initializes firebase-admin for Auth
+import { storage } from '../config/storage';
+import { Locale } from '../i18n/i18n';
 
 export interface UserProfile {
   userId: string;
@@ -7,6 +9,7 @@ export interface UserProfile {
   firstName?: string | null;
   lastName?: string | null;
   dateOfBirth?: string | null; // ISO date string, e.g. "1990-05-15"
+  locale?: Locale | null; // Preferred language for responses, emails and the coach
   chronologicalAgeYears: number | null;
   baselineBiologicalAgeYears: number | null;
   currentBiologicalAgeYears: number | null;
@@ -74,11 +77,10 @@ export async function getOrCreateUserProfile(
   email?: string | null,
   profileData?: { firstName?: string; lastName?: string; dateOfBirth?: string }
 ): Promise<UserProfile> {
-  const userRef = firestore.collection('users').doc(uid);
-  const snap = await userRef.get();
+  const existing = await storage.users.get(uid);
   const now = new Date().toISOString();
 
-  if (!snap.exists) {
+  if (!existing) {
     // Calculate chronological age from dateOfBirth if provided
     const chronologicalAgeYears = profileData?.dateOfBirth
       ? calculateAgeFromDateOfBirth(profileData.dateOfBirth)
@@ -101,12 +103,11 @@ export async function getOrCreateUserProfile(
       createdAt: now,
       updatedAt: now,
     };
-    await userRef.set(profile);
+    await storage.users.merge(uid, profile);
     return profile;
   }
 
-  const data = firestoreToJSON(snap.data());
-  const existingProfile = data as UserProfile;
+  const existingProfile = existing as unknown as UserProfile;
   
   // If profileData is provided, update the profile (e.g., during sign-up)
   const updates: any = {};
@@ -143,8 +144,7 @@ export async function getOrCreateUserProfile(
   
   // Apply updates if any
   if (Object.keys(updates).length > 0) {
-    updates.updatedAt = now;
-    await userRef.set(updates, { merge: true });
+    await storage.users.merge(uid, updates);
   }
   
   return {
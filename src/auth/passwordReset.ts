@@ -1,26 +1,14 @@
 import * as crypto from 'crypto';
 import * as admin from 'firebase-admin';
-import { firestore } from '../config/firestore';
+import '../config/firestore'; // Initializes firebase-admin for Auth
+import { storage } from '../config/storage';
+import { PasswordResetRequest } from '../storage/repository';
 import { sendPasswordResetOTP } from './emailService';
+import { DEFAULT_LOCALE, Locale } from '../i18n/i18n';
 import * as jwt from 'jsonwebtoken';
 import { validatePassword } from './passwordValidation';
 
-/**
- * Password reset request document in Firestore
- */
-export interface PasswordResetRequest {
-  emailLower: string;
-  codeHash: string;
-  salt: string;
-  createdAt: admin.firestore.Timestamp;
-  expiresAt: admin.firestore.Timestamp;
-  resendAvailableAt: admin.firestore.Timestamp;
-  sendCountWindowStart: admin.firestore.Timestamp;
-  sendCountInWindow: number;
-  verifyAttempts: number;
-  verifiedAt: admin.firestore.Timestamp | null;
-  consumedAt: admin.firestore.Timestamp | null;
-}
+export { PasswordResetRequest };
 
 const OTP_LENGTH = 6;
 const OTP_EXPIRY_MINUTES = 10;
@@ -97,63 +85,52 @@ async function userExistsByEmail(email: string): Promise<boolean> {
  * Request a password reset OTP
  * Returns success even if user doesn't exist (prevent enumeration)
  */
-export async function requestPasswordReset(email: string): Promise<void> {
+export async function requestPasswordReset(email: string, locale: Locale = DEFAULT_LOCALE): Promise<void> {
   const emailLower = normalizeEmail(email);
 
   if (!emailLower || !emailLower.includes('@')) {
     throw new Error('Invalid email address');
   }
 
-  const now = admin.firestore.Timestamp.now();
-  const expiresAt = admin.firestore.Timestamp.fromMillis(
-    now.toMillis() + OTP_EXPIRY_MINUTES * 60 * 1000
-  );
-  const resendAvailableAt = admin.firestore.Timestamp.fromMillis(
-    now.toMillis() + RESEND_COOLDOWN_SECONDS * 1000
-  );
-  const oneHourAgo = admin.firestore.Timestamp.fromMillis(
-    now.toMillis() - 60 * 60 * 1000
-  );
+  const now = Date.now();
+  const expiresAt = now + OTP_EXPIRY_MINUTES * 60 * 1000;
+  const resendAvailableAt = now + RESEND_COOLDOWN_SECONDS * 1000;
+  const oneHourAgo = now - 60 * 60 * 1000;
 
   // Find existing non-consumed reset requests for this email
-  // Note: Firestore doesn't support querying for null directly, so we get all and filter
-  // Also avoiding orderBy to prevent needing a composite index - we'll sort in memory
-  const existingQuery = await firestore
-    .collection('passwordResets')
-    .where('emailLower', '==', emailLower)
-    .get();
+  // Note: null can't be queried directly, so we get all and filter
+  // and sort in memory to avoid needing a composite index
+  const existingRequests = await storage.passwordResets.findByEmail(emailLower);
 
   // Filter for non-consumed requests and sort by createdAt descending
-  const nonConsumedDocs = existingQuery.docs
-    .filter(doc => {
-      const data = doc.data() as PasswordResetRequest;
-      return data.consumedAt === null || data.consumedAt === undefined;
-    })
-    .sort((a, b) => {
-      const aData = a.data() as PasswordResetRequest;
-      const bData = b.data() as PasswordResetRequest;
-      return bData.createdAt.toMillis() - aData.createdAt.toMillis();
-    });
+  const nonConsumedDocs = existingRequests
+    .filter(doc => doc.data.consumedAt === null || doc.data.consumedAt === undefined)
+    .sort((a, b) => b.data.createdAt - a.data.createdAt);
 
   const existingDoc = nonConsumedDocs.length > 0 ? nonConsumedDocs[0] : null;
 
   if (existingDoc) {
-    const existing = existingDoc.data() as PasswordResetRequest;
+    const existing = existingDoc.data;
 
     // Check resend cooldown
-    if (existing.resendAvailableAt.toMillis() > now.toMillis()) {
+    if (existing.resendAvailableAt > now) {
       const secondsRemaining = Math.ceil(
-        (existing.resendAvailableAt.toMillis() - now.toMillis()) / 1000
+        (existing.resendAvailableAt - now) / 1000
       );
-      throw new Error(`too_many_requests: Please wait ${secondsRemaining} seconds before requesting another code.`);
+      const error = new Error(`too_many_requests: Please wait ${secondsRemaining} seconds before requesting another code.`) as any;
+      error.messageKey = 'api.password_reset_wait';
+      error.messageParams = { seconds: secondsRemaining };
+      throw error;
     }
 
     // Check send count in the last hour
-    const windowStart = existing.sendCountWindowStart.toMillis();
-    if (windowStart > oneHourAgo.toMillis()) {
+    const windowStart = existing.sendCountWindowStart;
+    if (windowStart > oneHourAgo) {
       // Still in the same window
       if (existing.sendCountInWindow >= MAX_SENDS_PER_HOUR) {
-        throw new Error('too_many_requests: Maximum number of requests exceeded. Please try again later.');
+        const error = new Error('too_many_requests: Maximum number of requests exceeded. Please try again later.') as any;
+        error.messageKey = 'api.password_reset_limit';
+        throw error;
       }
     }
   }
@@ -167,13 +144,13 @@ export async function requestPasswordReset(email: string): Promise<void> {
   const codeHash = hashOTP(otp, salt);
 
   // Calculate send count window
-  let sendCountWindowStart: admin.firestore.Timestamp;
+  let sendCountWindowStart: number;
   let sendCountInWindow: number;
 
   if (existingDoc) {
-    const existing = existingDoc.data() as PasswordResetRequest;
-    const windowStart = existing.sendCountWindowStart.toMillis();
-    if (windowStart > oneHourAgo.toMillis()) {
+    const existing = existingDoc.data;
+    const windowStart = existing.sendCountWindowStart;
+    if (windowStart > oneHourAgo) {
       // Same window
       sendCountWindowStart = existing.sendCountWindowStart;
       sendCountInWindow = existing.sendCountInWindow + 1;
@@ -188,10 +165,7 @@ export async function requestPasswordReset(email: string): Promise<void> {
   }
 
   // Create or update reset request
-  const resetData: Omit<PasswordResetRequest, 'verifiedAt' | 'consumedAt'> & {
-    verifiedAt: null;
-    consumedAt: null;
-  } = {
+  const resetData: PasswordResetRequest = {
     emailLower,
     codeHash,
     salt,
@@ -206,15 +180,15 @@ export async function requestPasswordReset(email: string): Promise<void> {
   };
 
   if (existingDoc) {
-    await existingDoc.ref.update(resetData);
+    await storage.passwordResets.update(existingDoc.id, resetData);
   } else {
-    await firestore.collection('passwordResets').add(resetData);
+    await storage.passwordResets.create(resetData);
   }
 
   // Send email only if user exists (but don't reveal this)
   if (userExists) {
     try {
-      await sendPasswordResetOTP(emailLower, otp);
+      await sendPasswordResetOTP(emailLower, otp, locale);
     } catch (error) {
       console.error('[passwordReset] Failed to send email:', error);
       // Don't throw - we've already saved the request, and we want to return success
@@ -238,27 +212,16 @@ export async function verifyPasswordResetOTP(
     throw new Error('invalid_code');
   }
 
-  const now = admin.firestore.Timestamp.now();
+  const now = Date.now();
 
   // Find latest non-consumed reset request
-  // Note: Firestore doesn't support querying for null directly, so we get all and filter
-  // Also avoiding orderBy to prevent needing a composite index
-  const query = await firestore
-    .collection('passwordResets')
-    .where('emailLower', '==', emailLower)
-    .get();
+  // Note: null can't be queried directly, so we get all and filter
+  const requests = await storage.passwordResets.findByEmail(emailLower);
 
   // Filter for non-consumed requests and sort by createdAt descending
-  const nonConsumedDocs = query.docs
-    .filter(d => {
-      const data = d.data() as PasswordResetRequest;
-      return data.consumedAt === null || data.consumedAt === undefined;
-    })
-    .sort((a, b) => {
-      const aData = a.data() as PasswordResetRequest;
-      const bData = b.data() as PasswordResetRequest;
-      return bData.createdAt.toMillis() - aData.createdAt.toMillis();
-    });
+  const nonConsumedDocs = requests
+    .filter(d => d.data.consumedAt === null || d.data.consumedAt === undefined)
+    .sort((a, b) => b.data.createdAt - a.data.createdAt);
 
   if (nonConsumedDocs.length === 0) {
     throw new Error('invalid_code');
@@ -270,10 +233,10 @@ export async function verifyPasswordResetOTP(
     throw new Error('invalid_code');
   }
 
-  const resetRequest = doc.data() as PasswordResetRequest;
+  const resetRequest = doc.data;
 
   // Check expiration
-  if (resetRequest.expiresAt.toMillis() <= now.toMillis()) {
+  if (resetRequest.expiresAt <= now) {
     throw new Error('expired_code');
   }
 
@@ -288,9 +251,7 @@ export async function verifyPasswordResetOTP(
 
   if (!isValid) {
     // Increment verify attempts
-    await doc.ref.update({
-      verifyAttempts: admin.firestore.FieldValue.increment(1),
-    });
+    await storage.passwordResets.incrementVerifyAttempts(doc.id);
     throw new Error('invalid_code');
   }
 
@@ -309,7 +270,7 @@ export async function verifyPasswordResetOTP(
     }
   );
 
-  await doc.ref.update({
+  await storage.passwordResets.update(doc.id, {
     verifiedAt: now,
   });
 
@@ -352,17 +313,12 @@ export async function confirmPasswordReset(
   }
 
   // Find reset request
-  const resetRequestDoc = await firestore
-    .collection('passwordResets')
-    .doc(resetRequestId)
-    .get();
+  const resetRequest = await storage.passwordResets.get(resetRequestId);
 
-  if (!resetRequestDoc.exists) {
+  if (!resetRequest) {
     throw new Error('invalid_token');
   }
 
-  const resetRequest = resetRequestDoc.data() as PasswordResetRequest;
-
   // Verify email matches
   if (resetRequest.emailLower !== email) {
     throw new Error('invalid_token');
@@ -393,8 +349,8 @@ export async function confirmPasswordReset(
   }
 
   // Mark reset request as consumed
-  await resetRequestDoc.ref.update({
-    consumedAt: admin.firestore.Timestamp.now(),
+  await storage.passwordResets.update(resetRequestId, {
+    consumedAt: Date.now(),
   });
 }
 
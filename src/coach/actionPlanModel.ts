@@ -0,0 +1,80 @@
+/**
+ * Weekly action plan types
+ */
+
+export type PlanCategory =
+  | 'sleep'
+  | 'steps'
+  | 'exercise'
+  | 'nutrition'
+  | 'alcohol'
+  | 'stress'
+  | 'caffeine'
+  | 'screen'
+  | 'bedtime';
+
+export type PlanComparator = 'gte' | 'lte' | 'isFalse';
+
+/**
+ * How each category is checked against a daily entry.
+ * Numeric categories compare the metric to the item's target; boolean ones need the habit to be absent.
+ */
+export const PLAN_CATEGORY_RULES: Record<
+  PlanCategory,
+  { metric: string; comparator: PlanComparator; unit: string | null; min?: number; max?: number }
+> = {
+  sleep: { metric: 'sleepHours', comparator: 'gte', unit: 'hours', min: 4, max: 12 },
+  steps: { metric: 'steps', comparator: 'gte', unit: 'steps', min: 1000, max: 40000 },
+  exercise: { metric: 'vigorousMinutes', comparator: 'gte', unit: 'minutes', min: 5, max: 240 },
+  nutrition: { metric: 'processedFoodScore', comparator: 'lte', unit: 'score (1-5)', min: 1, max: 5 },
+  alcohol: { metric: 'alcoholUnits', comparator: 'lte', unit: 'units', min: 0, max: 10 },
+  stress: { metric: 'stressLevel', comparator: 'lte', unit: 'level (0-10)', min: 0, max: 10 },
+  caffeine: { metric: 'lateCaffeine', comparator: 'isFalse', unit: null },
+  screen: { metric: 'screenLate', comparator: 'isFalse', unit: null },
+  bedtime: { metric: 'bedtimeHour', comparator: 'lte', unit: 'hour (0-24)', min: 20, max: 24 },
+};
+
+export const PLAN_CATEGORIES = Object.keys(PLAN_CATEGORY_RULES) as PlanCategory[];
+
+export interface PlanItem {
+  id: string;
+  category: PlanCategory;
+  title: string; // Short instruction shown to the user, e.g. "Walk 8,000 steps"
+  target: number | null; // null for boolean categories (caffeine, screen)
+  daysOfWeek: number[]; // ISO weekdays, 1 = Monday ... 7 = Sunday
+  notes?: string | null;
+}
+
+export type PlanSource = 'coach' | 'fallback' | 'user';
+
+export interface ActionPlanDocument {
+  userId: string;
+  weekStart: string; // YYYY-MM-DD, Monday of the plan week in the user's timezone
+  summary: string | null;
+  items: PlanItem[];
+  source: PlanSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlanDayStatus = 'met' | 'missed' | 'no_entry' | 'upcoming';
+
+export interface PlanItemProgress {
+  itemId: string;
+  days: Array<{ dateKey: string; status: PlanDayStatus; value: number | boolean | null }>;
+  metCount: number;
+  scheduledCount: number;
+}
+
+export interface ActionPlanProgress {
+  weekStart: string;
+  items: PlanItemProgress[];
+  metCount: number;
+  scheduledCount: number;
+  completionRate: number; // metCount / scheduledCount, 0-1
+}
+
+export interface ActionPlanResponse {
+  plan: ActionPlanDocument;
+  progress: ActionPlanProgress;
+}
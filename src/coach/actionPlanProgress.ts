@@ -0,0 +1,118 @@
+import { DateTime } from 'luxon';
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import {
+  ActionPlanDocument,
+  ActionPlanProgress,
+  PLAN_CATEGORY_RULES,
+  PlanCategory,
+  PlanDayStatus,
+  PlanItem,
+  PlanItemProgress,
+} from './actionPlanModel';
+
+/**
+ * Monday (YYYY-MM-DD) of the ISO week containing dateKey.
+ */
+export function getWeekStart(dateKey: string): string {
+  return DateTime.fromISO(dateKey, { zone: 'UTC' }).startOf('week').toISODate()!;
+}
+
+/**
+ * Whether dateKey is a valid Monday in YYYY-MM-DD form.
+ */
+export function isValidWeekStart(dateKey: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) return false;
+  const date = DateTime.fromISO(dateKey, { zone: 'UTC' });
+  return date.isValid && date.weekday === 1;
+}
+
+/**
+ * Bedtimes after midnight are reported as small hours (e.g. 1 = 01:00);
+ * shift them past 24 so "before 23:00" comparisons work.
+ */
+function normalizeBedtimeHour(hour: number): number {
+  return hour < 12 ? hour + 24 : hour;
+}
+
+/**
+ * The metric a category checks, as recorded by a daily entry (undefined when the entry's
+ * scoring version does not record it).
+ */
+export function categoryMetricValue(category: PlanCategory, entry: DailyEntryDocument): number | boolean | undefined {
+  const rule = PLAN_CATEGORY_RULES[category];
+  return (entry as unknown as Record<string, number | boolean | undefined>)[rule.metric];
+}
+
+const itemMetricValue = (item: PlanItem, entry: DailyEntryDocument) => categoryMetricValue(item.category, entry);
+
+/**
+ * Whether a daily entry meets a category target (null target for boolean categories).
+ */
+export function isCategoryTargetMet(category: PlanCategory, target: number | null, entry: DailyEntryDocument): boolean {
+  const rule = PLAN_CATEGORY_RULES[category];
+  const raw = categoryMetricValue(category, entry);
+  const value = category === 'bedtime' && typeof raw === 'number' ? normalizeBedtimeHour(raw) : raw;
+
+  switch (rule.comparator) {
+    case 'isFalse':
+      return value === false;
+    case 'gte':
+      return typeof value === 'number' && target !== null && value >= target;
+    case 'lte':
+      return typeof value === 'number' && target !== null && value <= target;
+  }
+}
+
+/**
+ * Whether a daily entry satisfies a plan item.
+ */
+export function isPlanItemMet(item: PlanItem, entry: DailyEntryDocument): boolean {
+  return isCategoryTargetMet(item.category, item.target, entry);
+}
+
+/**
+ * Per-item, per-day progress of a plan from the user's daily entries.
+ * Days after todayDateKey are 'upcoming'; today without an entry is also 'upcoming'.
+ */
+export function computePlanProgress(
+  plan: ActionPlanDocument,
+  entries: DailyEntryDocument[],
+  todayDateKey: string
+): ActionPlanProgress {
+  const entriesByDate = new Map(entries.map((entry) => [entry.dateKey || entry.date, entry]));
+  const weekStart = DateTime.fromISO(plan.weekStart, { zone: 'UTC' });
+
+  const items: PlanItemProgress[] = plan.items.map((item) => {
+    const days = item.daysOfWeek.map((weekday) => {
+      const dateKey = weekStart.plus({ days: weekday - 1 }).toISODate()!;
+      const entry = entriesByDate.get(dateKey);
+
+      let status: PlanDayStatus;
+      // Entries from other scoring versions do not record this metric; treat as no data
+      if (entry && itemMetricValue(item, entry) !== undefined) {
+        status = isPlanItemMet(item, entry) ? 'met' : 'missed';
+      } else {
+        status = dateKey >= todayDateKey ? 'upcoming' : 'no_entry';
+      }
+      return { dateKey, status, value: entry ? itemMetricValue(item, entry) ?? null : null };
+    });
+
+    return {
+      itemId: item.id,
+      days,
+      metCount: days.filter((d) => d.status === 'met').length,
+      scheduledCount: days.length,
+    };
+  });
+
+  const metCount = items.reduce((sum, item) => sum + item.metCount, 0);
+  const scheduledCount = items.reduce((sum, item) => sum + item.scheduledCount, 0);
+
+  return {
+    weekStart: plan.weekStart,
+    items,
+    metCount,
+    scheduledCount,
+    completionRate: scheduledCount > 0 ? Math.round((metCount / scheduledCount) * 100) / 100 : 0,
+  };
+}
@@ -0,0 +1,119 @@
+import * as crypto from 'crypto';
+import { PLAN_CATEGORIES, PLAN_CATEGORY_RULES, PlanCategory, PlanItem } from './actionPlanModel';
+
+/**
+ * Schema validation for action plans, applied to both model output and client updates.
+ */
+
+export const MAX_PLAN_ITEMS = 12;
+const MAX_TITLE_LENGTH = 120;
+const MAX_NOTES_LENGTH = 500;
+const MAX_SUMMARY_LENGTH = 1000;
+
+export type PlanValidationResult =
+  | { ok: true; value: { summary: string | null; items: PlanItem[] } }
+  | { ok: false; errors: string[] };
+
+function validateItem(raw: any, index: number, errors: string[]): PlanItem | null {
+  const path = `items[${index}]`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const category = raw.category as PlanCategory;
+  const rule = PLAN_CATEGORY_RULES[category];
+  if (!PLAN_CATEGORIES.includes(category)) {
+    errors.push(`${path}.category must be one of ${PLAN_CATEGORIES.join(', ')}`);
+  }
+
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (title.length === 0 || title.length > MAX_TITLE_LENGTH) {
+    errors.push(`${path}.title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  let target: number | null = null;
+  if (rule && rule.comparator !== 'isFalse') {
+    if (typeof raw.target !== 'number' || !Number.isFinite(raw.target)) {
+      errors.push(`${path}.target must be a number for category ${category}`);
+    } else if ((rule.min !== undefined && raw.target < rule.min) || (rule.max !== undefined && raw.target > rule.max)) {
+      errors.push(`${path}.target must be between ${rule.min} and ${rule.max} for category ${category}`);
+    } else {
+      target = raw.target;
+    }
+  } else if (raw.target !== undefined && raw.target !== null) {
+    errors.push(`${path}.target must be null for category ${category}`);
+  }
+
+  const days = raw.daysOfWeek;
+  if (
+    !Array.isArray(days) ||
+    days.length === 0 ||
+    !days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 1 && (d as number) <= 7)
+  ) {
+    errors.push(`${path}.daysOfWeek must be a non-empty array of ISO weekdays (1 = Monday ... 7 = Sunday)`);
+  }
+
+  let notes: string | null = null;
+  if (raw.notes !== undefined && raw.notes !== null) {
+    if (typeof raw.notes !== 'string' || raw.notes.length > MAX_NOTES_LENGTH) {
+      errors.push(`${path}.notes must be a string of at most ${MAX_NOTES_LENGTH} characters`);
+    } else {
+      notes = raw.notes.trim() || null;
+    }
+  }
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || raw.id.trim().length === 0)) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+
+  if (errors.length > errorCount) return null;
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id.trim() : crypto.randomBytes(6).toString('hex'),
+    category,
+    title,
+    target,
+    daysOfWeek: Array.from(new Set<number>(days)).sort((a, b) => a - b),
+    notes,
+  };
+}
+
+/**
+ * Validate a plan payload ({ summary?, items }). Item ids are generated when missing.
+ */
+export function validatePlanInput(raw: unknown): PlanValidationResult {
+  const errors: string[] = [];
+  const input = raw as any;
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['plan must be an object'] };
+  }
+
+  let summary: string | null = null;
+  if (input.summary !== undefined && input.summary !== null) {
+    if (typeof input.summary !== 'string' || input.summary.length > MAX_SUMMARY_LENGTH) {
+      errors.push(`summary must be a string of at most ${MAX_SUMMARY_LENGTH} characters`);
+    } else {
+      summary = input.summary.trim() || null;
+    }
+  }
+
+  if (!Array.isArray(input.items) || input.items.length === 0 || input.items.length > MAX_PLAN_ITEMS) {
+    errors.push(`items must be an array of 1 to ${MAX_PLAN_ITEMS} plan items`);
+    return { ok: false, errors };
+  }
+
+  const items = input.items.map((item: unknown, index: number) => validateItem(item, index, errors));
+
+  const ids = items.filter((item: PlanItem | null): item is PlanItem => item !== null).map((item: PlanItem) => item.id);
+  if (new Set(ids).size !== ids.length) {
+    errors.push('item ids must be unique');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { summary, items } };
+}
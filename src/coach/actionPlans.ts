@@ -0,0 +1,189 @@
+/**
+ * Coach-generated weekly action plans
+ * The model is asked for a JSON plan which is validated against the plan schema; if it fails
+ * twice, a rule-based plan built from the user's weakest recent metrics is used instead.
+ */
+
+import { llm } from '../config/llm';
+import { storage } from '../config/storage';
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import { getTodayDateKey, listDailyEntries } from '../longevity/longevityStore';
+import { SYSTEM_PROMPT } from '../rag/chat';
+import { describeCheckIn, entryToCheckIn } from '../scoring/engine';
+import {
+  ActionPlanDocument,
+  ActionPlanResponse,
+  PLAN_CATEGORIES,
+  PLAN_CATEGORY_RULES,
+  PlanItem,
+  PlanSource,
+} from './actionPlanModel';
+import { MAX_PLAN_ITEMS, validatePlanInput } from './actionPlanSchema';
+import { computePlanProgress } from './actionPlanProgress';
+
+const RECENT_ENTRY_COUNT = 14;
+const MAX_GENERATION_ATTEMPTS = 2;
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const PLAN_FORMAT_INSTRUCTIONS = `
+Respond with JSON only (no markdown, no prose) matching:
+{
+  "summary": string,            // 1-2 sentences explaining the focus of the week
+  "items": [                    // 2 to ${Math.min(6, MAX_PLAN_ITEMS)} items
+    {
+      "category": one of ${PLAN_CATEGORIES.map((c) => `"${c}"`).join(', ')},
+      "title": string,          // short instruction, e.g. "Walk 8,000 steps"
+      "target": number | null,  // see targets below; null for caffeine and screen
+      "daysOfWeek": number[]    // ISO weekdays, 1 = Monday ... 7 = Sunday
+    }
+  ]
+}
+Targets per category (daily values):
+${PLAN_CATEGORIES.map((category) => {
+  const rule = PLAN_CATEGORY_RULES[category];
+  if (rule.comparator === 'isFalse') return `- ${category}: null (habit avoided that day)`;
+  const direction = rule.comparator === 'gte' ? 'at least' : 'at most';
+  return `- ${category}: ${direction} target ${rule.unit}, between ${rule.min} and ${rule.max}`;
+}).join('\n')}
+`.trim();
+
+function average(entries: DailyEntryDocument[], pick: (entry: DailyEntryDocument) => number): number {
+  return entries.reduce((sum, entry) => sum + pick(entry), 0) / entries.length;
+}
+
+function share(entries: DailyEntryDocument[], pick: (entry: DailyEntryDocument) => boolean): number {
+  return entries.filter(pick).length / entries.length;
+}
+
+/**
+ * Rule-based plan targeting the weakest areas of the recent check-ins
+ * (same thresholds as the daily score).
+ */
+export function buildFallbackPlan(entries: DailyEntryDocument[]): { summary: string; items: Omit<PlanItem, 'id'>[] } {
+  const items: Omit<PlanItem, 'id'>[] = [];
+  // Only metrics-v1 check-ins carry the numeric metrics the plan categories use
+  const metricEntries = entries.filter((e) => entryToCheckIn(e).version === 'metrics-v1');
+
+  if (metricEntries.length > 0) {
+    const sleep = average(metricEntries, (e) => e.sleepHours ?? 0);
+    const steps = average(metricEntries, (e) => e.steps ?? 0);
+    const vigorous = average(metricEntries, (e) => e.vigorousMinutes ?? 0);
+    const food = average(metricEntries, (e) => e.processedFoodScore ?? 0);
+    const alcohol = average(metricEntries, (e) => e.alcoholUnits ?? 0);
+
+    if (sleep < 7) items.push({ category: 'sleep', title: 'Sleep at least 7.5 hours', target: 7.5, daysOfWeek: ALL_DAYS });
+    if (steps < 7000) {
+      const target = Math.min(Math.ceil((steps + 2000) / 500) * 500, 10000);
+      items.push({ category: 'steps', title: `Walk ${target.toLocaleString('en-US')} steps`, target, daysOfWeek: ALL_DAYS });
+    }
+    if (vigorous < 30) items.push({ category: 'exercise', title: '30 minutes of vigorous exercise', target: 30, daysOfWeek: [1, 3, 5] });
+    if (food > 2) items.push({ category: 'nutrition', title: 'Keep processed food to a minimum', target: 2, daysOfWeek: ALL_DAYS });
+    if (alcohol > 1) items.push({ category: 'alcohol', title: 'Alcohol-free day', target: 0, daysOfWeek: [1, 2, 3, 4] });
+    if (share(metricEntries, (e) => !!e.lateCaffeine) > 0.3) items.push({ category: 'caffeine', title: 'No caffeine after 14:00', target: null, daysOfWeek: ALL_DAYS });
+    if (share(metricEntries, (e) => !!e.screenLate) > 0.3) items.push({ category: 'screen', title: 'Screens off an hour before bed', target: null, daysOfWeek: ALL_DAYS });
+  }
+
+  if (items.length === 0) {
+    // Nothing stands out (or no data yet): reinforce the core habits
+    items.push(
+      { category: 'sleep', title: 'Sleep at least 7.5 hours', target: 7.5, daysOfWeek: ALL_DAYS },
+      { category: 'steps', title: 'Walk 8,000 steps', target: 8000, daysOfWeek: ALL_DAYS },
+      { category: 'exercise', title: '30 minutes of vigorous exercise', target: 30, daysOfWeek: [1, 3, 5] }
+    );
+  }
+
+  return {
+    summary: metricEntries.length > 0
+      ? `Focus on the areas that held your score back over your last ${metricEntries.length} check-ins.`
+      : 'A starter plan covering sleep, movement and exercise.',
+    items: items.slice(0, MAX_PLAN_ITEMS),
+  };
+}
+
+function parseJsonReply(reply: string): unknown {
+  // Models sometimes wrap JSON in a code fence despite instructions
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : reply;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object in reply');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+function describeEntries(entries: DailyEntryDocument[]): string {
+  if (entries.length === 0) return 'No daily check-ins yet.';
+  return entries.map((e) => `${e.dateKey || e.date}: ${describeCheckIn(entryToCheckIn(e))}`).join('\n');
+}
+
+/**
+ * Ask the coach for a weekly plan. Returns the validated plan and whether it came from the model.
+ */
+async function requestPlanFromCoach(
+  entries: DailyEntryDocument[],
+  focus: string | null
+): Promise<{ summary: string | null; items: PlanItem[]; source: PlanSource }> {
+  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+    { role: 'system', content: `${SYSTEM_PROMPT}\n\nYou are now writing a structured weekly action plan.\n\n${PLAN_FORMAT_INSTRUCTIONS}` },
+    {
+      role: 'user',
+      content: `RECENT DAILY CHECK-INS:\n${describeEntries(entries)}\n\n${focus ? `USER FOCUS:\n${focus}\n\n` : ''}Create next week's plan.`,
+    },
+  ];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const reply = await llm.complete({ messages, temperature: 0.2 });
+    let errors: string[];
+    try {
+      const result = validatePlanInput(parseJsonReply(reply ?? ''));
+      if (result.ok) {
+        return { ...result.value, source: 'coach' };
+      }
+      errors = result.errors;
+    } catch (error: any) {
+      errors = [`Invalid JSON: ${error?.message}`];
+    }
+
+    console.warn(`[actionPlans] Plan attempt ${attempt} failed validation:`, errors.join('; '));
+    messages.push(
+      { role: 'assistant', content: reply ?? '' },
+      { role: 'user', content: `That plan is invalid:\n- ${errors.join('\n- ')}\nReturn corrected JSON only.` }
+    );
+  }
+
+  const fallback = validatePlanInput(buildFallbackPlan(entries));
+  if (!fallback.ok) {
+    // Fallback plans are built from the same rules; this indicates a bug
+    throw new Error(`Fallback plan is invalid: ${fallback.errors.join('; ')}`);
+  }
+  return { ...fallback.value, source: 'fallback' };
+}
+
+/**
+ * Generate and save the plan for a week, replacing any existing plan for that week.
+ */
+export async function generateWeeklyPlan(params: {
+  userId: string;
+  weekStart: string;
+  focus: string | null;
+}): Promise<ActionPlanDocument> {
+  const entries = (await listDailyEntries(params.userId)).slice(-RECENT_ENTRY_COUNT);
+  const plan = await requestPlanFromCoach(entries, params.focus);
+
+  return storage.actionPlans.save({
+    userId: params.userId,
+    weekStart: params.weekStart,
+    summary: plan.summary,
+    items: plan.items,
+    source: plan.source,
+  });
+}
+
+/**
+ * Plan with progress computed from the user's daily entries.
+ */
+export async function buildPlanResponse(plan: ActionPlanDocument, timezone: string): Promise<ActionPlanResponse> {
+  const entries = await listDailyEntries(plan.userId);
+  return { plan, progress: computePlanProgress(plan, entries, getTodayDateKey(timezone)) };
+}
@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { LLMProvider } from '../llm/provider';
+import { createOpenAIProvider } from '../llm/openaiProvider';
+import { createStubProvider } from '../llm/stubProvider';
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * LLM provider, selected with LLM_PROVIDER:
+ * - openai (default): OpenAI API, requires OPENAI_API_KEY
+ * - openai-compatible: any server speaking the OpenAI API (Ollama, LM Studio, vLLM),
+ *   requires LLM_BASE_URL; LLM_API_KEY is optional
+ * - stub: deterministic offline provider, no network access
+ * LLM_CHAT_MODEL and LLM_EMBEDDING_MODEL override the default models.
+ */
+function createLLMProvider(): LLMProvider {
+  const provider = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase();
+  const chatModel = process.env.LLM_CHAT_MODEL || DEFAULT_CHAT_MODEL;
+  const embeddingModel = process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+  if (provider === 'stub') {
+    console.log('[LLM] Using deterministic stub provider');
+    return createStubProvider();
+  }
+
+  if (provider === 'openai-compatible') {
+    if (!process.env.LLM_BASE_URL) {
+      throw new Error('LLM_BASE_URL not set');
+    }
+    console.log(`[LLM] Using OpenAI-compatible provider at ${process.env.LLM_BASE_URL}`);
+    return createOpenAIProvider({
+      name: 'openai-compatible',
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      baseURL: process.env.LLM_BASE_URL,
+      chatModel,
+      embeddingModel,
+    });
+  }
+
+  if (provider !== 'openai') {
+    throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY not set');
+  }
+  console.log('[LLM] Using OpenAI provider');
+  return createOpenAIProvider({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    chatModel,
+    embeddingModel,
+  });
+}
+
+export const llm: LLMProvider = createLLMProvider();
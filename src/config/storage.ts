@@ -0,0 +1,28 @@
+import { Repository } from '../storage/repository';
+import { createMemoryRepository } from '../storage/memoryRepository';
+
+/**
+ * Persistence backend, selected with STORAGE_BACKEND:
+ * - firestore (default): Google Cloud Firestore
+ * - memory: in-process store for offline runs and integration tests
+ */
+function createRepository(): Repository {
+  const backend = (process.env.STORAGE_BACKEND || 'firestore').trim().toLowerCase();
+
+  if (backend === 'memory') {
+    console.log('[Storage] Using in-memory backend (data is not persisted)');
+    return createMemoryRepository();
+  }
+
+  if (backend !== 'firestore') {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+
+  // Required lazily so the in-memory backend never initializes firebase-admin
+  const { createFirestoreRepository } =
+    require('../storage/firestoreRepository') as typeof import('../storage/firestoreRepository');
+  console.log('[Storage] Using Firestore backend');
+  return createFirestoreRepository();
+}
+
+export const storage: Repository = createRepository();
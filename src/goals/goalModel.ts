@@ -0,0 +1,90 @@
+/**
+ * User goal types
+ */
+
+import { PlanCategory } from '../coach/actionPlanModel';
+
+export type GoalType = 'outcome' | 'behavior';
+
+// biologicalAge: reach a biological age; agingDebtReduction: remove years of aging debt
+export type OutcomeMetric = 'biologicalAge' | 'agingDebtReduction';
+
+export const OUTCOME_METRICS: OutcomeMetric[] = ['biologicalAge', 'agingDebtReduction'];
+
+// achieved and expired are final until the goal is edited
+export type GoalStatus = 'on_track' | 'at_risk' | 'achieved' | 'expired';
+
+export interface GoalStatusChange {
+  status: GoalStatus;
+  at: string; // ISO timestamp
+}
+
+interface GoalBase {
+  id: string;
+  userId: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD in the user's timezone, the day the goal was created
+  deadline: string | null; // YYYY-MM-DD, last day of the goal
+  status: GoalStatus;
+  statusHistory: GoalStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutcomeGoal extends GoalBase {
+  type: 'outcome';
+  metric: OutcomeMetric;
+  target: number; // Biological age to reach, or years of aging debt to remove
+  baselineValue: number; // Biological age or aging debt when the goal was created
+  deadline: string;
+}
+
+export interface BehaviorGoal extends GoalBase {
+  type: 'behavior';
+  category: PlanCategory; // Checked against daily entries like action plan items
+  target: number | null; // null for boolean categories (caffeine, screen)
+  daysPerWeek: number; // Days per ISO week the target has to be met
+}
+
+export type GoalDocument = OutcomeGoal | BehaviorGoal;
+
+/**
+ * Fields a client can set; the rest is derived when the goal is saved.
+ */
+export type GoalInput =
+  | Pick<OutcomeGoal, 'type' | 'title' | 'metric' | 'target' | 'deadline'>
+  | Pick<BehaviorGoal, 'type' | 'title' | 'category' | 'target' | 'daysPerWeek' | 'deadline'>;
+
+export interface OutcomeGoalProgress {
+  type: 'outcome';
+  baselineValue: number;
+  currentValue: number; // Current biological age or aging debt
+  targetValue: number; // Value at which the goal is achieved
+  completion: number; // Share of the way from baseline to target, 0-1
+  expectedCompletion: number; // Share of the goal period elapsed, 0-1
+  projectedValue: number | null; // At the deadline from the recent trend; null without enough check-ins
+  daysLeft: number;
+}
+
+export interface BehaviorWeekProgress {
+  weekStart: string; // Monday, YYYY-MM-DD
+  metDays: number;
+  requiredDays: number; // daysPerWeek, fewer in partial weeks at the start or deadline
+  remainingDays: number; // Days of the week still open for a check-in
+  met: boolean | null; // null while the week can still go either way
+}
+
+export interface BehaviorGoalProgress {
+  type: 'behavior';
+  weeks: BehaviorWeekProgress[]; // From the start week to the current (or deadline) week
+  weeksMet: number;
+  weeksMissed: number;
+  currentWeek: BehaviorWeekProgress | null;
+}
+
+export type GoalProgress = OutcomeGoalProgress | BehaviorGoalProgress;
+
+export interface GoalResponse {
+  goal: GoalDocument;
+  progress: GoalProgress;
+}
@@ -0,0 +1,332 @@
+/**
+ * Tests for goal validation, progress and status transitions (in-memory storage)
+ * Run with: npx ts-node src/goals/goalProgress.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { storage } from '../config/storage';
+import { getTodayDateKey } from '../longevity/longevityStore';
+import { DailyEntryDocument, UserDocument } from '../longevity/longevityModel';
+import { BehaviorGoal, OutcomeGoal } from './goalModel';
+import { computeGoalProgress, nextGoalStatus } from './goalProgress';
+import { validateGoalInput, validateGoalUpdate } from './goalSchema';
+import { buildGoal, buildGoalResponse } from './goals';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+function user(overrides: Partial<UserDocument> = {}): UserDocument {
+  return {
+    userId: 'goal-user',
+    timezone: 'UTC',
+    chronologicalAgeYears: 40,
+    onboardingAnswers: {} as UserDocument['onboardingAnswers'],
+    onboardingTotalScore: 0,
+    baselineBiologicalAgeYears: 42,
+    baselineBAOYears: 2,
+    currentBiologicalAgeYears: 42,
+    currentAgingDebtYears: 2,
+    rejuvenationStreakDays: 0,
+    accelerationStreakDays: 0,
+    totalRejuvenationDays: 0,
+    totalAccelerationDays: 0,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function entry(dateKey: string, overrides: Partial<DailyEntryDocument> = {}): DailyEntryDocument {
+  return {
+    userId: 'goal-user',
+    dateKey,
+    date: dateKey,
+    sleepHours: 7,
+    steps: 10000,
+    vigorousMinutes: 20,
+    processedFoodScore: 2,
+    alcoholUnits: 0,
+    stressLevel: 4,
+    lateCaffeine: false,
+    screenLate: false,
+    bedtimeHour: 23,
+    score: 0,
+    deltaYears: 0,
+    reasons: [],
+    createdAt: `${dateKey}T20:00:00.000Z`,
+    ...overrides,
+  };
+}
+
+function outcomeGoal(overrides: Partial<OutcomeGoal> = {}): OutcomeGoal {
+  return {
+    id: 'outcome',
+    userId: 'goal-user',
+    type: 'outcome',
+    title: 'Reach 40',
+    metric: 'biologicalAge',
+    target: 40,
+    baselineValue: 42,
+    startDate: '2025-03-01',
+    deadline: '2025-05-30',
+    status: 'on_track',
+    statusHistory: [],
+    createdAt: '2025-03-01T08:00:00.000Z',
+    updatedAt: '2025-03-01T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function behaviorGoal(overrides: Partial<BehaviorGoal> = {}): BehaviorGoal {
+  return {
+    id: 'behavior',
+    userId: 'goal-user',
+    type: 'behavior',
+    title: '10k steps 5 days a week',
+    category: 'steps',
+    target: 10000,
+    daysPerWeek: 5,
+    startDate: '2025-03-03', // Monday
+    deadline: null,
+    status: 'on_track',
+    statusHistory: [],
+    createdAt: '2025-03-03T08:00:00.000Z',
+    updatedAt: '2025-03-03T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Consecutive days from a start date
+function days(start: string, count: number, overrides: (i: number) => Partial<DailyEntryDocument> = () => ({})) {
+  const first = new Date(`${start}T00:00:00Z`).getTime();
+  return Array.from({ length: count }, (_, i) =>
+    entry(new Date(first + i * 86400000).toISOString().slice(0, 10), overrides(i))
+  );
+}
+
+// Test 1: Schema validation
+function testSchema() {
+  console.log('\n=== Test 1: Goal schema ===');
+
+  const outcome = validateGoalInput(
+    { type: 'outcome', title: 'Reach 40', metric: 'biologicalAge', target: 40, deadline: '2025-06-01' },
+    '2025-03-01'
+  );
+  assert(outcome.ok && outcome.value.type === 'outcome', 'Valid outcome goal passes');
+
+  const noDeadline = validateGoalInput({ type: 'outcome', title: 'x', metric: 'agingDebtReduction', target: 1 }, '2025-03-01');
+  assert(
+    !noDeadline.ok && noDeadline.errors.includes('deadline is required for outcome goals'),
+    'Outcome goals need a deadline'
+  );
+
+  const pastDeadline = validateGoalInput(
+    { type: 'behavior', title: 'x', category: 'steps', target: 10000, daysPerWeek: 5, deadline: '2025-02-01' },
+    '2025-03-01'
+  );
+  assert(!pastDeadline.ok, 'Deadlines in the past are rejected');
+
+  const behavior = validateGoalInput(
+    { type: 'behavior', title: 'No late coffee', category: 'caffeine', target: null, daysPerWeek: 7 },
+    '2025-03-01'
+  );
+  assert(behavior.ok && behavior.value.deadline === null, 'Behavior goals can be open-ended');
+
+  const invalid = validateGoalInput({ type: 'behavior', title: '', category: 'steps', target: 50, daysPerWeek: 8 }, '2025-03-01');
+  assert(!invalid.ok && invalid.errors.length === 3, 'Title, target range and daysPerWeek are all reported');
+
+  const update = validateGoalUpdate(outcomeGoal(), { title: 'Reach 39', target: 39 }, '2025-07-01');
+  assert(update.ok && update.value.target === 39, 'Edits may keep a deadline that has passed');
+
+  const typeChange = validateGoalUpdate(outcomeGoal(), { metric: 'agingDebtReduction' }, '2025-03-10');
+  assert(!typeChange.ok && typeChange.errors[0] === 'metric cannot be changed', 'Metric cannot be changed');
+}
+
+// Test 2: Outcome goal status
+function testOutcomeGoals() {
+  console.log('\n=== Test 2: Outcome goal progress ===');
+
+  const goal = outcomeGoal();
+
+  const achieved = computeGoalProgress(goal, {
+    user: user({ currentBiologicalAgeYears: 39.9 }),
+    entries: [],
+    todayDateKey: '2025-04-01',
+    timezone: 'UTC',
+  });
+  assert(
+    achieved.status === 'achieved' && achieved.progress.type === 'outcome' && achieved.progress.completion === 1,
+    'Reaching the target achieves the goal'
+  );
+
+  const expired = computeGoalProgress(goal, {
+    user: user({ currentBiologicalAgeYears: 41 }),
+    entries: [],
+    todayDateKey: '2025-06-01',
+    timezone: 'UTC',
+  });
+  assert(expired.status === 'expired', 'Passing the deadline first expires the goal');
+
+  // Half the time gone, a quarter of the way there, no trend to project
+  const behind = computeGoalProgress(goal, {
+    user: user({ currentBiologicalAgeYears: 41.5 }),
+    entries: [],
+    todayDateKey: '2025-04-15',
+    timezone: 'UTC',
+  });
+  assert(behind.status === 'at_risk', 'Without a trend, falling behind the elapsed time is at risk');
+  assert(
+    behind.progress.type === 'outcome' && behind.progress.completion === 0.25 && behind.progress.projectedValue === null,
+    'Completion is the share of the way from baseline to target'
+  );
+
+  // Rejuvenating 0.05 years a day projects well past the target
+  const trending = computeGoalProgress(goal, {
+    user: user({ currentBiologicalAgeYears: 41.5 }),
+    entries: days('2025-04-01', 15, (i) => ({ deltaYears: i === 0 ? 0 : -0.05 })),
+    todayDateKey: '2025-04-15',
+    timezone: 'UTC',
+  });
+  assert(trending.status === 'on_track', 'A rejuvenating trend that reaches the target is on track');
+  assert(
+    trending.progress.type === 'outcome' && trending.progress.projectedValue !== null && trending.progress.projectedValue < 40,
+    'Projected value comes from the recent trend'
+  );
+
+  const debt = computeGoalProgress(outcomeGoal({ metric: 'agingDebtReduction', target: 1, baselineValue: 2 }), {
+    user: user({ currentAgingDebtYears: 0.9 }),
+    entries: [],
+    todayDateKey: '2025-04-01',
+    timezone: 'UTC',
+  });
+  assert(
+    debt.status === 'achieved' && debt.progress.type === 'outcome' && debt.progress.targetValue === 1,
+    'Aging debt goals target baseline minus the reduction'
+  );
+}
+
+// Test 3: Behavior goal status
+function testBehaviorGoals() {
+  console.log('\n=== Test 3: Behavior goal progress ===');
+
+  // First week: 5 days at 10k steps; second week (through Wednesday): 1 of 3 days
+  const entries = [
+    ...days('2025-03-03', 7, (i) => ({ steps: i < 5 ? 10000 : 3000 })),
+    ...days('2025-03-10', 3, (i) => ({ steps: i === 0 ? 12000 : 4000 })),
+  ];
+  const open = computeGoalProgress(behaviorGoal(), { user: user(), entries, todayDateKey: '2025-03-12', timezone: 'UTC' });
+  assert(open.progress.type === 'behavior' && open.progress.weeks.length === 2, 'One progress row per ISO week');
+  assert(open.progress.type === 'behavior' && open.progress.weeks[0].met === true, 'First week met');
+  assert(
+    open.progress.type === 'behavior' &&
+      open.progress.currentWeek?.met === null &&
+      open.progress.currentWeek.remainingDays === 4 &&
+      open.status === 'on_track',
+    'Current week can still be met on the four days left'
+  );
+
+  const lost = computeGoalProgress(behaviorGoal(), { user: user(), entries, todayDateKey: '2025-03-15', timezone: 'UTC' });
+  assert(
+    lost.progress.type === 'behavior' && lost.progress.currentWeek?.met === false && lost.status === 'at_risk',
+    'A week that can no longer be met is at risk'
+  );
+
+  // Deadline mid-week: the last week needs only the days up to the deadline
+  const deadline = behaviorGoal({ daysPerWeek: 5, deadline: '2025-03-11' });
+  const achieved = computeGoalProgress(deadline, {
+    user: user(),
+    entries: [...days('2025-03-03', 5), ...days('2025-03-10', 2)],
+    todayDateKey: '2025-03-11',
+    timezone: 'UTC',
+  });
+  assert(
+    achieved.progress.type === 'behavior' && achieved.progress.weeks[1].requiredDays === 2 && achieved.status === 'achieved',
+    'Meeting every week through the deadline achieves the goal'
+  );
+
+  const expired = computeGoalProgress(deadline, { user: user(), entries, todayDateKey: '2025-03-20', timezone: 'UTC' });
+  assert(expired.status === 'expired', 'Missing a week and passing the deadline expires the goal');
+
+  const bedtime = computeGoalProgress(
+    behaviorGoal({ category: 'bedtime', target: 23, daysPerWeek: 2 }),
+    {
+      user: user(),
+      entries: days('2025-03-03', 3, (i) => ({ bedtimeHour: [22, 1, 23][i] })),
+      todayDateKey: '2025-03-05',
+      timezone: 'UTC',
+    }
+  );
+  assert(
+    bedtime.progress.type === 'behavior' && bedtime.progress.weeks[0].metDays === 2,
+    'Bedtimes after midnight miss a before-23:00 target'
+  );
+
+  assert(nextGoalStatus('achieved', 'at_risk') === 'achieved', 'Achieved goals stay achieved');
+  assert(nextGoalStatus('at_risk', 'on_track') === 'on_track', 'Active goals follow the numbers');
+}
+
+// Test 4: Status transitions are recorded
+async function testStatusHistory() {
+  console.log('\n=== Test 4: Status history ===');
+
+  const owner = user({ userId: 'history-user', currentBiologicalAgeYears: 42 });
+  const today = getTodayDateKey('UTC');
+  const validation = validateGoalInput(
+    { type: 'outcome', title: 'Reach 41', metric: 'biologicalAge', target: 41, deadline: '2099-01-01' },
+    today
+  );
+  assert(!validation.ok, 'Deadlines beyond the maximum are rejected');
+
+  const deadline = new Date(Date.now() + 60 * 86400000).toISOString().slice(0, 10);
+  const input = validateGoalInput({ type: 'outcome', title: 'Reach 41', metric: 'biologicalAge', target: 41, deadline }, today);
+  if (!input.ok) throw new Error(input.errors.join('; '));
+
+  const goal = buildGoal(owner, input.value, today);
+  assert(goal.type === 'outcome' && goal.baselineValue === 42, 'Baseline is the current biological age');
+
+  const first = await buildGoalResponse(goal, owner);
+  assert(
+    first.goal.statusHistory.length === 1 && first.goal.statusHistory[0].status === 'on_track',
+    'First evaluation records the status'
+  );
+
+  const achieved = await buildGoalResponse(first.goal, { ...owner, currentBiologicalAgeYears: 40.8 });
+  assert(
+    achieved.goal.status === 'achieved' && achieved.goal.statusHistory.length === 2,
+    'Transition to achieved is recorded'
+  );
+
+  const regressed = await buildGoalResponse(achieved.goal, { ...owner, currentBiologicalAgeYears: 42 });
+  assert(regressed.goal.status === 'achieved', 'Achieved goal stays achieved after a rebound');
+
+  const stored = await storage.goals.get('history-user', goal.id);
+  assert(stored?.status === 'achieved' && stored.statusHistory.length === 2, 'Transitions are saved');
+}
+
+async function runTests() {
+  console.log('🧪 Running Goal Tests\n');
+
+  try {
+    testSchema();
+    testOutcomeGoals();
+    testBehaviorGoals();
+    await testStatusHistory();
+
+    console.log('\n✅ All goal tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,187 @@
+import { DateTime } from 'luxon';
+import { categoryMetricValue, getWeekStart, isCategoryTargetMet } from '../coach/actionPlanProgress';
+import { DailyEntryDocument, UserDocument } from '../longevity/longevityModel';
+import { projectTrend } from '../longevity/trendProjection';
+import {
+  BehaviorGoal,
+  BehaviorGoalProgress,
+  BehaviorWeekProgress,
+  GoalDocument,
+  GoalProgress,
+  GoalStatus,
+  OutcomeGoal,
+  OutcomeGoalProgress,
+} from './goalModel';
+
+/**
+ * Goal progress and status from daily entries and the user's current biological age.
+ *
+ * Outcome goals are achieved once the metric reaches the target and expire when the deadline
+ * passes first. In between they are on track when the recent trend (or, without enough
+ * check-ins, the progress so far against the time elapsed) reaches the target by the deadline.
+ *
+ * Behavior goals count the days each ISO week the category target was met. A goal with a
+ * deadline is achieved when every week up to the deadline was met and is at risk as soon as
+ * one was missed; an open-ended goal is at risk while the current or previous week is missed.
+ */
+
+const FINAL_STATUSES: GoalStatus[] = ['achieved', 'expired'];
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function daysFrom(fromDateKey: string, toDateKey: string): number {
+  return Math.round(
+    DateTime.fromISO(toDateKey, { zone: 'UTC' }).diff(DateTime.fromISO(fromDateKey, { zone: 'UTC' }), 'days').days
+  );
+}
+
+/**
+ * The value of an outcome goal's metric for the user (lower is better for both metrics).
+ */
+export function currentOutcomeValue(goal: Pick<OutcomeGoal, 'metric'>, user: UserDocument): number {
+  return goal.metric === 'biologicalAge' ? user.currentBiologicalAgeYears : user.currentAgingDebtYears;
+}
+
+function outcomeTargetValue(goal: OutcomeGoal): number {
+  return goal.metric === 'biologicalAge' ? goal.target : goal.baselineValue - goal.target;
+}
+
+function computeOutcomeProgress(
+  goal: OutcomeGoal,
+  user: UserDocument,
+  entries: DailyEntryDocument[],
+  todayDateKey: string,
+  timezone: string
+): { status: GoalStatus; progress: OutcomeGoalProgress } {
+  const currentValue = currentOutcomeValue(goal, user);
+  const targetValue = outcomeTargetValue(goal);
+  const range = goal.baselineValue - targetValue;
+  const totalDays = Math.max(daysFrom(goal.startDate, goal.deadline), 1);
+  const daysLeft = Math.max(daysFrom(todayDateKey, goal.deadline), 0);
+
+  // Biological age and aging debt move by the same daily deltas
+  const projection = daysLeft > 0 ? projectTrend(entries, { horizonDays: daysLeft, todayDateKey, timezone }) : null;
+  const projectedValue = projection ? currentValue + projection.value : null;
+
+  const completion = range > 0 ? clamp01((goal.baselineValue - currentValue) / range) : 1;
+  const expectedCompletion = clamp01(daysFrom(goal.startDate, todayDateKey) / totalDays);
+
+  let status: GoalStatus;
+  if (currentValue <= targetValue) {
+    status = 'achieved';
+  } else if (todayDateKey > goal.deadline) {
+    status = 'expired';
+  } else if (projectedValue !== null) {
+    status = projectedValue <= targetValue ? 'on_track' : 'at_risk';
+  } else {
+    status = completion >= expectedCompletion ? 'on_track' : 'at_risk';
+  }
+
+  return {
+    status,
+    progress: {
+      type: 'outcome',
+      baselineValue: round(goal.baselineValue, 2),
+      currentValue: round(currentValue, 2),
+      targetValue: round(targetValue, 2),
+      completion: round(completion, 2),
+      expectedCompletion: round(expectedCompletion, 2),
+      projectedValue: projectedValue === null ? null : round(projectedValue, 2),
+      daysLeft,
+    },
+  };
+}
+
+function computeBehaviorProgress(
+  goal: BehaviorGoal,
+  entries: DailyEntryDocument[],
+  todayDateKey: string
+): { status: GoalStatus; progress: BehaviorGoalProgress } {
+  const entriesByDate = new Map(entries.map((entry) => [entryDateKey(entry), entry]));
+  const lastDay = goal.deadline !== null && goal.deadline < todayDateKey ? goal.deadline : todayDateKey;
+
+  const weeks: BehaviorWeekProgress[] = [];
+  let weekStart = DateTime.fromISO(getWeekStart(goal.startDate), { zone: 'UTC' });
+  while (weekStart.toISODate()! <= lastDay) {
+    let activeDays = 0;
+    let metDays = 0;
+    let remainingDays = 0;
+    for (let i = 0; i < 7; i++) {
+      const dateKey = weekStart.plus({ days: i }).toISODate()!;
+      if (dateKey < goal.startDate || (goal.deadline !== null && dateKey > goal.deadline)) continue;
+      activeDays++;
+
+      const entry = entriesByDate.get(dateKey);
+      // Entries from other scoring versions do not record this metric and count as not met
+      if (entry && categoryMetricValue(goal.category, entry) !== undefined) {
+        if (isCategoryTargetMet(goal.category, goal.target, entry)) metDays++;
+      } else if (!entry && dateKey >= todayDateKey) {
+        remainingDays++;
+      }
+    }
+
+    const requiredDays = Math.min(goal.daysPerWeek, activeDays);
+    weeks.push({
+      weekStart: weekStart.toISODate()!,
+      metDays,
+      requiredDays,
+      remainingDays,
+      met: metDays >= requiredDays ? true : metDays + remainingDays < requiredDays ? false : null,
+    });
+    weekStart = weekStart.plus({ weeks: 1 });
+  }
+
+  const currentWeek = weeks.length > 0 ? weeks[weeks.length - 1] : null;
+  let status: GoalStatus;
+  if (goal.deadline !== null) {
+    const reachedDeadlineWeek = currentWeek?.weekStart === getWeekStart(goal.deadline);
+    if (reachedDeadlineWeek && weeks.every((week) => week.met === true)) {
+      status = 'achieved';
+    } else if (todayDateKey > goal.deadline) {
+      status = 'expired';
+    } else {
+      status = weeks.some((week) => week.met === false) ? 'at_risk' : 'on_track';
+    }
+  } else {
+    status = weeks.slice(-2).some((week) => week.met === false) ? 'at_risk' : 'on_track';
+  }
+
+  return {
+    status,
+    progress: {
+      type: 'behavior',
+      weeks,
+      weeksMet: weeks.filter((week) => week.met === true).length,
+      weeksMissed: weeks.filter((week) => week.met === false).length,
+      currentWeek,
+    },
+  };
+}
+
+/**
+ * Progress of a goal and the status it has by the numbers today. Use nextGoalStatus to
+ * apply it, since achieved and expired goals keep their status.
+ */
+export function computeGoalProgress(
+  goal: GoalDocument,
+  params: { user: UserDocument; entries: DailyEntryDocument[]; todayDateKey: string; timezone: string }
+): { status: GoalStatus; progress: GoalProgress } {
+  const { user, entries, todayDateKey, timezone } = params;
+  return goal.type === 'outcome'
+    ? computeOutcomeProgress(goal, user, entries, todayDateKey, timezone)
+    : computeBehaviorProgress(goal, entries, todayDateKey);
+}
+
+/**
+ * Status a goal moves to: achieved and expired are final, anything else follows the numbers.
+ */
+export function nextGoalStatus(current: GoalStatus, computed: GoalStatus): GoalStatus {
+  return FINAL_STATUSES.includes(current) ? current : computed;
+}
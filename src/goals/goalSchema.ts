@@ -0,0 +1,150 @@
+import { DateTime } from 'luxon';
+import { PLAN_CATEGORIES, PLAN_CATEGORY_RULES, PlanCategory } from '../coach/actionPlanModel';
+import { GoalDocument, GoalInput, OUTCOME_METRICS, OutcomeMetric } from './goalModel';
+
+/**
+ * Schema validation for goals created or edited by clients.
+ */
+
+export const MAX_GOALS = 20;
+// Deadlines further out than this are rejected
+export const MAX_GOAL_DAYS = 3650;
+const MAX_TITLE_LENGTH = 120;
+
+// Allowed targets per outcome metric (years)
+const OUTCOME_TARGET_RANGES: Record<OutcomeMetric, { min: number; max: number }> = {
+  biologicalAge: { min: 1, max: 150 },
+  agingDebtReduction: { min: 0.1, max: 30 },
+};
+
+export type GoalValidationResult = { ok: true; value: GoalInput } | { ok: false; errors: string[] };
+
+function validateDeadline(
+  raw: unknown,
+  todayDateKey: string,
+  options: { required: boolean; currentDeadline?: string | null },
+  errors: string[]
+): string | null {
+  // An edit that keeps a deadline already in the past is fine
+  if (options.currentDeadline && raw === options.currentDeadline) {
+    return raw;
+  }
+  if (raw === undefined || raw === null) {
+    if (options.required) errors.push('deadline is required for outcome goals');
+    return null;
+  }
+  const date = typeof raw === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? DateTime.fromISO(raw, { zone: 'UTC' }) : null;
+  if (!date || !date.isValid) {
+    errors.push('deadline must be a date in YYYY-MM-DD format');
+    return null;
+  }
+  const days = date.diff(DateTime.fromISO(todayDateKey, { zone: 'UTC' }), 'days').days;
+  if (days < 0 || days > MAX_GOAL_DAYS) {
+    errors.push(`deadline must be between today and ${MAX_GOAL_DAYS} days from now`);
+    return null;
+  }
+  return raw as string;
+}
+
+/**
+ * Validate a goal payload against today's date in the user's timezone. Outcome goals take
+ * { type: "outcome", title, metric, target, deadline }; behavior goals take
+ * { type: "behavior", title, category, target, daysPerWeek, deadline? }.
+ */
+export function validateGoalInput(
+  raw: unknown,
+  todayDateKey: string,
+  currentDeadline: string | null = null
+): GoalValidationResult {
+  const errors: string[] = [];
+  const input = raw as any;
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['goal must be an object'] };
+  }
+
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (title.length === 0 || title.length > MAX_TITLE_LENGTH) {
+    errors.push(`title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  if (input.type === 'outcome') {
+    const metric = input.metric as OutcomeMetric;
+    const range = OUTCOME_TARGET_RANGES[metric];
+    if (!OUTCOME_METRICS.includes(metric)) {
+      errors.push(`metric must be one of ${OUTCOME_METRICS.join(', ')}`);
+    } else if (typeof input.target !== 'number' || !Number.isFinite(input.target)) {
+      errors.push(`target must be a number for metric ${metric}`);
+    } else if (input.target < range.min || input.target > range.max) {
+      errors.push(`target must be between ${range.min} and ${range.max} for metric ${metric}`);
+    }
+    const deadline = validateDeadline(input.deadline, todayDateKey, { required: true, currentDeadline }, errors);
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: { type: 'outcome', title, metric, target: input.target, deadline: deadline! } };
+  }
+
+  if (input.type === 'behavior') {
+    const category = input.category as PlanCategory;
+    const rule = PLAN_CATEGORY_RULES[category];
+    if (!PLAN_CATEGORIES.includes(category)) {
+      errors.push(`category must be one of ${PLAN_CATEGORIES.join(', ')}`);
+    }
+
+    let target: number | null = null;
+    if (rule && rule.comparator !== 'isFalse') {
+      if (typeof input.target !== 'number' || !Number.isFinite(input.target)) {
+        errors.push(`target must be a number for category ${category}`);
+      } else if ((rule.min !== undefined && input.target < rule.min) || (rule.max !== undefined && input.target > rule.max)) {
+        errors.push(`target must be between ${rule.min} and ${rule.max} for category ${category}`);
+      } else {
+        target = input.target;
+      }
+    } else if (input.target !== undefined && input.target !== null) {
+      errors.push(`target must be null for category ${category}`);
+    }
+
+    if (!Number.isInteger(input.daysPerWeek) || input.daysPerWeek < 1 || input.daysPerWeek > 7) {
+      errors.push('daysPerWeek must be an integer from 1 to 7');
+    }
+    const deadline = validateDeadline(input.deadline, todayDateKey, { required: false, currentDeadline }, errors);
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: { type: 'behavior', title, category, target, daysPerWeek: input.daysPerWeek, deadline } };
+  }
+
+  errors.push('type must be one of outcome, behavior');
+  return { ok: false, errors };
+}
+
+/**
+ * Validate an edit: the body is merged over the goal's current input. The type, metric and
+ * category of a goal cannot change; create a new goal instead.
+ */
+export function validateGoalUpdate(goal: GoalDocument, raw: unknown, todayDateKey: string): GoalValidationResult {
+  const update = raw as any;
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return { ok: false, errors: ['goal must be an object'] };
+  }
+
+  const errors: string[] = [];
+  for (const field of ['type', 'metric', 'category'] as const) {
+    if (update[field] !== undefined && update[field] !== (goal as any)[field]) {
+      errors.push(`${field} cannot be changed`);
+    }
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const current =
+    goal.type === 'outcome'
+      ? { type: goal.type, title: goal.title, metric: goal.metric, target: goal.target, deadline: goal.deadline }
+      : {
+          type: goal.type,
+          title: goal.title,
+          category: goal.category,
+          target: goal.target,
+          daysPerWeek: goal.daysPerWeek,
+          deadline: goal.deadline,
+        };
+  return validateGoalInput({ ...current, ...update }, todayDateKey, goal.deadline);
+}
@@ -0,0 +1,92 @@
+/**
+ * User goals
+ * Outcome goals (reach a biological age, remove aging debt) and behavior goals (meet a daily
+ * habit target N days a week). Status is re-evaluated whenever a goal is read, and every
+ * change is appended to the goal's status history.
+ */
+
+import * as crypto from 'crypto';
+import { storage } from '../config/storage';
+import { DailyEntryDocument, UserDocument } from '../longevity/longevityModel';
+import { getTodayDateKey, listDailyEntries } from '../longevity/longevityStore';
+import { GoalDocument, GoalInput, GoalResponse, GoalStatus } from './goalModel';
+import { computeGoalProgress, currentOutcomeValue, nextGoalStatus } from './goalProgress';
+
+/**
+ * New goal from validated input. Outcome goals capture the user's current value as baseline.
+ * The status is provisional until the goal is first evaluated.
+ */
+export function buildGoal(user: UserDocument, input: GoalInput, todayDateKey: string): GoalDocument {
+  const now = new Date().toISOString();
+  const base = {
+    id: crypto.randomBytes(6).toString('hex'),
+    userId: user.userId,
+    startDate: todayDateKey,
+    status: 'on_track' as GoalStatus,
+    statusHistory: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return input.type === 'outcome'
+    ? { ...base, ...input, baselineValue: currentOutcomeValue(input, user) }
+    : { ...base, ...input };
+}
+
+/**
+ * Goal with its progress, moving it to its next status (saved when it changed).
+ * force re-evaluates achieved and expired goals too, e.g. after an edit.
+ */
+export async function evaluateGoal(
+  goal: GoalDocument,
+  user: UserDocument,
+  entries: DailyEntryDocument[],
+  options: { force?: boolean } = {}
+): Promise<GoalResponse> {
+  const timezone = user.timezone || 'UTC';
+  const { status: computed, progress } = computeGoalProgress(goal, {
+    user,
+    entries,
+    todayDateKey: getTodayDateKey(timezone),
+    timezone,
+  });
+
+  const status = options.force ? computed : nextGoalStatus(goal.status, computed);
+  const changed = status !== goal.status || goal.statusHistory.length === 0;
+  // Edited goals are saved even when their status holds
+  if (!changed && !options.force) {
+    return { goal, progress };
+  }
+
+  const now = new Date().toISOString();
+  const saved: GoalDocument = {
+    ...goal,
+    status,
+    statusHistory: changed ? [...goal.statusHistory, { status, at: now }] : goal.statusHistory,
+    updatedAt: now,
+  };
+  await storage.goals.save(saved);
+  return { goal: saved, progress };
+}
+
+/**
+ * All of a user's goals with progress, newest first.
+ */
+export async function listGoalResponses(user: UserDocument): Promise<GoalResponse[]> {
+  const [goals, entries] = await Promise.all([storage.goals.list(user.userId), listDailyEntries(user.userId)]);
+  const responses: GoalResponse[] = [];
+  for (const goal of goals) {
+    responses.push(await evaluateGoal(goal, user, entries));
+  }
+  return responses;
+}
+
+/**
+ * One goal with progress.
+ */
+export async function buildGoalResponse(
+  goal: GoalDocument,
+  user: UserDocument,
+  options: { force?: boolean } = {}
+): Promise<GoalResponse> {
+  return evaluateGoal(goal, user, await listDailyEntries(user.userId), options);
+}
@@ -0,0 +1,139 @@
+/**
+ * HealthKit ingestion
+ * Stores per-day device metrics from sample batches and fills them into metrics-v1 check-ins.
+ * Each day keeps the samples it was aggregated from, so a batch may hold part of a day (a
+ * morning sync, then an evening one): it is merged with the stored samples by sample id and the
+ * day is aggregated again. Answers typed by the user always win over the device
+ * (see ../longevity/provenance).
+ */
+
+import { DateTime } from 'luxon';
+import { storage } from '../config/storage';
+import { EntryProvenance, MetricSource } from '../longevity/longevityModel';
+import { resolveAnswerSources, splitBySource } from '../longevity/provenance';
+import { detectScoringVersion } from '../scoring/engine';
+import { DEVICE_METRIC_KEYS, DeviceMetrics, HealthDailyMetricsDocument, HealthSample } from './healthModel';
+import { aggregateHealthSamples, sampleDateKeys } from './healthSamples';
+
+export interface DeviceMetricsDay {
+  dateKey: string;
+  metrics: DeviceMetrics;
+  samples?: HealthSample[];
+}
+
+const shiftDateKey = (dateKey: string, days: number) =>
+  DateTime.fromISO(dateKey, { zone: 'UTC' }).plus({ days }).toISODate()!;
+
+function pickDeviceMetrics(record: DeviceMetrics | null | undefined): DeviceMetrics {
+  const metrics: DeviceMetrics = {};
+  for (const key of DEVICE_METRIC_KEYS) {
+    if (typeof record?.[key] === 'number') metrics[key] = record[key];
+  }
+  return metrics;
+}
+
+/**
+ * Merge a batch of samples with the stored ones (deduplicated by id) and aggregate them again
+ * in the user's timezone. Returns each day whose metrics were recomputed, with the samples
+ * touching it; stored metrics no sample covers are kept. Nothing is saved.
+ */
+export async function mergeHealthSamples(
+  userId: string,
+  samples: HealthSample[],
+  timezone: string
+): Promise<DeviceMetricsDay[]> {
+  const touched = new Set(samples.flatMap((sample) => sampleDateKeys(sample, timezone)));
+  // Sleep ending on the day after a touched one may have changed; a day's sleep is aggregated
+  // from the samples of that day and the one before
+  const recomputed = new Set(Array.from(touched).flatMap((dateKey) => [dateKey, shiftDateKey(dateKey, 1)]));
+  const loaded = new Set(Array.from(recomputed).flatMap((dateKey) => [shiftDateKey(dateKey, -1), dateKey]));
+  const stored = new Map<string, HealthDailyMetricsDocument>();
+  for (const record of await Promise.all(
+    Array.from(loaded).map((dateKey) => storage.healthMetrics.get(userId, dateKey))
+  )) {
+    if (record) stored.set(record.dateKey, record);
+  }
+
+  const merged = new Map<string, HealthSample>();
+  for (const record of stored.values()) {
+    for (const sample of record.samples ?? []) merged.set(sample.id, sample);
+  }
+  for (const sample of samples) merged.set(sample.id, sample);
+
+  const samplesByDay = new Map<string, HealthSample[]>();
+  for (const sample of merged.values()) {
+    for (const dateKey of sampleDateKeys(sample, timezone)) {
+      samplesByDay.set(dateKey, [...(samplesByDay.get(dateKey) ?? []), sample]);
+    }
+  }
+  const aggregated = aggregateHealthSamples(Array.from(merged.values()), timezone);
+
+  const days: DeviceMetricsDay[] = [];
+  for (const dateKey of Array.from(recomputed).sort()) {
+    const previous = pickDeviceMetrics(stored.get(dateKey));
+    const metrics = { ...previous, ...aggregated.get(dateKey) };
+    if (!touched.has(dateKey) && JSON.stringify(metrics) === JSON.stringify(previous)) continue;
+    days.push({ dateKey, metrics, samples: samplesByDay.get(dateKey) ?? [] });
+  }
+  return days;
+}
+
+/**
+ * Save merged device metrics (from mergeHealthSamples).
+ */
+export async function saveDeviceMetrics(userId: string, days: DeviceMetricsDay[]): Promise<void> {
+  if (days.length === 0) return;
+  await storage.healthMetrics.saveMany(
+    userId,
+    days.map((day) => ({ dateKey: day.dateKey, ...day.metrics, ...(day.samples ? { samples: day.samples } : {}) }))
+  );
+}
+
+/**
+ * Device metrics recorded for a day, or null when none were ingested.
+ */
+export async function getDeviceMetrics(userId: string, dateKey: string): Promise<DeviceMetrics | null> {
+  const record: HealthDailyMetricsDocument | null = await storage.healthMetrics.get(userId, dateKey);
+  return record ? pickDeviceMetrics(record) : null;
+}
+
+/**
+ * Device metrics recorded from fromDateKey to toDateKey (inclusive), by dateKey.
+ */
+export async function listDeviceMetrics(
+  userId: string,
+  fromDateKey: string,
+  toDateKey: string
+): Promise<Map<string, DeviceMetrics>> {
+  const records = await storage.healthMetrics.listRange(userId, fromDateKey, toDateKey);
+  return new Map(records.map((record) => [record.dateKey, pickDeviceMetrics(record)]));
+}
+
+/**
+ * Resolve a check-in body ({ metrics, scoringVersion? } or flat answers) against the day's
+ * device metrics under the provenance conflict policy: answers the user typed win, and the
+ * device fills what they left out. Device metrics only apply to metrics-v1 check-ins.
+ * claims tags answers the client says came from another source.
+ */
+export function prefillCheckInBody(
+  body: unknown,
+  device: DeviceMetrics | null,
+  claims: Record<string, MetricSource> = {}
+): { body: unknown; provenance: EntryProvenance } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { body, provenance: {} };
+  }
+  const raw = body as Record<string, any>;
+  const nested = raw.metrics !== undefined;
+  const source = nested ? raw.metrics : raw;
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return { body, provenance: {} };
+  }
+
+  const candidates = splitBySource(source, claims);
+  if (device && detectScoringVersion({ scoringVersion: raw.scoringVersion, ...source }) === 'metrics-v1') {
+    candidates.push({ source: 'healthkit', answers: { ...device } });
+  }
+  const { answers, provenance } = resolveAnswerSources(candidates);
+  return { body: nested ? { ...raw, metrics: answers } : answers, provenance };
+}
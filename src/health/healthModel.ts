@@ -0,0 +1,45 @@
+/**
+ * Wearable / HealthKit sample types
+ */
+
+import { DailyMetrics } from '../longevity/longevityModel';
+
+export type HealthSampleType = 'sleepAnalysis' | 'stepCount' | 'workout';
+
+export const HEALTH_SAMPLE_TYPES: HealthSampleType[] = ['sleepAnalysis', 'stepCount', 'workout'];
+
+// HKCategoryValueSleepAnalysis names; only the asleep stages count as sleep
+export type SleepStage = 'inBed' | 'asleep' | 'asleepUnspecified' | 'asleepCore' | 'asleepDeep' | 'asleepREM' | 'awake';
+
+export const SLEEP_STAGES: SleepStage[] = ['inBed', 'asleep', 'asleepUnspecified', 'asleepCore', 'asleepDeep', 'asleepREM', 'awake'];
+
+export const ASLEEP_STAGES: SleepStage[] = ['asleep', 'asleepUnspecified', 'asleepCore', 'asleepDeep', 'asleepREM'];
+
+/**
+ * One timestamped sample as exported from HealthKit. Timestamps are ISO 8601 with an offset.
+ */
+export interface HealthSample {
+  id: string; // HealthKit sample UUID; re-sent samples with the same id are counted once
+  type: HealthSampleType;
+  startDate: string;
+  endDate: string;
+  value: number | SleepStage | null; // Steps for stepCount, stage for sleepAnalysis, null for workout
+  sourceId: string | null; // Device or app that recorded the sample, e.g. "com.apple.health.<uuid>"
+}
+
+// Check-in metrics a device can measure; the rest of a check-in is subjective
+export const DEVICE_METRIC_KEYS = ['sleepHours', 'steps', 'vigorousMinutes', 'bedtimeHour'] as const;
+
+export type DeviceMetricKey = (typeof DEVICE_METRIC_KEYS)[number];
+
+export type DeviceMetrics = Partial<Pick<DailyMetrics, DeviceMetricKey>>;
+
+/**
+ * Device metrics of one day in the user's timezone (users/{uid}/healthMetrics/{dateKey}).
+ */
+export interface HealthDailyMetricsDocument extends DeviceMetrics {
+  userId: string;
+  dateKey: string;
+  samples?: HealthSample[]; // Every sample touching the day, so later batches can be merged in
+  updatedAt: string;
+}
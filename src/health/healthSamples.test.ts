@@ -0,0 +1,225 @@
+/**
+ * Tests for HealthKit sample validation, per-day aggregation and check-in pre-filling
+ * Run with: npx ts-node src/health/healthSamples.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { parseDailyCheckIn } from '../scoring/engine';
+import { HealthSample } from './healthModel';
+import { getDeviceMetrics, mergeHealthSamples, prefillCheckInBody, saveDeviceMetrics } from './healthIngestion';
+import { aggregateHealthSamples, validateHealthSamples } from './healthSamples';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+function sample(
+  type: HealthSample['type'],
+  startDate: string,
+  endDate: string,
+  value: HealthSample['value'] = null,
+  sourceId: string | null = null
+): HealthSample {
+  return { id: `${type}:${sourceId ?? ''}:${startDate}:${endDate}`, type, startDate, endDate, value, sourceId };
+}
+
+// Test 1: Validation
+function testValidation() {
+  console.log('\n=== Test 1: Sample validation ===');
+
+  const valid = validateHealthSamples([
+    { type: 'stepCount', startDate: '2025-03-03T09:00:00+03:00', endDate: '2025-03-03T10:00:00+03:00', value: 1200 },
+    { type: 'sleepAnalysis', startDate: '2025-03-02T23:00:00+03:00', endDate: '2025-03-03T07:00:00+03:00', value: 'asleepCore' },
+  ]);
+  assert(valid.ok && valid.value.every((s) => s.sourceId === null), 'Valid samples pass with a null source');
+  assert(
+    valid.ok && valid.value[0].id === 'stepCount::2025-03-03T09:00:00+03:00:2025-03-03T10:00:00+03:00',
+    'Samples without an id are identified by type, source and timestamps'
+  );
+
+  const invalid = validateHealthSamples([
+    { type: 'heartRate', startDate: '2025-03-03T09:00:00Z', endDate: '2025-03-03T10:00:00Z' },
+    { type: 'stepCount', startDate: '2025-03-03T10:00:00Z', endDate: '2025-03-03T09:00:00Z', value: -5 },
+    { type: 'sleepAnalysis', startDate: 'yesterday', endDate: '2025-03-03T07:00:00Z', value: 'dozing' },
+  ]);
+  assert(!invalid.ok && invalid.errors.length === 5, 'Type, time range, step value and sleep stage errors are reported');
+  assert(!validateHealthSamples([]).ok, 'An empty batch is rejected');
+}
+
+// Test 2: Steps and workouts per day
+function testActivity() {
+  console.log('\n=== Test 2: Steps and workouts ===');
+
+  const days = aggregateHealthSamples(
+    [
+      // Phone and watch count the same walk; the larger source wins
+      sample('stepCount', '2025-03-03T09:00:00+03:00', '2025-03-03T10:00:00+03:00', 4000, 'phone'),
+      sample('stepCount', '2025-03-03T09:00:00+03:00', '2025-03-03T10:00:00+03:00', 4500, 'watch'),
+      sample('stepCount', '2025-03-03T18:00:00+03:00', '2025-03-03T19:00:00+03:00', 3000, 'watch'),
+      // Half before and half after midnight in Istanbul
+      sample('stepCount', '2025-03-03T23:30:00+03:00', '2025-03-04T00:30:00+03:00', 1000, 'watch'),
+      // Overlapping workouts are counted once
+      sample('workout', '2025-03-03T07:00:00+03:00', '2025-03-03T07:45:00+03:00'),
+      sample('workout', '2025-03-03T07:30:00+03:00', '2025-03-03T08:00:00+03:00'),
+    ],
+    'Europe/Istanbul'
+  );
+
+  assert(days.get('2025-03-03')?.steps === 8000, 'Steps take the busiest source and split across midnight');
+  assert(days.get('2025-03-04')?.steps === 500, 'The after-midnight share counts towards the next day');
+  assert(days.get('2025-03-03')?.vigorousMinutes === 60, 'Overlapping workout minutes are merged');
+  assert(days.get('2025-03-03')?.sleepHours === undefined, 'Days only get the metrics the batch holds');
+
+  // The same instants in another timezone fall on other days
+  const utc = aggregateHealthSamples([sample('stepCount', '2025-03-04T01:00:00+03:00', '2025-03-04T02:00:00+03:00', 700)], 'UTC');
+  assert(utc.get('2025-03-03')?.steps === 700, 'Days are calendar days of the given timezone');
+}
+
+// Test 3: Sleep sessions and bedtime
+function testSleep() {
+  console.log('\n=== Test 3: Sleep ===');
+
+  const days = aggregateHealthSamples(
+    [
+      sample('sleepAnalysis', '2025-03-02T22:45:00Z', '2025-03-03T07:15:00Z', 'inBed'),
+      sample('sleepAnalysis', '2025-03-02T23:15:00Z', '2025-03-03T03:00:00Z', 'asleepCore'),
+      sample('sleepAnalysis', '2025-03-03T03:00:00Z', '2025-03-03T03:20:00Z', 'awake'),
+      sample('sleepAnalysis', '2025-03-03T03:20:00Z', '2025-03-03T07:00:00Z', 'asleepDeep'),
+      // Duplicate from the phone, overlapping the watch
+      sample('sleepAnalysis', '2025-03-03T05:00:00Z', '2025-03-03T06:00:00Z', 'asleep', 'phone'),
+      // Afternoon nap
+      sample('sleepAnalysis', '2025-03-03T14:00:00Z', '2025-03-03T14:30:00Z', 'asleep'),
+      // The next night starts after midnight
+      sample('sleepAnalysis', '2025-03-04T00:30:00Z', '2025-03-04T06:30:00Z', 'asleep'),
+    ],
+    'UTC'
+  );
+
+  const monday = days.get('2025-03-03');
+  assert(monday?.sleepHours === 7.92, 'Asleep time of sessions ending on the day, without awake or in-bed time');
+  assert(monday?.bedtimeHour === 23.25, 'Bedtime is when the main session started');
+  assert(days.get('2025-03-04')?.bedtimeHour === 24.5, 'Bedtimes after midnight are written as 24+');
+  assert(days.get('2025-03-02') === undefined, 'Sleep counts towards the day it ends on');
+}
+
+// Test 4: Merging with stored metrics and pre-filling check-ins
+async function testIngestion() {
+  console.log('\n=== Test 4: Ingestion and pre-fill ===');
+
+  const userId = 'health-user';
+  await saveDeviceMetrics(
+    userId,
+    await mergeHealthSamples(
+      userId,
+      [
+        sample('stepCount', '2025-03-03T09:00:00Z', '2025-03-03T10:00:00Z', 9000),
+        sample('workout', '2025-03-03T17:00:00Z', '2025-03-03T17:40:00Z'),
+      ],
+      'UTC'
+    )
+  );
+  const merged = await mergeHealthSamples(
+    userId,
+    [sample('sleepAnalysis', '2025-03-02T23:00:00Z', '2025-03-03T06:30:00Z', 'asleep')],
+    'UTC'
+  );
+  const monday = merged.find((day) => day.dateKey === '2025-03-03');
+  assert(monday?.metrics.steps === 9000 && monday?.metrics.sleepHours === 7.5, 'Stored metrics the batch did not cover are kept');
+  await saveDeviceMetrics(userId, merged);
+
+  const device = await getDeviceMetrics(userId, '2025-03-03');
+  const prefilled = prefillCheckInBody(
+    { metrics: { sleepHours: 6, processedFoodScore: 2, alcoholUnits: 0, stressLevel: 3 } },
+    device
+  );
+  const checkIn = parseDailyCheckIn(prefilled.body);
+  assert(checkIn.ok, 'Device metrics complete the check-in');
+  assert(
+    checkIn.ok && checkIn.value.answers.sleepHours === 6 && checkIn.value.answers.steps === 9000,
+    'Answers typed by the user override the device'
+  );
+  assert(
+    prefilled.provenance.sleepHours.source === 'manual' &&
+      prefilled.provenance.sleepHours.overridden?.[0].value === 7.5 &&
+      prefilled.provenance.steps.source === 'healthkit',
+    'Provenance records the winning source and the overridden device value'
+  );
+
+  const questionnaire = { scoringVersion: 'questionnaire-v1', metrics: { sleepQuality: 3 } };
+  const other = prefillCheckInBody(questionnaire, device);
+  assert(
+    JSON.stringify(other.body) === JSON.stringify(questionnaire) && other.provenance.sleepQuality.source === 'manual',
+    'Other questionnaire versions are not pre-filled'
+  );
+  assert(await getDeviceMetrics(userId, '2025-03-05') === null, 'Days without samples have no device metrics');
+}
+
+// Test 5: Partial batches of the same day
+async function testPartialBatches() {
+  console.log('\n=== Test 5: Partial batches ===');
+
+  const userId = 'health-partial-user';
+  const morning = [
+    sample('stepCount', '2025-03-03T08:00:00Z', '2025-03-03T09:00:00Z', 3000, 'watch'),
+    sample('workout', '2025-03-03T07:00:00Z', '2025-03-03T07:30:00Z'),
+  ];
+  const evening = [
+    sample('stepCount', '2025-03-03T18:00:00Z', '2025-03-03T19:00:00Z', 4000, 'watch'),
+    sample('workout', '2025-03-03T18:00:00Z', '2025-03-03T18:20:00Z'),
+  ];
+  await saveDeviceMetrics(userId, await mergeHealthSamples(userId, morning, 'UTC'));
+  const days = await mergeHealthSamples(userId, evening, 'UTC');
+  assert(
+    days.length === 1 && days[0].metrics.steps === 7000 && days[0].metrics.vigorousMinutes === 50,
+    'A later batch of the same day adds to the earlier one'
+  );
+  await saveDeviceMetrics(userId, days);
+
+  await saveDeviceMetrics(userId, await mergeHealthSamples(userId, [...morning, ...evening], 'UTC'));
+  const device = await getDeviceMetrics(userId, '2025-03-03');
+  assert(device?.steps === 7000 && device?.vigorousMinutes === 50, 'Samples sent again are counted once');
+
+  await saveDeviceMetrics(
+    userId,
+    await mergeHealthSamples(userId, [sample('sleepAnalysis', '2025-03-04T00:00:00Z', '2025-03-04T06:00:00Z', 'asleep')], 'UTC')
+  );
+  const earlier = await mergeHealthSamples(
+    userId,
+    [sample('sleepAnalysis', '2025-03-03T22:30:00Z', '2025-03-04T00:00:00Z', 'asleep')],
+    'UTC'
+  );
+  const nextDay = earlier.find((day) => day.dateKey === '2025-03-04');
+  assert(
+    nextDay?.metrics.sleepHours === 7.5 && nextDay?.metrics.bedtimeHour === 22.5,
+    'Sleep sent before midnight joins the session stored for the next day'
+  );
+  assert(earlier.find((day) => day.dateKey === '2025-03-03')?.metrics.steps === 7000, 'Other metrics of the day are kept');
+}
+
+async function runTests() {
+  console.log('🧪 Running HealthKit Ingestion Tests\n');
+
+  try {
+    testValidation();
+    testActivity();
+    testSleep();
+    await testIngestion();
+    await testPartialBatches();
+
+    console.log('\n✅ All HealthKit ingestion tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
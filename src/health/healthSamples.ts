@@ -0,0 +1,245 @@
+/**
+ * HealthKit sample aggregation
+ * Turns batches of timestamped samples into per-day check-in metrics in the user's timezone:
+ * steps and workout minutes are split across midnight by time, while a sleep session counts
+ * towards the day it ends on (last night's sleep belongs to today's check-in) and its start
+ * becomes that day's bedtime. Overlapping samples from several devices are counted once.
+ */
+
+import { DateTime, Interval } from 'luxon';
+import {
+  ASLEEP_STAGES,
+  DeviceMetrics,
+  HEALTH_SAMPLE_TYPES,
+  HealthSample,
+  HealthSampleType,
+  SLEEP_STAGES,
+  SleepStage,
+} from './healthModel';
+
+export const MAX_SAMPLES_PER_BATCH = 10000;
+// Longer samples are rejected as corrupt
+const MAX_SAMPLE_HOURS = 24;
+// Asleep intervals closer than this belong to the same sleep session
+const SLEEP_SESSION_GAP_MINUTES = 60;
+// Highest bedtime the check-in accepts (04:00 written as 28)
+const MAX_BEDTIME_HOUR = 28;
+// Validation stops listing errors after this many
+const MAX_REPORTED_ERRORS = 50;
+
+export type SampleValidationResult = { ok: true; value: HealthSample[] } | { ok: false; errors: string[] };
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+function parseTimestamp(raw: unknown): DateTime | null {
+  if (typeof raw !== 'string') return null;
+  const value = DateTime.fromISO(raw, { setZone: true });
+  return value.isValid ? value : null;
+}
+
+/**
+ * Validate a batch of samples ({ id?, type, startDate, endDate, value?, sourceId? }). Samples
+ * without an id are identified by their type, source and timestamps.
+ */
+export function validateHealthSamples(raw: unknown): SampleValidationResult {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_SAMPLES_PER_BATCH) {
+    return { ok: false, errors: [`samples must be an array of 1 to ${MAX_SAMPLES_PER_BATCH} samples`] };
+  }
+
+  const errors: string[] = [];
+  const samples: HealthSample[] = [];
+  raw.forEach((sample: any, index) => {
+    if (errors.length >= MAX_REPORTED_ERRORS) return;
+    const path = `samples[${index}]`;
+    if (!sample || typeof sample !== 'object' || Array.isArray(sample)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const errorCount = errors.length;
+    const type = sample.type as HealthSampleType;
+    if (!HEALTH_SAMPLE_TYPES.includes(type)) {
+      errors.push(`${path}.type must be one of ${HEALTH_SAMPLE_TYPES.join(', ')}`);
+    }
+
+    const start = parseTimestamp(sample.startDate);
+    const end = parseTimestamp(sample.endDate);
+    if (!start || !end) {
+      errors.push(`${path}.startDate and endDate must be ISO 8601 timestamps`);
+    } else if (end < start || end.diff(start, 'hours').hours > MAX_SAMPLE_HOURS) {
+      errors.push(`${path}.endDate must be after startDate and at most ${MAX_SAMPLE_HOURS} hours later`);
+    }
+
+    let value: HealthSample['value'] = null;
+    if (type === 'stepCount') {
+      if (typeof sample.value !== 'number' || !Number.isFinite(sample.value) || sample.value < 0) {
+        errors.push(`${path}.value must be a non-negative number of steps`);
+      } else {
+        value = sample.value;
+      }
+    } else if (type === 'sleepAnalysis') {
+      if (!SLEEP_STAGES.includes(sample.value)) {
+        errors.push(`${path}.value must be one of ${SLEEP_STAGES.join(', ')}`);
+      } else {
+        value = sample.value as SleepStage;
+      }
+    }
+
+    if (sample.sourceId !== undefined && sample.sourceId !== null && typeof sample.sourceId !== 'string') {
+      errors.push(`${path}.sourceId must be a string`);
+    }
+    if (sample.id !== undefined && (typeof sample.id !== 'string' || sample.id.trim() === '')) {
+      errors.push(`${path}.id must be a non-empty string`);
+    }
+
+    if (errors.length > errorCount) return;
+    samples.push({
+      id: sample.id ?? `${type}:${sample.sourceId ?? ''}:${sample.startDate}:${sample.endDate}`,
+      type,
+      startDate: sample.startDate,
+      endDate: sample.endDate,
+      value,
+      sourceId: sample.sourceId ?? null,
+    });
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: samples };
+}
+
+function toInterval(sample: HealthSample, timezone: string): Interval {
+  return Interval.fromDateTimes(
+    DateTime.fromISO(sample.startDate, { zone: timezone }),
+    DateTime.fromISO(sample.endDate, { zone: timezone })
+  );
+}
+
+/**
+ * Union of intervals, sorted by start. Touching or overlapping intervals are merged.
+ */
+function mergeIntervals(intervals: Interval[], maxGapMinutes = 0): Interval[] {
+  const sorted = intervals.filter((interval) => interval.isValid).sort((a, b) => +a.start! - +b.start!);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start! <= last.end!.plus({ minutes: maxGapMinutes })) {
+      merged[merged.length - 1] = Interval.fromDateTimes(last.start!, DateTime.max(last.end!, interval.end!));
+    } else {
+      merged.push(interval);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parts of an interval per calendar day of its timezone, as { dateKey, minutes }.
+ */
+function splitByDay(interval: Interval): Array<{ dateKey: string; minutes: number }> {
+  const parts: Array<{ dateKey: string; minutes: number }> = [];
+  let dayStart = interval.start!.startOf('day');
+  while (dayStart < interval.end!) {
+    const dayEnd = dayStart.plus({ days: 1 });
+    const overlap = DateTime.min(interval.end!, dayEnd).diff(DateTime.max(interval.start!, dayStart), 'minutes').minutes;
+    if (overlap > 0) parts.push({ dateKey: dayStart.toISODate()!, minutes: overlap });
+    dayStart = dayEnd;
+  }
+  // Zero-length samples (instant step counts) land on their day
+  return parts.length > 0 ? parts : [{ dateKey: interval.start!.toISODate()!, minutes: 0 }];
+}
+
+/**
+ * Days (YYYY-MM-DD in timezone) a sample overlaps.
+ */
+export function sampleDateKeys(sample: HealthSample, timezone: string): string[] {
+  return splitByDay(toInterval(sample, timezone)).map((part) => part.dateKey);
+}
+
+function metricsFor(days: Map<string, DeviceMetrics>, dateKey: string): DeviceMetrics {
+  let metrics = days.get(dateKey);
+  if (!metrics) {
+    metrics = {};
+    days.set(dateKey, metrics);
+  }
+  return metrics;
+}
+
+function aggregateSteps(samples: HealthSample[], timezone: string, days: Map<string, DeviceMetrics>) {
+  // Phone and watch both count the same steps: per day, the source with the most steps wins
+  const bySource = new Map<string, Map<string, number>>(); // dateKey -> source -> steps
+  for (const sample of samples) {
+    const interval = toInterval(sample, timezone);
+    const parts = splitByDay(interval);
+    const totalMinutes = parts.reduce((sum, part) => sum + part.minutes, 0);
+    for (const part of parts) {
+      const share = totalMinutes > 0 ? part.minutes / totalMinutes : 1;
+      const sources = bySource.get(part.dateKey) ?? new Map<string, number>();
+      const source = sample.sourceId ?? 'unknown';
+      sources.set(source, (sources.get(source) ?? 0) + (sample.value as number) * share);
+      bySource.set(part.dateKey, sources);
+    }
+  }
+  for (const [dateKey, sources] of bySource) {
+    metricsFor(days, dateKey).steps = Math.round(Math.max(...sources.values()));
+  }
+}
+
+function aggregateWorkouts(samples: HealthSample[], timezone: string, days: Map<string, DeviceMetrics>) {
+  const minutes = new Map<string, number>();
+  for (const interval of mergeIntervals(samples.map((sample) => toInterval(sample, timezone)))) {
+    for (const part of splitByDay(interval)) {
+      minutes.set(part.dateKey, (minutes.get(part.dateKey) ?? 0) + part.minutes);
+    }
+  }
+  for (const [dateKey, total] of minutes) {
+    metricsFor(days, dateKey).vigorousMinutes = Math.round(total);
+  }
+}
+
+function aggregateSleep(samples: HealthSample[], timezone: string, days: Map<string, DeviceMetrics>) {
+  const asleep = mergeIntervals(
+    samples
+      .filter((sample) => ASLEEP_STAGES.includes(sample.value as SleepStage))
+      .map((sample) => toInterval(sample, timezone))
+  );
+
+  // Short wake-ups do not end a session
+  const sessions = mergeIntervals(asleep, SLEEP_SESSION_GAP_MINUTES).map((session) => ({
+    session,
+    asleepMinutes: asleep
+      .filter((interval) => session.engulfs(interval))
+      .reduce((sum, interval) => sum + interval.length('minutes'), 0),
+  }));
+
+  const byDay = new Map<string, typeof sessions>();
+  for (const session of sessions) {
+    const dateKey = session.session.end!.toISODate()!;
+    byDay.set(dateKey, [...(byDay.get(dateKey) ?? []), session]);
+  }
+
+  for (const [dateKey, daySessions] of byDay) {
+    const metrics = metricsFor(days, dateKey);
+    metrics.sleepHours = round(daySessions.reduce((sum, s) => sum + s.asleepMinutes, 0) / 60, 2);
+
+    // Bedtime is when the main sleep started, counted from midnight before the day (00:30 is 24.5)
+    const main = daySessions.reduce((best, s) => (s.asleepMinutes > best.asleepMinutes ? s : best));
+    const midnight = main.session.end!.startOf('day');
+    const bedtimeHour = round(24 + main.session.start!.diff(midnight, 'hours').hours, 2);
+    if (bedtimeHour >= 0 && bedtimeHour <= MAX_BEDTIME_HOUR) {
+      metrics.bedtimeHour = bedtimeHour;
+    }
+  }
+}
+
+/**
+ * Device metrics per day (YYYY-MM-DD in timezone) from a batch of samples. A day only has
+ * the metrics the batch holds samples for.
+ */
+export function aggregateHealthSamples(samples: HealthSample[], timezone: string): Map<string, DeviceMetrics> {
+  const days = new Map<string, DeviceMetrics>();
+  aggregateSteps(samples.filter((sample) => sample.type === 'stepCount'), timezone, days);
+  aggregateWorkouts(samples.filter((sample) => sample.type === 'workout'), timezone, days);
+  aggregateSleep(samples.filter((sample) => sample.type === 'sleepAnalysis'), timezone, days);
+  return new Map(Array.from(days).sort(([a], [b]) => a.localeCompare(b)));
+}
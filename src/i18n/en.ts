@@ -0,0 +1,226 @@
+/**
+ * English message catalog (the source catalog; every other locale must have the same keys).
+ * Placeholders are written {name} and filled from MessageRef params.
+ */
+
+export const en = {
+  // Daily metrics reasons (data/scoring-rules/daily-metrics-v1.json)
+  'daily.sleep.good_duration': 'Sleep: good duration',
+  'daily.sleep.too_short': 'Sleep: too short',
+  'daily.sleep.could_be_better': 'Sleep: could be better',
+  'daily.steps.active_day': 'Steps: active day',
+  'daily.steps.moderate': 'Steps: moderate',
+  'daily.steps.low_activity': 'Steps: low activity',
+  'daily.steps.below_target': 'Steps: below target',
+  'daily.exercise.strong_session': 'Exercise: strong session',
+  'daily.exercise.some_intensity': 'Exercise: some intensity',
+  'daily.exercise.add_intensity': 'Exercise: add intensity',
+  'daily.food.minimally_processed': 'Food: minimally processed',
+  'daily.food.too_processed': 'Food: too processed',
+  'daily.food.mixed_quality': 'Food: mixed quality',
+  'daily.alcohol.none': 'Alcohol: none',
+  'daily.alcohol.moderate': 'Alcohol: moderate',
+  'daily.alcohol.high': 'Alcohol: high',
+  'daily.stress.low': 'Stress: low',
+  'daily.stress.high': 'Stress: high',
+  'daily.stress.moderate': 'Stress: moderate',
+  'daily.caffeine.late_intake': 'Caffeine: late intake',
+  'daily.screen.late_use': 'Screen time: late use',
+  'daily.bedtime.very_late': 'Bedtime: very late',
+  'daily.bedtime.late': 'Bedtime: late',
+  'daily.bedtime.good_timing': 'Bedtime: good timing',
+
+  // Onboarding score insights (data/scoring-rules/onboarding-score-v1.json)
+  'onboarding.insight.sleep_consistency': 'Sleep consistency is your biggest lever',
+  'onboarding.insight.quit_smoking': 'Quitting smoking would significantly improve your score',
+  'onboarding.insight.one_category': 'Focus on one category at a time for sustainable improvement',
+
+  // Questionnaire reasons (age/ageModel)
+  'questionnaire.sleep.very_poor': 'Sleep: Very poor',
+  'questionnaire.sleep.poor': 'Sleep: Poor',
+  'questionnaire.sleep.moderate': 'Sleep: Moderate',
+  'questionnaire.sleep.good': 'Sleep: Good',
+  'questionnaire.sleep.excellent': 'Sleep: Excellent',
+  'questionnaire.energy.very_poor': 'Energy: Very poor',
+  'questionnaire.energy.poor': 'Energy: Poor',
+  'questionnaire.energy.moderate': 'Energy: Moderate',
+  'questionnaire.energy.good': 'Energy: Good',
+  'questionnaire.energy.excellent': 'Energy: Excellent',
+  'questionnaire.activity.very_poor': 'Activity: Very poor',
+  'questionnaire.activity.poor': 'Activity: Poor',
+  'questionnaire.activity.moderate': 'Activity: Moderate',
+  'questionnaire.activity.good': 'Activity: Good',
+  'questionnaire.activity.excellent': 'Activity: Excellent',
+  'questionnaire.nutrition.very_poor': 'Nutrition: Very poor',
+  'questionnaire.nutrition.poor': 'Nutrition: Poor',
+  'questionnaire.nutrition.moderate': 'Nutrition: Moderate',
+  'questionnaire.nutrition.good': 'Nutrition: Good',
+  'questionnaire.nutrition.excellent': 'Nutrition: Excellent',
+  'questionnaire.stress.very_poor': 'Stress: Very poor',
+  'questionnaire.stress.poor': 'Stress: Poor',
+  'questionnaire.stress.moderate': 'Stress: Moderate',
+  'questionnaire.stress.good': 'Stress: Good',
+  'questionnaire.stress.excellent': 'Stress: Excellent',
+  'questionnaire.mental_load.very_poor': 'Mental load: Very poor',
+  'questionnaire.mental_load.poor': 'Mental load: Poor',
+  'questionnaire.mental_load.moderate': 'Mental load: Moderate',
+  'questionnaire.mental_load.good': 'Mental load: Good',
+  'questionnaire.mental_load.excellent': 'Mental load: Excellent',
+  'questionnaire.circadian.very_poor': 'Circadian: Very poor',
+  'questionnaire.circadian.poor': 'Circadian: Poor',
+  'questionnaire.circadian.moderate': 'Circadian: Moderate',
+  'questionnaire.circadian.good': 'Circadian: Good',
+  'questionnaire.circadian.excellent': 'Circadian: Excellent',
+  'questionnaire.sugar_alcohol.high': 'Sugar/Alcohol: High',
+  'questionnaire.sugar_alcohol.moderate': 'Sugar/Alcohol: Moderate',
+  'questionnaire.sugar_alcohol.low': 'Sugar/Alcohol: Low',
+  'questionnaire.sugar_alcohol.none': 'Sugar/Alcohol: None',
+  'questionnaire.body.great': 'Feeling physically great',
+  'questionnaire.body.no_discomfort': 'No physical discomfort',
+  'questionnaire.body.discomfort': 'Physical discomfort ({count} signals)',
+  'questionnaire.recovery.none': 'No intentional recovery',
+  'questionnaire.recovery.multiple': 'Active recovery (2+ behaviors)',
+  'questionnaire.recovery.single': 'Active recovery (1 behavior)',
+
+  // Check-in history insights (longevity/insights)
+  'insight.same_day':
+    'On days with "{condition}", your {outcome} averages {difference} {direction} ({withAverage} vs {withoutAverage}).',
+  'insight.next_day':
+    'The day after "{condition}", your {outcome} averages {difference} {direction} ({withAverage} vs {withoutAverage}).',
+  'insight.higher': 'higher',
+  'insight.lower': 'lower',
+  'insight.outcome.deltaYears': 'daily aging (years)',
+  'insight.outcome.sleepHours': 'sleep (hours)',
+  'insight.outcome.steps': 'steps',
+  'insight.outcome.vigorousMinutes': 'vigorous exercise (minutes)',
+  'insight.outcome.processedFoodScore': 'processed food score',
+  'insight.outcome.alcoholUnits': 'alcohol (units)',
+  'insight.outcome.stressLevel': 'stress level',
+  'insight.outcome.bedtimeHour': 'bedtime (hour)',
+  'insight.outcome.sleepQuality': 'sleep quality',
+  'insight.outcome.energyLevel': 'energy level',
+  'insight.outcome.physicalActivity': 'physical activity',
+  'insight.outcome.nutritionQuality': 'nutrition quality',
+  'insight.outcome.sugarAlcoholExposure': 'sugar and alcohol avoidance',
+  'insight.outcome.mentalEmotionalLoad': 'mental load',
+  'insight.outcome.circadianRhythm': 'circadian rhythm',
+
+  // API responses (sent with sendError / responseMessage)
+  'api.internal_error': 'Internal server error',
+  'api.unauthorized': 'Unauthorized',
+  'api.user_not_found': 'User not found',
+  'api.user_not_found_onboarding': 'User not found. Complete onboarding first.',
+  'api.score_not_found_onboarding': 'User score not found. Complete onboarding first.',
+  'api.conversation_not_found': 'Conversation not found',
+  'api.invalid_check_in': 'Invalid check-in',
+  'api.check_in_already_completed': 'Daily check-in already completed',
+  'api.check_in_already_completed_today': 'You have already completed your daily check-in for today.',
+  'api.check_in_exists_for_date': 'A check-in already exists for this date. Use PUT to edit it.',
+  'api.check_in_not_found': 'Daily check-in not found',
+  'api.no_plan_for_week': 'No plan for this week',
+  'api.onboarding_already_completed': 'Onboarding already completed',
+  'api.onboarding_already_completed_detail':
+    'User has already completed onboarding. To update onboarding data, please contact support.',
+  'api.subscription_required': 'An active subscription is required to access this feature.',
+  'api.email_verification_required':
+    'Email verification is required for this action. Please verify your email address.',
+  'api.admin_required': 'Admin access is required.',
+  'api.invalid_email': 'Invalid email address',
+  'api.email_unchanged': 'New email must be different from current email',
+  'api.email_in_use': 'This email is already in use.',
+  'api.email_change_initiated': 'Email change initiated. Please verify your new email address.',
+  'api.password_reset_requested': "If an account exists for this email, we've sent a code.",
+  'api.password_reset_wait': 'Please wait {seconds} seconds before requesting another code.',
+  'api.password_reset_limit': 'Maximum number of requests exceeded. Please try again later.',
+  'api.too_many_requests': 'Too many requests. Please try again later.',
+  'api.invalid_code': 'Invalid verification code.',
+  'api.expired_code': 'The verification code has expired. Please request a new one.',
+  'api.too_many_attempts': 'Too many verification attempts. Please request a new code.',
+  'api.expired_token': 'The reset token has expired. Please start the process again.',
+  'api.invalid_token': 'Invalid or expired reset token. Please start the process again.',
+  'api.account_not_found': 'User account not found.',
+  'api.password_updated': 'Password updated successfully.',
+  'api.consent_recorded': 'Consent recorded successfully.',
+  'api.receipt_validation_failed': 'Receipt validation failed. Please try again.',
+  'api.no_subscription_in_receipt': 'No valid subscription found in receipt.',
+  'api.not_available_in_production': 'This endpoint is not available in production.',
+  'api.logout_successful': 'Logout successful. Please sign out on the client side using Firebase Auth SDK.',
+  'api.field_required': '{field} is required',
+  'api.field_object_required': '{field} object is required',
+  'api.field_string': '{field} must be a string',
+  'api.field_string_or_null': '{field} must be a string or null',
+  'api.field_non_empty_string': '{field} must be a non-empty string',
+  'api.field_too_long': '{field} must be at most {max} characters',
+  'api.field_number': '{field} must be a number',
+  'api.field_positive_number': '{field} must be a positive number',
+  'api.field_date': '{field} must be a valid date in YYYY-MM-DD format',
+  'api.field_iso_date': '{field} must be in ISO format (YYYY-MM-DD)',
+  'api.field_future_date': '{field} cannot be in the future',
+  'api.invalid_locale': 'locale must be one of {locales} or null',
+  'api.invalid_timezone': 'timezone must be a valid IANA timezone string or null',
+  'api.no_updatable_fields': 'No updatable fields provided',
+  'api.missing_answer': 'Missing answer for field: {field}',
+  'api.invalid_answer_number': 'Invalid number for field: {field}',
+  'api.message_not_found': 'Message not found',
+  'api.log_not_found': 'Log not found',
+  'api.invalid_cursor': 'Invalid cursor',
+  'api.invalid_export_format': 'format must be json or markdown',
+  'api.invalid_week_start': 'weekStart must be a Monday in YYYY-MM-DD format',
+  'api.invalid_week_start_or_current': 'weekStart must be a Monday in YYYY-MM-DD format or "current"',
+  'api.invalid_plan': 'Invalid plan',
+  'api.invalid_range': 'Invalid range. Use weekly, monthly, or yearly',
+  'api.invalid_samples': 'Invalid samples',
+  'api.check_in_exists_send_samples': 'A check-in already exists for this date. Send the samples without checkIn.',
+  'api.invalid_scoring_version': 'Invalid version',
+  'api.invalid_recompute_request': 'Invalid recompute request',
+  'api.recompute_stale': "The user's data changed since the dry run. Run a new dry run.",
+  'api.invalid_simulation_days': 'days must be an integer between 1 and {max}',
+  'api.simulation_input_required': 'Send metrics, or changes to apply to your recent check-ins',
+  'api.no_recent_check_ins': 'No recent check-ins to start from. Send metrics instead.',
+  'api.invalid_notification': 'Invalid notification format',
+  'api.goal_not_found': 'Goal not found',
+  'api.invalid_goal': 'Invalid goal',
+  'api.goal_limit': 'A user can have at most {max} goals',
+  'api.invalid_import': 'Invalid import',
+  'api.export_not_found': 'Export not found',
+  'api.export_in_progress': 'Export already in progress',
+  'api.export_not_ready': 'Export is not ready yet',
+  'api.export_expired': 'Export has expired. Request a new one.',
+  'api.account_deletion_not_found': 'No account deletion is pending',
+  'api.account_deletion_started': 'Account deletion has already started',
+
+  // Password reset email
+  'email.otp.subject': 'Your verification code',
+  'email.otp.heading': 'Password Reset Verification',
+  'email.otp.intro': 'Your Longevity AI verification code is:',
+  'email.otp.expiry': 'This code expires in {minutes} minutes.',
+  'email.otp.ignore': "If you didn't request this code, please ignore this email.",
+
+  // Coach briefings (age/ageMessages)
+  'coach.briefing.no_data': "We don't have enough data yet. Let's start with your first daily check-in.",
+  'coach.briefing.unavailable': "I couldn't generate a message right now.",
+
+  // Safety (safety/guardrails)
+  'safety.emergency_numbers': '112 in Turkey and the EU, 911 in the US',
+  'safety.suicidal_ideation.answer':
+    "I'm really sorry you're going through this. You deserve support right now, and a coaching app is not the right place to get it.\n\n" +
+    '- If you are in immediate danger, call your local emergency number ({emergencyNumbers}).\n' +
+    '- In the US you can call or text 988 (Suicide & Crisis Lifeline). For other countries, find a local helpline at https://findahelpline.com.\n' +
+    "- If you can, reach out to someone you trust and tell them how you're feeling.\n\n" +
+    "I'm here to talk about your habits whenever you're ready.",
+  'safety.chest_pain.notice':
+    'Chest pain, pressure or tightness can be a sign of a medical emergency. If it is happening now, or comes with ' +
+    'shortness of breath, sweating, nausea or pain spreading to your arm, jaw or back, call your local emergency ' +
+    'number right away ({emergencyNumbers}).',
+  'safety.pregnancy.disclaimer':
+    'Pregnancy and breastfeeding change what is safe for you. Please check any changes to your exercise, diet, ' +
+    'fasting or supplements with your obstetrician or midwife.',
+  'safety.medication_dosing.disclaimer':
+    "I can't advise on medication doses. Please follow your prescription and ask your doctor or pharmacist " +
+    'before starting, stopping or changing any medication.',
+  'safety.blocked_answer':
+    "I can't give a diagnosis or specific medication instructions - your doctor or pharmacist is the right " +
+    "person for that. I'm happy to help with your sleep, activity, nutrition and stress habits in the meantime.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for localization
+ * Run with: npx ts-node src/i18n/i18n.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { Response } from 'express';
+import { calculateDailyScore } from '../age/ageModel';
+import { en, MessageKey } from './en';
+import { tr } from './tr';
+import { localizeReasons, negotiateLocale, renderMessages, resolveLocale, sendError, t } from './i18n';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort().join();
+
+// Test 1: Catalogs are complete
+function testCatalogs() {
+  console.log('\n=== Test 1: Catalogs ===');
+
+  const keys = Object.keys(en) as MessageKey[];
+  assert(keys.every((key) => tr[key]?.trim().length > 0), 'Every English key has a Turkish message');
+  assert(keys.every((key) => placeholders(en[key]) === placeholders(tr[key])), 'Placeholders match across locales');
+}
+
+// Test 2: Rendering
+function testRendering() {
+  console.log('\n=== Test 2: Rendering ===');
+
+  assert(t('tr', 'questionnaire.body.discomfort', { count: 2 }) === 'Fiziksel rahatsızlık (2 belirti)', 'Parameters are interpolated');
+  assert(t('tr', 'unknown.key') === 'unknown.key', 'Unknown keys render as the key');
+
+  const result = calculateDailyScore({
+    date: '2025-01-01',
+    sleepQuality: 3,
+    energyLevel: 4,
+    physicalActivity: 2,
+    nutritionQuality: 3,
+    sugarAlcoholExposure: 2,
+    stressLevel: 3,
+    mentalEmotionalLoad: 3,
+    circadianRhythm: 4,
+    bodySignals: ['Headache'],
+    rejuvenationBehaviors: ['Meditation', 'Sauna'],
+  });
+  assert(result.reasons.includes('Physical discomfort (1 signals)'), 'Stored reasons stay English');
+  assert(renderMessages('tr', result.reasonCodes)[0] === 'Uyku: İyi', 'Reason codes render in Turkish');
+  assert(localizeReasons('tr', { reasons: ['Sleep: Good'] })[0] === 'Sleep: Good', 'Entries without codes keep their text');
+}
+
+// Test 3: Locale negotiation
+function testNegotiation() {
+  console.log('\n=== Test 3: Locale negotiation ===');
+
+  assert(negotiateLocale('tr-TR,tr;q=0.9,en-US;q=0.8') === 'tr', 'Region subtags match the language');
+  assert(negotiateLocale('de-DE, en;q=0.5, tr;q=0.7') === 'tr', 'Highest quality supported language wins');
+  assert(negotiateLocale('de, fr;q=0.8') === null, 'Unsupported languages do not match');
+  assert(negotiateLocale('tr;q=0, en') === 'en', 'q=0 excludes a language');
+  assert(resolveLocale('tr', 'en-US') === 'tr', 'Profile locale wins over the header');
+  assert(resolveLocale(null, undefined) === 'en', 'English is the default');
+}
+
+/**
+ * A response that records the status and body it was sent with.
+ */
+function fakeResponse(acceptLanguage: string, locale?: string) {
+  const sent = { status: 0, body: null as any };
+  const res = {
+    req: { headers: { 'accept-language': acceptLanguage } },
+    locals: locale ? { locale } : {},
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+// Test 4: API messages are sent by key
+function testApiMessages() {
+  console.log('\n=== Test 4: API messages ===');
+
+  const turkish = fakeResponse('tr-TR,tr;q=0.9');
+  sendError(turkish.res, 429, 'api.password_reset_wait', { seconds: 42 }, { error: 'too_many_requests' });
+  assert(turkish.sent.status === 429 && turkish.sent.body.error === 'too_many_requests', 'Status and extra fields are kept');
+  assert(turkish.sent.body.message.includes('42 saniye'), 'The message renders in the request language');
+
+  const english = fakeResponse('en-US');
+  sendError(english.res, 400, 'api.field_required', { field: 'email' });
+  assert(english.sent.body.error === 'email is required', 'The error defaults to the English text');
+  assert(english.sent.body.message === 'email is required', 'English requests get the English message');
+
+  const bound = fakeResponse('en-US', 'tr');
+  sendError(bound.res, 404, 'api.conversation_not_found');
+  assert(bound.sent.body.error === 'Conversation not found', 'The error stays English for a bound locale');
+  assert(bound.sent.body.message === tr['api.conversation_not_found'], "The user's bound locale wins over the header");
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Localization Tests\n');
+
+  try {
+    testCatalogs();
+    testRendering();
+    testNegotiation();
+    testApiMessages();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,167 @@
+/**
+ * Localization
+ * User-facing text is produced as stable keys plus parameters (MessageRef) and rendered in
+ * the reader's locale at the edges: API responses, emails and coach prompts. The locale is
+ * the user's profile setting, else the best Accept-Language match, else English.
+ */
+
+import { Request, Response } from 'express';
+import { storage } from '../config/storage';
+import { en, MessageKey } from './en';
+import { tr } from './tr';
+
+export type { MessageKey };
+
+export type Locale = 'en' | 'tr';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'tr'];
+
+/** Language names used when instructing the coach model. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  tr: 'Turkish',
+};
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A message to render later: catalog key plus placeholder values.
+ */
+export interface MessageRef {
+  key: string;
+  params?: MessageParams;
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, tr };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(en, key);
+}
+
+/**
+ * Render a catalog message. Unknown keys render as the key itself; unknown placeholders are kept.
+ */
+export function t(locale: Locale, key: string, params: MessageParams = {}): string {
+  if (!hasMessage(key)) {
+    return key;
+  }
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+export function renderMessages(locale: Locale, refs: MessageRef[]): string[] {
+  return refs.map((ref) => t(locale, ref.key, ref.params));
+}
+
+/**
+ * Reasons of a scored entry in the given locale. Entries scored before reason keys
+ * existed only have their English text.
+ */
+export function localizeReasons(
+  locale: Locale,
+  entry: { reasons: string[]; reasonCodes?: MessageRef[] }
+): string[] {
+  return entry.reasonCodes ? renderMessages(locale, entry.reasonCodes) : entry.reasons;
+}
+
+/**
+ * Best supported locale from an Accept-Language header (region subtags are ignored), or null.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale | null {
+  if (!acceptLanguage) {
+    return null;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const q = attributes.map((attribute) => attribute.trim()).find((attribute) => attribute.startsWith('q='));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return {
+        language: tag.trim().toLowerCase().split('-')[0],
+        quality: Number.isNaN(quality) ? 0 : quality,
+        index,
+      };
+    })
+    .filter((range) => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  const match = ranges.find((range) => isLocale(range.language));
+  return match ? (match.language as Locale) : null;
+}
+
+/**
+ * The profile setting wins over the header; English when neither is usable.
+ */
+export function resolveLocale(
+  profileLocale: string | null | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  if (isLocale(profileLocale)) {
+    return profileLocale;
+  }
+  return negotiateLocale(acceptLanguage) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Locale saved on a user's profile, if any.
+ */
+export async function getUserLocale(userId: string): Promise<Locale | null> {
+  const user = await storage.users.get(userId);
+  return user?.locale ?? null;
+}
+
+/**
+ * Response locale: res.locals.locale when a route resolved the user's profile, else the header.
+ */
+export function getResponseLocale(req: Request, res: Response): Locale {
+  return isLocale(res.locals.locale) ? res.locals.locale : resolveLocale(null, req.headers['accept-language']);
+}
+
+/**
+ * Resolve a user's locale for this request and keep it for the rest of the response.
+ */
+export function bindResponseLocale(req: Request, res: Response, profileLocale: string | null | undefined): Locale {
+  const locale = resolveLocale(profileLocale, req.headers['accept-language']);
+  res.locals.locale = locale;
+  return locale;
+}
+
+/**
+ * Catalog keys of API response texts.
+ */
+export type ApiMessageKey = Extract<MessageKey, `api.${string}`>;
+
+/**
+ * An API text in the response locale, for `message` fields of successful responses.
+ */
+export function responseMessage(res: Response, key: ApiMessageKey, params: MessageParams = {}): string {
+  return t(getResponseLocale(res.req, res), key, params);
+}
+
+/**
+ * Send an error response: `error` is the English text (clients branch on it), `message` the
+ * same text in the response locale. Extra fields are added to the body; they may replace
+ * `error` with a code.
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  key: ApiMessageKey,
+  params: MessageParams = {},
+  extra: Record<string, unknown> = {}
+): Response {
+  return res.status(status).json({
+    error: t(DEFAULT_LOCALE, key, params),
+    message: responseMessage(res, key, params),
+    ...extra,
+  });
+}
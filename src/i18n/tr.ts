@@ -0,0 +1,225 @@
+/**
+ * Turkish message catalog.
+ */
+
+import { MessageKey } from './en';
+
+export const tr: Record<MessageKey, string> = {
+  // Daily metrics reasons
+  'daily.sleep.good_duration': 'Uyku: süre iyi',
+  'daily.sleep.too_short': 'Uyku: çok kısa',
+  'daily.sleep.could_be_better': 'Uyku: daha iyi olabilir',
+  'daily.steps.active_day': 'Adım: aktif bir gün',
+  'daily.steps.moderate': 'Adım: orta',
+  'daily.steps.low_activity': 'Adım: düşük hareket',
+  'daily.steps.below_target': 'Adım: hedefin altında',
+  'daily.exercise.strong_session': 'Egzersiz: güçlü bir antrenman',
+  'daily.exercise.some_intensity': 'Egzersiz: biraz yoğunluk',
+  'daily.exercise.add_intensity': 'Egzersiz: yoğunluğu artırın',
+  'daily.food.minimally_processed': 'Beslenme: az işlenmiş',
+  'daily.food.too_processed': 'Beslenme: fazla işlenmiş',
+  'daily.food.mixed_quality': 'Beslenme: karışık kalite',
+  'daily.alcohol.none': 'Alkol: yok',
+  'daily.alcohol.moderate': 'Alkol: ölçülü',
+  'daily.alcohol.high': 'Alkol: yüksek',
+  'daily.stress.low': 'Stres: düşük',
+  'daily.stress.high': 'Stres: yüksek',
+  'daily.stress.moderate': 'Stres: orta',
+  'daily.caffeine.late_intake': 'Kafein: geç saatte alındı',
+  'daily.screen.late_use': 'Ekran süresi: geç saatte kullanım',
+  'daily.bedtime.very_late': 'Yatış saati: çok geç',
+  'daily.bedtime.late': 'Yatış saati: geç',
+  'daily.bedtime.good_timing': 'Yatış saati: iyi zamanlama',
+
+  // Onboarding score insights
+  'onboarding.insight.sleep_consistency': 'Uyku düzeni en büyük kaldıracınız',
+  'onboarding.insight.quit_smoking': 'Sigarayı bırakmak puanınızı önemli ölçüde yükseltir',
+  'onboarding.insight.one_category': 'Kalıcı bir gelişim için her seferinde tek bir kategoriye odaklanın',
+
+  // Questionnaire reasons
+  'questionnaire.sleep.very_poor': 'Uyku: Çok kötü',
+  'questionnaire.sleep.poor': 'Uyku: Kötü',
+  'questionnaire.sleep.moderate': 'Uyku: Orta',
+  'questionnaire.sleep.good': 'Uyku: İyi',
+  'questionnaire.sleep.excellent': 'Uyku: Mükemmel',
+  'questionnaire.energy.very_poor': 'Enerji: Çok kötü',
+  'questionnaire.energy.poor': 'Enerji: Kötü',
+  'questionnaire.energy.moderate': 'Enerji: Orta',
+  'questionnaire.energy.good': 'Enerji: İyi',
+  'questionnaire.energy.excellent': 'Enerji: Mükemmel',
+  'questionnaire.activity.very_poor': 'Aktivite: Çok kötü',
+  'questionnaire.activity.poor': 'Aktivite: Kötü',
+  'questionnaire.activity.moderate': 'Aktivite: Orta',
+  'questionnaire.activity.good': 'Aktivite: İyi',
+  'questionnaire.activity.excellent': 'Aktivite: Mükemmel',
+  'questionnaire.nutrition.very_poor': 'Beslenme: Çok kötü',
+  'questionnaire.nutrition.poor': 'Beslenme: Kötü',
+  'questionnaire.nutrition.moderate': 'Beslenme: Orta',
+  'questionnaire.nutrition.good': 'Beslenme: İyi',
+  'questionnaire.nutrition.excellent': 'Beslenme: Mükemmel',
+  'questionnaire.stress.very_poor': 'Stres: Çok kötü',
+  'questionnaire.stress.poor': 'Stres: Kötü',
+  'questionnaire.stress.moderate': 'Stres: Orta',
+  'questionnaire.stress.good': 'Stres: İyi',
+  'questionnaire.stress.excellent': 'Stres: Mükemmel',
+  'questionnaire.mental_load.very_poor': 'Zihinsel yük: Çok kötü',
+  'questionnaire.mental_load.poor': 'Zihinsel yük: Kötü',
+  'questionnaire.mental_load.moderate': 'Zihinsel yük: Orta',
+  'questionnaire.mental_load.good': 'Zihinsel yük: İyi',
+  'questionnaire.mental_load.excellent': 'Zihinsel yük: Mükemmel',
+  'questionnaire.circadian.very_poor': 'Sirkadiyen ritim: Çok kötü',
+  'questionnaire.circadian.poor': 'Sirkadiyen ritim: Kötü',
+  'questionnaire.circadian.moderate': 'Sirkadiyen ritim: Orta',
+  'questionnaire.circadian.good': 'Sirkadiyen ritim: İyi',
+  'questionnaire.circadian.excellent': 'Sirkadiyen ritim: Mükemmel',
+  'questionnaire.sugar_alcohol.high': 'Şeker/Alkol: Yüksek',
+  'questionnaire.sugar_alcohol.moderate': 'Şeker/Alkol: Orta',
+  'questionnaire.sugar_alcohol.low': 'Şeker/Alkol: Düşük',
+  'questionnaire.sugar_alcohol.none': 'Şeker/Alkol: Yok',
+  'questionnaire.body.great': 'Fiziksel olarak harika hissediyor',
+  'questionnaire.body.no_discomfort': 'Fiziksel rahatsızlık yok',
+  'questionnaire.body.discomfort': 'Fiziksel rahatsızlık ({count} belirti)',
+  'questionnaire.recovery.none': 'Bilinçli toparlanma yok',
+  'questionnaire.recovery.multiple': 'Aktif toparlanma (2+ davranış)',
+  'questionnaire.recovery.single': 'Aktif toparlanma (1 davranış)',
+
+  // Check-in history insights
+  'insight.same_day':
+    '"{condition}" olan günlerde {outcome} ortalamanız {difference} daha {direction} ({withAverage} / {withoutAverage}).',
+  'insight.next_day':
+    '"{condition}" olan günlerin ertesinde {outcome} ortalamanız {difference} daha {direction} ({withAverage} / {withoutAverage}).',
+  'insight.higher': 'yüksek',
+  'insight.lower': 'düşük',
+  'insight.outcome.deltaYears': 'günlük yaşlanma (yıl)',
+  'insight.outcome.sleepHours': 'uyku süresi (saat)',
+  'insight.outcome.steps': 'adım sayısı',
+  'insight.outcome.vigorousMinutes': 'yoğun egzersiz (dakika)',
+  'insight.outcome.processedFoodScore': 'işlenmiş gıda puanı',
+  'insight.outcome.alcoholUnits': 'alkol (birim)',
+  'insight.outcome.stressLevel': 'stres düzeyi',
+  'insight.outcome.bedtimeHour': 'yatış saati',
+  'insight.outcome.sleepQuality': 'uyku kalitesi',
+  'insight.outcome.energyLevel': 'enerji düzeyi',
+  'insight.outcome.physicalActivity': 'fiziksel aktivite',
+  'insight.outcome.nutritionQuality': 'beslenme kalitesi',
+  'insight.outcome.sugarAlcoholExposure': 'şeker ve alkolden uzak durma',
+  'insight.outcome.mentalEmotionalLoad': 'zihinsel yük',
+  'insight.outcome.circadianRhythm': 'sirkadiyen ritim',
+
+  // API responses
+  'api.internal_error': 'Beklenmeyen bir sunucu hatası oluştu',
+  'api.unauthorized': 'Yetkisiz erişim',
+  'api.user_not_found': 'Kullanıcı bulunamadı',
+  'api.user_not_found_onboarding': 'Kullanıcı bulunamadı. Önce başlangıç adımlarını tamamlayın.',
+  'api.score_not_found_onboarding': 'Kullanıcı puanı bulunamadı. Önce başlangıç adımlarını tamamlayın.',
+  'api.conversation_not_found': 'Sohbet bulunamadı',
+  'api.invalid_check_in': 'Geçersiz günlük kayıt',
+  'api.check_in_already_completed': 'Günlük kayıt zaten tamamlandı',
+  'api.check_in_already_completed_today': 'Bugünkü günlük kaydınızı zaten tamamladınız.',
+  'api.check_in_exists_for_date': 'Bu tarih için zaten bir kayıt var. Düzenlemek için PUT kullanın.',
+  'api.check_in_not_found': 'Günlük kayıt bulunamadı',
+  'api.no_plan_for_week': 'Bu hafta için plan yok',
+  'api.onboarding_already_completed': 'Başlangıç adımları zaten tamamlandı',
+  'api.onboarding_already_completed_detail':
+    'Başlangıç adımlarını zaten tamamladınız. Bu bilgileri güncellemek için lütfen destek ekibiyle iletişime geçin.',
+  'api.subscription_required': 'Bu özelliği kullanmak için aktif bir abonelik gereklidir.',
+  'api.email_verification_required':
+    'Bu işlem için e-posta doğrulaması gereklidir. Lütfen e-posta adresinizi doğrulayın.',
+  'api.admin_required': 'Yönetici erişimi gereklidir.',
+  'api.invalid_email': 'Geçersiz e-posta adresi',
+  'api.email_unchanged': 'Yeni e-posta adresi mevcut adresten farklı olmalıdır',
+  'api.email_in_use': 'Bu e-posta adresi zaten kullanılıyor.',
+  'api.email_change_initiated': 'E-posta değişikliği başlatıldı. Lütfen yeni e-posta adresinizi doğrulayın.',
+  'api.password_reset_requested': 'Bu e-posta adresine ait bir hesap varsa bir kod gönderdik.',
+  'api.password_reset_wait': 'Yeni bir kod istemeden önce lütfen {seconds} saniye bekleyin.',
+  'api.password_reset_limit': 'İstek sınırı aşıldı. Lütfen daha sonra tekrar deneyin.',
+  'api.too_many_requests': 'Çok fazla istek gönderildi. Lütfen daha sonra tekrar deneyin.',
+  'api.invalid_code': 'Geçersiz doğrulama kodu.',
+  'api.expired_code': 'Doğrulama kodunun süresi doldu. Lütfen yeni bir kod isteyin.',
+  'api.too_many_attempts': 'Çok fazla doğrulama denemesi yapıldı. Lütfen yeni bir kod isteyin.',
+  'api.expired_token': 'Sıfırlama anahtarının süresi doldu. Lütfen işleme baştan başlayın.',
+  'api.invalid_token': 'Sıfırlama anahtarı geçersiz veya süresi dolmuş. Lütfen işleme baştan başlayın.',
+  'api.account_not_found': 'Kullanıcı hesabı bulunamadı.',
+  'api.password_updated': 'Şifreniz başarıyla güncellendi.',
+  'api.consent_recorded': 'Onayınız kaydedildi.',
+  'api.receipt_validation_failed': 'Satın alma makbuzu doğrulanamadı. Lütfen tekrar deneyin.',
+  'api.no_subscription_in_receipt': 'Makbuzda geçerli bir abonelik bulunamadı.',
+  'api.not_available_in_production': 'Bu uç nokta canlı ortamda kullanılamaz.',
+  'api.logout_successful': 'Çıkış yapıldı. Lütfen uygulamada Firebase Auth SDK ile de oturumu kapatın.',
+  'api.field_required': '{field} zorunludur',
+  'api.field_object_required': '{field} nesnesi zorunludur',
+  'api.field_string': '{field} metin olmalıdır',
+  'api.field_string_or_null': '{field} metin veya null olmalıdır',
+  'api.field_non_empty_string': '{field} boş olmayan bir metin olmalıdır',
+  'api.field_too_long': '{field} en fazla {max} karakter olmalıdır',
+  'api.field_number': '{field} sayı olmalıdır',
+  'api.field_positive_number': '{field} pozitif bir sayı olmalıdır',
+  'api.field_date': '{field} YYYY-AA-GG biçiminde geçerli bir tarih olmalıdır',
+  'api.field_iso_date': '{field} ISO biçiminde (YYYY-AA-GG) olmalıdır',
+  'api.field_future_date': '{field} gelecekte bir tarih olamaz',
+  'api.invalid_locale': 'locale şunlardan biri veya null olmalıdır: {locales}',
+  'api.invalid_timezone': 'timezone geçerli bir IANA saat dilimi veya null olmalıdır',
+  'api.no_updatable_fields': 'Güncellenecek alan gönderilmedi',
+  'api.missing_answer': 'Şu alan için yanıt eksik: {field}',
+  'api.invalid_answer_number': 'Şu alan için geçersiz sayı: {field}',
+  'api.message_not_found': 'Mesaj bulunamadı',
+  'api.log_not_found': 'Kayıt bulunamadı',
+  'api.invalid_cursor': 'Geçersiz sayfa imleci',
+  'api.invalid_export_format': 'format json veya markdown olmalıdır',
+  'api.invalid_week_start': 'weekStart YYYY-AA-GG biçiminde bir pazartesi olmalıdır',
+  'api.invalid_week_start_or_current': 'weekStart YYYY-AA-GG biçiminde bir pazartesi veya "current" olmalıdır',
+  'api.invalid_plan': 'Geçersiz plan',
+  'api.invalid_range': 'Geçersiz aralık. weekly, monthly veya yearly kullanın',
+  'api.invalid_samples': 'Geçersiz ölçümler',
+  'api.check_in_exists_send_samples': 'Bu tarih için zaten bir kayıt var. Ölçümleri checkIn olmadan gönderin.',
+  'api.invalid_scoring_version': 'Geçersiz sürüm',
+  'api.invalid_recompute_request': 'Geçersiz yeniden hesaplama isteği',
+  'api.recompute_stale': 'Deneme çalıştırmasından sonra kullanıcının verileri değişti. Yeni bir deneme çalıştırın.',
+  'api.invalid_simulation_days': 'days 1 ile {max} arasında bir tam sayı olmalıdır',
+  'api.simulation_input_required': 'Ölçümleri ya da son kayıtlarınıza uygulanacak değişiklikleri gönderin',
+  'api.no_recent_check_ins': 'Başlangıç alınacak yakın tarihli kayıt yok. Bunun yerine ölçümleri gönderin.',
+  'api.invalid_notification': 'Geçersiz bildirim biçimi',
+  'api.goal_not_found': 'Hedef bulunamadı',
+  'api.invalid_goal': 'Geçersiz hedef',
+  'api.goal_limit': 'Bir kullanıcının en fazla {max} hedefi olabilir',
+  'api.invalid_import': 'Geçersiz içe aktarma',
+  'api.export_not_found': 'Dışa aktarma bulunamadı',
+  'api.export_in_progress': 'Bir dışa aktarma zaten sürüyor',
+  'api.export_not_ready': 'Dışa aktarma henüz hazır değil',
+  'api.export_expired': 'Dışa aktarmanın süresi doldu. Yeni bir tane isteyin.',
+  'api.account_deletion_not_found': 'Bekleyen bir hesap silme isteği yok',
+  'api.account_deletion_started': 'Hesap silme işlemi zaten başladı',
+
+  // Password reset email
+  'email.otp.subject': 'Doğrulama kodunuz',
+  'email.otp.heading': 'Şifre Sıfırlama Doğrulaması',
+  'email.otp.intro': 'Longevity AI doğrulama kodunuz:',
+  'email.otp.expiry': 'Bu kodun süresi {minutes} dakika içinde dolacak.',
+  'email.otp.ignore': 'Bu kodu siz istemediyseniz bu e-postayı dikkate almayın.',
+
+  // Coach briefings
+  'coach.briefing.no_data': 'Henüz yeterli veri yok. İlk günlük kaydınızla başlayalım.',
+  'coach.briefing.unavailable': 'Şu anda bir mesaj oluşturamadım.',
+
+  // Safety
+  'safety.emergency_numbers': "Türkiye'de ve AB'de 112, ABD'de 911",
+  'safety.suicidal_ideation.answer':
+    'Bunları yaşadığınız için gerçekten üzgünüm. Şu anda desteği hak ediyorsunuz ve bu desteği almanın doğru yeri bir koçluk uygulaması değil.\n\n' +
+    '- Hemen tehlikedeyseniz yerel acil durum numarasını arayın ({emergencyNumbers}).\n' +
+    "- ABD'de 988'i (Suicide & Crisis Lifeline) arayabilir veya mesaj gönderebilirsiniz. Diğer ülkelerdeki yardım hatlarını https://findahelpline.com adresinde bulabilirsiniz.\n" +
+    '- Yapabiliyorsanız güvendiğiniz birine ulaşın ve neler hissettiğinizi anlatın.\n\n' +
+    'Hazır olduğunuzda alışkanlıklarınız hakkında konuşmak için buradayım.',
+  'safety.chest_pain.notice':
+    'Göğüs ağrısı, baskı veya sıkışma hissi tıbbi bir acil durumun belirtisi olabilir. Şu anda yaşıyorsanız ya da ' +
+    'nefes darlığı, terleme, bulantı veya kola, çeneye ya da sırta yayılan ağrı eşlik ediyorsa hemen yerel acil ' +
+    'durum numarasını arayın ({emergencyNumbers}).',
+  'safety.pregnancy.disclaimer':
+    'Hamilelik ve emzirme dönemi sizin için neyin güvenli olduğunu değiştirir. Egzersiz, beslenme, oruç veya ' +
+    'takviyelerde yapacağınız her değişikliği kadın doğum uzmanınıza ya da ebenize danışın.',
+  'safety.medication_dosing.disclaimer':
+    'İlaç dozları konusunda tavsiye veremem. Lütfen reçetenize uyun ve herhangi bir ilaca başlamadan, ilacı ' +
+    'bırakmadan veya değiştirmeden önce doktorunuza ya da eczacınıza danışın.',
+  'safety.blocked_answer':
+    'Tanı koyamam veya ilaç kullanımına dair talimat veremem; bunun için doğru kişi doktorunuz ya da eczacınızdır. ' +
+    'Bu arada uyku, hareket, beslenme ve stres alışkanlıklarınız konusunda yardımcı olmaktan memnuniyet duyarım.',
+};
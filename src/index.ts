@@ -1,8 +1,22 @@
 import express, { Express } from 'express';
 import cors from 'cors';
 import { DateTime } from 'luxon';
-import { ingestKnowledgeDir, ingestUserLog } from './rag/ingest';
-import { longevityChat } from './rag/chat';
+import { ingestKnowledgeDir, ingestUserLog, MAX_USER_LOG_LENGTH } from './rag/ingest';
+import { longevityChat, longevityChatStream } from './rag/chat';
+import {
+  DEFAULT_CONVERSATION_ID,
+  getConversation,
+  listConversations,
+  createConversation,
+  normalizeConversationTitle,
+  getConversationMessages,
+  deleteChatMessage,
+  deleteConversation,
+  deleteAllConversations,
+  exportConversation,
+  conversationExportToMarkdown,
+} from './rag/conversations';
+import { getItem, deleteFromStore, deleteByUserId } from './rag/vectorStore';
 import { generateAgeMessage } from './age/ageMessages';
 import {
   setOnboardingScore,
@@ -10,9 +24,18 @@ import {
   updateScoreFromDaily,
 } from './score/scoreStore';
 import { OnboardingAnswers as ScoreOnboardingAnswers } from './score/scoreModel';
+import { checkInToEntryFields, entryToCheckIn, parseDailyCheckIn, scoreDailyCheckIn } from './scoring/engine';
+import { isScoringVersionId, listQuestionnaireSchemas, SCORING_VERSION_IDS } from './scoring/registry';
+import {
+  CURRENT_SCORING_MODEL,
+  getScoringModel,
+  getUserScoringModelId,
+  isScoringModelId,
+  listScoringModels,
+} from './scoring/models';
+import { buildScoringRecompute, recomputeUserScoring } from './scoring/recompute';
+import { DailyAnswers, DailyCheckIn } from './scoring/scoringModel';
 import {
-  calculateOnboardingResult,
-  calculateDailyScore,
   MAX_OFFSET_YEARS,
   AGE_FACTOR,
 } from './longevity/longevityScoring';
@@ -29,13 +52,27 @@ import {
   getChatHistory,
   saveChatMessage,
   getDailyEntriesForTrends,
+  writeReplayedDailyEntries,
 } from './longevity/longevityStore';
 import { calculateStreak, daysBetween } from './longevity/streakHelpers';
+import { replayDailyEntries } from './longevity/dailyReplay';
+import { aggregateFactors, getEntryContributions } from './longevity/factorAnalytics';
+import { buildTrendPeriod } from './longevity/trendProjection';
+import { importCheckInHistory, parseImportBody, validateImportRows } from './longevity/historyImport';
+import { getUserInsights, renderInsight, scheduleInsightsRefresh } from './longevity/insights';
+import {
+  applyAnswerChanges,
+  averageRecentAnswers,
+  MAX_SIMULATION_DAYS,
+  simulateCheckIn,
+} from './longevity/simulator';
 import {
   OnboardingSubmitRequest,
   OnboardingSubmitResponse,
   DailyEntryDocument,
+  EntryProvenance,
   DeltaAnalyticsResponse,
+  FactorAnalyticsResponse,
   WeeklyDeltaResponse,
   MonthlyDeltaResponse,
   YearlyDeltaResponse,
@@ -43,18 +80,48 @@ import {
   DeltaSeriesPoint,
   MonthlyDeltaSeriesPoint,
   BiologicalAgeState,
-  DailyMetrics,
   DailyUpdateResponse,
   HistoryPoint,
   TodayEntry,
   StatsSummaryResponse,
   TrendResponse,
-  TrendPeriod,
-  TrendPoint,
+  UserDocument,
 } from './longevity/longevityModel';
-import { requireAuth, requireEmailVerification, requireSubscription, AuthenticatedRequest } from './auth/authMiddleware';
+import {
+  requireAuth,
+  requireAdmin,
+  requireEmailVerification,
+  requireSubscription,
+  AuthenticatedRequest,
+} from './auth/authMiddleware';
 import { verifyIdToken, getOrCreateUserProfile, calculateAgeFromDateOfBirth } from './auth/firebaseAuth';
-import { firestore } from './config/firestore';
+import { storage } from './config/storage';
+import {
+  ApiMessageKey,
+  bindResponseLocale,
+  getResponseLocale,
+  getUserLocale,
+  isLocale,
+  Locale,
+  localizeReasons,
+  renderMessages,
+  responseMessage,
+  sendError,
+  SUPPORTED_LOCALES,
+} from './i18n/i18n';
+import { generateWeeklyPlan, buildPlanResponse } from './coach/actionPlans';
+import { validatePlanInput } from './coach/actionPlanSchema';
+import { getWeekStart, isValidWeekStart } from './coach/actionPlanProgress';
+import { buildGoal, buildGoalResponse, listGoalResponses } from './goals/goals';
+import { MAX_GOALS, validateGoalInput, validateGoalUpdate } from './goals/goalSchema';
+import { validateHealthSamples } from './health/healthSamples';
+import { getDeviceMetrics, mergeHealthSamples, prefillCheckInBody, saveDeviceMetrics } from './health/healthIngestion';
+import {
+  getEntryProvenance,
+  keepUnchangedSources,
+  parseSourceClaims,
+  provenanceForAnswers,
+} from './longevity/provenance';
 import * as admin from 'firebase-admin';
 import {
   requestPasswordReset,
@@ -64,6 +131,23 @@ import {
 import { validatePassword } from './auth/passwordValidation';
 import { getPrivacyPolicy, getTermsOfService } from './legal/documents';
 import { recordConsent, getConsentRecord, needsConsentUpdate } from './legal/consentTracking';
+import {
+  getDataExportArchive,
+  getDataExportJob,
+  requestDataExport,
+  scheduleDataExport,
+  startDataExportSweeper,
+  toDataExportJobResponse,
+} from './privacy/dataExport';
+import {
+  cancelAccountDeletion,
+  getAccountDeletion,
+  getGracePeriodDays,
+  requestAccountDeletion,
+  scheduleAccountDeletionSweep,
+  startAccountDeletionSweeper,
+  toAccountDeletionResponse,
+} from './privacy/accountDeletion';
 import {
   verifyAndUpdateSubscription,
   getSubscriptionStatus,
@@ -77,81 +161,355 @@ const clampValue = (value: number, min: number, max: number) =>
 const app: Express = express();
 
 app.use(cors());
-app.use(express.json());
-
-function normalizeDailyMetrics(body: any): DailyMetrics {
-  const today = new Date().toISOString().slice(0, 10);
-  const source = body.metrics ?? body;
-
-  const num = (value: any, fallback = 0) =>
-    Number.isFinite(Number(value)) ? Number(value) : fallback;
-  const bool = (value: any) => Boolean(value);
-
-  return {
-    date: source.date ?? today,
-    sleepHours: num(source.sleepHours),
-    steps: num(source.steps),
-    vigorousMinutes: num(source.vigorousMinutes),
-    processedFoodScore: num(source.processedFoodScore),
-    alcoholUnits: num(source.alcoholUnits),
-    stressLevel: num(source.stressLevel),
-    lateCaffeine: bool(source.lateCaffeine),
-    screenLate: bool(source.screenLate),
-    bedtimeHour: num(source.bedtimeHour),
-  };
-}
+// HealthKit sample batches and history imports get a larger limit on their own routes
+const LARGE_BODY_ROUTES = new Set(['/api/health/samples', '/api/age/history/import']);
+const jsonBody = express.json();
+const largeJsonBody = express.json({ limit: '5mb' });
+app.use((req, res, next) => (LARGE_BODY_ROUTES.has(req.path) ? next() : jsonBody(req, res, next)));
 
 app.post('/api/chat', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
   try {
-    const { message } = req.body;
+    const { message, conversationId } = req.body;
     const userId = req.user!.uid; // Get userId from auth token
     
     console.log('[chat] Request received:', { userId, messageLength: message?.length });
     
     if (!message) {
       console.error('[chat] Missing required field: message');
-      return res.status(400).json({ error: 'message is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'message' });
     }
 
     if (typeof message !== 'string' || message.trim().length === 0) {
       console.error('[chat] Invalid message:', message);
-      return res.status(400).json({ error: 'message must be a non-empty string' });
+      return sendError(res, 400, 'api.field_non_empty_string', { field: 'message' });
+    }
+
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+      return sendError(res, 400, 'api.field_string', { field: 'conversationId' });
+    }
+    const conversation = await getConversation(userId, conversationId ?? DEFAULT_CONVERSATION_ID);
+    if (!conversation) {
+      return sendError(res, 404, 'api.conversation_not_found');
     }
 
+    const locale = bindResponseLocale(req, res, await getUserLocale(userId));
     console.log('[chat] Calling longevityChat...');
-    const result = await longevityChat({ userId, message: message.trim() });
+    const result = await longevityChat({ userId, message: message.trim(), conversationId: conversation.id, locale });
     console.log('[chat] Success, answer length:', result.answer?.length);
     
-    return res.json(result);
+    return res.json({ ...result, conversationId: conversation.id });
   } catch (error: any) {
     console.error('[chat] Error:', error);
     console.error('[chat] Error stack:', error?.stack);
     console.error('[chat] Error message:', error?.message);
     
     // Return more detailed error in development
-    const errorMessage = process.env.NODE_ENV === 'development' 
-      ? error?.message || 'Internal server error'
-      : 'Internal server error';
-    
-    return res.status(500).json({ 
-      error: 'Internal server error',
-      message: errorMessage,
-      ...(process.env.NODE_ENV === 'development' && { stack: error?.stack })
+    if (process.env.NODE_ENV === 'development') {
+      return sendError(res, 500, 'api.internal_error', {}, { message: error?.message, stack: error?.stack });
+    }
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/chat/stream
+ * Streaming variant of /api/chat using Server-Sent Events.
+ * Body: { message: string, conversationId?: string }
+ * Events:
+ *   context - { contextItemIds: string[], conversationId: string } (sent once, before any tokens)
+ *   delta   - { content: string } (next part of the answer)
+ *   done    - { answer: string, moderation: ChatModeration }
+ *   error   - { error: string }
+ * Closing the connection aborts the completion; the partial answer is still saved to history.
+ * Every delta is screened before it is sent: red-flagged messages arrive as a single delta,
+ * other answers arrive sentence by sentence. When an answer is blocked no more of it is sent;
+ * the blocked answer follows as the last delta.
+ */
+app.post('/api/chat/stream', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  const { message, conversationId } = req.body || {};
+  const userId = req.user!.uid;
+
+  if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    return sendError(res, 400, 'api.field_non_empty_string', { field: 'message' });
+  }
+  if (conversationId !== undefined && typeof conversationId !== 'string') {
+    return sendError(res, 400, 'api.field_string', { field: 'conversationId' });
+  }
+
+  let conversation;
+  let locale: Locale;
+  try {
+    conversation = await getConversation(userId, conversationId ?? DEFAULT_CONVERSATION_ID);
+    locale = bindResponseLocale(req, res, await getUserLocale(userId));
+  } catch (error: any) {
+    console.error('[chat/stream] Conversation lookup error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+  if (!conversation) {
+    return sendError(res, 404, 'api.conversation_not_found');
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // res 'close' fires when the client disconnects before we end the response
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  try {
+    const result = await longevityChatStream({
+      userId,
+      message: message.trim(),
+      conversationId: conversation.id,
+      locale,
+      signal: abortController.signal,
+      onContext: (contextItemIds) => sendEvent('context', { contextItemIds, conversationId: conversation.id }),
+      onDelta: (content) => sendEvent('delta', { content }),
     });
+
+    if (!result.aborted) {
+      sendEvent('done', { answer: result.answer, moderation: result.moderation });
+    }
+  } catch (error: any) {
+    console.error('[chat/stream] Error:', error);
+    sendEvent('error', { error: 'Internal server error', message: responseMessage(res, 'api.internal_error') });
+  } finally {
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+});
+
+/**
+ * GET /api/chat/conversations
+ * Lists the user's coach conversations, most recent first.
+ * Response: { conversations: ConversationRecord[] }
+ */
+app.get('/api/chat/conversations', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const conversations = await listConversations(req.user!.uid);
+    return res.json({ conversations });
+  } catch (error: any) {
+    console.error('[chat/conversations] list error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/chat/conversations
+ * Starts a new conversation thread.
+ * Body: { title?: string }
+ * Response: { conversation: ConversationRecord }
+ */
+app.post('/api/chat/conversations', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    let title: string | null;
+    try {
+      title = normalizeConversationTitle(req.body?.title);
+    } catch {
+      return sendError(res, 400, 'api.field_string', { field: 'title' });
+    }
+    const conversation = await createConversation(req.user!.uid, title);
+    return res.status(201).json({ conversation });
+  } catch (error: any) {
+    console.error('[chat/conversations] create error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/chat/conversations
+ * Clears all coach history: every conversation, its messages and the user's RAG logs.
+ * Response: { ok: true, deletedConversations: number, deletedMessages: number }
+ */
+app.delete('/api/chat/conversations', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await deleteAllConversations(req.user!.uid);
+    return res.json({ ok: true, ...result });
+  } catch (error: any) {
+    console.error('[chat/conversations] delete all error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/chat/conversations/:conversationId/messages
+ * Pages through a conversation, newest page first. Messages are chronological within a page.
+ * Query: limit (default 30, max 100), before (nextCursor from the previous page)
+ * Use "default" for messages sent without a conversationId.
+ * Response: { messages: ChatMessageRecord[], nextCursor: string | null }
+ */
+app.get('/api/chat/conversations/:conversationId/messages', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const { conversationId } = req.params;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    const before = typeof req.query.before === 'string' ? req.query.before : undefined;
+
+    if (limit !== undefined && (!Number.isFinite(limit) || limit < 1)) {
+      return sendError(res, 400, 'api.field_positive_number', { field: 'limit' });
+    }
+
+    if (!(await getConversation(userId, conversationId))) {
+      return sendError(res, 404, 'api.conversation_not_found');
+    }
+
+    const page = await getConversationMessages(userId, conversationId, { limit, before });
+    return res.json(page);
+  } catch (error: any) {
+    if (error?.message === 'Invalid cursor') {
+      return sendError(res, 400, 'api.invalid_cursor');
+    }
+    console.error('[chat/conversations] messages error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
-app.post('/api/ingest-log', async (req, res) => {
+/**
+ * DELETE /api/chat/conversations/:conversationId/messages/:messageId
+ * Deletes a single message.
+ * Response: { ok: true }
+ */
+app.delete('/api/chat/conversations/:conversationId/messages/:messageId', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const { userId, logText } = req.body;
-    if (!userId || !logText) {
-      return res.status(400).json({ error: 'userId and logText are required' });
+    const { conversationId, messageId } = req.params;
+    const deleted = await deleteChatMessage(req.user!.uid, conversationId, messageId);
+    if (!deleted) {
+      return sendError(res, 404, 'api.message_not_found');
     }
-    await ingestUserLog(userId, logText);
     return res.json({ ok: true });
   } catch (error: any) {
-    console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    console.error('[chat/conversations] delete message error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/chat/conversations/:conversationId
+ * Deletes a conversation, its messages and the RAG logs derived from it.
+ * Response: { ok: true, deletedMessages: number }
+ */
+app.delete('/api/chat/conversations/:conversationId', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const { conversationId } = req.params;
+    if (!(await getConversation(userId, conversationId))) {
+      return sendError(res, 404, 'api.conversation_not_found');
+    }
+    const result = await deleteConversation(userId, conversationId);
+    return res.json({ ok: true, ...result });
+  } catch (error: any) {
+    console.error('[chat/conversations] delete error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/chat/conversations/:conversationId/export
+ * Exports a whole conversation.
+ * Query: format = json (default) | markdown
+ * Response: ConversationExport as a JSON attachment, or a Markdown file
+ */
+app.get('/api/chat/conversations/:conversationId/export', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { conversationId } = req.params;
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && format !== 'markdown') {
+      return sendError(res, 400, 'api.invalid_export_format');
+    }
+
+    const data = await exportConversation(req.user!.uid, conversationId);
+    if (!data) {
+      return sendError(res, 404, 'api.conversation_not_found');
+    }
+
+    if (format === 'markdown') {
+      res.set('Content-Type', 'text/markdown; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="conversation-${data.conversation.id}.md"`);
+      return res.send(conversationExportToMarkdown(data));
+    }
+
+    res.set('Content-Disposition', `attachment; filename="conversation-${data.conversation.id}.json"`);
+    return res.json(data);
+  } catch (error: any) {
+    console.error('[chat/conversations] export error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/ingest-log
+ * Stores a log in the authenticated user's coach context.
+ * Body: { logText: string } (at most MAX_USER_LOG_LENGTH characters)
+ * Response: { ok: true, id }
+ */
+app.post('/api/ingest-log', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const { logText } = req.body;
+    if (!logText) {
+      return sendError(res, 400, 'api.field_required', { field: 'logText' });
+    }
+    if (typeof logText !== 'string') {
+      return sendError(res, 400, 'api.field_string', { field: 'logText' });
+    }
+    if (logText.length > MAX_USER_LOG_LENGTH) {
+      return sendError(res, 400, 'api.field_too_long', { field: 'logText', max: MAX_USER_LOG_LENGTH });
+    }
+    const id = await ingestUserLog(userId, logText);
+    return res.json({ ok: true, id });
+  } catch (error: any) {
+    console.error('[ingest-log] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/ingest-log/:id
+ * Deletes one of the authenticated user's ingested logs from the vector store.
+ * Response: { ok: true }
+ */
+app.delete('/api/ingest-log/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const item = getItem(req.params.id);
+    if (!item || item.metadata.source !== 'user_log' || item.metadata.userId !== userId) {
+      return sendError(res, 404, 'api.log_not_found');
+    }
+    deleteFromStore(item.id);
+    return res.json({ ok: true });
+  } catch (error: any) {
+    console.error('[ingest-log] delete error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/ingest-log
+ * Deletes all of the authenticated user's ingested logs from the vector store.
+ * Response: { ok: true, deleted: number }
+ */
+app.delete('/api/ingest-log', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = deleteByUserId(req.user!.uid);
+    return res.json({ ok: true, deleted });
+  } catch (error: any) {
+    console.error('[ingest-log] delete all error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -164,7 +522,7 @@ app.post('/api/auth/me', async (req, res) => {
   try {
     const { idToken, firstName, lastName, dateOfBirth } = req.body || {};
     if (!idToken || typeof idToken !== 'string') {
-      return res.status(400).json({ error: 'idToken is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'idToken' });
     }
 
     const decoded = await verifyIdToken(idToken);
@@ -183,7 +541,7 @@ app.post('/api/auth/me', async (req, res) => {
       if (dateRegex.test(dateOfBirth)) {
         profileData.dateOfBirth = dateOfBirth;
       } else {
-        return res.status(400).json({ error: 'dateOfBirth must be in ISO format (YYYY-MM-DD)' });
+        return sendError(res, 400, 'api.field_iso_date', { field: 'dateOfBirth' });
       }
     }
 
@@ -231,16 +589,16 @@ app.post('/api/auth/me', async (req, res) => {
   } catch (error: any) {
     console.error('[auth/me] error:', error);
     if (String(error?.message ?? '').toLowerCase().includes('auth')) {
-      return res.status(401).json({ error: 'Unauthorized' });
+      return sendError(res, 401, 'api.unauthorized');
     }
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
 /**
  * PATCH /api/auth/profile
  * Protected update of basic profile fields.
- * Supports: firstName, lastName, dateOfBirth, chronologicalAgeYears, timezone
+ * Supports: firstName, lastName, dateOfBirth, chronologicalAgeYears, timezone, locale ('en' | 'tr' | null)
  * If dateOfBirth is updated, chronologicalAgeYears will be recalculated.
  */
 app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
@@ -255,7 +613,7 @@ app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: Aut
       } else if (req.body.firstName === null) {
         updates.firstName = null;
       } else {
-        return res.status(400).json({ error: 'firstName must be a string or null' });
+        return sendError(res, 400, 'api.field_string_or_null', { field: 'firstName' });
       }
     }
     
@@ -266,7 +624,7 @@ app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: Aut
       } else if (req.body.lastName === null) {
         updates.lastName = null;
       } else {
-        return res.status(400).json({ error: 'lastName must be a string or null' });
+        return sendError(res, 400, 'api.field_string_or_null', { field: 'lastName' });
       }
     }
     
@@ -284,10 +642,10 @@ app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: Aut
             updates.chronologicalAgeYears = calculatedAge;
           }
         } else {
-          return res.status(400).json({ error: 'dateOfBirth must be in ISO format (YYYY-MM-DD)' });
+          return sendError(res, 400, 'api.field_iso_date', { field: 'dateOfBirth' });
         }
       } else {
-        return res.status(400).json({ error: 'dateOfBirth must be a string or null' });
+        return sendError(res, 400, 'api.field_string_or_null', { field: 'dateOfBirth' });
       }
     }
     
@@ -295,7 +653,7 @@ app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: Aut
     if (req.body?.chronologicalAgeYears !== undefined) {
       const val = Number(req.body.chronologicalAgeYears);
       if (Number.isNaN(val)) {
-        return res.status(400).json({ error: 'chronologicalAgeYears must be a number' });
+        return sendError(res, 400, 'api.field_number', { field: 'chronologicalAgeYears' });
       }
       updates.chronologicalAgeYears = val;
     }
@@ -309,25 +667,32 @@ app.patch('/api/auth/profile', requireAuth, requireSubscription, async (req: Aut
         if (trimmed.length > 0) {
           updates.timezone = trimmed;
         } else {
-          return res.status(400).json({ error: 'timezone must be a valid IANA timezone string or null' });
+          return sendError(res, 400, 'api.invalid_timezone');
         }
       } else {
-        return res.status(400).json({ error: 'timezone must be a string or null' });
+        return sendError(res, 400, 'api.field_string_or_null', { field: 'timezone' });
       }
     }
 
-    if (Object.keys(updates).length === 0) {
-      return res.status(400).json({ error: 'No updatable fields provided' });
+    // Handle locale (null falls back to Accept-Language)
+    if (req.body?.locale !== undefined) {
+      if (req.body.locale === null || isLocale(req.body.locale)) {
+        updates.locale = req.body.locale;
+      } else {
+        return sendError(res, 400, 'api.invalid_locale', { locales: SUPPORTED_LOCALES.join(', ') });
+      }
     }
 
-    updates.updatedAt = new Date().toISOString();
+    if (Object.keys(updates).length === 0) {
+      return sendError(res, 400, 'api.no_updatable_fields');
+    }
 
-    await firestore.collection('users').doc(userId).set(updates, { merge: true });
+    await storage.users.merge(userId, updates);
     const updated = await getOrCreateUserProfile(userId);
     return res.json(updated);
   } catch (error: any) {
     console.error('[auth/profile] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -342,10 +707,10 @@ app.post('/api/auth/logout', requireAuth, async (req: AuthenticatedRequest, res)
     // Logout is handled client-side by Firebase Auth SDK.
     // This endpoint provides a place for any server-side cleanup if needed in the future.
     // For now, it just confirms the request was authenticated.
-    return res.json({ success: true, message: 'Logout successful. Please sign out on the client side using Firebase Auth SDK.' });
+    return res.json({ success: true, message: responseMessage(res, 'api.logout_successful') });
   } catch (error: any) {
     console.error('[auth/logout] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -363,16 +728,16 @@ app.patch('/api/auth/email', requireAuth, requireEmailVerification, async (req:
     const currentEmail = req.user!.email;
 
     if (!newEmail || typeof newEmail !== 'string') {
-      return res.status(400).json({ error: 'newEmail is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'newEmail' });
     }
 
     const normalizedNewEmail = newEmail.trim().toLowerCase();
     if (!normalizedNewEmail.includes('@')) {
-      return res.status(400).json({ error: 'Invalid email address' });
+      return sendError(res, 400, 'api.invalid_email');
     }
 
     if (normalizedNewEmail === currentEmail?.toLowerCase()) {
-      return res.status(400).json({ error: 'New email must be different from current email' });
+      return sendError(res, 400, 'api.email_unchanged');
     }
 
     // Update email in Firebase Auth
@@ -384,25 +749,22 @@ app.patch('/api/auth/email', requireAuth, requireEmailVerification, async (req:
       });
     } catch (error: any) {
       if (error.code === 'auth/email-already-exists') {
-        return res.status(409).json({ error: 'email_already_exists', message: 'This email is already in use.' });
+        return sendError(res, 409, 'api.email_in_use', {}, { error: 'email_already_exists' });
       }
       console.error('[auth/email] Failed to update email:', error);
       throw error;
     }
 
-    // Update email in Firestore user profile
-    await firestore.collection('users').doc(userId).set(
-      { email: normalizedNewEmail, updatedAt: new Date().toISOString() },
-      { merge: true }
-    );
+    // Update email in the stored user profile
+    await storage.users.merge(userId, { email: normalizedNewEmail });
 
     return res.json({
       success: true,
-      message: 'Email change initiated. Please verify your new email address.',
+      message: responseMessage(res, 'api.email_change_initiated'),
     });
   } catch (error: any) {
     console.error('[auth/email] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -420,11 +782,11 @@ app.patch('/api/auth/password', requireAuth, requireEmailVerification, async (re
     const userEmail = req.user!.email;
 
     if (!currentPassword || typeof currentPassword !== 'string') {
-      return res.status(400).json({ error: 'currentPassword is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'currentPassword' });
     }
 
     if (!newPassword || typeof newPassword !== 'string') {
-      return res.status(400).json({ error: 'newPassword is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'newPassword' });
     }
 
     // Validate new password strength
@@ -456,7 +818,7 @@ app.patch('/api/auth/password', requireAuth, requireEmailVerification, async (re
 
     return res.json({
       success: true,
-      message: 'Password updated successfully.',
+      message: responseMessage(res, 'api.password_updated'),
     });
   } catch (error: any) {
     console.error('[auth/password] error:', error);
@@ -471,44 +833,67 @@ app.patch('/api/auth/password', requireAuth, requireEmailVerification, async (re
       });
     }
 
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
 /**
  * DELETE /api/auth/account
- * Delete user account permanently.
+ * Schedule permanent deletion of the account. Everything stored about the user is purged
+ * once the grace period (ACCOUNT_DELETION_GRACE_DAYS) ends; until then it can be cancelled.
+ * Asking again returns the pending deletion.
  * Requires: email verification (sensitive action)
- * Response: 200 { success: true }
+ * Response: 202 { deletion: { status, requestedAt, scheduledFor, canCancel } }
  */
 app.delete('/api/auth/account', requireAuth, requireEmailVerification, async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user!.uid;
+    const user = await storage.users.get(userId);
+    const deletion = await requestAccountDeletion(userId, req.user!.email ?? user?.email);
 
-    // Delete user from Firebase Auth
-    try {
-      await admin.auth().deleteUser(userId);
-    } catch (error: any) {
-      console.error('[auth/account] Failed to delete user from Firebase Auth:', error);
-      throw error;
-    }
-
-    // Delete user document from Firestore
-    // Note: This will cascade delete related data if Firestore rules are configured
-    try {
-      await firestore.collection('users').doc(userId).delete();
-    } catch (error: any) {
-      console.error('[auth/account] Failed to delete user document:', error);
-      // Continue even if Firestore delete fails - user is already deleted from Auth
+    if (getGracePeriodDays() === 0) {
+      scheduleAccountDeletionSweep();
     }
 
-    return res.json({
-      success: true,
-      message: 'Account deleted successfully.',
-    });
+    return res.status(202).json({ deletion: toAccountDeletionResponse(deletion) });
   } catch (error: any) {
     console.error('[auth/account] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/auth/account/deletion
+ * The pending deletion of the account, or null.
+ * Response: 200 { deletion: { status, requestedAt, scheduledFor, canCancel } | null }
+ */
+app.get('/api/auth/account/deletion', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deletion = await getAccountDeletion(req.user!.uid);
+    return res.json({ deletion: deletion ? toAccountDeletionResponse(deletion) : null });
+  } catch (error: any) {
+    console.error('[auth/account/deletion] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/auth/account/deletion/cancel
+ * Cancel a pending deletion during its grace period.
+ * Response: 200 { ok: true } | 404 when nothing is pending | 409 once the purge has started
+ */
+app.post('/api/auth/account/deletion/cancel', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await cancelAccountDeletion(req.user!.uid);
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? sendError(res, 404, 'api.account_deletion_not_found')
+        : sendError(res, 409, 'api.account_deletion_started');
+    }
+    return res.json({ ok: true });
+  } catch (error: any) {
+    console.error('[auth/account/deletion/cancel] error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -516,6 +901,7 @@ app.delete('/api/auth/account', requireAuth, requireEmailVerification, async (re
  * POST /api/auth/password-reset/request
  * Request a password reset OTP code.
  * Body: { email: string }
+ * The email is sent in the Accept-Language locale.
  * Response: 200 { message: "If an account exists for this email, we've sent a code." }
  */
 app.post('/api/auth/password-reset/request', async (req, res) => {
@@ -523,30 +909,30 @@ app.post('/api/auth/password-reset/request', async (req, res) => {
     const { email } = req.body;
 
     if (!email || typeof email !== 'string') {
-      return res.status(400).json({ error: 'email is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'email' });
     }
 
-    await requestPasswordReset(email);
+    // The account is not looked up here (no enumeration), so the email follows Accept-Language
+    await requestPasswordReset(email, getResponseLocale(req, res));
 
     // Always return success to prevent account enumeration
     return res.status(200).json({
-      message: "If an account exists for this email, we've sent a code.",
+      message: responseMessage(res, 'api.password_reset_requested'),
     });
   } catch (error: any) {
     console.error('[password-reset/request] error:', error);
 
     // Handle rate limiting errors
     if (error.message && error.message.startsWith('too_many_requests')) {
-      return res.status(429).json({
+      return sendError(res, 429, error.messageKey ?? 'api.too_many_requests', error.messageParams, {
         error: 'too_many_requests',
-        message: error.message.includes(':') ? error.message.split(':')[1].trim() : 'Too many requests. Please try again later.',
       });
     }
 
     // For other errors, still return 200 to prevent enumeration
     // But log the error for debugging
     return res.status(200).json({
-      message: "If an account exists for this email, we've sent a code.",
+      message: responseMessage(res, 'api.password_reset_requested'),
     });
   }
 });
@@ -562,11 +948,11 @@ app.post('/api/auth/password-reset/verify', async (req, res) => {
     const { email, code } = req.body;
 
     if (!email || typeof email !== 'string') {
-      return res.status(400).json({ error: 'email is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'email' });
     }
 
     if (!code || typeof code !== 'string') {
-      return res.status(400).json({ error: 'code is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'code' });
     }
 
     const result = await verifyPasswordResetOTP(email, code);
@@ -578,18 +964,18 @@ app.post('/api/auth/password-reset/verify', async (req, res) => {
     const errorMessage = error.message || 'invalid_code';
 
     if (errorMessage === 'expired_code') {
-      return res.status(400).json({ error: 'expired_code', message: 'The verification code has expired. Please request a new one.' });
+      return sendError(res, 400, 'api.expired_code', {}, { error: 'expired_code' });
     }
 
     if (errorMessage === 'too_many_attempts') {
-      return res.status(400).json({ error: 'too_many_attempts', message: 'Too many verification attempts. Please request a new code.' });
+      return sendError(res, 400, 'api.too_many_attempts', {}, { error: 'too_many_attempts' });
     }
 
     if (errorMessage === 'invalid_code') {
-      return res.status(400).json({ error: 'invalid_code', message: 'Invalid verification code.' });
+      return sendError(res, 400, 'api.invalid_code', {}, { error: 'invalid_code' });
     }
 
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -604,11 +990,11 @@ app.post('/api/auth/password-reset/confirm', async (req, res) => {
     const { resetToken, newPassword } = req.body;
 
     if (!resetToken || typeof resetToken !== 'string') {
-      return res.status(400).json({ error: 'resetToken is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'resetToken' });
     }
 
     if (!newPassword || typeof newPassword !== 'string') {
-      return res.status(400).json({ error: 'newPassword is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'newPassword' });
     }
 
     await confirmPasswordReset(resetToken, newPassword);
@@ -630,34 +1016,34 @@ app.post('/api/auth/password-reset/confirm', async (req, res) => {
     const errorMessage = error.message || 'Internal server error';
 
     if (errorMessage === 'expired_token') {
-      return res.status(400).json({ error: 'expired_token', message: 'The reset token has expired. Please start the process again.' });
+      return sendError(res, 400, 'api.expired_token', {}, { error: 'expired_token' });
     }
 
     if (errorMessage === 'invalid_token' || errorMessage === 'token_not_verified' || errorMessage === 'token_already_used') {
-      return res.status(400).json({ error: 'invalid_token', message: 'Invalid or expired reset token. Please start the process again.' });
+      return sendError(res, 400, 'api.invalid_token', {}, { error: 'invalid_token' });
     }
 
     if (errorMessage === 'user_not_found') {
-      return res.status(404).json({ error: 'user_not_found', message: 'User account not found.' });
+      return sendError(res, 404, 'api.account_not_found', {}, { error: 'user_not_found' });
     }
 
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
 app.post('/api/age/daily-update', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
   console.log('[daily-update] body:', JSON.stringify(req.body, null, 2));
   try {
-    const body = req.body as { metrics?: Partial<DailyMetrics> };
     const userId = req.user!.uid;
 
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
 
     // Get user's timezone (default to UTC if not set)
     const userTimezone = user.timezone || 'UTC';
+    const locale = bindResponseLocale(req, res, user.locale);
     
     // Calculate today's dateKey in user's timezone
     const todayDateKey = getTodayDateKey(userTimezone);
@@ -665,23 +1051,28 @@ app.post('/api/age/daily-update', requireAuth, requireSubscription, async (req:
     // Check if a daily entry already exists for today's dateKey
     const entryExists = await hasDailyEntryForDateKey(userId, todayDateKey);
     if (entryExists) {
-      return res.status(409).json({
+      return sendError(res, 409, 'api.check_in_already_completed_today', {}, {
         error: 'Daily check-in already completed',
-        message: 'You have already completed your daily check-in for today.',
         dateKey: todayDateKey,
       });
     }
 
     const chronologicalAgeYears = user.chronologicalAgeYears;
 
-    // Normalize metrics and set date to today's dateKey
-    const rawMetrics = normalizeDailyMetrics(body.metrics ?? body);
-    const metrics: DailyMetrics = {
-      ...rawMetrics,
-      date: todayDateKey, // Use dateKey as the date field
-    };
+    // Validate against the questionnaire schema the answers belong to.
+    // Metrics the user left out are filled from today's HealthKit data when there is any.
+    const checkIn = await parseSourcedCheckIn(userId, todayDateKey, req.body);
+    if (!checkIn.ok) {
+      return sendError(res, 400, 'api.invalid_check_in', {}, { details: checkIn.errors });
+    }
 
-    const { score, deltaYears, reasons } = calculateDailyScore(metrics);
+    // Scored with the user's model so new entries match their history
+    const scoringModelVersion = getUserScoringModelId(user);
+    const { score, deltaYears, reasons, reasonCodes, contributions } = scoreDailyCheckIn(
+      checkIn.checkIn,
+      todayDateKey,
+      scoringModelVersion
+    );
 
     // Build updated state
     const baselineBiologicalAgeYears = user.baselineBiologicalAgeYears;
@@ -796,24 +1187,9 @@ app.post('/api/age/daily-update', requireAuth, requireSubscription, async (req:
       }
     }
 
-    // Use Firestore transaction to ensure atomicity and prevent race conditions
-    const userRef = firestore.collection('users').doc(userId);
-    const dailyEntryRef = firestore.collection('users').doc(userId).collection('dailyEntries').doc(todayDateKey);
-
-    await firestore.runTransaction(async (transaction) => {
-      // Re-check if entry exists (within transaction)
-      const entrySnapshot = await transaction.get(dailyEntryRef);
-      if (entrySnapshot.exists) {
-        throw new Error('Daily check-in already completed for this date');
-      }
-
-      // Re-read user document to get latest state (within transaction)
-      const userSnapshot = await transaction.get(userRef);
-      if (!userSnapshot.exists) {
-        throw new Error('User not found');
-      }
-
-      const userData = userSnapshot.data();
+    // Create the entry and update the user atomically to prevent race conditions.
+    // The storage layer re-checks the entry and re-reads the user inside its transaction.
+    await storage.dailyEntries.createWithUserUpdate(userId, todayDateKey, (userData) => {
       const currentLastCheckinDayKey = userData?.lastCheckinDayKey || null;
 
       // Verify we're using the correct lastCheckinDayKey (may have changed in transaction)
@@ -855,153 +1231,994 @@ app.post('/api/age/daily-update', requireAuth, requireSubscription, async (req:
       }
 
       // Create daily entry
-      const dailyEntryDoc: any = {
-      userId,
+      const entry = {
+        userId,
         dateKey: todayDateKey,
         date: todayDateKey,
-        sleepHours: metrics.sleepHours,
-        steps: metrics.steps,
-        vigorousMinutes: metrics.vigorousMinutes,
-        processedFoodScore: metrics.processedFoodScore,
-        alcoholUnits: metrics.alcoholUnits,
-        stressLevel: metrics.stressLevel,
-        lateCaffeine: metrics.lateCaffeine,
-        screenLate: metrics.screenLate,
-        bedtimeHour: metrics.bedtimeHour,
+        ...checkInToEntryFields(checkIn.checkIn),
+        provenance: checkIn.provenance,
+        scoringModelVersion,
         score,
         deltaYears: actualDeltaYears,
         reasons,
+        reasonCodes,
+        contributions,
         currentBiologicalAgeYears,
         currentAgingDebtYears,
         rejuvenationStreakDays,
         accelerationStreakDays,
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       };
-      transaction.set(dailyEntryRef, dailyEntryDoc);
 
       // Update user document
       const now = new Date().toISOString();
-      transaction.update(userRef, {
+      const userUpdate = {
+        currentBiologicalAgeYears,
+        currentAgingDebtYears,
+        rejuvenationStreakDays,
+        accelerationStreakDays,
+        totalRejuvenationDays,
+        totalAccelerationDays,
+        lastCheckinDayKey: todayDateKey,
+        lastCheckinAt: now,
+      };
+
+      return { entry, userUpdate };
+    });
+
+    // Mined again in the background so the check-in response is not delayed
+    scheduleInsightsRefresh(userId);
+
+    const state: BiologicalAgeState = {
+      chronologicalAgeYears,
+      baselineBiologicalAgeYears,
       currentBiologicalAgeYears,
-      currentAgingDebtYears,
+      agingDebtYears: currentAgingDebtYears,
       rejuvenationStreakDays,
       accelerationStreakDays,
       totalRejuvenationDays,
       totalAccelerationDays,
-        lastCheckinDayKey: todayDateKey,
-        lastCheckinAt: now,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const today: TodayEntry = {
+      date: todayDateKey,
+      scoringVersion: checkIn.checkIn.version,
+      score,
+      deltaYears,
+      reasons: renderMessages(locale, reasonCodes),
+      reasonCodes,
+      contributions,
+    };
+
+    const response: DailyUpdateResponse = {
+      state,
+      today,
+    };
+
+    console.log('[daily-update] result:', {
+      userId,
+      timezone: userTimezone,
+      dateKey: todayDateKey,
+      chronologicalAgeYears,
+      baselineBiologicalAgeYears,
+      currentBiologicalAgeYears,
+      currentAgingDebtYears,
+      score,
+      deltaYears,
+    });
+
+    return res.json(response);
+  } catch (error: any) {
+    console.error('[daily-update] error:', error);
+    
+    // Handle specific error for duplicate entry (shouldn't happen due to pre-check, but handle anyway)
+    if (error.message && error.message.includes('Daily check-in already completed')) {
+      return sendError(res, 409, 'api.check_in_already_completed_today', {}, {
+        error: 'Daily check-in already completed',
       });
+    }
+    
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * Validates a :dateKey route param for past check-in edits.
+ * Returns the error message key, or null when the dateKey is a valid day that is not in the future.
+ */
+function validatePastDateKey(dateKey: string, timezone: string): ApiMessageKey | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey) || !DateTime.fromISO(dateKey, { zone: timezone }).isValid) {
+    return 'api.field_date';
+  }
+  if (dateKey > getTodayDateKey(timezone)) {
+    return 'api.field_future_date';
+  }
+  return null;
+}
+
+/**
+ * Validates a check-in body for a day. metrics-v1 answers left out are filled from the day's
+ * HealthKit data, and every answer gets its source (body.sources may tag answers the client
+ * did not type, e.g. coach estimates).
+ */
+async function parseSourcedCheckIn(
+  userId: string,
+  dateKey: string,
+  body: unknown
+): Promise<{ ok: true; checkIn: DailyCheckIn; provenance: EntryProvenance } | { ok: false; errors: string[] }> {
+  const claims = parseSourceClaims((body as any)?.sources);
+  if (!claims.ok) {
+    return claims;
+  }
+  const prefilled = prefillCheckInBody(body, await getDeviceMetrics(userId, dateKey), claims.value);
+  const checkIn = parseDailyCheckIn(prefilled.body);
+  if (!checkIn.ok) {
+    return checkIn;
+  }
+  return {
+    ok: true,
+    checkIn: checkIn.value,
+    provenance: provenanceForAnswers(checkIn.value.answers, prefilled.provenance),
+  };
+}
+
+/**
+ * Applies a create/edit/delete of a single daily entry and replays every later
+ * entry so biological age, aging debt and streaks stay consistent.
+ */
+async function applyDailyEntryChange(
+  user: UserDocument,
+  dateKey: string,
+  change: { type: 'upsert'; checkIn: DailyCheckIn; provenance: EntryProvenance } | { type: 'delete' },
+  locale: Locale
+): Promise<{ state: BiologicalAgeState; entry: TodayEntry | null; replayedEntries: number }> {
+  const userId = user.userId;
+  const userTimezone = user.timezone || 'UTC';
+  const existingEntries = await listDailyEntries(userId);
+  const existing = existingEntries.find((e) => (e.dateKey || e.date) === dateKey);
+  const others = existingEntries.filter((e) => (e.dateKey || e.date) !== dateKey);
+
+  const entries: DailyEntryDocument[] = others;
+  if (change.type === 'upsert') {
+    entries.push({
+      userId,
+      dateKey,
+      date: dateKey,
+      ...checkInToEntryFields(change.checkIn),
+      // Answers resent unchanged by an edit keep their source
+      provenance: keepUnchangedSources(existing, change.checkIn.answers, change.provenance),
+      // Recomputed by the replay below
+      score: 0,
+      deltaYears: 0,
+      reasons: [],
+      createdAt: existing?.createdAt ?? '', // Stamped by storage for new entries
     });
+  }
+
+  const replay = replayDailyEntries({
+    entries,
+    fromDateKey: dateKey,
+    baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+    chronologicalAgeYears: user.chronologicalAgeYears,
+    timezone: userTimezone,
+    scoringModelVersion: getUserScoringModelId(user),
+  });
+
+  await writeReplayedDailyEntries(userId, {
+    entries: replay.entries,
+    deleteDateKeys: change.type === 'delete' ? [dateKey] : [],
+    state: replay.state,
+  });
+  scheduleInsightsRefresh(userId);
+
+  // The entry as stored, so the response matches what GET /api/age/daily-entries/:dateKey returns
+  const changedEntry = change.type === 'upsert' ? await getDailyEntry(userId, dateKey) : null;
+  const state: BiologicalAgeState = {
+    chronologicalAgeYears: user.chronologicalAgeYears,
+    baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+    currentBiologicalAgeYears: replay.state.currentBiologicalAgeYears,
+    agingDebtYears: replay.state.currentAgingDebtYears,
+    rejuvenationStreakDays: replay.state.rejuvenationStreakDays,
+    accelerationStreakDays: replay.state.accelerationStreakDays,
+    totalRejuvenationDays: replay.state.totalRejuvenationDays,
+    totalAccelerationDays: replay.state.totalAccelerationDays,
+  };
+
+  return {
+    state,
+    entry: changedEntry
+      ? {
+          date: changedEntry.dateKey,
+          scoringVersion: changedEntry.scoringVersion,
+          score: changedEntry.score,
+          deltaYears: changedEntry.deltaYears,
+          reasons: localizeReasons(locale, changedEntry),
+          reasonCodes: changedEntry.reasonCodes,
+          contributions: changedEntry.contributions,
+        }
+      : null,
+    replayedEntries: replay.entries.length,
+  };
+}
+
+/**
+ * GET /api/age/daily-entries/:dateKey
+ * One check-in with its answers and per-factor contribution breakdown.
+ * Entries scored before the breakdown existed are broken down on read with the model that scored them.
+ * Response: { entry: { date, scoringVersion, scoringModelVersion, answers, provenance, score, deltaYears, reasons, reasonCodes, contributions, ... } }
+ * provenance: { answerKey: { source, overridden?: [{ source, value }] } }; entries saved before provenance are all manual.
+ */
+app.get('/api/age/daily-entries/:dateKey', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const dateKey = String(req.params.dateKey);
+
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+
+    const validationError = validatePastDateKey(dateKey, user.timezone || 'UTC');
+    if (validationError) {
+      return sendError(res, 400, validationError, { field: 'dateKey' });
+    }
+
+    const entry = await getDailyEntry(userId, dateKey);
+    if (!entry) {
+      return sendError(res, 404, 'api.check_in_not_found', {}, { dateKey });
+    }
+
+    const checkIn = entryToCheckIn(entry);
+    const scoringModelVersion = entry.scoringModelVersion ?? getUserScoringModelId(user);
+    const contributions = getEntryContributions(entry, scoringModelVersion);
+
+    return res.json({
+      entry: {
+        date: dateKey,
+        scoringVersion: checkIn.version,
+        scoringModelVersion,
+        answers: checkIn.answers,
+        provenance: getEntryProvenance(entry),
+        score: entry.score,
+        deltaYears: entry.deltaYears,
+        reasons: localizeReasons(locale, entry),
+        reasonCodes: entry.reasonCodes,
+        contributions,
+        currentBiologicalAgeYears: entry.currentBiologicalAgeYears,
+        currentAgingDebtYears: entry.currentAgingDebtYears,
+        rejuvenationStreakDays: entry.rejuvenationStreakDays,
+        accelerationStreakDays: entry.accelerationStreakDays,
+      },
+    });
+  } catch (error: any) {
+    console.error('[daily-entries] get error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/age/daily-entries/:dateKey
+ * Backfill a missed check-in for a past day (today is also accepted).
+ * Body: { metrics: answers for one of the questionnaire schemas (GET /api/scoring/schemas), scoringVersion?: string,
+ *         sources?: { answerKey: 'manual' | 'healthkit' | 'coach_estimate' } }
+ * metrics-v1 answers left out are filled from the day's HealthKit data when there is any.
+ * Response: 200 { state, entry, replayedEntries } or 409 if the day already has a check-in.
+ * entry is the check-in as stored: its deltaYears is the change vs the previous entry.
+ */
+app.post('/api/age/daily-entries/:dateKey', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const dateKey = String(req.params.dateKey);
+
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+
+    const validationError = validatePastDateKey(dateKey, user.timezone || 'UTC');
+    if (validationError) {
+      return sendError(res, 400, validationError, { field: 'dateKey' });
+    }
+
+    if (await hasDailyEntryForDateKey(userId, dateKey)) {
+      return sendError(res, 409, 'api.check_in_exists_for_date', {}, {
+        error: 'Daily check-in already completed',
+        dateKey,
+      });
+    }
+
+    const checkIn = await parseSourcedCheckIn(userId, dateKey, req.body);
+    if (!checkIn.ok) {
+      return sendError(res, 400, 'api.invalid_check_in', {}, { details: checkIn.errors });
+    }
+    const result = await applyDailyEntryChange(
+      user,
+      dateKey,
+      { type: 'upsert', checkIn: checkIn.checkIn, provenance: checkIn.provenance },
+      locale
+    );
+
+    console.log('[daily-entries] backfilled:', { userId, dateKey, replayedEntries: result.replayedEntries });
+    return res.json(result);
+  } catch (error: any) {
+    console.error('[daily-entries] create error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * PUT /api/age/daily-entries/:dateKey
+ * Edit an existing check-in. Later entries are replayed.
+ * Body: as for POST. Answers resent unchanged keep their recorded source.
+ */
+app.put('/api/age/daily-entries/:dateKey', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const dateKey = String(req.params.dateKey);
+
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+
+    const validationError = validatePastDateKey(dateKey, user.timezone || 'UTC');
+    if (validationError) {
+      return sendError(res, 400, validationError, { field: 'dateKey' });
+    }
+
+    if (!(await hasDailyEntryForDateKey(userId, dateKey))) {
+      return sendError(res, 404, 'api.check_in_not_found', {}, { dateKey });
+    }
+
+    const checkIn = await parseSourcedCheckIn(userId, dateKey, req.body);
+    if (!checkIn.ok) {
+      return sendError(res, 400, 'api.invalid_check_in', {}, { details: checkIn.errors });
+    }
+    const result = await applyDailyEntryChange(
+      user,
+      dateKey,
+      { type: 'upsert', checkIn: checkIn.checkIn, provenance: checkIn.provenance },
+      locale
+    );
+
+    console.log('[daily-entries] edited:', { userId, dateKey, replayedEntries: result.replayedEntries });
+    return res.json(result);
+  } catch (error: any) {
+    console.error('[daily-entries] edit error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/age/daily-entries/:dateKey
+ * Delete a check-in. Later entries are replayed.
+ */
+app.delete('/api/age/daily-entries/:dateKey', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const dateKey = String(req.params.dateKey);
+
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+
+    const validationError = validatePastDateKey(dateKey, user.timezone || 'UTC');
+    if (validationError) {
+      return sendError(res, 400, validationError, { field: 'dateKey' });
+    }
+
+    if (!(await hasDailyEntryForDateKey(userId, dateKey))) {
+      return sendError(res, 404, 'api.check_in_not_found', {}, { dateKey });
+    }
+
+    const result = await applyDailyEntryChange(user, dateKey, { type: 'delete' }, locale);
+
+    console.log('[daily-entries] deleted:', { userId, dateKey, replayedEntries: result.replayedEntries });
+    return res.json({ state: result.state, replayedEntries: result.replayedEntries });
+  } catch (error: any) {
+    console.error('[daily-entries] delete error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/age/history/import
+ * Import past check-ins kept in a spreadsheet or another app.
+ * Body: { csv: "dateKey,sleepHours,steps,...\n2025-01-01,7.5,9000,..." } or { rows: [{ dateKey, ...answers }] },
+ *       scoringVersion?: string (for rows that do not name one)
+ * Valid rows are imported even when others fail; days that already have a check-in are skipped,
+ * so a corrected file can be sent again. Imported days are replayed in date order.
+ * Response: { imported, skipped, errors: [{ row, dateKey, errors }], state, replayedEntries }
+ */
+app.post('/api/age/history/import', requireAuth, requireSubscription, largeJsonBody, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+
+    const rows = parseImportBody(req.body);
+    if (!rows.ok) {
+      return sendError(res, 400, 'api.invalid_import', {}, { details: rows.errors });
+    }
+    const { valid, errors } = validateImportRows(rows.value, user.timezone || 'UTC');
+    if (valid.length === 0) {
+      return sendError(res, 400, 'api.invalid_import', {}, { details: errors });
+    }
+
+    const result = await importCheckInHistory(user, valid);
+
+    console.log('[history-import] imported:', {
+      userId,
+      imported: result.imported.length,
+      skipped: result.skipped.length,
+      invalid: errors.length,
+      replayedEntries: result.replayedEntries,
+    });
+    return res.json({
+      imported: result.imported,
+      skipped: result.skipped,
+      errors,
+      state: result.state && {
+        chronologicalAgeYears: user.chronologicalAgeYears,
+        baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+        currentBiologicalAgeYears: result.state.currentBiologicalAgeYears,
+        agingDebtYears: result.state.currentAgingDebtYears,
+        rejuvenationStreakDays: result.state.rejuvenationStreakDays,
+        accelerationStreakDays: result.state.accelerationStreakDays,
+        totalRejuvenationDays: result.state.totalRejuvenationDays,
+        totalAccelerationDays: result.state.totalAccelerationDays,
+      },
+      replayedEntries: result.replayedEntries,
+    });
+  } catch (error: any) {
+    console.error('[history-import] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+app.get('/api/age/state/:userId', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found');
+    }
+
+    return res.json({
+      profile: {
+        chronologicalAgeYears: user.chronologicalAgeYears,
+        baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+      },
+      state: {
+        currentBiologicalAgeYears: user.currentBiologicalAgeYears,
+        agingDebtYears: user.currentAgingDebtYears,
+        rejuvenationStreakDays: user.rejuvenationStreakDays,
+        accelerationStreakDays: user.accelerationStreakDays,
+        totalRejuvenationDays: user.totalRejuvenationDays,
+        totalAccelerationDays: user.totalAccelerationDays,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+app.post('/api/age/morning-briefing', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.body;
+    if (!userId) {
+      return sendError(res, 400, 'api.field_required', { field: 'userId' });
+    }
+
+    const locale = bindResponseLocale(req, res, await getUserLocale(req.user!.uid));
+    const message = await generateAgeMessage(userId, 'morning', locale);
+    return res.json({ message });
+  } catch (error: any) {
+    console.error(error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+app.post('/api/age/evening-briefing', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.body;
+    if (!userId) {
+      return sendError(res, 400, 'api.field_required', { field: 'userId' });
+    }
+
+    const locale = bindResponseLocale(req, res, await getUserLocale(req.user!.uid));
+    const message = await generateAgeMessage(userId, 'evening', locale);
+    return res.json({ message });
+  } catch (error: any) {
+    console.error(error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+// Coach action plan endpoints
+
+/**
+ * Resolve the :weekStart route param; "current" means this week in the user's timezone.
+ */
+function resolvePlanWeekStart(param: string, timezone: string): string | null {
+  if (param === 'current') {
+    return getWeekStart(getTodayDateKey(timezone));
+  }
+  return isValidWeekStart(param) ? param : null;
+}
+
+/**
+ * POST /api/coach/plans/generate
+ * Asks the coach for a structured weekly plan and saves it (replacing any plan for that week).
+ * Body: { weekStart?: "YYYY-MM-DD" (a Monday, default: current week), focus?: string }
+ * Response: { plan: ActionPlanDocument, progress: ActionPlanProgress }
+ */
+app.post('/api/coach/plans/generate', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const { weekStart: rawWeekStart, focus } = req.body || {};
+
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const timezone = user.timezone || 'UTC';
+
+    const weekStart = resolvePlanWeekStart(rawWeekStart ?? 'current', timezone);
+    if (!weekStart) {
+      return sendError(res, 400, 'api.invalid_week_start');
+    }
+    if (focus !== undefined && focus !== null && typeof focus !== 'string') {
+      return sendError(res, 400, 'api.field_string', { field: 'focus' });
+    }
+
+    const plan = await generateWeeklyPlan({
+      userId,
+      weekStart,
+      focus: typeof focus === 'string' && focus.trim() ? focus.trim().slice(0, 500) : null,
+    });
+    return res.status(201).json(await buildPlanResponse(plan, timezone));
+  } catch (error: any) {
+    console.error('[coach/plans] generate error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/coach/plans
+ * Lists the user's most recent weekly plans (without progress).
+ * Query: limit (default 10, max 52)
+ * Response: { plans: ActionPlanDocument[] }
+ */
+app.get('/api/coach/plans', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 52);
+    const plans = await storage.actionPlans.list(req.user!.uid, limit);
+    return res.json({ plans });
+  } catch (error: any) {
+    console.error('[coach/plans] list error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/coach/plans/:weekStart
+ * Returns a weekly plan with progress computed from daily check-ins.
+ * :weekStart is a Monday (YYYY-MM-DD) or "current".
+ * Response: { plan: ActionPlanDocument, progress: ActionPlanProgress }
+ */
+app.get('/api/coach/plans/:weekStart', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const user = await getUserDocument(userId);
+    const timezone = user?.timezone || 'UTC';
+
+    const weekStart = resolvePlanWeekStart(req.params.weekStart, timezone);
+    if (!weekStart) {
+      return sendError(res, 400, 'api.invalid_week_start_or_current');
+    }
+
+    const plan = await storage.actionPlans.get(userId, weekStart);
+    if (!plan) {
+      return sendError(res, 404, 'api.no_plan_for_week');
+    }
+    return res.json(await buildPlanResponse(plan, timezone));
+  } catch (error: any) {
+    console.error('[coach/plans] get error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * PUT /api/coach/plans/:weekStart
+ * Creates or replaces a weekly plan with user-edited items (validated against the plan schema).
+ * Body: { summary?: string, items: PlanItem[] } (item ids are kept, or generated when missing)
+ * Response: { plan: ActionPlanDocument, progress: ActionPlanProgress }
+ */
+app.put('/api/coach/plans/:weekStart', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const user = await getUserDocument(userId);
+    const timezone = user?.timezone || 'UTC';
+
+    const weekStart = resolvePlanWeekStart(req.params.weekStart, timezone);
+    if (!weekStart) {
+      return sendError(res, 400, 'api.invalid_week_start_or_current');
+    }
+
+    const validation = validatePlanInput(req.body);
+    if (!validation.ok) {
+      return sendError(res, 400, 'api.invalid_plan', {}, { details: validation.errors });
+    }
+
+    const plan = await storage.actionPlans.save({
+      userId,
+      weekStart,
+      summary: validation.value.summary,
+      items: validation.value.items,
+      source: 'user',
+    });
+    return res.json(await buildPlanResponse(plan, timezone));
+  } catch (error: any) {
+    console.error('[coach/plans] update error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/coach/plans/:weekStart
+ * Deletes a weekly plan.
+ * Response: { ok: true }
+ */
+app.delete('/api/coach/plans/:weekStart', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const user = await getUserDocument(userId);
+    const weekStart = resolvePlanWeekStart(req.params.weekStart, user?.timezone || 'UTC');
+    if (!weekStart) {
+      return sendError(res, 400, 'api.invalid_week_start_or_current');
+    }
+
+    const deleted = await storage.actionPlans.delete(userId, weekStart);
+    if (!deleted) {
+      return sendError(res, 404, 'api.no_plan_for_week');
+    }
+    return res.json({ ok: true });
+  } catch (error: any) {
+    console.error('[coach/plans] delete error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/goals
+ * Lists the user's goals with progress, newest first. Statuses are re-evaluated on read.
+ * Response: { goals: GoalResponse[] }
+ */
+app.get('/api/goals', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const user = await getUserDocument(req.user!.uid);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    return res.json({ goals: await listGoalResponses(user) });
+  } catch (error: any) {
+    console.error('[goals] list error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/goals
+ * Creates a goal. Outcome goals start from the user's current biological age or aging debt.
+ * Body: { type: "outcome", title, metric: "biologicalAge" | "agingDebtReduction", target, deadline }
+ *    or { type: "behavior", title, category: PlanCategory, target, daysPerWeek, deadline? }
+ * Response (201): { goal: GoalDocument, progress: GoalProgress }
+ */
+app.post('/api/goals', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const todayDateKey = getTodayDateKey(user.timezone || 'UTC');
+
+    const validation = validateGoalInput(req.body, todayDateKey);
+    if (!validation.ok) {
+      return sendError(res, 400, 'api.invalid_goal', {}, { details: validation.errors });
+    }
+    if ((await storage.goals.list(userId)).length >= MAX_GOALS) {
+      return sendError(res, 400, 'api.goal_limit', { max: MAX_GOALS });
+    }
+
+    const goal = buildGoal(user, validation.value, todayDateKey);
+    return res.status(201).json(await buildGoalResponse(goal, user));
+  } catch (error: any) {
+    console.error('[goals] create error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/goals/:goalId
+ * Returns a goal with progress.
+ * Response: { goal: GoalDocument, progress: GoalProgress }
+ */
+app.get('/api/goals/:goalId', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const [user, goal] = await Promise.all([getUserDocument(userId), storage.goals.get(userId, req.params.goalId)]);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    if (!goal) {
+      return sendError(res, 404, 'api.goal_not_found');
+    }
+    return res.json(await buildGoalResponse(goal, user));
+  } catch (error: any) {
+    console.error('[goals] get error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * PATCH /api/goals/:goalId
+ * Edits a goal's title, target, daysPerWeek or deadline (type, metric and category are fixed).
+ * The status is re-evaluated from scratch, so an expired goal with a new deadline becomes active again.
+ * Body: any of { title, target, daysPerWeek, deadline }
+ * Response: { goal: GoalDocument, progress: GoalProgress }
+ */
+app.patch('/api/goals/:goalId', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const [user, goal] = await Promise.all([getUserDocument(userId), storage.goals.get(userId, req.params.goalId)]);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    if (!goal) {
+      return sendError(res, 404, 'api.goal_not_found');
+    }
+
+    const validation = validateGoalUpdate(goal, req.body, getTodayDateKey(user.timezone || 'UTC'));
+    if (!validation.ok) {
+      return sendError(res, 400, 'api.invalid_goal', {}, { details: validation.errors });
+    }
+    const updated = { ...goal, ...validation.value } as typeof goal;
+    return res.json(await buildGoalResponse(updated, user, { force: true }));
+  } catch (error: any) {
+    console.error('[goals] update error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * DELETE /api/goals/:goalId
+ * Deletes a goal.
+ * Response: { ok: true }
+ */
+app.delete('/api/goals/:goalId', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await storage.goals.delete(req.user!.uid, req.params.goalId);
+    if (!deleted) {
+      return sendError(res, 404, 'api.goal_not_found');
+    }
+    return res.json({ ok: true });
+  } catch (error: any) {
+    console.error('[goals] delete error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/health/samples
+ * Ingests a batch of HealthKit samples, aggregated per day in the user's timezone into
+ * sleepHours, steps, vigorousMinutes and bedtimeHour. A batch may hold part of a day: it is
+ * merged with the samples already stored (a sample re-sent with the same id counts once). With
+ * checkIn, the day's check-in is also submitted: the user's answers (at least the subjective
+ * ones) override the device metrics.
+ * Body: {
+ *   samples: Array<{ id?, type: "sleepAnalysis" | "stepCount" | "workout", startDate, endDate, value?, sourceId? }>,
+ *   checkIn?: { dateKey?: "YYYY-MM-DD" (default: today), metrics: metrics-v1 answers, sources?: { answerKey: source } }
+ * }
+ * Response: { days: Array<{ dateKey, metrics }>, checkIn: { state, entry, replayedEntries } | null }
+ *   or 409 if checkIn targets a day that already has a check-in (nothing is saved)
+ */
+app.post('/api/health/samples', requireAuth, requireSubscription, largeJsonBody, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const timezone = user.timezone || 'UTC';
+    const locale = bindResponseLocale(req, res, user.locale);
 
-    const state: BiologicalAgeState = {
-      chronologicalAgeYears,
-      baselineBiologicalAgeYears,
-      currentBiologicalAgeYears,
-      agingDebtYears: currentAgingDebtYears,
-      rejuvenationStreakDays,
-      accelerationStreakDays,
-      totalRejuvenationDays,
-      totalAccelerationDays,
-    };
+    const samples = validateHealthSamples(req.body?.samples);
+    if (!samples.ok) {
+      return sendError(res, 400, 'api.invalid_samples', {}, { details: samples.errors });
+    }
+    const days = await mergeHealthSamples(userId, samples.value, timezone);
 
-    const today: TodayEntry = {
-      date: todayDateKey,
-      score,
-      deltaYears,
-      reasons,
-    };
+    const rawCheckIn = req.body?.checkIn;
+    let checkIn: { dateKey: string; value: DailyCheckIn; provenance: EntryProvenance } | null = null;
+    if (rawCheckIn !== undefined && rawCheckIn !== null) {
+      const dateKey = rawCheckIn.dateKey === undefined ? getTodayDateKey(timezone) : String(rawCheckIn.dateKey);
+      const validationError = validatePastDateKey(dateKey, timezone);
+      if (validationError) {
+        return sendError(res, 400, validationError, { field: 'dateKey' });
+      }
+      if (await hasDailyEntryForDateKey(userId, dateKey)) {
+        return sendError(res, 409, 'api.check_in_exists_send_samples', {}, {
+          error: 'Daily check-in already completed',
+          dateKey,
+        });
+      }
 
-    const response: DailyUpdateResponse = {
-      state,
-      today,
-    };
+      const claims = parseSourceClaims(rawCheckIn.sources);
+      if (!claims.ok) {
+        return sendError(res, 400, 'api.invalid_check_in', {}, { details: claims.errors });
+      }
+      const device = days.find((day) => day.dateKey === dateKey)?.metrics ?? (await getDeviceMetrics(userId, dateKey));
+      const prefilled = prefillCheckInBody(
+        { metrics: rawCheckIn.metrics ?? {}, scoringVersion: 'metrics-v1' },
+        device,
+        claims.value
+      );
+      const parsed = parseDailyCheckIn(prefilled.body);
+      if (!parsed.ok) {
+        return sendError(res, 400, 'api.invalid_check_in', {}, { details: parsed.errors });
+      }
+      checkIn = {
+        dateKey,
+        value: parsed.value,
+        provenance: provenanceForAnswers(parsed.value.answers, prefilled.provenance),
+      };
+    }
 
-    console.log('[daily-update] result:', {
+    await saveDeviceMetrics(userId, days);
+    const result = checkIn
+      ? await applyDailyEntryChange(
+          user,
+          checkIn.dateKey,
+          { type: 'upsert', checkIn: checkIn.value, provenance: checkIn.provenance },
+          locale
+        )
+      : null;
+
+    console.log('[health] samples ingested:', {
       userId,
-      timezone: userTimezone,
-      dateKey: todayDateKey,
-      chronologicalAgeYears,
-      baselineBiologicalAgeYears,
-      currentBiologicalAgeYears,
-      currentAgingDebtYears,
-      score,
-      deltaYears,
+      samples: samples.value.length,
+      days: days.length,
+      checkIn: checkIn?.dateKey ?? null,
     });
-
-    return res.json(response);
+    return res.json({ days: days.map(({ dateKey, metrics }) => ({ dateKey, metrics })), checkIn: result });
   } catch (error: any) {
-    console.error('[daily-update] error:', error);
-    
-    // Handle specific error for duplicate entry (shouldn't happen due to pre-check, but handle anyway)
-    if (error.message && error.message.includes('Daily check-in already completed')) {
-      return res.status(409).json({
-        error: 'Daily check-in already completed',
-        message: error.message,
-      });
-    }
-    
-    return res.status(500).json({ error: 'Internal server error' });
+    console.error('[health] samples error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
-app.get('/api/age/state/:userId', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+/**
+ * GET /api/health/days/:dateKey
+ * Device metrics recorded for a day, for pre-filling the check-in form.
+ * Response: { dateKey, metrics: { sleepHours?, steps?, vigorousMinutes?, bedtimeHour? } | null }
+ */
+app.get('/api/health/days/:dateKey', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user!.uid;
-
+    const dateKey = String(req.params.dateKey);
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
 
-    return res.json({
-      profile: {
-        chronologicalAgeYears: user.chronologicalAgeYears,
-        baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
-      },
-      state: {
-        currentBiologicalAgeYears: user.currentBiologicalAgeYears,
-        agingDebtYears: user.currentAgingDebtYears,
-        rejuvenationStreakDays: user.rejuvenationStreakDays,
-        accelerationStreakDays: user.accelerationStreakDays,
-        totalRejuvenationDays: user.totalRejuvenationDays,
-        totalAccelerationDays: user.totalAccelerationDays,
-      },
-    });
+    const validationError = validatePastDateKey(dateKey, user.timezone || 'UTC');
+    if (validationError) {
+      return sendError(res, 400, validationError, { field: 'dateKey' });
+    }
+    return res.json({ dateKey, metrics: await getDeviceMetrics(userId, dateKey) });
   } catch (error: any) {
-    console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    console.error('[health] day error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
-app.post('/api/age/morning-briefing', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+/**
+ * GET /api/scoring/schemas
+ * Questionnaire schemas accepted by the daily check-in endpoints, one per scoring version,
+ * and the registered scoring models.
+ * Response: { schemas: QuestionnaireSchema[], models: { id, description, current }[] }
+ */
+app.get('/api/scoring/schemas', (req, res) => {
+  return res.json({ schemas: listQuestionnaireSchemas(), models: listScoringModels() });
+});
+
+/**
+ * GET /api/age/scoring-comparison
+ * The user's biological age under their scoring model and under another model.
+ * Nothing is written; the user moves models only through the admin recompute.
+ * Query: version?: scoring model id (default: current model)
+ * Response: { chronologicalAgeYears, stored: ScoringSnapshot, candidate: ScoringSnapshot, difference }
+ */
+app.get('/api/age/scoring-comparison', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
   try {
-    const { userId } = req.body;
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
+    const userId = req.user!.uid;
+    const version = req.query.version === undefined ? CURRENT_SCORING_MODEL : req.query.version;
+    if (!isScoringModelId(version)) {
+      return sendError(res, 400, 'api.invalid_scoring_version', {}, {
+        details: [`version must be one of ${listScoringModels().map((m) => m.id).join(', ')}`],
+      });
     }
 
-    const message = await generateAgeMessage(userId, 'morning');
-    return res.json({ message });
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+
+    const entries = await listDailyEntries(userId);
+    const { plan } = buildScoringRecompute(user, entries, version);
+
+    return res.json({
+      chronologicalAgeYears: user.chronologicalAgeYears,
+      stored: plan.before,
+      candidate: plan.after,
+      difference: plan.difference,
+    });
   } catch (error: any) {
-    console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    console.error('[scoring-comparison] error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
-app.post('/api/age/evening-briefing', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+/**
+ * POST /api/admin/scoring/recompute
+ * Recompute a user's baseline and full daily history under a scoring model.
+ * Run a dry run first; commit with the diffToken it returned.
+ * Body: { userId: string, version?: string (default: current model), dryRun?: boolean (default true), diffToken?: string }
+ * Response: 200 ScoringRecomputePlan & { committed }, 409 if the user's data changed since the dry run
+ */
+app.post('/api/admin/scoring/recompute', requireAuth, requireAdmin, async (req: AuthenticatedRequest, res) => {
   try {
-    const { userId } = req.body;
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
+    const { userId, diffToken } = req.body ?? {};
+    const version = req.body?.version ?? CURRENT_SCORING_MODEL;
+    const dryRun = req.body?.dryRun !== false;
+
+    const errors: string[] = [];
+    if (typeof userId !== 'string' || !userId) {
+      errors.push('userId is required');
+    }
+    if (!isScoringModelId(version)) {
+      errors.push(`version must be one of ${listScoringModels().map((m) => m.id).join(', ')}`);
+    }
+    if (!dryRun && (typeof diffToken !== 'string' || !diffToken)) {
+      errors.push('diffToken from a dry run is required to commit');
+    }
+    if (errors.length > 0) {
+      return sendError(res, 400, 'api.invalid_recompute_request', {}, { details: errors });
     }
 
-    const message = await generateAgeMessage(userId, 'evening');
-    return res.json({ message });
+    console.log('[scoring-recompute] requested by:', req.user!.uid, { userId, version, dryRun });
+    const result = await recomputeUserScoring(userId, version, { dryRun, diffToken });
+    return res.json(result);
   } catch (error: any) {
-    console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    if (error.message === 'User not found') {
+      return sendError(res, 404, 'api.user_not_found');
+    }
+    if (error.message === 'Recompute diff is stale') {
+      return sendError(res, 409, 'api.recompute_stale', {}, { error: 'Recompute diff is stale' });
+    }
+    console.error('[scoring-recompute] error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -1012,9 +2229,7 @@ app.post('/api/score/onboarding', requireAuth, requireSubscription, async (req:
     const { answers } = req.body;
 
     if (!answers) {
-      return res
-        .status(400)
-        .json({ error: 'answers is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'answers' });
     }
 
     const state = await setOnboardingScore(
@@ -1022,15 +2237,17 @@ app.post('/api/score/onboarding', requireAuth, requireSubscription, async (req:
       answers as ScoreOnboardingAnswers
     );
 
+    const locale = bindResponseLocale(req, res, await getUserLocale(userId));
     return res.json({
       baselineScore: state.baselineScore,
       currentScore: state.currentScore,
       breakdown: state.breakdown,
-      insights: state.insights,
+      insights: renderMessages(locale, state.insights),
+      insightCodes: state.insights,
     });
   } catch (error: any) {
     console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -1038,25 +2255,27 @@ app.post('/api/score/daily', requireAuth, requireSubscription, async (req: Authe
   try {
     const userId = req.user!.uid;
 
-    const typedMetrics = normalizeDailyMetrics(req.body);
-    // Legacy score path expects old DailyMetrics shape; cast to keep compatibility.
-    const updatedState = await updateScoreFromDaily(userId, typedMetrics as any);
+    const checkIn = parseDailyCheckIn(req.body);
+    if (!checkIn.ok) {
+      return sendError(res, 400, 'api.invalid_check_in', {}, { details: checkIn.errors });
+    }
+    const updatedState = await updateScoreFromDaily(userId, checkIn.value);
 
     if (!updatedState) {
-      return res
-        .status(404)
-        .json({ error: 'User score not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.score_not_found_onboarding');
     }
 
+    const locale = bindResponseLocale(req, res, await getUserLocale(userId));
     return res.json({
       baselineScore: updatedState.baselineScore,
       currentScore: updatedState.currentScore,
       breakdown: updatedState.breakdown,
-      insights: updatedState.insights,
+      insights: renderMessages(locale, updatedState.insights),
+      insightCodes: updatedState.insights,
     });
   } catch (error: any) {
     console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -1067,18 +2286,20 @@ app.get('/api/score/state/:userId', requireAuth, requireSubscription, async (req
     const state = getScoreState(userId);
 
     if (!state) {
-      return res.status(404).json({ error: 'User score not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.score_not_found_onboarding');
     }
 
+    const locale = bindResponseLocale(req, res, await getUserLocale(userId));
     return res.json({
       baselineScore: state.baselineScore,
       currentScore: state.currentScore,
       breakdown: state.breakdown,
-      insights: state.insights,
+      insights: renderMessages(locale, state.insights),
+      insightCodes: state.insights,
     });
   } catch (error: any) {
     console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -1088,7 +2309,7 @@ app.get('/api/age/trend/:userId', requireAuth, requireSubscription, async (req:
     const range = (req.query.range as string) || 'weekly';
 
     if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'userId' });
     }
 
     let limit: number;
@@ -1103,12 +2324,12 @@ app.get('/api/age/trend/:userId', requireAuth, requireSubscription, async (req:
         limit = 365;
         break;
       default:
-        return res.status(400).json({ error: 'Invalid range. Use weekly, monthly, or yearly' });
+        return sendError(res, 400, 'api.invalid_range');
     }
 
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
 
     // Get user's timezone (default to UTC if not set)
@@ -1196,7 +2417,7 @@ app.get('/api/age/trend/:userId', requireAuth, requireSubscription, async (req:
     });
   } catch (error: any) {
     console.error(error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -1215,7 +2436,7 @@ app.post('/api/onboarding/submit', requireAuth, requireSubscription, async (req:
     const { chronologicalAgeYears, answers } = body;
 
     if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'userId' });
     }
 
     if (
@@ -1223,7 +2444,7 @@ app.post('/api/onboarding/submit', requireAuth, requireSubscription, async (req:
       chronologicalAgeYears === null ||
       Number.isNaN(Number(chronologicalAgeYears))
     ) {
-      return res.status(400).json({ error: 'chronologicalAgeYears is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'chronologicalAgeYears' });
     }
 
     const requiredFields = [
@@ -1240,34 +2461,34 @@ app.post('/api/onboarding/submit', requireAuth, requireSubscription, async (req:
     ] as const;
 
     if (!answers || typeof answers !== 'object') {
-      return res.status(400).json({ error: 'answers object is required' });
+      return sendError(res, 400, 'api.field_object_required', { field: 'answers' });
     }
 
     for (const field of requiredFields) {
       if (answers[field] === undefined || answers[field] === null) {
-        return res
-          .status(400)
-          .json({ error: `Missing answer for field: ${field}`, field: `answers.${field}` });
+        return sendError(res, 400, 'api.missing_answer', { field }, { field: `answers.${field}` });
       }
       if (!Number.isFinite(Number(answers[field]))) {
-        return res.status(400).json({ error: `Invalid number for field: ${field}` });
+        return sendError(res, 400, 'api.invalid_answer_number', { field });
       }
     }
 
     // Check if onboarding is already completed
     const alreadyCompleted = await hasCompletedOnboarding(userId);
     if (alreadyCompleted) {
-      return res.status(409).json({
+      return sendError(res, 409, 'api.onboarding_already_completed_detail', {}, {
         error: 'Onboarding already completed',
-        message: 'User has already completed onboarding. To update onboarding data, please contact support.',
       });
     }
 
     const chronologicalAge = Number(chronologicalAgeYears);
     console.log('[onboarding] computeOnboardingResult start');
-    const result = calculateOnboardingResult(answers, chronologicalAge);
+    // New users are scored with the current model
+    const scoringModelVersion = CURRENT_SCORING_MODEL;
+    const result = getScoringModel(scoringModelVersion).scoreOnboarding(answers, chronologicalAge);
     console.log('[onboarding] computeOnboardingResult done:', {
       chronologicalAge,
+      scoringModelVersion,
       totalScore: result.totalScore,
       BAOYears: result.BAOYears,
       baselineBiologicalAgeYears: result.baselineBiologicalAgeYears,
@@ -1281,6 +2502,7 @@ app.post('/api/onboarding/submit', requireAuth, requireSubscription, async (req:
       onboardingTotalScore: result.totalScore,
       baselineBiologicalAgeYears: result.baselineBiologicalAgeYears,
       baselineBAOYears: result.BAOYears,
+      scoringModelVersion,
     });
 
     const response: OnboardingSubmitResponse = {
@@ -1290,14 +2512,14 @@ app.post('/api/onboarding/submit', requireAuth, requireSubscription, async (req:
       currentBiologicalAgeYears: result.baselineBiologicalAgeYears,
       BAOYears: result.BAOYears,
       totalScore: result.totalScore,
+      scoringModelVersion,
     };
 
     console.log('[onboarding] success for userId:', userId, response);
     return res.json(response);
   } catch (error: any) {
     console.error('[onboarding] error:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
+    return sendError(res, 500, 'api.internal_error', {}, {
       debug: process.env.NODE_ENV === 'development' ? String(error?.message ?? error) : undefined,
     });
   }
@@ -1337,7 +2559,7 @@ app.get('/api/debug/onboarding-status', requireAuth, requireSubscription, async
     });
   } catch (error: any) {
     console.error('[debug/onboarding-status] error:', error);
-    return res.status(500).json({ error: 'Internal server error', message: error.message });
+    return sendError(res, 500, 'api.internal_error', {}, { message: error.message });
   }
 });
 
@@ -1352,8 +2574,9 @@ app.get('/api/stats/summary', requireAuth, requireSubscription, async (req: Auth
 
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
+    const locale = bindResponseLocale(req, res, user.locale);
 
     const baselineBiologicalAgeYears = user.baselineBiologicalAgeYears;
     const currentBiologicalAgeYears =
@@ -1431,7 +2654,8 @@ app.get('/api/stats/summary', requireAuth, requireSubscription, async (req: Auth
             date: todayEntry.dateKey || todayEntry.date,
             score: todayEntry.score,
             deltaYears: todayEntry.deltaYears,
-            reasons: todayEntry.reasons,
+            reasons: localizeReasons(locale, todayEntry),
+            reasonCodes: todayEntry.reasonCodes,
           }
         : undefined,
       weeklyHistory,
@@ -1450,8 +2674,7 @@ app.get('/api/stats/summary', requireAuth, requireSubscription, async (req: Auth
     return res.json(response);
   } catch (error: any) {
     console.error('[stats/summary] error after', Date.now() - startTime, 'ms:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
+    return sendError(res, 500, 'api.internal_error', {}, {
       debug: process.env.NODE_ENV === 'development' ? String(error?.message ?? error) : undefined,
     });
   }
@@ -1464,65 +2687,6 @@ function roundTo2Decimals(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
-/**
- * Calculate trend period data
- * If entries.length < requiredDays but >= 2, calculate trend from first to last entry
- * This allows showing graphs even with limited data
- */
-function calculateTrendPeriod(
-  entries: DailyEntryDocument[],
-  requiredDays: number,
-  pointsCount: number
-): TrendPeriod {
-  // Always return points if we have any entries
-  const points: TrendPoint[] = entries
-    .slice(-pointsCount)
-    .map((e) => ({
-      date: e.dateKey || e.date,
-      biologicalAge: roundTo2Decimals(e.currentBiologicalAgeYears ?? 0),
-    }));
-
-  // If we have less than required days, calculate partial trend (first to last)
-  if (entries.length < requiredDays) {
-    // If we have at least 2 entries, calculate trend from first to last
-    if (entries.length >= 2) {
-      const firstEntry = entries[0];
-      const lastEntry = entries[entries.length - 1];
-      
-      const firstBioAge = firstEntry.currentBiologicalAgeYears ?? 0;
-      const lastBioAge = lastEntry.currentBiologicalAgeYears ?? 0;
-      const value = roundTo2Decimals(lastBioAge - firstBioAge);
-
-      return {
-        value,
-        available: false, // Not enough data for full period, but we have a partial trend
-        points,
-      };
-    }
-    
-    // Less than 2 entries - no trend to calculate
-    return {
-      value: null,
-      available: false,
-      points,
-    };
-  }
-
-  // We have enough entries for full period calculation
-  const todayEntry = entries[entries.length - 1];
-  const pastEntry = entries[entries.length - requiredDays];
-  
-  const todayBioAge = todayEntry.currentBiologicalAgeYears ?? 0;
-  const pastBioAge = pastEntry.currentBiologicalAgeYears ?? 0;
-  const value = roundTo2Decimals(todayBioAge - pastBioAge);
-
-  return {
-    value,
-    available: true,
-    points,
-  };
-}
-
 /**
  * Delta Analytics Helper Functions
  */
@@ -1766,62 +2930,15 @@ function filterEntriesInRange(
   });
 }
 
-/**
- * Calculate yearly projection
- * Requires at least 7 days of data for a meaningful projection
- */
-function calculateYearlyProjection(entries: DailyEntryDocument[]): TrendPeriod {
-  // Get valid deltas (non-null, non-undefined, and non-zero for first entry)
-  // First entry typically has deltaYears = 0 (no previous entry), so we filter it out
-  const validDeltas = entries
-    .map((e) => e.deltaYears)
-    .filter((d) => d !== null && d !== undefined && !isNaN(d) && d !== 0);
-
-  // Need at least 7 days of actual delta data for meaningful projection
-  // For less than 7 days, we don't provide a projection (too unreliable)
-  if (validDeltas.length < 7) {
-    // Return null value but still provide points for chart display
-    return {
-      value: null,
-      available: false,
-      projection: true,
-      points: entries.slice(-90).map((e) => ({
-        date: e.dateKey || e.date,
-        biologicalAge: roundTo2Decimals(e.currentBiologicalAgeYears ?? 0),
-      })),
-    };
-  }
-
-  // We have at least 7 days of delta data - use average delta for projection
-  // Use last min(30, N) deltas for projection
-  const deltasForProjection = validDeltas.slice(-Math.min(30, validDeltas.length));
-  const averageDelta = deltasForProjection.reduce((sum, d) => sum + d, 0) / deltasForProjection.length;
-  const projectedYearly = roundTo2Decimals(averageDelta * 365);
-
-  // Points: last min(90, N) entries
-  const pointsCount = Math.min(90, entries.length);
-  const points: TrendPoint[] = entries.slice(-pointsCount).map((e) => ({
-    date: e.dateKey || e.date,
-    biologicalAge: roundTo2Decimals(e.currentBiologicalAgeYears ?? 0),
-  }));
-
-  return {
-    value: projectedYearly,
-    available: false,
-    projection: true,
-    points,
-  };
-}
-
 /**
  * GET /api/longevity/trends
  * Returns weekly, monthly, and yearly trend data for the Score screen.
  * 
  * Response format:
  * {
- *   "weekly": { "value": -0.32, "available": true, "points": [...] },
- *   "monthly": { "value": -1.10, "available": true, "points": [...] },
- *   "yearly": { "value": -4.20, "available": false, "projection": true, "points": [...] }
+ *   "weekly": { "value": -0.32, "available": true, "projection": false, "projectedValue": -0.32, "lower": -0.32, "upper": -0.32, "dataPoints": 7, "points": [...] },
+ *   "monthly": { "value": -0.41, "available": false, "projection": false, "projectedValue": -1.10, "lower": -2.60, "upper": 0.40, "dataPoints": 12, "points": [...] },
+ *   "yearly": { "value": -4.20, "available": false, "projection": true, "projectedValue": -4.20, "lower": -9.80, "upper": 1.40, "dataPoints": 24, "points": [...] }
  * }
  */
 app.get('/api/longevity/trends', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
@@ -1829,13 +2946,13 @@ app.get('/api/longevity/trends', requireAuth, requireSubscription, async (req: A
     const userId = req.user!.uid;
 
     if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'userId' });
     }
 
     // Get user document to verify user exists
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
 
     // Get up to 365 daily entries, sorted by date ascending
@@ -1843,22 +2960,11 @@ app.get('/api/longevity/trends', requireAuth, requireSubscription, async (req: A
     
     console.log('[trends] Found', entries.length, 'entries for userId:', userId);
 
-    // Calculate weekly trend (requires >= 7 entries)
-    const weekly = calculateTrendPeriod(entries, 7, 7);
-
-    // Calculate monthly trend (requires >= 30 entries)
-    const monthly = calculateTrendPeriod(entries, 30, 30);
-
-    // Calculate yearly trend
-    let yearly: TrendPeriod;
-    if (entries.length >= 365) {
-      // Actual yearly data
-      yearly = calculateTrendPeriod(entries, 365, 90);
-      yearly.projection = false;
-    } else {
-      // Projection based on average delta
-      yearly = calculateYearlyProjection(entries);
-    }
+    // Periods the history does not cover yet report the observed change (yearly: the projection)
+    const today = { todayDateKey: getTodayDateKey(user.timezone || 'UTC'), timezone: user.timezone || 'UTC' };
+    const weekly = buildTrendPeriod(entries, { periodDays: 7, pointsCount: 7, partial: 'observed', ...today });
+    const monthly = buildTrendPeriod(entries, { periodDays: 30, pointsCount: 30, partial: 'observed', ...today });
+    const yearly = buildTrendPeriod(entries, { periodDays: 365, pointsCount: 90, partial: 'projected', ...today });
 
     const response: TrendResponse = {
       weekly,
@@ -1869,14 +2975,13 @@ app.get('/api/longevity/trends', requireAuth, requireSubscription, async (req: A
     console.log('[trends] Response:', {
       weekly: { value: weekly.value, available: weekly.available },
       monthly: { value: monthly.value, available: monthly.available },
-      yearly: { value: yearly.value, available: yearly.available, projection: yearly.projection },
+      yearly: { value: yearly.value, available: yearly.available, projection: yearly.projection, lower: yearly.lower, upper: yearly.upper },
     });
 
     return res.json(response);
   } catch (error: any) {
     console.error('[trends] error:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
+    return sendError(res, 500, 'api.internal_error', {}, {
       debug: process.env.NODE_ENV === 'development' ? String(error?.message ?? error) : undefined,
     });
   }
@@ -1896,13 +3001,13 @@ app.get('/api/analytics/delta', requireAuth, requireSubscription, async (req: Au
     const range = (req.query.range as string) || 'weekly';
 
     if (!['weekly', 'monthly', 'yearly'].includes(range)) {
-      return res.status(400).json({ error: 'Invalid range. Use weekly, monthly, or yearly' });
+      return sendError(res, 400, 'api.invalid_range');
     }
 
     // Get user document
     const user = await getUserDocument(userId);
     if (!user) {
-      return res.status(404).json({ error: 'User not found. Complete onboarding first.' });
+      return sendError(res, 404, 'api.user_not_found_onboarding');
     }
 
     const userTimezone = user.timezone || 'UTC';
@@ -2035,40 +3140,225 @@ app.get('/api/analytics/delta', requireAuth, requireSubscription, async (req: Au
     return res.json(response);
   } catch (error: any) {
     console.error('[analytics/delta] error:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
+    return sendError(res, 500, 'api.internal_error', {}, {
       debug: process.env.NODE_ENV === 'development' ? String(error?.message ?? error) : undefined,
     });
   }
 });
 
+/**
+ * GET /api/analytics/factors?range=weekly|monthly|yearly&date=YYYY-MM-DD
+ * Per-factor analytics for the week, month or year containing `date` (default today) in the
+ * user's timezone: averages, percentiles, days in the factor's best band and which factor
+ * most drove aging or rejuvenation.
+ *
+ * Response: { range, timezone, start, end, checkIns, factors: [...], topDriver, topAgingFactor }
+ */
+app.get('/api/analytics/factors', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const range = (req.query.range as string) || 'weekly';
+
+    if (range !== 'weekly' && range !== 'monthly' && range !== 'yearly') {
+      return sendError(res, 400, 'api.invalid_range');
+    }
+
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+
+    const userTimezone = user.timezone || 'UTC';
+
+    let anchor = DateTime.now().setZone(userTimezone);
+    if (req.query.date !== undefined) {
+      const date = String(req.query.date);
+      const parsed = DateTime.fromISO(date, { zone: userTimezone });
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !parsed.isValid) {
+        return sendError(res, 400, 'api.field_date', { field: 'date' });
+      }
+      anchor = parsed;
+    }
+
+    const window =
+      range === 'weekly'
+        ? getWeekRange(anchor, userTimezone)
+        : range === 'monthly'
+          ? getMonthRange(anchor, userTimezone)
+          : getYearRange(anchor, userTimezone);
+
+    const allEntries = await listDailyEntries(userId);
+    const entriesInRange = filterEntriesInRange(allEntries, window.start, window.end);
+    const { factors, topDriver, topAgingFactor } = aggregateFactors(entriesInRange, getUserScoringModelId(user));
+
+    const response: FactorAnalyticsResponse = {
+      range,
+      timezone: userTimezone,
+      start: window.start,
+      end: window.end,
+      checkIns: entriesInRange.length,
+      factors,
+      topDriver,
+      topAgingFactor,
+    };
+
+    console.log('[analytics/factors] Response:', {
+      userId,
+      range,
+      start: window.start,
+      end: window.end,
+      checkIns: response.checkIns,
+      topDriver,
+    });
+
+    return res.json(response);
+  } catch (error: any) {
+    console.error('[analytics/factors] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/insights
+ * Patterns mined from the user's check-in history, strongest first. Cached per user and
+ * refreshed after each check-in.
+ *
+ * Response: { computedAt, checkIns, insights: [{ id, condition, outcome, lagDays, withAverage, withoutAverage, difference, effectSize, message, ... }] }
+ */
+app.get('/api/insights', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+
+    const user = await getUserDocument(userId);
+    if (!user) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+
+    const cached = await getUserInsights(userId);
+
+    return res.json({
+      computedAt: cached.computedAt,
+      checkIns: cached.checkIns,
+      insights: cached.insights.map((insight) => ({ ...insight, message: renderInsight(locale, insight) })),
+    });
+  } catch (error: any) {
+    console.error('[insights] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/longevity/simulate
+ * What-if simulator: scores a hypothetical check-in with the user's scoring model, projects
+ * biological age after `days` days of keeping it up and ranks the single changes that gain the
+ * most. Nothing is stored.
+ * Body: { metrics: answers (as for POST /api/age/daily-update), days?: number }
+ *    or { changes: { [key]: number to add | new value }, scoringVersion?: string, days?: number }
+ *       (changes apply to the average of the user's recent check-ins)
+ * Response: { scoringVersion, scoringModelVersion, baseline, answers, score, deltaYears, reasons, reasonCodes, contributions, projection, bestChanges }
+ */
+app.post('/api/longevity/simulate', requireAuth, requireSubscription, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+
+    const user = await getUserDocument(userId);
+    if (!user || user.baselineBiologicalAgeYears === undefined || user.baselineBiologicalAgeYears === null) {
+      return sendError(res, 404, 'api.user_not_found_onboarding');
+    }
+    const locale = bindResponseLocale(req, res, user.locale);
+    const userTimezone = user.timezone || 'UTC';
+
+    const days = req.body?.days ?? 30;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SIMULATION_DAYS) {
+      return sendError(res, 400, 'api.invalid_simulation_days', { max: MAX_SIMULATION_DAYS });
+    }
+
+    let baseline: DailyAnswers | null = null;
+    let body: unknown = req.body;
+    if (req.body?.metrics === undefined) {
+      const changes = req.body?.changes;
+      if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+        return sendError(res, 400, 'api.simulation_input_required');
+      }
+      const entries = await listDailyEntries(userId);
+      const latest = entries.length > 0 ? entryToCheckIn(entries[entries.length - 1]).version : 'metrics-v1';
+      const scoringVersion = req.body.scoringVersion ?? latest;
+      if (!isScoringVersionId(scoringVersion)) {
+        return sendError(res, 400, 'api.invalid_check_in', {}, {
+          details: [`scoringVersion must be one of ${SCORING_VERSION_IDS.join(', ')}`],
+        });
+      }
+      baseline = averageRecentAnswers(entries, scoringVersion);
+      if (!baseline) {
+        return sendError(res, 400, 'api.no_recent_check_ins');
+      }
+      body = { scoringVersion, metrics: applyAnswerChanges(baseline, changes) };
+    }
+
+    const checkIn = parseDailyCheckIn(body);
+    if (!checkIn.ok) {
+      return sendError(res, 400, 'api.invalid_check_in', {}, { details: checkIn.errors });
+    }
+
+    const scoringModelVersion = getUserScoringModelId(user);
+    const simulation = simulateCheckIn({
+      checkIn: checkIn.value,
+      dateKey: getTodayDateKey(userTimezone),
+      modelId: scoringModelVersion,
+      days,
+      currentBiologicalAgeYears: user.currentBiologicalAgeYears ?? user.baselineBiologicalAgeYears,
+      chronologicalAgeYears: user.chronologicalAgeYears,
+    });
+
+    return res.json({
+      scoringVersion: checkIn.value.version,
+      scoringModelVersion,
+      baseline,
+      answers: checkIn.value.answers,
+      score: simulation.result.score,
+      deltaYears: simulation.result.deltaYears,
+      reasons: renderMessages(locale, simulation.result.reasonCodes),
+      reasonCodes: simulation.result.reasonCodes,
+      contributions: simulation.result.contributions,
+      projection: simulation.projection,
+      bestChanges: simulation.bestChanges,
+    });
+  } catch (error: any) {
+    console.error('[simulate] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
 /**
  * GET /api/legal/privacy
  * Returns current Privacy Policy (English with Turkish KVKK section)
+ * Served in the Accept-Language locale when an approved translation exists; `language` says which was returned
  * Public endpoint - no authentication required
  */
 app.get('/api/legal/privacy', async (req, res) => {
   try {
-    const privacyPolicy = getPrivacyPolicy();
+    const privacyPolicy = getPrivacyPolicy(getResponseLocale(req, res));
     return res.json(privacyPolicy);
   } catch (error: any) {
     console.error('[legal/privacy] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
 /**
  * GET /api/legal/terms
  * Returns current Terms of Service
+ * Served in the Accept-Language locale when an approved translation exists; `language` says which was returned
  * Public endpoint - no authentication required
  */
 app.get('/api/legal/terms', async (req, res) => {
   try {
-    const terms = getTermsOfService();
+    const terms = getTermsOfService(getResponseLocale(req, res));
     return res.json(terms);
   } catch (error: any) {
     console.error('[legal/terms] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2087,11 +3377,11 @@ app.post('/api/legal/consent', requireAuth, async (req: AuthenticatedRequest, re
 
     return res.json({
       success: true,
-      message: 'Consent recorded successfully.',
+      message: responseMessage(res, 'api.consent_recorded'),
     });
   } catch (error: any) {
     console.error('[legal/consent] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2112,7 +3402,81 @@ app.get('/api/legal/consent', requireAuth, async (req: AuthenticatedRequest, res
     });
   } catch (error: any) {
     console.error('[legal/consent] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * POST /api/privacy/exports
+ * Start an export of all personal data (GDPR / KVKK data portability)
+ * Protected endpoint - requires authentication (no subscription needed)
+ * Response: 202 { job, downloadToken } - keep the token, it is only shown here
+ *   or 409 { error, job } while an earlier export is still running
+ */
+app.post('/api/privacy/exports', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.uid;
+    const { job, token } = await requestDataExport(userId);
+    if (!token) {
+      return sendError(res, 409, 'api.export_in_progress', {}, { job: toDataExportJobResponse(job) });
+    }
+    scheduleDataExport(job.id);
+
+    console.log('[privacy/exports] requested:', { userId, jobId: job.id });
+    return res.status(202).json({ job: toDataExportJobResponse(job), downloadToken: token });
+  } catch (error: any) {
+    console.error('[privacy/exports] error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/privacy/exports/:jobId
+ * Poll an export job
+ * Protected endpoint - requires authentication
+ * Response: { job: { id, status: pending | running | ready | failed | expired, createdAt, completedAt, expiresAt, files, downloadPath } }
+ */
+app.get('/api/privacy/exports/:jobId', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const job = await getDataExportJob(req.user!.uid, String(req.params.jobId));
+    if (!job) {
+      return sendError(res, 404, 'api.export_not_found');
+    }
+    return res.json({ job: toDataExportJobResponse(job) });
+  } catch (error: any) {
+    console.error('[privacy/exports] status error:', error);
+    return sendError(res, 500, 'api.internal_error');
+  }
+});
+
+/**
+ * GET /api/privacy/exports/:jobId/download?token=<downloadToken>
+ * Download a finished export as a .zip (export.json and daily-entries.csv)
+ * The token is the credential, so the link also works outside the app until it expires
+ * Response: the archive, 404 for an unknown job or wrong token, 409 while not ready, 410 once expired
+ */
+app.get('/api/privacy/exports/:jobId/download', async (req, res) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const result = await getDataExportArchive(String(req.params.jobId), token);
+    if (!result.ok) {
+      if (result.reason === 'expired') {
+        return sendError(res, 410, 'api.export_expired');
+      }
+      if (result.reason === 'not_ready') {
+        return sendError(res, 409, 'api.export_not_ready');
+      }
+      return sendError(res, 404, 'api.export_not_found');
+    }
+
+    const dateKey = (result.job.completedAt ?? result.job.createdAt).slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="longevity-data-export-${dateKey}.zip"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.send(result.archive);
+  } catch (error: any) {
+    console.error('[privacy/exports] download error:', error);
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2128,16 +3492,13 @@ app.post('/api/subscription/verify', requireAuth, async (req: AuthenticatedReque
     const { receiptData } = req.body;
 
     if (!receiptData || typeof receiptData !== 'string') {
-      return res.status(400).json({ error: 'receiptData is required' });
+      return sendError(res, 400, 'api.field_required', { field: 'receiptData' });
     }
 
     const subscriptionState = await verifyAndUpdateSubscription(userId, receiptData);
 
     if (!subscriptionState) {
-      return res.status(400).json({
-        error: 'invalid_receipt',
-        message: 'No valid subscription found in receipt.',
-      });
+      return sendError(res, 400, 'api.no_subscription_in_receipt', {}, { error: 'invalid_receipt' });
     }
 
     return res.json({
@@ -2148,13 +3509,12 @@ app.post('/api/subscription/verify', requireAuth, async (req: AuthenticatedReque
     console.error('[subscription/verify] error:', error);
     
     if (error.message && error.message.includes('status:')) {
-      return res.status(400).json({
+      return sendError(res, 400, 'api.receipt_validation_failed', {}, {
         error: 'invalid_receipt',
-        message: 'Receipt validation failed. Please try again.',
       });
     }
 
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2181,7 +3541,7 @@ app.get('/api/subscription/status', requireAuth, async (req: AuthenticatedReques
     });
   } catch (error: any) {
     console.error('[subscription/status] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2197,10 +3557,7 @@ app.post('/api/subscription/test-bypass', requireAuth, async (req: Authenticated
     // Only allow in development/test environments
     const nodeEnv = process.env.NODE_ENV || 'development';
     if (nodeEnv === 'production') {
-      return res.status(403).json({
-        error: 'forbidden',
-        message: 'This endpoint is not available in production.',
-      });
+      return sendError(res, 403, 'api.not_available_in_production', {}, { error: 'forbidden' });
     }
 
     const userId = req.user!.uid;
@@ -2209,15 +3566,12 @@ app.post('/api/subscription/test-bypass', requireAuth, async (req: Authenticated
     const renewalDate = new Date();
     renewalDate.setFullYear(renewalDate.getFullYear() + 1); // 1 year from now
 
-    const updates = {
-      subscriptionStatus: 'active' as const,
-      subscriptionPlan: 'membership_yearly' as const,
-      subscriptionRenewalDate: renewalDate.toISOString(),
-      subscriptionOriginalTransactionId: `test-bypass-${userId}-${Date.now()}`,
-      updatedAt: new Date().toISOString(),
-    };
-
-    await firestore.collection('users').doc(userId).set(updates, { merge: true });
+    await storage.subscriptions.set(userId, {
+      status: 'active',
+      plan: 'membership_yearly',
+      renewalDate: renewalDate.toISOString(),
+      originalTransactionId: `test-bypass-${userId}-${Date.now()}`,
+    });
 
     console.log(`[subscription/test-bypass] Activated test subscription for user: ${userId}`);
 
@@ -2233,7 +3587,7 @@ app.post('/api/subscription/test-bypass', requireAuth, async (req: Authenticated
     });
   } catch (error: any) {
     console.error('[subscription/test-bypass] error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 500, 'api.internal_error');
   }
 });
 
@@ -2250,7 +3604,7 @@ app.post('/api/subscription/apple-notification', async (req, res) => {
     // Verify this is a valid Apple notification (optional: verify signature)
     // For now, we'll trust the payload structure
     if (!notification || !notification.notification_type) {
-      return res.status(400).json({ error: 'Invalid notification format' });
+      return sendError(res, 400, 'api.invalid_notification');
     }
 
     // Handle notification asynchronously (don't block response)
@@ -2271,6 +3625,8 @@ const PORT = process.env.PORT || 4000;
 
 app.listen(PORT, async () => {
   console.log(`thelongevityapp-backend listening on :${PORT}`);
+  startAccountDeletionSweeper();
+  startDataExportSweeper();
   try {
     await ingestKnowledgeDir();
     console.log('Knowledge ingested on startup');
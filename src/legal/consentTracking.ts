@@ -2,7 +2,7 @@
  * Consent tracking for legal documents
  */
 
-import { firestore } from '../config/firestore';
+import { storage } from '../config/storage';
 import { PRIVACY_POLICY_VERSION, TERMS_OF_SERVICE_VERSION } from './documents';
 
 export interface ConsentRecord {
@@ -26,30 +26,14 @@ export async function recordConsent(
     acceptedAt: new Date().toISOString(),
   };
 
-  await firestore.collection('users').doc(userId).set(
-    {
-      ...consentData,
-      updatedAt: new Date().toISOString(),
-    },
-    { merge: true }
-  );
+  await storage.consents.record(userId, consentData);
 }
 
 /**
  * Get user's consent record
  */
 export async function getConsentRecord(userId: string): Promise<ConsentRecord | null> {
-  const doc = await firestore.collection('users').doc(userId).get();
-  if (!doc.exists) return null;
-
-  const data = doc.data();
-  if (!data) return null;
-
-  return {
-    acceptedPrivacyPolicyVersion: data.acceptedPrivacyPolicyVersion ?? null,
-    acceptedTermsVersion: data.acceptedTermsVersion ?? null,
-    acceptedAt: data.acceptedAt ?? null,
-  };
+  return storage.consents.get(userId);
 }
 
 /**
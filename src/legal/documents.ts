@@ -3,9 +3,13 @@
  * Versioned for compliance tracking
  */
 
+import { DEFAULT_LOCALE, Locale } from '../i18n/i18n';
+
 export interface LegalDocument {
   version: string;
   lastUpdated: string;
+  /** Language of content; may differ from the requested locale when no approved translation exists. */
+  language: Locale;
   content: string;
 }
 
@@ -22,6 +26,7 @@ const TERMS_OF_SERVICE_LAST_UPDATED = '2024-01-15';
 export const PRIVACY_POLICY: LegalDocument = {
   version: PRIVACY_POLICY_VERSION,
   lastUpdated: PRIVACY_POLICY_LAST_UPDATED,
+  language: 'en',
   content: `# Privacy Policy
 
 **Last Updated: ${PRIVACY_POLICY_LAST_UPDATED}**
@@ -203,6 +208,7 @@ Bu aydınlatma metni güncellenebilir. Önemli değişiklikler uygulama içinde
 export const TERMS_OF_SERVICE: LegalDocument = {
   version: TERMS_OF_SERVICE_VERSION,
   lastUpdated: TERMS_OF_SERVICE_LAST_UPDATED,
+  language: 'en',
   content: `# Terms of Service
 
 **Last Updated: ${TERMS_OF_SERVICE_LAST_UPDATED}**
@@ -334,17 +340,24 @@ For questions about these Terms, please contact us at:
 These Terms, together with our Privacy Policy, constitute the entire agreement between you and The Longevity App regarding the Service.`,
 };
 
+/**
+ * Approved translations by locale. A translation must carry the same version as the
+ * English document it translates; until one is added, every locale gets the English text.
+ */
+const PRIVACY_POLICY_TRANSLATIONS: Partial<Record<Locale, LegalDocument>> = {};
+const TERMS_OF_SERVICE_TRANSLATIONS: Partial<Record<Locale, LegalDocument>> = {};
+
 /**
  * Get current Privacy Policy
  */
-export function getPrivacyPolicy(): LegalDocument {
-  return PRIVACY_POLICY;
+export function getPrivacyPolicy(locale: Locale = DEFAULT_LOCALE): LegalDocument {
+  return PRIVACY_POLICY_TRANSLATIONS[locale] ?? PRIVACY_POLICY;
 }
 
 /**
  * Get current Terms of Service
  */
-export function getTermsOfService(): LegalDocument {
-  return TERMS_OF_SERVICE;
+export function getTermsOfService(locale: Locale = DEFAULT_LOCALE): LegalDocument {
+  return TERMS_OF_SERVICE_TRANSLATIONS[locale] ?? TERMS_OF_SERVICE;
 }
 
@@ -0,0 +1,65 @@
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider, LLMProviderName } from './provider';
+
+/**
+ * OpenAI provider. Also used for OpenAI-compatible servers (Ollama, LM Studio, vLLM)
+ * by passing their baseURL.
+ */
+export function createOpenAIProvider(config: {
+  name: Extract<LLMProviderName, 'openai' | 'openai-compatible'>;
+  apiKey: string;
+  baseURL?: string;
+  chatModel: string;
+  embeddingModel: string;
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: config.name,
+    chatModel: config.chatModel,
+    embeddingModel: config.embeddingModel,
+
+    async complete(request: CompletionRequest) {
+      const completion = await client.chat.completions.create(
+        {
+          model: request.model ?? config.chatModel,
+          messages: request.messages,
+          temperature: request.temperature,
+        },
+        { signal: request.signal }
+      );
+      return completion.choices[0]?.message?.content ?? null;
+    },
+
+    async *streamComplete(request: CompletionRequest) {
+      const stream = await client.chat.completions.create(
+        {
+          model: request.model ?? config.chatModel,
+          messages: request.messages,
+          temperature: request.temperature,
+          stream: true,
+        },
+        { signal: request.signal }
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+
+    async embed(inputs: string[]) {
+      if (inputs.length === 0) return [];
+      const resp = await client.embeddings.create({
+        model: config.embeddingModel,
+        input: inputs,
+      });
+      // Responses carry an index; do not rely on ordering
+      return [...resp.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
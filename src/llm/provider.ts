@@ -0,0 +1,32 @@
+/**
+ * LLM provider interface
+ * Chat, ingestion and briefing code talk to this instead of a concrete SDK client,
+ * so the backend can run against OpenAI, an OpenAI-compatible local server or an offline stub.
+ */
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'stub';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  model?: string; // Defaults to the provider's chatModel
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  chatModel: string;
+  /** Stored with vectors; embeddings from different models are not comparable. */
+  embeddingModel: string;
+  /** Returns the completion text, or null if the model returned no content. */
+  complete(request: CompletionRequest): Promise<string | null>;
+  /** Yields content deltas. Throws if request.signal aborts. */
+  streamComplete(request: CompletionRequest): AsyncIterable<string>;
+  /** One embedding per input, in input order. */
+  embed(inputs: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+import { CompletionRequest, LLMProvider } from './provider';
+
+/**
+ * Deterministic offline provider for local runs and tests. No network access.
+ * - Embeddings hash each token into a fixed-size vector (feature hashing), so texts that
+ *   share words are similar and identical texts always embed identically.
+ * - Replies are templated from the last user message.
+ */
+
+const STUB_EMBEDDING_DIMENSIONS = 256;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(STUB_EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of tokenize(text)) {
+    const digest = crypto.createHash('sha256').update(token).digest();
+    const bucket = digest.readUInt32BE(0) % STUB_EMBEDDING_DIMENSIONS;
+    vector[bucket] += digest[4] % 2 === 0 ? 1 : -1;
+  }
+
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude === 0 ? vector : vector.map((v) => v / magnitude);
+}
+
+function stubReply(request: CompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+  // Chat turns embed the question after a marker; briefings and other prompts are used whole
+  const marker = 'CURRENT USER QUESTION:';
+  const question = (lastUser.includes(marker) ? lastUser.split(marker).pop()! : lastUser).trim();
+  const excerpt = question.length > 120 ? `${question.slice(0, 117)}...` : question;
+
+  return [
+    `(offline stub) You said: "${excerpt}".`,
+    '- Keep your daily check-ins going so your trends stay accurate.',
+    '- Aim for 7-9 hours of sleep and some movement every day.',
+  ].join('\n');
+}
+
+function abortError(): Error {
+  const error = new Error('Request was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    chatModel: 'stub-chat',
+    embeddingModel: `stub-hash-${STUB_EMBEDDING_DIMENSIONS}`,
+
+    async complete(request: CompletionRequest) {
+      if (request.signal?.aborted) throw abortError();
+      return stubReply(request);
+    },
+
+    async *streamComplete(request: CompletionRequest) {
+      // Split into words, keeping whitespace so the deltas join back to the full reply
+      const parts = stubReply(request).match(/\S+\s*/g) ?? [];
+      for (const part of parts) {
+        // Yield to the event loop so aborts are observed mid-stream
+        await new Promise((resolve) => setImmediate(resolve));
+        if (request.signal?.aborted) throw abortError();
+        yield part;
+      }
+    },
+
+    async embed(inputs: string[]) {
+      return inputs.map(hashEmbedding);
+    },
+  };
+}
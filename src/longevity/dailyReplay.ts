@@ -0,0 +1,143 @@
+/**
+ * Daily entry replay
+ * Recomputes biological age snapshots and streaks when a past check-in is
+ * created, edited or deleted.
+ */
+
+import { entryToCheckIn, scoreDailyCheckIn } from '../scoring/engine';
+import { ScoringModelId } from '../scoring/scoringModel';
+import { daysBetween } from './streakHelpers';
+import { DailyEntryDocument } from './longevityModel';
+
+// Same threshold the live daily update uses to classify a day
+export const STREAK_DELTA_THRESHOLD = 0.0001;
+
+export interface ReplayedUserState {
+  currentBiologicalAgeYears: number;
+  currentAgingDebtYears: number;
+  rejuvenationStreakDays: number;
+  accelerationStreakDays: number;
+  totalRejuvenationDays: number;
+  totalAccelerationDays: number;
+  lastCheckinDayKey: string | null;
+}
+
+export interface ReplayResult {
+  entries: DailyEntryDocument[]; // Entries whose snapshots were recomputed (dateKey >= fromDateKey)
+  state: ReplayedUserState;
+}
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+/**
+ * Replay daily entries from fromDateKey forward.
+ * Entries before fromDateKey are trusted as-is and seed the running state;
+ * if any of them is missing its snapshot the whole history is replayed.
+ * Mirrors the rules of POST /api/age/daily-update: biological age accumulates
+ * the scored deltaYears, the stored deltaYears is the change vs the previous
+ * entry (0 for the first entry) and streaks only continue across consecutive days.
+ * Replayed entries are scored with scoringModelVersion (the user's model).
+ */
+export function replayDailyEntries(params: {
+  entries: DailyEntryDocument[];
+  fromDateKey: string;
+  baselineBiologicalAgeYears: number;
+  chronologicalAgeYears: number;
+  timezone: string;
+  scoringModelVersion: ScoringModelId;
+}): ReplayResult {
+  const { baselineBiologicalAgeYears, chronologicalAgeYears, timezone, scoringModelVersion } = params;
+  const sorted = params.entries
+    .slice()
+    .sort((a, b) => entryDateKey(a).localeCompare(entryDateKey(b)));
+
+  let startIndex = sorted.findIndex((e) => entryDateKey(e) >= params.fromDateKey);
+  if (startIndex === -1) {
+    startIndex = sorted.length;
+  }
+  const prior = sorted.slice(0, startIndex);
+  if (prior.some((e) => e.currentBiologicalAgeYears === undefined)) {
+    startIndex = 0;
+  }
+
+  const seed = startIndex > 0 ? sorted[startIndex - 1] : null;
+  let biologicalAgeYears = seed?.currentBiologicalAgeYears ?? baselineBiologicalAgeYears;
+  let rejuvenationStreakDays = seed?.rejuvenationStreakDays ?? 0;
+  let accelerationStreakDays = seed?.accelerationStreakDays ?? 0;
+  let lastDayKey: string | null = seed ? entryDateKey(seed) : null;
+
+  const replayed: DailyEntryDocument[] = [];
+
+  for (let i = startIndex; i < sorted.length; i++) {
+    const entry = sorted[i];
+    const dateKey = entryDateKey(entry);
+    // Each entry is rescored with the questionnaire version its answers belong to
+    const checkIn = entryToCheckIn(entry);
+    const { score, deltaYears, reasons, reasonCodes, contributions } = scoreDailyCheckIn(checkIn, dateKey, scoringModelVersion);
+
+    const previousBioAge = biologicalAgeYears;
+    biologicalAgeYears = previousBioAge + deltaYears;
+    const actualDeltaYears =
+      i === 0 ? 0 : Math.round((biologicalAgeYears - previousBioAge) * 100) / 100;
+
+    let daysDiff = 999;
+    if (lastDayKey) {
+      try {
+        daysDiff = daysBetween(lastDayKey, dateKey, timezone);
+      } catch (error) {
+        console.error('[replayDailyEntries] Error calculating days difference:', error);
+      }
+    }
+
+    if (actualDeltaYears <= -STREAK_DELTA_THRESHOLD) {
+      rejuvenationStreakDays = daysDiff === 1 ? rejuvenationStreakDays + 1 : 1;
+      accelerationStreakDays = 0;
+    } else if (actualDeltaYears >= STREAK_DELTA_THRESHOLD) {
+      accelerationStreakDays = daysDiff === 1 ? accelerationStreakDays + 1 : 1;
+      rejuvenationStreakDays = 0;
+    } else {
+      rejuvenationStreakDays = 0;
+      accelerationStreakDays = 0;
+    }
+
+    replayed.push({
+      ...entry,
+      dateKey,
+      date: dateKey,
+      scoringVersion: checkIn.version,
+      scoringModelVersion,
+      score,
+      deltaYears: actualDeltaYears,
+      reasons,
+      reasonCodes,
+      contributions,
+      currentBiologicalAgeYears: biologicalAgeYears,
+      currentAgingDebtYears: biologicalAgeYears - chronologicalAgeYears,
+      rejuvenationStreakDays,
+      accelerationStreakDays,
+    });
+    lastDayKey = dateKey;
+  }
+
+  // Totals are plain counts over the final history
+  const finalEntries = [...sorted.slice(0, startIndex), ...replayed];
+  const totalRejuvenationDays = finalEntries.filter(
+    (e) => (e.deltaYears ?? 0) <= -STREAK_DELTA_THRESHOLD
+  ).length;
+  const totalAccelerationDays = finalEntries.filter(
+    (e) => (e.deltaYears ?? 0) >= STREAK_DELTA_THRESHOLD
+  ).length;
+
+  return {
+    entries: replayed,
+    state: {
+      currentBiologicalAgeYears: biologicalAgeYears,
+      currentAgingDebtYears: biologicalAgeYears - chronologicalAgeYears,
+      rejuvenationStreakDays,
+      accelerationStreakDays,
+      totalRejuvenationDays,
+      totalAccelerationDays,
+      lastCheckinDayKey: lastDayKey,
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for factor analytics
+ * Run with: npx ts-node src/longevity/factorAnalytics.test.ts
+ */
+
+import { aggregateFactors, getEntryContributions, percentile } from './factorAnalytics';
+import { calculateDailyScore } from './longevityScoring';
+import { DailyEntryDocument } from './longevityModel';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const goodDay = {
+  sleepHours: 8,
+  steps: 11000,
+  vigorousMinutes: 40,
+  processedFoodScore: 1,
+  alcoholUnits: 0,
+  stressLevel: 2,
+  lateCaffeine: false,
+  screenLate: false,
+  bedtimeHour: 22,
+};
+
+function makeEntry(dateKey: string, metrics: typeof goodDay, scored = true): DailyEntryDocument {
+  const result = calculateDailyScore({ date: dateKey, ...metrics });
+  return {
+    userId: 'user-1',
+    dateKey,
+    date: dateKey,
+    ...metrics,
+    score: result.score,
+    deltaYears: result.deltaYears,
+    reasons: result.reasons,
+    ...(scored && { contributions: result.contributions }),
+    createdAt: '',
+  };
+}
+
+// Test 1: Percentiles interpolate between ranks
+function testPercentile() {
+  console.log('\n=== Test 1: Percentiles ===');
+
+  assert(percentile([1, 2, 3, 4], 50) === 2.5, 'Median of an even list is the midpoint');
+  assert(percentile([5], 90) === 5, 'Single value is every percentile');
+  assert(percentile([0, 10], 25) === 2.5, 'Percentiles interpolate linearly');
+}
+
+// Test 2: Value statistics and target band days
+function testStatistics() {
+  console.log('\n=== Test 2: Statistics ===');
+
+  const entries = [
+    makeEntry('2025-01-01', goodDay),
+    makeEntry('2025-01-02', { ...goodDay, sleepHours: 5, lateCaffeine: true }),
+    makeEntry('2025-01-03', { ...goodDay, sleepHours: 6.5 }),
+    makeEntry('2025-01-04', { ...goodDay, sleepHours: 7.5 }),
+  ];
+  const { factors } = aggregateFactors(entries, 'v1');
+
+  const sleep = factors.find((f) => f.factor === 'sleepHours')!;
+  assert(sleep.kind === 'number' && sleep.days === 4, 'Sleep is numeric over 4 days');
+  assert(sleep.average === 6.75, 'Average sleep is 6.75h');
+  assert(sleep.min === 5 && sleep.max === 8, 'Min and max are kept');
+  assert(sleep.percentiles?.p50 === 7, 'Median sleep is 7h');
+  assert(sleep.daysInTargetBand === 2 && sleep.targetBandShare === 0.5, 'Two nights were in the 7-9h band');
+
+  const caffeine = factors.find((f) => f.factor === 'lateCaffeine')!;
+  assert(caffeine.kind === 'boolean' && caffeine.average === 0.25, 'Yes/no factors report the share of yes days');
+  assert(caffeine.percentiles === null, 'Yes/no factors have no percentiles');
+  assert(caffeine.daysInTargetBand === 3, 'Days without late caffeine are in the target band');
+}
+
+// Test 3: Top drivers
+function testDrivers() {
+  console.log('\n=== Test 3: Drivers ===');
+
+  const entries = [
+    makeEntry('2025-01-01', { ...goodDay, sleepHours: 5, steps: 8000 }),
+    makeEntry('2025-01-02', { ...goodDay, sleepHours: 5, steps: 8000 }),
+    makeEntry('2025-01-03', { ...goodDay, sleepHours: 5, steps: 8000 }),
+  ];
+  const { topDriver, topAgingFactor } = aggregateFactors(entries, 'v1');
+
+  assert(topAgingFactor?.factor === 'sleepHours', 'Short sleep is the top aging factor');
+  assert(topAgingFactor?.direction === 'aging' && topAgingFactor.deltaYears > 0, 'Aging drivers have positive deltaYears');
+  assert(topDriver?.factor === 'sleepHours', 'Top driver is the largest effect either way');
+
+  const empty = aggregateFactors([], 'v1');
+  assert(empty.factors.length === 0 && empty.topDriver === null, 'No check-ins means no drivers');
+}
+
+// Test 4: Entries without stored contributions are rescored
+function testLegacyEntries() {
+  console.log('\n=== Test 4: Legacy entries ===');
+
+  const stored = makeEntry('2025-01-01', goodDay);
+  const legacy = makeEntry('2025-01-01', goodDay, false);
+  assert(legacy.contributions === undefined, 'Legacy fixture has no breakdown');
+  assert(
+    JSON.stringify(getEntryContributions(legacy, 'v1')) === JSON.stringify(stored.contributions),
+    'Legacy entries are broken down on read'
+  );
+}
+
+// Test 5: Estimated answers score the day but stay out of the value statistics
+function testEstimatedAnswers() {
+  console.log('\n=== Test 5: Estimated answers ===');
+
+  const reportedDay = makeEntry('2025-01-02', { ...goodDay, sleepHours: 5 });
+  const estimated = { ...reportedDay, provenance: { sleepHours: { source: 'coach_estimate' as const } } };
+  const { factors } = aggregateFactors([makeEntry('2025-01-01', goodDay), estimated], 'v1');
+  const reported = aggregateFactors([makeEntry('2025-01-01', goodDay), reportedDay], 'v1');
+
+  const sleep = factors.find((f) => f.factor === 'sleepHours')!;
+  assert(sleep.days === 2 && sleep.estimatedDays === 1, 'Estimated days are counted separately');
+  assert(sleep.average === 8 && sleep.min === 8, 'The estimated value is left out of the statistics');
+  assert(
+    sleep.deltaYears === reported.factors.find((f) => f.factor === 'sleepHours')!.deltaYears,
+    'The estimated answer still counts towards deltaYears'
+  );
+  assert(factors.find((f) => f.factor === 'steps')!.estimatedDays === 0, 'Other answers of the day are not estimates');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Factor Analytics Tests\n');
+
+  try {
+    testPercentile();
+    testStatistics();
+    testDrivers();
+    testLegacyEntries();
+    testEstimatedAnswers();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,154 @@
+/**
+ * Factor analytics
+ * Aggregates each answered factor of the check-ins in a window: value statistics, days
+ * spent in the factor's best band and its share of the window's aging, so the app can
+ * answer "what is actually aging me?".
+ */
+
+import { entryToCheckIn, scoreDailyCheckIn } from '../scoring/engine';
+import { FactorContribution, ScoringModelId } from '../scoring/scoringModel';
+import { DailyEntryDocument, FactorDriver, FactorPercentiles, FactorStats } from './longevityModel';
+import { isEstimatedAnswer } from './provenance';
+
+const PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Per-factor breakdown of an entry. Entries scored before breakdowns were stored are
+ * rescored with the model that scored them (fallbackModelId when they do not say).
+ */
+export function getEntryContributions(
+  entry: DailyEntryDocument,
+  fallbackModelId: ScoringModelId
+): FactorContribution[] {
+  if (entry.contributions) {
+    return entry.contributions;
+  }
+  const dateKey = entryDateKey(entry);
+  return scoreDailyCheckIn(entryToCheckIn(entry), dateKey, entry.scoringModelVersion ?? fallbackModelId).contributions;
+}
+
+/**
+ * Percentile of sorted values with linear interpolation between closest ranks.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    throw new Error('percentile of an empty list');
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Statistics per factor over the given entries (already filtered to the window), in the
+ * order factors first appear. Numeric answers get averages and percentiles; yes/no answers
+ * get the share of days answered yes as their average. deltaYears keeps the scoring sign:
+ * positive ages, negative rejuvenates. Estimated answers count towards days, band and
+ * deltaYears (they scored the day) but not towards the value statistics.
+ */
+export function aggregateFactors(
+  entries: DailyEntryDocument[],
+  fallbackModelId: ScoringModelId
+): { factors: FactorStats[]; topDriver: FactorDriver | null; topAgingFactor: FactorDriver | null } {
+  const byFactor = new Map<
+    string,
+    { values: FactorContribution['value'][]; days: number; estimatedDays: number; daysInTargetBand: number; deltaYears: number }
+  >();
+
+  const sorted = entries.slice().sort((a, b) => entryDateKey(a).localeCompare(entryDateKey(b)));
+  for (const entry of sorted) {
+    for (const contribution of getEntryContributions(entry, fallbackModelId)) {
+      let factor = byFactor.get(contribution.factor);
+      if (!factor) {
+        factor = { values: [], days: 0, estimatedDays: 0, daysInTargetBand: 0, deltaYears: 0 };
+        byFactor.set(contribution.factor, factor);
+      }
+      factor.days++;
+      if (isEstimatedAnswer(entry, contribution.factor)) {
+        factor.estimatedDays++;
+      } else {
+        factor.values.push(contribution.value);
+      }
+      factor.deltaYears += contribution.deltaYears;
+      // No target means the answer already sits in the factor's best band
+      if (contribution.target === null) {
+        factor.daysInTargetBand++;
+      }
+    }
+  }
+
+  const factors: FactorStats[] = [];
+  for (const [name, factor] of byFactor) {
+    const answered = factor.values.filter((value) => value !== null);
+    const numbers = answered.filter((value): value is number => typeof value === 'number');
+    const booleans = answered.filter((value): value is boolean => typeof value === 'boolean');
+
+    let stats: Pick<FactorStats, 'kind' | 'average' | 'min' | 'max' | 'percentiles'> = {
+      kind: 'other',
+      average: null,
+      min: null,
+      max: null,
+      percentiles: null,
+    };
+    if (numbers.length > 0 && numbers.length === answered.length) {
+      const values = numbers.slice().sort((a, b) => a - b);
+      const percentiles = {} as FactorPercentiles;
+      for (const p of PERCENTILES) {
+        percentiles[`p${p}`] = round(percentile(values, p), 2);
+      }
+      stats = {
+        kind: 'number',
+        average: round(values.reduce((sum, value) => sum + value, 0) / values.length, 2),
+        min: values[0],
+        max: values[values.length - 1],
+        percentiles,
+      };
+    } else if (booleans.length > 0 && booleans.length === answered.length) {
+      stats = {
+        kind: 'boolean',
+        average: round(booleans.filter(Boolean).length / booleans.length, 2),
+        min: null,
+        max: null,
+        percentiles: null,
+      };
+    }
+
+    factors.push({
+      factor: name,
+      ...stats,
+      days: factor.days,
+      estimatedDays: factor.estimatedDays,
+      daysInTargetBand: factor.daysInTargetBand,
+      targetBandShare: factor.days > 0 ? round(factor.daysInTargetBand / factor.days, 2) : null,
+      deltaYears: round(factor.deltaYears, 4),
+    });
+  }
+
+  const driver = (stats: FactorStats): FactorDriver => ({
+    factor: stats.factor,
+    deltaYears: stats.deltaYears,
+    direction: stats.deltaYears > 0 ? 'aging' : 'rejuvenation',
+  });
+  const drivers = factors.filter((stats) => stats.deltaYears !== 0);
+  const top = drivers.reduce<FactorStats | null>(
+    (best, stats) => (!best || Math.abs(stats.deltaYears) > Math.abs(best.deltaYears) ? stats : best),
+    null
+  );
+  const topAging = drivers
+    .filter((stats) => stats.deltaYears > 0)
+    .reduce<FactorStats | null>((best, stats) => (!best || stats.deltaYears > best.deltaYears ? stats : best), null);
+
+  return {
+    factors,
+    topDriver: top && driver(top),
+    topAgingFactor: topAging && driver(topAging),
+  };
+}
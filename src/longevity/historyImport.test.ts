@@ -0,0 +1,174 @@
+/**
+ * Tests for check-in history import
+ * Run with: npx ts-node src/longevity/historyImport.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { storage } from '../config/storage';
+import { saveDeviceMetrics } from '../health/healthIngestion';
+import { importCheckInHistory, parseCsv, parseImportBody, validateImportRows } from './historyImport';
+import { UserDocument } from './longevityModel';
+import { getDailyEntry, listDailyEntries } from './longevityStore';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const HEADER =
+  'date,sleepHours,steps,vigorousMinutes,processedFoodScore,alcoholUnits,stressLevel,lateCaffeine,screenLate,bedtimeHour';
+const goodRow = (dateKey: string) => `${dateKey},8,11000,40,1,0,2,no,no,22`;
+
+async function makeUser(userId: string): Promise<UserDocument> {
+  const user = {
+    userId,
+    timezone: 'UTC',
+    chronologicalAgeYears: 40,
+    baselineBiologicalAgeYears: 42,
+    currentBiologicalAgeYears: 42,
+    currentAgingDebtYears: 2,
+    rejuvenationStreakDays: 0,
+    accelerationStreakDays: 0,
+    totalRejuvenationDays: 0,
+    totalAccelerationDays: 0,
+  } as UserDocument;
+  await storage.users.merge(userId, user);
+  return user;
+}
+
+// Test 1: CSV parsing
+function testCsv() {
+  console.log('\n=== Test 1: CSV parsing ===');
+
+  const rows = parseCsv('a,b,c\r\n1,"two, with comma","say ""hi"""\n\n4,"multi\nline",6\n');
+  assert(rows.length === 3, 'Blank lines are dropped');
+  assert(rows[1][1] === 'two, with comma' && rows[1][2] === 'say "hi"', 'Quoted cells keep commas and quotes');
+  assert(rows[2][1] === 'multi\nline', 'Quoted cells may span lines');
+
+  const body = parseImportBody({ csv: `${HEADER}\n${goodRow('2025-01-01')}\n2025-01-02,7,,,1,0,2,true,,23` });
+  assert(body.ok && body.value.length === 2, 'Rows follow the header');
+  assert(
+    body.ok && body.value[0].lateCaffeine === false && body.value[1].lateCaffeine === true,
+    'Yes/no cells become booleans'
+  );
+  assert(body.ok && !('steps' in body.value[1]), 'Empty cells are missing answers');
+
+  assert(!parseImportBody({ csv: 'sleepHours,steps\n7,9000' }).ok, 'A date column is required');
+  assert(!parseImportBody({ rows: [] }).ok, 'An empty import is rejected');
+  assert(!parseImportBody({ json: [] }).ok, 'The body needs csv or rows');
+}
+
+// Test 2: Per-row validation
+function testValidation() {
+  console.log('\n=== Test 2: Row validation ===');
+
+  const answers = { sleepHours: 7, steps: 9000, vigorousMinutes: 20, processedFoodScore: 2, alcoholUnits: 0, stressLevel: 3, bedtimeHour: 23 };
+  const { valid, errors } = validateImportRows(
+    [
+      { dateKey: '2025-01-01', ...answers },
+      { dateKey: '2025-01-01', ...answers, sleepHours: 8 },
+      { dateKey: '2025-02-30', sleepHours: 7 },
+      { dateKey: '2999-01-01', ...answers },
+      'not a row' as any,
+    ],
+    'UTC'
+  );
+
+  assert(valid.length === 1 && valid[0].row === 1, 'Valid rows pass');
+  assert(errors[0].row === 2 && errors[0].errors[0] === 'dateKey appears in an earlier row', 'Repeated days are reported');
+  assert(errors[1].row === 3 && errors[1].errors.length > 1, 'Date and answer errors of a row are listed together');
+  assert(errors[2].errors[0] === 'dateKey cannot be in the future', 'Future days are rejected');
+  assert(errors[3].dateKey === null, 'Rows that are not objects are reported');
+}
+
+// Test 3: Import, de-duplication and replay
+async function testImport() {
+  console.log('\n=== Test 3: Import and replay ===');
+
+  const userId = 'import-user';
+  const user = await makeUser(userId);
+  const rows = (csv: string) => {
+    const body = parseImportBody({ csv });
+    return validateImportRows(body.ok ? body.value : [], 'UTC').valid;
+  };
+
+  // Out of order on purpose
+  const first = await importCheckInHistory(user, rows(`${HEADER}\n${goodRow('2025-01-03')}\n${goodRow('2025-01-01')}`));
+  assert(first.imported.join() === '2025-01-01,2025-01-03', 'Imported days are reported in date order');
+  assert(first.state?.lastCheckinDayKey === '2025-01-03', 'The latest imported day is the last check-in');
+  assert(first.state?.rejuvenationStreakDays === 1, 'A gap breaks the streak');
+
+  const second = await importCheckInHistory(user, rows(`${HEADER}\n${goodRow('2025-01-02')}\n${goodRow('2025-01-03')}`));
+  assert(
+    second.imported.join() === '2025-01-02' && second.skipped[0].dateKey === '2025-01-03',
+    'Days that already have a check-in are skipped'
+  );
+  assert(second.replayedEntries === 2, 'Later entries are replayed');
+  // The first check-in of a history has no change to count
+  assert(second.state?.rejuvenationStreakDays === 2, 'Filling the gap restores the streak');
+
+  const entries = await listDailyEntries(userId);
+  const ages = entries.map((entry) => entry.currentBiologicalAgeYears!);
+  assert(ages[0] < 42 && ages[1] < ages[0] && ages[2] < ages[1], 'Biological age accumulates in date order');
+  assert(
+    entries.every((entry) => entry.provenance?.sleepHours.source === 'csv_import'),
+    'Imported answers are tagged csv_import'
+  );
+
+  const empty = await importCheckInHistory(user, rows(`${HEADER}\n${goodRow('2025-01-01')}`));
+  assert(empty.imported.length === 0 && empty.state === null, 'Nothing is replayed when every day is skipped');
+}
+
+// Test 4: HealthKit data recorded for the day wins
+async function testDeviceConflict() {
+  console.log('\n=== Test 4: HealthKit conflict ===');
+
+  const userId = 'import-device-user';
+  const user = await makeUser(userId);
+  await saveDeviceMetrics(userId, [{ dateKey: '2025-01-05', metrics: { steps: 4000 } }]);
+
+  await saveDeviceMetrics(userId, [{ dateKey: '2025-01-09', metrics: { steps: 2000 } }]);
+
+  const body = parseImportBody({ csv: `${HEADER}\n${goodRow('2025-01-04')}\n${goodRow('2025-01-05')}\n${goodRow('2025-01-06')}` });
+  await importCheckInHistory(user, validateImportRows(body.ok ? body.value : [], 'UTC').valid);
+
+  const entry = await getDailyEntry(userId, '2025-01-05');
+  assert(entry?.steps === 4000, 'The device value is kept');
+  assert(
+    entry?.provenance?.steps.source === 'healthkit' && entry.provenance.steps.overridden?.[0].value === 11000,
+    'The imported value is recorded as overridden'
+  );
+  assert(entry?.provenance?.sleepHours.source === 'csv_import', 'Answers the device did not measure stay imported');
+
+  const neighbours = await Promise.all(['2025-01-04', '2025-01-06'].map((dateKey) => getDailyEntry(userId, dateKey)));
+  assert(
+    neighbours.every((neighbour) => neighbour?.steps === 11000 && neighbour.provenance?.steps.source === 'csv_import'),
+    'Days without device data keep the imported value'
+  );
+}
+
+async function runTests() {
+  console.log('🧪 Running History Import Tests\n');
+
+  try {
+    testCsv();
+    testValidation();
+    await testImport();
+    await testDeviceConflict();
+
+    console.log('\n✅ All history import tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
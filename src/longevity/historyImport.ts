@@ -0,0 +1,278 @@
+/**
+ * Check-in history import
+ * Brings a history kept in a spreadsheet or another app in as past check-ins: rows (CSV
+ * text or JSON objects) are validated one by one, days that already have a check-in are
+ * skipped, and the rest are replayed in date order so biological age and streaks come out
+ * as if every day had been checked in live. Imported answers are tagged csv_import and
+ * lose to HealthKit data recorded for the same day.
+ */
+
+import { DateTime } from 'luxon';
+import { listDeviceMetrics, prefillCheckInBody } from '../health/healthIngestion';
+import { checkInToEntryFields, detectScoringVersion, parseDailyCheckIn } from '../scoring/engine';
+import { getUserScoringModelId } from '../scoring/models';
+import { getQuestionnaireSchema } from '../scoring/registry';
+import { DailyCheckIn } from '../scoring/scoringModel';
+import { replayDailyEntries, ReplayedUserState } from './dailyReplay';
+import { scheduleInsightsRefresh } from './insights';
+import { DailyEntryDocument, EntryProvenance, MetricSource, UserDocument } from './longevityModel';
+import { getTodayDateKey, listDailyEntries, writeReplayedDailyEntries } from './longevityStore';
+import { provenanceForAnswers } from './provenance';
+
+// Ten years of daily check-ins
+export const MAX_IMPORT_ROWS = 3650;
+// Rows may name their day with either column
+const DATE_KEYS = ['dateKey', 'date'];
+// Validation stops listing row errors after this many
+const MAX_REPORTED_ROW_ERRORS = 100;
+
+export interface ImportRowError {
+  row: number; // 1-based, not counting the CSV header
+  dateKey: string | null;
+  errors: string[];
+}
+
+export interface ImportedRow {
+  row: number;
+  dateKey: string;
+  checkIn: DailyCheckIn;
+}
+
+export interface HistoryImportResult {
+  imported: string[]; // dateKeys, ascending
+  skipped: Array<{ row: number; dateKey: string; reason: 'already_checked_in' }>;
+  errors: ImportRowError[];
+  state: ReplayedUserState | null; // null when nothing was imported
+  replayedEntries: number;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and
+ * line breaks). Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * CSV cells are text: yes/no answers are read from true/false, yes/no or 1/0 and
+ * multi-select answers from values separated by ";". Numbers are parsed by validation.
+ */
+function coerceCsvAnswers(raw: Record<string, string>): Record<string, unknown> {
+  const version = detectScoringVersion(raw);
+  if (!version) return raw;
+
+  const answers: Record<string, unknown> = { ...raw };
+  for (const question of getQuestionnaireSchema(version).questions) {
+    const value = raw[question.key];
+    if (value === undefined) continue;
+    if (question.type === 'boolean') {
+      const normalized = value.trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(normalized)) answers[question.key] = true;
+      else if (['false', 'no', '0'].includes(normalized)) answers[question.key] = false;
+    } else if (question.type === 'multiselect') {
+      answers[question.key] = value
+        .split(';')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+    }
+  }
+  return answers;
+}
+
+/**
+ * Rows of an import body: { csv: "text with a header row" } or { rows: [{ dateKey, ...answers }] }.
+ * A top-level scoringVersion applies to rows that do not name their own.
+ */
+export function parseImportBody(
+  body: unknown
+): { ok: true; value: Array<Record<string, unknown>> } | { ok: false; errors: string[] } {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  let rows: Array<Record<string, unknown>>;
+
+  if (typeof raw.csv === 'string') {
+    const [header, ...lines] = parseCsv(raw.csv);
+    if (!header) {
+      return { ok: false, errors: ['csv must have a header row'] };
+    }
+    const columns = header.map((column) => column.trim());
+    if (!columns.some((column) => DATE_KEYS.includes(column))) {
+      return { ok: false, errors: [`csv header must have a ${DATE_KEYS.join(' or ')} column`] };
+    }
+    rows = lines.map((cells) => {
+      const values: Record<string, string> = {};
+      columns.forEach((column, i) => {
+        const value = cells[i]?.trim();
+        // Empty cells are missing answers
+        if (column !== '' && value) values[column] = value;
+      });
+      return coerceCsvAnswers(values);
+    });
+  } else if (Array.isArray(raw.rows)) {
+    rows = raw.rows as Array<Record<string, unknown>>;
+  } else {
+    return { ok: false, errors: ['Body must have csv (text) or rows (array)'] };
+  }
+
+  if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+    return { ok: false, errors: [`Import must have 1 to ${MAX_IMPORT_ROWS} rows`] };
+  }
+  if (raw.scoringVersion !== undefined) {
+    rows = rows.map((row) =>
+      row && typeof row === 'object' && !Array.isArray(row) ? { scoringVersion: raw.scoringVersion, ...row } : row
+    );
+  }
+  return { ok: true, value: rows };
+}
+
+/**
+ * Validate import rows for a user in timezone: each needs a past dateKey, a dateKey no
+ * earlier row used, and answers that pass the check-in schema.
+ */
+export function validateImportRows(
+  rows: Array<Record<string, unknown>>,
+  timezone: string
+): { valid: ImportedRow[]; errors: ImportRowError[] } {
+  const todayDateKey = getTodayDateKey(timezone);
+  const seen = new Set<string>();
+  const valid: ImportedRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push({ row, dateKey: null, errors: ['Row must be an object'] });
+      return;
+    }
+
+    const { dateKey: rawDateKey, date, ...answers } = raw;
+    const dateKey = rawDateKey ?? date;
+    const rowErrors: string[] = [];
+    if (typeof dateKey !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dateKey) || !DateTime.fromISO(dateKey).isValid) {
+      rowErrors.push('dateKey must be a valid date in YYYY-MM-DD format');
+    } else if (dateKey > todayDateKey) {
+      rowErrors.push('dateKey cannot be in the future');
+    } else if (seen.has(dateKey)) {
+      rowErrors.push('dateKey appears in an earlier row');
+    } else {
+      seen.add(dateKey);
+    }
+
+    const checkIn = parseDailyCheckIn(answers);
+    if (!checkIn.ok) rowErrors.push(...checkIn.errors);
+
+    const key = typeof dateKey === 'string' ? dateKey : null;
+    if (rowErrors.length > 0 || !checkIn.ok) {
+      errors.push({ row, dateKey: key, errors: rowErrors });
+      return;
+    }
+    valid.push({ row, dateKey: key!, checkIn: checkIn.value });
+  });
+
+  return { valid, errors: errors.slice(0, MAX_REPORTED_ROW_ERRORS) };
+}
+
+/**
+ * Import validated rows: rows for days that already have a check-in are skipped, the rest
+ * are written and the history is replayed from the earliest imported day.
+ */
+export async function importCheckInHistory(user: UserDocument, rows: ImportedRow[]): Promise<
+  Omit<HistoryImportResult, 'errors'>
+> {
+  const userId = user.userId;
+  const timezone = user.timezone || 'UTC';
+
+  const existing = await listDailyEntries(userId);
+  const checkedIn = new Set(existing.map((entry) => entry.dateKey));
+  const skipped: HistoryImportResult['skipped'] = [];
+  const toImport: ImportedRow[] = [];
+  for (const row of rows) {
+    if (checkedIn.has(row.dateKey)) {
+      skipped.push({ row: row.row, dateKey: row.dateKey, reason: 'already_checked_in' });
+    } else {
+      toImport.push(row);
+    }
+  }
+  if (toImport.length === 0) {
+    return { imported: [], skipped, state: null, replayedEntries: 0 };
+  }
+
+  const imported = toImport.map((row) => row.dateKey).sort();
+  const device = await listDeviceMetrics(userId, imported[0], imported[imported.length - 1]);
+  const entries: DailyEntryDocument[] = [];
+  for (const row of toImport) {
+    // Conflict policy: HealthKit data recorded for the day beats the imported answers
+    const claims: Record<string, MetricSource> = {};
+    for (const key of Object.keys(row.checkIn.answers)) claims[key] = 'csv_import';
+    const prefilled = prefillCheckInBody(
+      { metrics: row.checkIn.answers, scoringVersion: row.checkIn.version },
+      device.get(row.dateKey) ?? null,
+      claims
+    );
+    const checkIn = parseDailyCheckIn(prefilled.body);
+    const resolved = checkIn.ok ? checkIn.value : row.checkIn;
+    const provenance: EntryProvenance = provenanceForAnswers(resolved.answers, prefilled.provenance);
+
+    entries.push({
+      userId,
+      dateKey: row.dateKey,
+      date: row.dateKey,
+      ...checkInToEntryFields(resolved),
+      provenance,
+      // Recomputed by the replay below
+      score: 0,
+      deltaYears: 0,
+      reasons: [],
+      createdAt: '', // Stamped by storage
+    });
+  }
+
+  const replay = replayDailyEntries({
+    entries: [...existing, ...entries],
+    fromDateKey: imported[0],
+    baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+    chronologicalAgeYears: user.chronologicalAgeYears,
+    timezone,
+    scoringModelVersion: getUserScoringModelId(user),
+  });
+  await writeReplayedDailyEntries(userId, { entries: replay.entries, state: replay.state });
+  scheduleInsightsRefresh(userId);
+
+  return { imported, skipped, state: replay.state, replayedEntries: replay.entries.length };
+}
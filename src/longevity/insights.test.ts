@@ -0,0 +1,167 @@
+/**
+ * Unit tests for check-in insights
+ * Run with: npx ts-node src/longevity/insights.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { DateTime } from 'luxon';
+import { storage } from '../config/storage';
+import { getUserInsights, mineInsights, MIN_DAYS_PER_GROUP, renderInsight, scheduleInsightsRefresh } from './insights';
+import { calculateDailyScore } from './longevityScoring';
+import { DailyEntryDocument } from './longevityModel';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const baseDay = {
+  sleepHours: 8,
+  steps: 9000,
+  vigorousMinutes: 20,
+  processedFoodScore: 2,
+  alcoholUnits: 0,
+  stressLevel: 3,
+  lateCaffeine: false,
+  screenLate: false,
+  bedtimeHour: 22,
+};
+
+function makeEntry(dateKey: string, metrics: typeof baseDay): DailyEntryDocument {
+  const result = calculateDailyScore({ date: dateKey, ...metrics });
+  return {
+    userId: 'user-1',
+    dateKey,
+    date: dateKey,
+    ...metrics,
+    score: result.score,
+    deltaYears: result.deltaYears,
+    reasons: result.reasons,
+    contributions: result.contributions,
+    createdAt: '',
+  };
+}
+
+/**
+ * 42 days: late caffeine every third day cuts that night's sleep, more than 2 alcohol units
+ * every fourth day raises the next day's stress. Small wobbles keep every group's spread non-zero.
+ */
+function makeHistory(): DailyEntryDocument[] {
+  const start = DateTime.fromISO('2025-01-01', { zone: 'utc' });
+  const entries: DailyEntryDocument[] = [];
+  for (let i = 0; i < 42; i++) {
+    const wobble = (i % 5) * 0.1;
+    const lateCaffeine = i % 3 === 0;
+    const drankYesterday = i > 0 && (i - 1) % 4 === 0;
+    entries.push(
+      makeEntry(start.plus({ days: i }).toISODate()!, {
+        ...baseDay,
+        sleepHours: (lateCaffeine ? 6.2 : 7.6) + wobble,
+        alcoholUnits: i % 4 === 0 ? 4 : 0,
+        stressLevel: drankYesterday ? 7 + (i % 2) : 3 + (i % 2),
+        lateCaffeine,
+      })
+    );
+  }
+  return entries;
+}
+
+// Test 1: Same-day and next-day patterns are found
+function testMining() {
+  console.log('\n=== Test 1: Mining ===');
+
+  const insights = mineInsights(makeHistory(), 'v1');
+  const caffeine = insights.find((i) => i.id === 'daily.caffeine.late_intake:sleepHours:0');
+  assert(caffeine !== undefined, 'Late caffeine and sleep are linked on the same day');
+  assert(Math.abs(caffeine!.difference + 1.4) < 0.05, 'Sleep averages about 1.4h less after late caffeine');
+  assert(caffeine!.effectSize < -0.5 && caffeine!.withDays === 14, 'Effect size and sample sizes are reported');
+
+  const alcohol = insights.find((i) => i.id === 'daily.alcohol.high:stressLevel:1');
+  assert(alcohol !== undefined && alcohol.difference > 3, 'Heavy drinking precedes higher stress the next day');
+  assert(!insights.some((i) => i.outcome === i.conditionFactor), 'A factor is never its own outcome');
+
+  assert(
+    insights.every((insight, i) => i === 0 || Math.abs(insights[i - 1].effectSize) >= Math.abs(insight.effectSize)),
+    'Insights are sorted strongest first'
+  );
+}
+
+// Test 2: Minimum sample thresholds
+function testThresholds() {
+  console.log('\n=== Test 2: Thresholds ===');
+
+  const short = makeHistory().slice(0, MIN_DAYS_PER_GROUP * 2);
+  assert(
+    !mineInsights(short, 'v1').some((i) => i.condition === 'daily.caffeine.late_intake'),
+    'Too few late caffeine days report nothing'
+  );
+  assert(mineInsights([], 'v1').length === 0, 'Empty history has no insights');
+}
+
+// Test 3: Rendering per locale
+function testRendering() {
+  console.log('\n=== Test 3: Rendering ===');
+
+  const caffeine = mineInsights(makeHistory(), 'v1').find((i) => i.id === 'daily.caffeine.late_intake:sleepHours:0')!;
+  const english = renderInsight('en', caffeine);
+  assert(english.startsWith('On days with "Caffeine: late intake", your sleep (hours) averages 1.39 lower'), english);
+  const turkish = renderInsight('tr', caffeine);
+  assert(turkish.includes('1,39') && turkish.includes('düşük'), turkish);
+}
+
+// Test 4: Cached per user and refreshed after check-ins
+async function testCache() {
+  console.log('\n=== Test 4: Cache ===');
+
+  const userId = 'insights-user';
+  await storage.users.merge(userId, { userId, timezone: 'UTC' });
+  const history = makeHistory();
+  for (const entry of history.slice(0, 20)) {
+    await storage.dailyEntries.create(userId, { ...entry, userId });
+  }
+
+  const first = await getUserInsights(userId);
+  assert(first.checkIns === 20, 'Insights are mined on first use');
+  assert((await storage.insights.get(userId))?.computedAt === first.computedAt, 'Mined insights are cached');
+
+  for (const entry of history.slice(20)) {
+    await storage.dailyEntries.create(userId, { ...entry, userId });
+  }
+  assert((await getUserInsights(userId)).checkIns === 20, 'Cached insights are served until refreshed');
+
+  await scheduleInsightsRefresh(userId);
+  const refreshed = await getUserInsights(userId);
+  assert(refreshed.checkIns === 42, 'A refresh mines the full history');
+  assert(
+    refreshed.insights.some((i) => i.id === 'daily.alcohol.high:stressLevel:1'),
+    'Refreshed insights include patterns from new check-ins'
+  );
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Insights Tests\n');
+
+  try {
+    testMining();
+    testThresholds();
+    testRendering();
+    await testCache();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,199 @@
+/**
+ * Check-in insights
+ * Mines a user's history for patterns such as "on days with late caffeine your sleep
+ * averages 1.2h less": every scoring band a day fell in is a condition, every numeric answer
+ * an outcome, compared on the same day and the day after. Patterns need enough days on both
+ * sides and a medium effect size before they are reported. Results are cached per user and
+ * refreshed after each check-in.
+ */
+
+import { DateTime } from 'luxon';
+import { storage } from '../config/storage';
+import { hasMessage, Locale, t } from '../i18n/i18n';
+import { ScoringModelId } from '../scoring/scoringModel';
+import { getUserScoringModelId } from '../scoring/models';
+import { getEntryContributions } from './factorAnalytics';
+import { DailyEntryDocument, Insight, UserInsightsDocument } from './longevityModel';
+import { getUserDocument, listDailyEntries } from './longevityStore';
+import { isEstimatedAnswer } from './provenance';
+
+// Days needed with and without the condition before a difference is trusted
+export const MIN_DAYS_PER_GROUP = 5;
+// Cohen's d of a "medium" effect
+export const MIN_EFFECT_SIZE = 0.5;
+export const MAX_INSIGHTS = 10;
+
+// The day's own scored aging is excluded on the same day: the condition's band is part of it
+const DELTA_OUTCOME = 'deltaYears';
+
+interface ScoredDay {
+  dateKey: string;
+  bands: Map<string, string | null>; // factor -> band key
+  values: Map<string, number>; // numeric outcomes of the day
+}
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[], average: number): number {
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+function toScoredDays(entries: DailyEntryDocument[], fallbackModelId: ScoringModelId): ScoredDay[] {
+  return entries.map((entry) => {
+    const bands = new Map<string, string | null>();
+    const values = new Map<string, number>();
+    let deltaYears = 0;
+    for (const contribution of getEntryContributions(entry, fallbackModelId)) {
+      deltaYears += contribution.deltaYears;
+      // An estimate is neither a condition nor an outcome of a pattern
+      if (isEstimatedAnswer(entry, contribution.factor)) continue;
+      bands.set(contribution.factor, contribution.band);
+      if (typeof contribution.value === 'number') {
+        values.set(contribution.factor, contribution.value);
+      }
+    }
+    values.set(DELTA_OUTCOME, deltaYears);
+    return { dateKey: entryDateKey(entry), bands, values };
+  });
+}
+
+/**
+ * Patterns in a check-in history, strongest first (at most MAX_INSIGHTS).
+ */
+export function mineInsights(entries: DailyEntryDocument[], fallbackModelId: ScoringModelId): Insight[] {
+  const days = toScoredDays(entries, fallbackModelId);
+  const byDateKey = new Map(days.map((day) => [day.dateKey, day]));
+  const nextDay = (day: ScoredDay) =>
+    byDateKey.get(DateTime.fromISO(day.dateKey, { zone: 'utc' }).plus({ days: 1 }).toISODate()!);
+
+  const conditions = new Map<string, string>(); // band key -> factor
+  const outcomes = new Set<string>();
+  for (const day of days) {
+    for (const [factor, band] of day.bands) {
+      if (band !== null) conditions.set(band, factor);
+    }
+    for (const outcome of day.values.keys()) outcomes.add(outcome);
+  }
+
+  const insights: Insight[] = [];
+  for (const [condition, conditionFactor] of conditions) {
+    for (const outcome of outcomes) {
+      if (outcome === conditionFactor) continue;
+      for (const lagDays of [0, 1] as const) {
+        if (lagDays === 0 && outcome === DELTA_OUTCOME) continue;
+
+        const withValues: number[] = [];
+        const withoutValues: number[] = [];
+        for (const day of days) {
+          if (!day.bands.has(conditionFactor)) continue;
+          const value = (lagDays === 0 ? day : nextDay(day))?.values.get(outcome);
+          if (value === undefined) continue;
+          (day.bands.get(conditionFactor) === condition ? withValues : withoutValues).push(value);
+        }
+        if (withValues.length < MIN_DAYS_PER_GROUP || withoutValues.length < MIN_DAYS_PER_GROUP) continue;
+
+        const withAverage = mean(withValues);
+        const withoutAverage = mean(withoutValues);
+        const pooledVariance =
+          ((withValues.length - 1) * variance(withValues, withAverage) +
+            (withoutValues.length - 1) * variance(withoutValues, withoutAverage)) /
+          (withValues.length + withoutValues.length - 2);
+        // No spread at all: the difference cannot be sized
+        if (pooledVariance === 0) continue;
+
+        const difference = withAverage - withoutAverage;
+        const effectSize = difference / Math.sqrt(pooledVariance);
+        if (Math.abs(effectSize) < MIN_EFFECT_SIZE) continue;
+
+        insights.push({
+          id: `${condition}:${outcome}:${lagDays}`,
+          condition,
+          conditionFactor,
+          outcome,
+          lagDays,
+          withDays: withValues.length,
+          withoutDays: withoutValues.length,
+          withAverage: round(withAverage, 3),
+          withoutAverage: round(withoutAverage, 3),
+          difference: round(difference, 3),
+          effectSize: round(effectSize, 2),
+        });
+      }
+    }
+  }
+
+  return insights
+    .sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize) || a.id.localeCompare(b.id))
+    .slice(0, MAX_INSIGHTS);
+}
+
+/**
+ * One-sentence description of an insight in the given locale.
+ */
+export function renderInsight(locale: Locale, insight: Insight): string {
+  const format = new Intl.NumberFormat(locale, { maximumFractionDigits: insight.outcome === DELTA_OUTCOME ? 3 : 2 });
+  const outcomeKey = `insight.outcome.${insight.outcome}`;
+  return t(locale, insight.lagDays === 0 ? 'insight.same_day' : 'insight.next_day', {
+    condition: t(locale, insight.condition),
+    outcome: hasMessage(outcomeKey) ? t(locale, outcomeKey) : insight.outcome,
+    difference: format.format(Math.abs(insight.difference)),
+    direction: t(locale, insight.difference > 0 ? 'insight.higher' : 'insight.lower'),
+    withAverage: format.format(insight.withAverage),
+    withoutAverage: format.format(insight.withoutAverage),
+  });
+}
+
+/**
+ * Mine a user's history again and replace the cached insights.
+ */
+export async function refreshUserInsights(userId: string): Promise<UserInsightsDocument> {
+  const [user, entries] = await Promise.all([getUserDocument(userId), listDailyEntries(userId)]);
+  const record: UserInsightsDocument = {
+    userId,
+    checkIns: entries.length,
+    insights: mineInsights(entries, getUserScoringModelId(user ?? {})),
+    computedAt: new Date().toISOString(),
+  };
+  await storage.insights.save(record);
+  return record;
+}
+
+/**
+ * Cached insights, mined on first use.
+ */
+export async function getUserInsights(userId: string): Promise<UserInsightsDocument> {
+  return (await storage.insights.get(userId)) ?? refreshUserInsights(userId);
+}
+
+// Refreshes for the same user run one after another so the last check-in always wins
+const pendingRefreshes = new Map<string, Promise<void>>();
+
+/**
+ * Queue an insights refresh without blocking the check-in response. Failures are logged only.
+ */
+export function scheduleInsightsRefresh(userId: string): Promise<void> {
+  const previous = pendingRefreshes.get(userId) ?? Promise.resolve();
+  const next = previous
+    .then(async () => {
+      await refreshUserInsights(userId);
+    })
+    .catch((error: any) => {
+      console.error('[insights] Failed to refresh insights:', error?.message);
+    })
+    .finally(() => {
+      if (pendingRefreshes.get(userId) === next) {
+        pendingRefreshes.delete(userId);
+      }
+    });
+  pendingRefreshes.set(userId, next);
+  return next;
+}
@@ -3,6 +3,9 @@
  * Explainable scoring system with BAO (Biological Age Offset) and DAV (Daily Aging Velocity)
  */
 
+import type { Locale, MessageRef } from '../i18n/i18n';
+import { AnswerValue, DailyAnswers, FactorContribution, ScoringModelId, ScoringVersionId } from '../scoring/scoringModel';
+
 /**
  * Shared Longevity data models
  */
@@ -33,6 +36,7 @@ export interface OnboardingSubmitResponse {
   currentBiologicalAgeYears: number;
   BAOYears: number;
   totalScore: number;
+  scoringModelVersion: ScoringModelId;
 }
 
 export interface UserDocument {
@@ -42,12 +46,14 @@ export interface UserDocument {
   lastName?: string | null;
   dateOfBirth?: string | null; // ISO date string, e.g. "1990-05-15"
   timezone?: string | null; // IANA timezone string, e.g. "Europe/Istanbul", "America/New_York"
+  locale?: Locale | null; // Preferred language; overrides Accept-Language when set
   chronologicalAgeYears: number;
   chronologicalAgeYearsAtOnboarding?: number | null; // Chronological age at the time of onboarding (for baseline delta calculation)
   onboardingAnswers: OnboardingAnswers;
   onboardingTotalScore: number;
   baselineBiologicalAgeYears: number;
   baselineBAOYears: number;
+  scoringModelVersion?: ScoringModelId | null; // Scoring model behind baseline and entries; missing means v1
   currentBiologicalAgeYears: number;
   currentAgingDebtYears: number;
   rejuvenationStreakDays: number;
@@ -62,6 +68,10 @@ export interface UserDocument {
   // Streak tracking fields
   lastCheckinDayKey?: string | null; // YYYY-MM-DD in user's timezone
   lastCheckinAt?: string | null; // ISO timestamp
+  // Legal consent fields
+  acceptedPrivacyPolicyVersion?: string | null;
+  acceptedTermsVersion?: string | null;
+  acceptedAt?: string | null; // ISO timestamp
   createdAt: string;
   updatedAt: string;
 }
@@ -79,27 +89,45 @@ export interface DailyMetrics {
   bedtimeHour: number;
 }
 
+// Where a check-in answer came from
+export type MetricSource = 'manual' | 'healthkit' | 'csv_import' | 'coach_estimate';
+
+export interface FieldProvenance {
+  source: MetricSource;
+  overridden?: Array<{ source: MetricSource; value: AnswerValue }>; // Disagreeing values that lost to source
+}
+
+export type EntryProvenance = Record<string, FieldProvenance>; // answer key -> provenance
+
 export interface DailyEntryDocument {
   userId: string; // User ID for querying
   dateKey: string; // YYYY-MM-DD format computed in user's timezone
   date: string; // Kept for backward compatibility (same as dateKey)
-  sleepHours: number;
-  steps: number;
-  vigorousMinutes: number;
-  processedFoodScore: number;
-  alcoholUnits: number;
-  stressLevel: number;
-  lateCaffeine: boolean;
-  screenLate: boolean;
-  bedtimeHour: number;
+  scoringVersion?: ScoringVersionId; // Version that produced score; missing on entries written before versioning (metrics-v1)
+  scoringModelVersion?: ScoringModelId; // Scoring model that produced score; missing means v1
+  // metrics-v1 answers (absent for other scoring versions)
+  sleepHours?: number;
+  steps?: number;
+  vigorousMinutes?: number;
+  processedFoodScore?: number;
+  alcoholUnits?: number;
+  stressLevel?: number;
+  lateCaffeine?: boolean;
+  screenLate?: boolean;
+  bedtimeHour?: number;
+  answers?: DailyAnswers; // Answers for non-metrics scoring versions (e.g. questionnaire-v1)
   score: number;
   deltaYears: number;
-  reasons: string[];
+  reasons: string[]; // English rendering of reasonCodes
+  reasonCodes?: MessageRef[]; // Missing on entries scored before localization
+  contributions?: FactorContribution[]; // Per-factor breakdown; missing on entries scored before it existed
+  provenance?: EntryProvenance; // Source of each answer; missing on entries written before it (all manual)
   currentBiologicalAgeYears?: number;
   currentAgingDebtYears?: number;
   rejuvenationStreakDays?: number;
   accelerationStreakDays?: number;
   createdAt: string;
+  updatedAt?: string;
 }
 
 export interface BiologicalAgeState {
@@ -115,9 +143,12 @@ export interface BiologicalAgeState {
 
 export interface TodayEntry {
   date: string;
+  scoringVersion?: ScoringVersionId;
   score: number;
   deltaYears: number;
-  reasons: string[];
+  reasons: string[]; // In the response locale
+  reasonCodes?: MessageRef[];
+  contributions?: FactorContribution[];
 }
 
 export interface DailyUpdateResponse {
@@ -156,7 +187,11 @@ export interface TrendPoint {
 export interface TrendPeriod {
   value: number | null; // Change in biological age (rounded to 2 decimals)
   available: boolean; // Whether enough data exists
-  projection?: boolean; // Whether this is a projection (only for yearly)
+  projection?: boolean; // Whether value is the projection (yearly periods the history does not cover yet)
+  projectedValue?: number | null; // Projected change over the period (equals value for a complete period)
+  lower?: number | null; // Lower bound of the projection's ~95% interval
+  upper?: number | null; // Upper bound of the projection's ~95% interval
+  dataPoints?: number; // Entries the value was computed from (daily deltas for a projected value)
   points?: TrendPoint[]; // Chart data points
 }
 
@@ -165,9 +200,9 @@ export interface TrendPeriod {
  * 
  * Example response:
  * {
- *   "weekly": { "value": -0.32, "available": true, "points": [...] },
- *   "monthly": { "value": -1.10, "available": true, "points": [...] },
- *   "yearly": { "value": -4.20, "available": false, "projection": true, "points": [...] }
+ *   "weekly": { "value": -0.32, "available": true, "projection": false, "projectedValue": -0.32, "lower": -0.32, "upper": -0.32, "dataPoints": 7, "points": [...] },
+ *   "monthly": { "value": -0.41, "available": false, "projection": false, "projectedValue": -1.10, "lower": -2.60, "upper": 0.40, "dataPoints": 12, "points": [...] },
+ *   "yearly": { "value": -4.20, "available": false, "projection": true, "projectedValue": -4.20, "lower": -9.80, "upper": 1.40, "dataPoints": 24, "points": [...] }
  * }
  */
 export interface TrendResponse {
@@ -235,3 +270,75 @@ export interface YearlyDeltaResponse {
 
 export type DeltaAnalyticsResponse = WeeklyDeltaResponse | MonthlyDeltaResponse | YearlyDeltaResponse;
 
+
+/**
+ * Factor Analytics Response Models
+ */
+
+export interface FactorPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface FactorStats {
+  factor: string; // Answer field, e.g. "sleepHours"
+  kind: 'number' | 'boolean' | 'other'; // 'other' covers multi-select and mixed answers
+  days: number; // check-ins in the window that scored this factor
+  estimatedDays: number; // days the answer was an estimate; left out of the value statistics
+  average: number | null; // mean value; share of "yes" days for yes/no factors
+  min: number | null;
+  max: number | null;
+  percentiles: FactorPercentiles | null; // numeric factors only
+  daysInTargetBand: number; // days the answer was already in the factor's best band
+  targetBandShare: number | null; // daysInTargetBand / days
+  deltaYears: number; // summed share of the window's deltaYears (positive = aging)
+}
+
+export interface FactorDriver {
+  factor: string;
+  deltaYears: number;
+  direction: 'aging' | 'rejuvenation';
+}
+
+export interface FactorAnalyticsResponse {
+  range: 'weekly' | 'monthly' | 'yearly';
+  timezone: string;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+  checkIns: number;
+  factors: FactorStats[];
+  topDriver: FactorDriver | null; // factor with the largest net effect either way
+  topAgingFactor: FactorDriver | null; // factor that aged the user most
+}
+
+/**
+ * Insight mined from a user's check-in history: how an outcome differs between days with
+ * and without a condition (a scoring band, e.g. "daily.caffeine.late_intake"), on the same
+ * day or the day after.
+ */
+export interface Insight {
+  id: string; // `${condition}:${outcome}:${lagDays}`
+  condition: string; // Band key of the condition
+  conditionFactor: string; // Factor the band belongs to
+  outcome: string; // Numeric answer field, or "deltaYears" for the day's scored aging
+  lagDays: 0 | 1; // 1 = outcome measured the day after the condition
+  withDays: number; // Outcome samples on condition days
+  withoutDays: number; // Outcome samples on other days
+  withAverage: number;
+  withoutAverage: number;
+  difference: number; // withAverage - withoutAverage
+  effectSize: number; // Cohen's d (difference / pooled standard deviation)
+}
+
+/**
+ * Cached insights of a user (users/{uid}/insights/current), refreshed after each check-in.
+ */
+export interface UserInsightsDocument {
+  userId: string;
+  checkIns: number; // Entries the insights were mined from
+  insights: Insight[]; // Strongest first
+  computedAt: string;
+}
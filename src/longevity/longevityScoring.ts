@@ -1,9 +1,13 @@
 import { DailyMetrics, OnboardingAnswers } from './longevityModel';
+import { evaluateRuleSet, loadRuleSet } from '../scoring/ruleEngine';
+import { DEFAULT_LOCALE, renderMessages } from '../i18n/i18n';
+import { DailyScoreResult, FactorContribution } from '../scoring/scoringModel';
 
 // Constants
 export const MAX_OFFSET_YEARS = 8; // onboarding BAO cap
 export const AGE_FACTOR = MAX_OFFSET_YEARS; // mapping score -> BAO (years)
 export const DAILY_MAX_DELTA_YEARS = 0.3; // clamp daily delta
+export const DAILY_METRICS_RULE_SET = 'daily-metrics-v1';
 
 /**
  * Clamps a value between min and max.
@@ -50,113 +54,41 @@ export function calculateOnboardingResult(
   return { totalScore, BAOYears, baselineBiologicalAgeYears };
 }
 
+// Years per score point of the daily metrics
+const DAILY_YEARS_PER_POINT = 0.03;
+
 /**
  * Compute daily score and deltaYears from daily metrics.
  * Positive score => rejuvenating => negative deltaYears.
  */
-export function calculateDailyScore(
-  metrics: DailyMetrics
-): { score: number; deltaYears: number; reasons: string[] } {
-  let score = 0;
-  const reasons: string[] = [];
-
-  // Sleep hours
-  if (metrics.sleepHours >= 7 && metrics.sleepHours <= 9) {
-    score += 2;
-    reasons.push('Sleep: good duration');
-  } else if (metrics.sleepHours < 6) {
-    score -= 2;
-    reasons.push('Sleep: too short');
-  } else {
-    score -= 0.5;
-    reasons.push('Sleep: could be better');
-  }
-
-  // Steps
-  if (metrics.steps >= 10000) {
-    score += 2;
-    reasons.push('Steps: active day');
-  } else if (metrics.steps >= 7000) {
-    score += 1;
-    reasons.push('Steps: moderate');
-  } else if (metrics.steps < 4000) {
-    score -= 2;
-    reasons.push('Steps: low activity');
-  } else {
-    score -= 1;
-    reasons.push('Steps: below target');
-  }
-
-  // Vigorous minutes
-  if (metrics.vigorousMinutes >= 30) {
-    score += 1.5;
-    reasons.push('Exercise: strong session');
-  } else if (metrics.vigorousMinutes >= 10) {
-    score += 0.5;
-    reasons.push('Exercise: some intensity');
-  } else {
-    score -= 0.5;
-    reasons.push('Exercise: add intensity');
-  }
-
-  // Processed food (lower is better, assume 1-5 scale)
-  if (metrics.processedFoodScore <= 2) {
-    score += 1;
-    reasons.push('Food: minimally processed');
-  } else if (metrics.processedFoodScore >= 4) {
-    score -= 1.5;
-    reasons.push('Food: too processed');
-  } else {
-    score -= 0.5;
-    reasons.push('Food: mixed quality');
-  }
-
-  // Alcohol
-  if (metrics.alcoholUnits === 0) {
-    score += 1;
-    reasons.push('Alcohol: none');
-  } else if (metrics.alcoholUnits <= 2) {
-    reasons.push('Alcohol: moderate');
-  } else {
-    score -= 1;
-    reasons.push('Alcohol: high');
-  }
-
-  // Stress level (0-10 scale assumed; high is worse)
-  if (metrics.stressLevel <= 3) {
-    score += 1;
-    reasons.push('Stress: low');
-  } else if (metrics.stressLevel >= 7) {
-    score -= 1.5;
-    reasons.push('Stress: high');
-  } else {
-    score -= 0.5;
-    reasons.push('Stress: moderate');
-  }
-
-  if (metrics.lateCaffeine) {
-    score -= 1;
-    reasons.push('Caffeine: late intake');
-  }
-
-  if (metrics.screenLate) {
-    score -= 0.5;
-    reasons.push('Screen time: late use');
-  }
-
-  if (metrics.bedtimeHour > 24 || metrics.bedtimeHour < 5) {
-    score -= 1;
-    reasons.push('Bedtime: very late');
-  } else if (metrics.bedtimeHour > 23) {
-    score -= 0.5;
-    reasons.push('Bedtime: late');
-  } else {
-    score += 0.5;
-    reasons.push('Bedtime: good timing');
-  }
+export function calculateDailyScore(metrics: DailyMetrics): DailyScoreResult {
+  // Bands, points and reason keys live in data/scoring-rules/daily-metrics-v1.json
+  const result = evaluateRuleSet(loadRuleSet(DAILY_METRICS_RULE_SET), metrics);
+  const score = result.score;
 
   // Map score to deltaYears (positive score => negative deltaYears)
-  const deltaYears = clamp(-score * 0.03, -DAILY_MAX_DELTA_YEARS, DAILY_MAX_DELTA_YEARS);
-
-  return { score, deltaYears, reasons };
+  const unclampedDeltaYears = -score * DAILY_YEARS_PER_POINT;
+  const deltaYears = clamp(unclampedDeltaYears, -DAILY_MAX_DELTA_YEARS, DAILY_MAX_DELTA_YEARS);
+
+  // Clamping scales every factor's share alike, so the shares still add up to deltaYears
+  const scale = unclampedDeltaYears === 0 ? 1 : deltaYears / unclampedDeltaYears;
+  const contributions: FactorContribution[] = result.contributions.map((contribution) => ({
+    factor: contribution.metric,
+    value: (contribution.value ?? null) as FactorContribution['value'],
+    points: contribution.points,
+    deltaYears: -contribution.points * DAILY_YEARS_PER_POINT * scale,
+    band: contribution.band,
+    target: contribution.target && {
+      ...contribution.target,
+      deltaYears: -contribution.target.points * DAILY_YEARS_PER_POINT,
+    },
+  }));
+
+  return {
+    score,
+    deltaYears,
+    reasons: renderMessages(DEFAULT_LOCALE, result.reasons),
+    reasonCodes: result.reasons,
+    contributions,
+  };
 }
@@ -1,10 +1,9 @@
 /**
- * Longevity Firestore Operations (unified schema)
+ * Longevity storage operations (unified schema)
  */
 
-import * as admin from 'firebase-admin';
 import { DateTime } from 'luxon';
-import { firestore, firestoreToJSON } from '../config/firestore';
+import { storage } from '../config/storage';
 import { calculateAgeFromDateOfBirth } from '../auth/firebaseAuth';
 import {
   DailyEntryDocument,
@@ -12,8 +11,8 @@ import {
   OnboardingAnswers,
   UserDocument,
 } from './longevityModel';
+import { ScoringModelId } from '../scoring/scoringModel';
 
-const serverTimestamp = () => admin.firestore.FieldValue.serverTimestamp();
 const nowIso = () => new Date().toISOString();
 
 /**
@@ -52,41 +51,41 @@ export async function upsertUserOnboarding(params: {
   onboardingTotalScore: number;
   baselineBiologicalAgeYears: number;
   baselineBAOYears: number;
+  scoringModelVersion: ScoringModelId;
 }): Promise<void> {
-  const { userId, chronologicalAgeYears, answers, onboardingTotalScore, baselineBiologicalAgeYears, baselineBAOYears } =
-    params;
-
-  const userRef = firestore.collection('users').doc(userId);
-  const existing = await userRef.get();
+  const {
+    userId,
+    chronologicalAgeYears,
+    answers,
+    onboardingTotalScore,
+    baselineBiologicalAgeYears,
+    baselineBAOYears,
+    scoringModelVersion,
+  } = params;
 
-  const base: Partial<UserDocument> | undefined = existing.exists
-    ? (firestoreToJSON(existing.data()) as UserDocument)
-    : undefined;
+  const base = await storage.users.get(userId);
 
   const createdAt = base?.createdAt ?? nowIso();
   const currentBiologicalAgeYears = baselineBiologicalAgeYears;
   const currentAgingDebtYears = currentBiologicalAgeYears - chronologicalAgeYears;
 
-  await userRef.set(
-    {
-      userId,
-      chronologicalAgeYears,
-      chronologicalAgeYearsAtOnboarding: chronologicalAgeYears, // Store chronological age at onboarding time
-      onboardingAnswers: answers,
-      onboardingTotalScore,
-      baselineBiologicalAgeYears,
-      baselineBAOYears,
-      currentBiologicalAgeYears,
-      currentAgingDebtYears,
-      rejuvenationStreakDays: 0,
-      accelerationStreakDays: 0,
-      totalRejuvenationDays: 0,
-      totalAccelerationDays: 0,
-      createdAt,
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  await storage.users.merge(userId, {
+    userId,
+    chronologicalAgeYears,
+    chronologicalAgeYearsAtOnboarding: chronologicalAgeYears, // Store chronological age at onboarding time
+    onboardingAnswers: answers,
+    onboardingTotalScore,
+    baselineBiologicalAgeYears,
+    baselineBAOYears,
+    scoringModelVersion,
+    currentBiologicalAgeYears,
+    currentAgingDebtYears,
+    rejuvenationStreakDays: 0,
+    accelerationStreakDays: 0,
+    totalRejuvenationDays: 0,
+    totalAccelerationDays: 0,
+    createdAt,
+  });
 }
 
 /**
@@ -94,10 +93,8 @@ export async function upsertUserOnboarding(params: {
  * Automatically updates chronologicalAgeYears from dateOfBirth if available.
  */
 export async function getUserDocument(userId: string): Promise<UserDocument | null> {
-  const doc = await firestore.collection('users').doc(userId).get();
-  if (!doc.exists) return null;
-  
-  const userData = firestoreToJSON(doc.data()) as UserDocument;
+  const userData = await storage.users.get(userId);
+  if (!userData) return null;
   
   // If dateOfBirth exists, automatically recalculate chronologicalAgeYears
   // This ensures age stays current as days pass (updates continuously)
@@ -110,10 +107,8 @@ export async function getUserDocument(userId: string): Promise<UserDocument | nu
       if (userData.chronologicalAgeYears === null || 
           userData.chronologicalAgeYears === undefined ||
           calculatedAge !== userData.chronologicalAgeYears) {
-        // Update in Firestore
-        await doc.ref.update({
+        await storage.users.merge(userId, {
           chronologicalAgeYears: calculatedAge,
-          updatedAt: serverTimestamp(),
         });
         // Update local data
         userData.chronologicalAgeYears = calculatedAge;
@@ -164,9 +159,7 @@ export async function hasDailyEntryForDateKey(
   userId: string,
   dateKey: string
 ): Promise<boolean> {
-  const ref = firestore.collection('users').doc(userId).collection('dailyEntries').doc(dateKey);
-  const snap = await ref.get();
-  return snap.exists;
+  return storage.dailyEntries.exists(userId, dateKey);
 }
 
 /**
@@ -180,18 +173,11 @@ export async function saveDailyEntry(
   result: { score: number; deltaYears: number; reasons: string[] },
   snapshot?: Partial<DailyEntryDocument>
 ): Promise<void> {
-  const ref = firestore.collection('users').doc(userId).collection('dailyEntries').doc(dateKey);
-  
-  // Check if entry already exists
-  const existing = await ref.get();
-  if (existing.exists) {
-    throw new Error('Daily check-in already completed for this date');
-  }
-
-  const doc: Partial<DailyEntryDocument> = {
+  await storage.dailyEntries.create(userId, {
     userId,
     dateKey,
     date: dateKey, // Keep date for backward compatibility
+    scoringVersion: 'metrics-v1',
     sleepHours: metrics.sleepHours,
     steps: metrics.steps,
     vigorousMinutes: metrics.vigorousMinutes,
@@ -205,39 +191,21 @@ export async function saveDailyEntry(
     deltaYears: result.deltaYears,
     reasons: result.reasons,
     ...snapshot,
-  };
-
-  await ref.set({
-    ...doc,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
-  } as any);
+  });
 }
 
 export async function getDailyEntry(
   userId: string,
   dateKey: string
 ): Promise<DailyEntryDocument | null> {
-  const ref = firestore.collection('users').doc(userId).collection('dailyEntries').doc(dateKey);
-  const snap = await ref.get();
-  if (!snap.exists) return null;
-  return firestoreToJSON(snap.data()) as DailyEntryDocument;
+  return storage.dailyEntries.get(userId, dateKey);
 }
 
 /**
  * List all daily entries (sorted ascending by dateKey/date).
  */
 export async function listDailyEntries(userId: string): Promise<DailyEntryDocument[]> {
-  const ref = firestore.collection('users').doc(userId).collection('dailyEntries');
-  const snap = await ref.get();
-  if (snap.empty) return [];
-  const docs = snap.docs.map((d) => firestoreToJSON(d.data()) as DailyEntryDocument);
-  // Sort by dateKey if available, otherwise fall back to date
-  return docs.sort((a, b) => {
-    const dateA = a.dateKey || a.date;
-    const dateB = b.dateKey || b.date;
-    return dateA.localeCompare(dateB);
-  });
+  return storage.dailyEntries.list(userId);
 }
 
 /**
@@ -269,63 +237,73 @@ export async function updateUserAfterDaily(
     lastCheckinAt?: string;
   }
 ): Promise<void> {
-  const userRef = firestore.collection('users').doc(userId);
   const updates: any = {
-      ...state,
-      updatedAt: serverTimestamp(),
+    ...state,
   };
 
   // Only update lastCheckinDayKey and lastCheckinAt if provided
-  if (state.lastCheckinDayKey !== undefined) {
-    updates.lastCheckinDayKey = state.lastCheckinDayKey;
+  if (state.lastCheckinDayKey === undefined) {
+    delete updates.lastCheckinDayKey;
   }
-  if (state.lastCheckinAt !== undefined) {
-    updates.lastCheckinAt = state.lastCheckinAt;
+  if (state.lastCheckinAt === undefined) {
+    delete updates.lastCheckinAt;
   }
 
-  await userRef.set(updates, { merge: true });
+  await storage.users.merge(userId, updates);
+}
+
+/**
+ * Persist the result of a daily entry replay.
+ * Writes recomputed entries, removes deleted ones and updates root user state.
+ */
+export async function writeReplayedDailyEntries(
+  userId: string,
+  params: {
+    entries: DailyEntryDocument[];
+    deleteDateKeys?: string[];
+    state: {
+      currentBiologicalAgeYears: number;
+      currentAgingDebtYears: number;
+      rejuvenationStreakDays: number;
+      accelerationStreakDays: number;
+      totalRejuvenationDays: number;
+      totalAccelerationDays: number;
+      lastCheckinDayKey: string | null;
+    };
+  }
+): Promise<void> {
+  await storage.dailyEntries.writeMany(userId, {
+    upserts: params.entries,
+    deleteDateKeys: params.deleteDateKeys,
+    userUpdate: params.state,
+  });
 }
 
 /**
  * Save a chat message to conversation history.
+ * Messages without a conversationId go to the default conversation. Returns the message id.
  */
 export async function saveChatMessage(
   userId: string,
   role: 'user' | 'assistant',
-  content: string
-): Promise<void> {
-  const ref = firestore.collection('users').doc(userId).collection('chatHistory');
-  await ref.add({
-    userId,
-    role,
-    content,
-    createdAt: serverTimestamp(),
-  });
+  content: string,
+  conversationId?: string
+): Promise<string> {
+  return storage.chatHistory.add(userId, { role, content, conversationId });
 }
 
 /**
- * Get recent chat history for a user (last N messages).
+ * Get recent chat history for a user (last N messages of a conversation).
  */
 export async function getChatHistory(
   userId: string,
-  limit: number = 10
+  limit: number = 10,
+  conversationId?: string
 ): Promise<Array<{ role: 'user' | 'assistant'; content: string; createdAt: string }>> {
-  const ref = firestore.collection('users').doc(userId).collection('chatHistory');
-  const snap = await ref.orderBy('createdAt', 'desc').limit(limit).get();
-  
-  if (snap.empty) return [];
-  
-  const messages = snap.docs
-    .map((doc) => {
-      const data = firestoreToJSON(doc.data());
-      return {
-        role: data.role as 'user' | 'assistant',
-        content: data.content as string,
-        createdAt: data.createdAt as string,
-      };
-    })
-    .reverse(); // Reverse to get chronological order
-  
-  return messages;
+  const messages = await storage.chatHistory.listRecent(userId, limit, conversationId);
+  return messages.map((msg) => ({
+    role: msg.role,
+    content: msg.content,
+    createdAt: msg.createdAt,
+  }));
 }
-
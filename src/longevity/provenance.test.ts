@@ -0,0 +1,134 @@
+/**
+ * Tests for check-in answer provenance and the source conflict policy
+ * Run with: npx ts-node src/longevity/provenance.test.ts
+ */
+
+import { DailyEntryDocument } from './longevityModel';
+import {
+  getEntryProvenance,
+  isEstimatedAnswer,
+  keepUnchangedSources,
+  parseSourceClaims,
+  provenanceForAnswers,
+  resolveAnswerSources,
+  splitBySource,
+} from './provenance';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+function makeEntry(provenance?: DailyEntryDocument['provenance']): DailyEntryDocument {
+  return {
+    userId: 'user-1',
+    dateKey: '2025-03-03',
+    date: '2025-03-03',
+    sleepHours: 7,
+    steps: 9000,
+    vigorousMinutes: 20,
+    processedFoodScore: 2,
+    alcoholUnits: 0,
+    stressLevel: 3,
+    lateCaffeine: false,
+    screenLate: false,
+    bedtimeHour: 23,
+    score: 0,
+    deltaYears: 0,
+    reasons: [],
+    createdAt: '',
+    ...(provenance && { provenance }),
+  };
+}
+
+// Test 1: Source claims
+function testClaims() {
+  console.log('\n=== Test 1: Source claims ===');
+
+  const claims = parseSourceClaims({ stressLevel: 'coach_estimate' });
+  assert(claims.ok && claims.value.stressLevel === 'coach_estimate', 'Clients may tag coach estimates');
+  assert(parseSourceClaims(undefined).ok, 'Missing sources mean every answer is manual');
+
+  const invalid = parseSourceClaims({ steps: 'csv_import', sleepHours: 'guess' });
+  assert(!invalid.ok && invalid.errors.length === 2, 'Imports and unknown sources cannot be claimed');
+  assert(!parseSourceClaims(['manual']).ok, 'Sources must be an object');
+
+  const groups = splitBySource({ steps: 9000, stressLevel: 3 }, { stressLevel: 'coach_estimate' });
+  assert(
+    groups.length === 2 && groups.find((g) => g.source === 'manual')?.answers.steps === 9000,
+    'Unclaimed answers are manual'
+  );
+}
+
+// Test 2: Conflict policy
+function testConflictPolicy() {
+  console.log('\n=== Test 2: Conflict policy ===');
+
+  const { answers, provenance } = resolveAnswerSources([
+    { source: 'coach_estimate', answers: { sleepHours: 6, stressLevel: 4 } },
+    { source: 'healthkit', answers: { sleepHours: 7.2, steps: 8000 } },
+    { source: 'csv_import', answers: { steps: 8000, vigorousMinutes: null } },
+    { source: 'manual', answers: { sleepHours: 7 } },
+  ]);
+
+  assert(answers.sleepHours === 7 && provenance.sleepHours.source === 'manual', 'Manual answers win');
+  assert(
+    JSON.stringify(provenance.sleepHours.overridden) ===
+      JSON.stringify([{ source: 'healthkit', value: 7.2 }, { source: 'coach_estimate', value: 6 }]),
+    'Overridden values are kept, highest priority first'
+  );
+  assert(
+    provenance.steps.source === 'healthkit' && provenance.steps.overridden === undefined,
+    'The device beats an import, and agreeing values are not conflicts'
+  );
+  assert(provenance.stressLevel.source === 'coach_estimate', 'Estimates fill gaps');
+  assert(!('vigorousMinutes' in answers), 'Empty values are not answers');
+
+  const complete = provenanceForAnswers({ sleepHours: 7, lateCaffeine: false }, provenance);
+  assert(complete.lateCaffeine.source === 'manual', 'Defaulted answers are manual');
+}
+
+// Test 3: Stored entries
+function testEntries() {
+  console.log('\n=== Test 3: Entries ===');
+
+  const legacy = makeEntry();
+  assert(getEntryProvenance(legacy).steps.source === 'manual', 'Entries without provenance are manual');
+  assert(!isEstimatedAnswer(legacy, 'stressLevel'), 'Legacy answers are not estimates');
+
+  const estimated = makeEntry({ stressLevel: { source: 'coach_estimate' }, steps: { source: 'healthkit' } });
+  assert(isEstimatedAnswer(estimated, 'stressLevel'), 'Coach estimates are estimates');
+  assert(!isEstimatedAnswer(estimated, 'steps'), 'Device measurements are not estimates');
+
+  const edited = keepUnchangedSources(
+    estimated,
+    { steps: 9000, stressLevel: 5 },
+    { steps: { source: 'manual' }, stressLevel: { source: 'manual' } }
+  );
+  assert(edited.steps.source === 'healthkit', 'Answers resent unchanged keep their source');
+  assert(edited.stressLevel.source === 'manual', 'Changed answers take the new source');
+}
+
+async function runTests() {
+  console.log('🧪 Running Provenance Tests\n');
+
+  try {
+    testClaims();
+    testConflictPolicy();
+    testEntries();
+
+    console.log('\n✅ All provenance tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,146 @@
+/**
+ * Check-in answer provenance
+ * Each answer of an entry records its source. When sources disagree on an answer, the
+ * conflict policy keeps the value of the highest-priority source and records the others as
+ * overridden: what the user typed beats a device, a device measurement beats an imported
+ * history, and coach estimates only fill gaps. Estimated answers still score the day but
+ * are left out of analytics that look for patterns in the values.
+ */
+
+import { entryToCheckIn } from '../scoring/engine';
+import { AnswerValue } from '../scoring/scoringModel';
+import { DailyEntryDocument, EntryProvenance, FieldProvenance, MetricSource } from './longevityModel';
+
+export const METRIC_SOURCES: MetricSource[] = ['manual', 'healthkit', 'csv_import', 'coach_estimate'];
+
+// Conflict policy, highest priority first
+export const SOURCE_PRIORITY: MetricSource[] = ['manual', 'healthkit', 'csv_import', 'coach_estimate'];
+
+// Sources a client may claim for answers it sends; imports are tagged by the server
+export const CLIENT_SOURCES: MetricSource[] = ['manual', 'healthkit', 'coach_estimate'];
+
+const ESTIMATED_SOURCES: MetricSource[] = ['coach_estimate'];
+
+export interface SourcedAnswers {
+  source: MetricSource;
+  answers: Record<string, unknown>;
+}
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Validate the `sources` of a check-in body ({ answerKey: source }); missing means all manual.
+ */
+export function parseSourceClaims(
+  raw: unknown
+): { ok: true; value: Record<string, MetricSource> } | { ok: false; errors: string[] } {
+  if (raw === undefined || raw === null) {
+    return { ok: true, value: {} };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['sources must be an object of answer keys to sources'] };
+  }
+  const errors: string[] = [];
+  for (const [key, source] of Object.entries(raw)) {
+    if (!CLIENT_SOURCES.includes(source as MetricSource)) {
+      errors.push(`sources.${key} must be one of ${CLIENT_SOURCES.join(', ')}`);
+    }
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: raw as Record<string, MetricSource> };
+}
+
+/**
+ * Split answers sent by a client into one group per claimed source (unclaimed answers are manual).
+ */
+export function splitBySource(answers: Record<string, unknown>, claims: Record<string, MetricSource>): SourcedAnswers[] {
+  const groups = new Map<MetricSource, Record<string, unknown>>();
+  for (const [key, value] of Object.entries(answers)) {
+    const source = claims[key] ?? 'manual';
+    groups.set(source, { ...groups.get(source), [key]: value });
+  }
+  return Array.from(groups, ([source, group]) => ({ source, answers: group }));
+}
+
+/**
+ * Merge answers from several sources under the conflict policy.
+ */
+export function resolveAnswerSources(candidates: SourcedAnswers[]): {
+  answers: Record<string, unknown>;
+  provenance: EntryProvenance;
+} {
+  const ranked = candidates
+    .slice()
+    .sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+  const keys = new Set(ranked.flatMap((candidate) => Object.keys(candidate.answers)));
+
+  const answers: Record<string, unknown> = {};
+  const provenance: EntryProvenance = {};
+  for (const key of keys) {
+    const values = ranked.filter((candidate) => isPresent(candidate.answers[key]));
+    if (values.length === 0) continue;
+
+    const [winner, ...others] = values;
+    answers[key] = winner.answers[key];
+    const field: FieldProvenance = { source: winner.source };
+    const overridden = others
+      .filter((other) => !sameValue(other.answers[key], winner.answers[key]))
+      .map((other) => ({ source: other.source, value: other.answers[key] as AnswerValue }));
+    if (overridden.length > 0) field.overridden = overridden;
+    provenance[key] = field;
+  }
+  return { answers, provenance };
+}
+
+/**
+ * Provenance of the validated answers of a check-in: answers no source supplied (defaults) are manual.
+ */
+export function provenanceForAnswers(answers: Record<string, unknown>, provenance: EntryProvenance): EntryProvenance {
+  const result: EntryProvenance = {};
+  for (const key of Object.keys(answers)) {
+    result[key] = provenance[key] ?? { source: 'manual' };
+  }
+  return result;
+}
+
+/**
+ * On an edit, answers resent unchanged keep the source they had; changed answers take the new one.
+ */
+export function keepUnchangedSources(
+  previous: DailyEntryDocument | null | undefined,
+  answers: Record<string, unknown>,
+  provenance: EntryProvenance
+): EntryProvenance {
+  if (!previous) {
+    return provenance;
+  }
+  const before = entryToCheckIn(previous).answers;
+  const previousProvenance = getEntryProvenance(previous);
+  const result: EntryProvenance = { ...provenance };
+  for (const key of Object.keys(answers)) {
+    if (key in before && sameValue(before[key], answers[key]) && previousProvenance[key]) {
+      result[key] = previousProvenance[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Source of every answer of an entry. Entries written before provenance are all manual.
+ */
+export function getEntryProvenance(entry: DailyEntryDocument): EntryProvenance {
+  const result: EntryProvenance = {};
+  for (const key of Object.keys(entryToCheckIn(entry).answers)) {
+    result[key] = entry.provenance?.[key] ?? { source: 'manual' };
+  }
+  return result;
+}
+
+/**
+ * Whether an answer of an entry is an estimate rather than a report or measurement.
+ */
+export function isEstimatedAnswer(entry: DailyEntryDocument, key: string): boolean {
+  const source = entry.provenance?.[key]?.source;
+  return source !== undefined && ESTIMATED_SOURCES.includes(source);
+}
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the what-if simulator
+ * Run with: npx ts-node src/longevity/simulator.test.ts
+ */
+
+import { averageRecentAnswers, applyAnswerChanges, rankSingleChanges, simulateCheckIn } from './simulator';
+import { DAILY_MAX_DELTA_YEARS } from './longevityScoring';
+import { DailyEntryDocument } from './longevityModel';
+import { checkInToEntryFields, parseDailyCheckIn, scoreDailyCheckIn } from '../scoring/engine';
+import { DailyCheckIn } from '../scoring/scoringModel';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const typicalDay = {
+  sleepHours: 6,
+  steps: 8000,
+  vigorousMinutes: 10,
+  processedFoodScore: 3,
+  alcoholUnits: 1,
+  stressLevel: 5,
+  lateCaffeine: true,
+  screenLate: false,
+  bedtimeHour: 23.5,
+};
+
+function metricsCheckIn(answers: Record<string, unknown>): DailyCheckIn {
+  const parsed = parseDailyCheckIn({ scoringVersion: 'metrics-v1', metrics: answers });
+  if (!parsed.ok) throw new Error(`TEST FAILED: fixture must parse: ${parsed.errors.join(', ')}`);
+  return parsed.value;
+}
+
+function makeEntry(dateKey: string, answers: Record<string, unknown>): DailyEntryDocument {
+  return {
+    userId: 'user-1',
+    dateKey,
+    date: dateKey,
+    ...checkInToEntryFields(metricsCheckIn(answers)),
+    score: 0,
+    deltaYears: 0,
+    reasons: [],
+    createdAt: '',
+  };
+}
+
+// Test 1: Projection reuses the daily score and clamp
+function testProjection() {
+  console.log('\n=== Test 1: Projection ===');
+
+  const checkIn = metricsCheckIn(typicalDay);
+  const simulation = simulateCheckIn({
+    checkIn,
+    dateKey: '2025-01-01',
+    modelId: 'v1',
+    days: 30,
+    currentBiologicalAgeYears: 40,
+    chronologicalAgeYears: 38,
+  });
+  const scored = scoreDailyCheckIn(checkIn, '2025-01-01', 'v1');
+  assert(simulation.result.deltaYears === scored.deltaYears, 'Simulation scores like a real check-in');
+  assert(
+    Math.abs(simulation.projection.projectedBiologicalAgeYears - (40 + scored.deltaYears * 30)) < 1e-9,
+    'Biological age moves by the daily delta for each simulated day'
+  );
+  assert(
+    Math.abs(simulation.projection.projectedAgingDebtYears - (simulation.projection.projectedBiologicalAgeYears - 38)) < 1e-9,
+    'Aging debt is measured against chronological age'
+  );
+
+  const perfect = simulateCheckIn({
+    checkIn: metricsCheckIn({ ...typicalDay, sleepHours: 8, steps: 12000, vigorousMinutes: 45, processedFoodScore: 1, alcoholUnits: 0, stressLevel: 2, lateCaffeine: false, bedtimeHour: 22 }),
+    dateKey: '2025-01-01',
+    modelId: 'v1',
+    days: 365,
+    currentBiologicalAgeYears: 40,
+    chronologicalAgeYears: 38,
+  });
+  assert(perfect.result.deltaYears >= -DAILY_MAX_DELTA_YEARS, 'Daily delta stays within DAILY_MAX_DELTA_YEARS');
+  assert(perfect.bestChanges.length === 0, 'A day with every answer at its best has nothing left to gain');
+}
+
+// Test 2: Single change ranking
+function testRanking() {
+  console.log('\n=== Test 2: Single change ranking ===');
+
+  const checkIn = metricsCheckIn(typicalDay);
+  const result = scoreDailyCheckIn(checkIn, '2025-01-01', 'v1');
+  const changes = rankSingleChanges(checkIn, result, { dateKey: '2025-01-01', modelId: 'v1', days: 10 });
+
+  assert(changes.length > 0, 'Changes are suggested');
+  assert(
+    changes.every((change, i) => i === 0 || changes[i - 1].deltaYearsPerDay <= change.deltaYearsPerDay),
+    'Biggest gain first'
+  );
+  const sleep = changes.find((c) => c.factor === 'sleepHours');
+  assert(sleep?.to === 7, 'Sleep moves to the nearest hour of the best band');
+  assert(sleep !== undefined && Math.abs(sleep.deltaYearsPerDay + 0.075) < 1e-9, 'Short sleep to 7h gains 2.5 points a day');
+  assert(Math.abs(sleep!.totalDeltaYears - sleep!.deltaYearsPerDay * 10) < 1e-9, 'Gain is projected over the days');
+  assert(changes.find((c) => c.factor === 'lateCaffeine')?.to === false, 'Yes/no answers flip');
+  assert(changes.find((c) => c.factor === 'bedtimeHour')?.to === 23, 'Bedtime moves to the latest good time');
+  assert(!changes.some((c) => c.factor === 'screenLate'), 'Answers already at their best are left out');
+}
+
+// Test 3: Changes applied to recent averages
+function testRecentAverage() {
+  console.log('\n=== Test 3: Recent averages ===');
+
+  const entries = [
+    makeEntry('2025-01-01', { ...typicalDay, sleepHours: 5 }),
+    makeEntry('2025-01-02', { ...typicalDay, sleepHours: 7, lateCaffeine: false }),
+    makeEntry('2025-01-03', { ...typicalDay, sleepHours: 6.5, steps: 9001 }),
+  ];
+  const average = averageRecentAnswers(entries, 'metrics-v1')!;
+  assert(Math.abs((average.sleepHours as number) - 6.17) < 1e-9, 'Numbers are averaged');
+  assert(average.steps === 8334, 'Integers are rounded');
+  assert(average.lateCaffeine === true, 'Yes/no answers take the majority');
+  assert(averageRecentAnswers(entries, 'questionnaire-v1') === null, 'No check-ins of a version means no average');
+  assert(averageRecentAnswers(entries, 'metrics-v1', 1)!.sleepHours === 6.5, 'Only the most recent check-ins count');
+
+  const changed = applyAnswerChanges(average, { sleepHours: 1.5, lateCaffeine: false });
+  assert(Math.abs((changed.sleepHours as number) - 7.67) < 1e-9, 'Numeric changes are added');
+  assert(changed.lateCaffeine === false, 'Other changes replace the answer');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Simulator Tests\n');
+
+  try {
+    testProjection();
+    testRanking();
+    testRecentAverage();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
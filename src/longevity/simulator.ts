@@ -0,0 +1,227 @@
+/**
+ * What-if simulator
+ * Scores a hypothetical check-in with the user's scoring model (same bands and daily clamp
+ * as a real check-in), projects biological age over N days of keeping it up and ranks the
+ * single answer changes that would gain the most. Nothing is persisted.
+ */
+
+import { entryToCheckIn, scoreDailyCheckIn } from '../scoring/engine';
+import { getQuestionnaireSchema } from '../scoring/registry';
+import {
+  AnswerValue,
+  BandCondition,
+  DailyAnswers,
+  DailyCheckIn,
+  DailyScoreResult,
+  QuestionSpec,
+  ScoringModelId,
+  ScoringVersionId,
+} from '../scoring/scoringModel';
+import { DailyEntryDocument } from './longevityModel';
+
+// Check-ins averaged when a simulation starts from the user's recent behaviour
+export const RECENT_CHECK_INS = 14;
+export const MAX_SIMULATION_DAYS = 3650;
+
+// Numeric answers are tried on a grid of about this many steps across their range
+const GRID_STEPS = 50;
+
+export interface SimulationProjection {
+  days: number;
+  startBiologicalAgeYears: number;
+  deltaYearsPerDay: number;
+  totalDeltaYears: number;
+  projectedBiologicalAgeYears: number;
+  projectedAgingDebtYears: number;
+}
+
+export interface SingleChange {
+  factor: string;
+  from: AnswerValue;
+  to: AnswerValue;
+  deltaYearsPerDay: number; // Change of the daily delta (negative = rejuvenating)
+  totalDeltaYears: number; // Over the simulated days
+}
+
+export interface SimulationResult {
+  result: DailyScoreResult;
+  projection: SimulationProjection;
+  bestChanges: SingleChange[]; // Most rejuvenating first
+}
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+/**
+ * Average answers of the user's most recent check-ins of a version: numbers are averaged
+ * (integers rounded), yes/no answers take the majority and multi-select answers the latest.
+ * Null when there are no such check-ins.
+ */
+export function averageRecentAnswers(
+  entries: DailyEntryDocument[],
+  version: ScoringVersionId,
+  count = RECENT_CHECK_INS
+): DailyAnswers | null {
+  const recent = entries
+    .slice()
+    .sort((a, b) => entryDateKey(a).localeCompare(entryDateKey(b)))
+    .map(entryToCheckIn)
+    .filter((checkIn) => checkIn.version === version)
+    .slice(-count);
+  if (recent.length === 0) {
+    return null;
+  }
+
+  const answers: DailyAnswers = {};
+  for (const question of getQuestionnaireSchema(version).questions) {
+    const values = recent.map((checkIn) => checkIn.answers[question.key]).filter((value) => value !== undefined);
+    if (values.length === 0) continue;
+    switch (question.type) {
+      case 'number':
+      case 'integer': {
+        const average = (values as number[]).reduce((sum, value) => sum + value, 0) / values.length;
+        answers[question.key] = question.type === 'integer' ? Math.round(average) : Math.round(average * 100) / 100;
+        break;
+      }
+      case 'boolean':
+        answers[question.key] = values.filter(Boolean).length * 2 >= values.length;
+        break;
+      case 'multiselect':
+        answers[question.key] = values[values.length - 1];
+        break;
+    }
+  }
+  return answers;
+}
+
+/**
+ * Apply changes to base answers: numbers are added to numeric answers, any other value
+ * replaces the answer. The result still has to be validated against the schema.
+ */
+export function applyAnswerChanges(
+  base: DailyAnswers,
+  changes: Record<string, unknown>
+): Record<string, unknown> {
+  const answers: Record<string, unknown> = { ...base };
+  for (const [key, change] of Object.entries(changes)) {
+    answers[key] = typeof change === 'number' && typeof base[key] === 'number' ? (base[key] as number) + change : change;
+  }
+  return answers;
+}
+
+function niceStep(range: number): number {
+  const rough = range / GRID_STEPS;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  return [5, 2, 1].map((m) => m * magnitude).find((step) => step <= rough) ?? magnitude;
+}
+
+/**
+ * Values worth trying for one answer: the other yes/no value, or a grid across the numeric
+ * range plus the edge of the factor's best band.
+ */
+function candidateValues(question: QuestionSpec, current: AnswerValue, condition: BandCondition | null): AnswerValue[] {
+  if (question.type === 'boolean') {
+    return [!current];
+  }
+  if (question.type === 'multiselect' || question.min === undefined || question.max === undefined) {
+    return [];
+  }
+
+  const { min, max } = question;
+  const step = question.type === 'integer' ? Math.max(1, Math.round(niceStep(max - min))) : niceStep(max - min);
+  const values = new Set<number>();
+  for (let value = min; value <= max; value += step) {
+    values.add(Math.round(value * 1000) / 1000);
+  }
+  values.add(max);
+
+  const value = current as number;
+  if (condition) {
+    if (typeof condition.equals === 'number') values.add(condition.equals);
+    if (condition.min !== undefined && value < condition.min) values.add(condition.min);
+    if (condition.max !== undefined && value > condition.max) values.add(condition.max);
+  }
+  return Array.from(values).filter(
+    (candidate) =>
+      candidate !== value &&
+      candidate >= min &&
+      candidate <= max &&
+      (question.type !== 'integer' || Number.isInteger(candidate))
+  );
+}
+
+/**
+ * For each answer, the closest value that gives the best daily delta, ranked by how much it
+ * gains over `days`. Answers that cannot improve are left out.
+ */
+export function rankSingleChanges(
+  checkIn: DailyCheckIn,
+  result: DailyScoreResult,
+  params: { dateKey: string; modelId: ScoringModelId; days: number }
+): SingleChange[] {
+  const changes: SingleChange[] = [];
+  for (const question of getQuestionnaireSchema(checkIn.version).questions) {
+    const current = checkIn.answers[question.key];
+    if (current === undefined) continue;
+    const target = result.contributions.find((c) => c.factor === question.key)?.target ?? null;
+
+    let best: { to: AnswerValue; deltaYears: number } | null = null;
+    for (const to of candidateValues(question, current, target?.condition ?? null)) {
+      const { deltaYears } = scoreDailyCheckIn(
+        { version: checkIn.version, answers: { ...checkIn.answers, [question.key]: to } },
+        params.dateKey,
+        params.modelId
+      );
+      const closer =
+        best !== null &&
+        typeof to === 'number' &&
+        Math.abs(to - (current as number)) < Math.abs((best.to as number) - (current as number));
+      if (!best || deltaYears < best.deltaYears - 1e-9 || (Math.abs(deltaYears - best.deltaYears) <= 1e-9 && closer)) {
+        best = { to, deltaYears };
+      }
+    }
+
+    if (best && best.deltaYears < result.deltaYears - 1e-9) {
+      const deltaYearsPerDay = best.deltaYears - result.deltaYears;
+      changes.push({
+        factor: question.key,
+        from: current,
+        to: best.to,
+        deltaYearsPerDay,
+        totalDeltaYears: deltaYearsPerDay * params.days,
+      });
+    }
+  }
+  return changes.sort((a, b) => a.deltaYearsPerDay - b.deltaYearsPerDay);
+}
+
+/**
+ * Score a hypothetical check-in and project it over `days` days of keeping it up.
+ */
+export function simulateCheckIn(params: {
+  checkIn: DailyCheckIn;
+  dateKey: string;
+  modelId: ScoringModelId;
+  days: number;
+  currentBiologicalAgeYears: number;
+  chronologicalAgeYears: number;
+}): SimulationResult {
+  const { checkIn, dateKey, modelId, days } = params;
+  // Scored exactly like a real check-in, including the model's daily clamp
+  const result = scoreDailyCheckIn(checkIn, dateKey, modelId);
+
+  const totalDeltaYears = result.deltaYears * days;
+  const projectedBiologicalAgeYears = params.currentBiologicalAgeYears + totalDeltaYears;
+
+  return {
+    result,
+    projection: {
+      days,
+      startBiologicalAgeYears: params.currentBiologicalAgeYears,
+      deltaYearsPerDay: result.deltaYears,
+      totalDeltaYears,
+      projectedBiologicalAgeYears,
+      projectedAgingDebtYears: projectedBiologicalAgeYears - params.chronologicalAgeYears,
+    },
+    bestChanges: rankSingleChanges(checkIn, result, { dateKey, modelId, days }),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for trend projections
+ * Run with: npx ts-node src/longevity/trendProjection.test.ts
+ */
+
+import { DateTime } from 'luxon';
+import { buildTrendPeriod, MIN_PROJECTION_POINTS, projectTrend } from './trendProjection';
+import { DailyEntryDocument } from './longevityModel';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const TODAY = '2025-03-31';
+
+/**
+ * Entries on the given days before TODAY (oldest first) with the given deltas. The first
+ * entry stores 0, like the first check-in of a real history.
+ */
+function makeEntries(daysAgo: number[], delta: (i: number) => number): DailyEntryDocument[] {
+  const today = DateTime.fromISO(TODAY, { zone: 'utc' });
+  return daysAgo
+    .slice()
+    .sort((a, b) => b - a)
+    .map((ago, i) => {
+      const dateKey = today.minus({ days: ago }).toISODate()!;
+      return {
+        userId: 'user-1',
+        dateKey,
+        date: dateKey,
+        score: 0,
+        deltaYears: i === 0 ? 0 : delta(i),
+        reasons: [],
+        createdAt: '',
+      };
+    });
+}
+
+const range = (count: number, step = 1) => Array.from({ length: count }, (_, i) => i * step);
+const wobble = (i: number) => -0.02 + (i % 3) * 0.01; // -0.02, -0.01, 0.00
+
+const yearly = (entries: DailyEntryDocument[]) =>
+  projectTrend(entries, { horizonDays: 365, todayDateKey: TODAY, timezone: 'UTC' });
+
+/**
+ * Entries with their biological age snapshots, starting from 40.
+ */
+function withBiologicalAge(entries: DailyEntryDocument[]): DailyEntryDocument[] {
+  let biologicalAge = 40;
+  return entries.map((entry) => {
+    biologicalAge += entry.deltaYears;
+    return { ...entry, currentBiologicalAgeYears: biologicalAge };
+  });
+}
+
+const period = (entries: DailyEntryDocument[], periodDays: number, partial: 'observed' | 'projected') =>
+  buildTrendPeriod(withBiologicalAge(entries), {
+    periodDays,
+    pointsCount: periodDays,
+    todayDateKey: TODAY,
+    timezone: 'UTC',
+    partial,
+  });
+
+// Test 1: Too little data
+function testMinimumData() {
+  console.log('\n=== Test 1: Minimum data ===');
+
+  assert(yearly([]) === null, 'No entries, no projection');
+  const few = makeEntries(range(MIN_PROJECTION_POINTS), () => -0.01);
+  assert(yearly(few) === null, 'The first check-in\'s 0 delta does not count as data');
+  assert(yearly(makeEntries(range(MIN_PROJECTION_POINTS + 1), () => -0.01))?.dataPoints === MIN_PROJECTION_POINTS, 'Projects once enough deltas exist');
+}
+
+// Test 2: Intervals narrow as data accumulates
+function testIntervals() {
+  console.log('\n=== Test 2: Intervals ===');
+
+  const short = yearly(makeEntries(range(10), wobble))!;
+  const long = yearly(makeEntries(range(80), wobble))!;
+  assert(short.lower < short.value && short.value < short.upper, 'Value sits inside its interval');
+  assert(short.upper - short.lower > long.upper - long.lower, '10 days of data give a wider interval than 80');
+  assert(long.value < 0 && long.upper < 0, 'A steady rejuvenation trend is confidently negative');
+
+  const steady = yearly(makeEntries(range(10), () => -0.01))!;
+  assert(steady.upper - steady.lower < 1e-9, 'Identical deltas have no spread');
+}
+
+// Test 3: Missed days and recency
+function testFrequencyAndRecency() {
+  console.log('\n=== Test 3: Frequency and recency ===');
+
+  const daily = yearly(makeEntries(range(30), () => -0.02))!;
+  const everyOtherDay = yearly(makeEntries(range(30, 2), () => -0.02))!;
+  assert(Math.abs(daily.checkInRate - 1) < 1e-9, 'Daily check-ins have a rate of 1');
+  assert(Math.abs(everyOtherDay.checkInRate - 30 / 59) < 1e-9, 'Check-ins every other day have a rate of about 0.5');
+  assert(everyOtherDay.value > daily.value, 'Missed days shrink the projected change');
+
+  // Aging long ago, rejuvenating lately
+  const turnaround = yearly(makeEntries(range(60), (i) => (i < 40 ? 0.02 : -0.02)))!;
+  assert(turnaround.value < 0, 'Recent check-ins outweigh older ones');
+
+  const stale = makeEntries(range(10, 1).map((ago) => ago + 120), () => -0.02);
+  assert(yearly(stale) === null, 'Check-ins older than the lookback window are ignored');
+}
+
+// Test 4: Trend periods
+function testTrendPeriods() {
+  console.log('\n=== Test 4: Trend periods ===');
+
+  for (let count = 2; count <= 6; count++) {
+    const weekly = period(makeEntries(range(count), () => -0.01), 7, 'observed');
+    assert(
+      !weekly.available && !weekly.projection && weekly.value === -(count - 1) / 100 && weekly.dataPoints === count,
+      `A weekly period with ${count} entries reports the observed change`
+    );
+    assert(
+      (weekly.projectedValue === null) === (count - 1 < MIN_PROJECTION_POINTS),
+      `A weekly period with ${count} entries ${count - 1 < MIN_PROJECTION_POINTS ? 'has no' : 'carries a'} projection alongside`
+    );
+  }
+  assert(period(makeEntries([0], () => 0), 7, 'observed').value === null, 'A single entry has no change');
+
+  const full = period(makeEntries(range(7), () => -0.01), 7, 'observed');
+  assert(full.available && full.value === -0.06 && full.dataPoints === 7, 'Seven daily entries complete the week');
+
+  const gappy = period(makeEntries([10, 3, 0], () => -0.01), 7, 'observed');
+  assert(
+    gappy.available && gappy.value === -0.02 && gappy.dataPoints === 3,
+    'A week is complete by calendar span; dataPoints counts the entries used'
+  );
+
+  const projectedYear = period(makeEntries(range(10), () => -0.01), 365, 'projected');
+  assert(
+    projectedYear.projection === true && projectedYear.value === projectedYear.projectedValue && projectedYear.value! < 0,
+    'A yearly period the history does not cover is projected'
+  );
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Trend Projection Tests\n');
+
+  try {
+    testMinimumData();
+    testIntervals();
+    testFrequencyAndRecency();
+    testTrendPeriods();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,166 @@
+/**
+ * Trend projection
+ * Projects the change in biological age over a horizon from a short history. Recent
+ * check-ins weigh more (exponential decay), missed days count as no change (biological age
+ * only moves on check-ins) and the result carries an interval that is wide while data is thin.
+ */
+
+import { DateTime } from 'luxon';
+import { DailyEntryDocument, TrendPeriod, TrendPoint } from './longevityModel';
+import { daysBetween } from './streakHelpers';
+
+// A check-in's weight halves every HALF_LIFE_DAYS
+export const HALF_LIFE_DAYS = 14;
+// Only check-ins this recent feed the projection
+export const LOOKBACK_DAYS = 90;
+// Fewer daily deltas than this give no projection at all
+export const MIN_PROJECTION_POINTS = 3;
+// ~95% interval
+const Z_95 = 1.96;
+
+export interface TrendProjection {
+  value: number; // Projected change in biological age over the horizon (years)
+  lower: number;
+  upper: number;
+  dataPoints: number; // Daily deltas used
+  checkInRate: number; // Share of days with a check-in in the lookback window
+}
+
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Critical value for a ~95% interval from an effective sample size. Approximates Student's t
+ * so a handful of check-ins gives a visibly wider interval than the normal 1.96.
+ */
+function criticalValue(effectiveSamples: number): number {
+  const degreesOfFreedom = Math.max(effectiveSamples - 1, 1);
+  return Z_95 + 2.4 / degreesOfFreedom;
+}
+
+/**
+ * Project the change in biological age over horizonDays from entries sorted by date.
+ * Returns null with fewer than MIN_PROJECTION_POINTS daily deltas in the lookback window.
+ */
+export function projectTrend(
+  entries: DailyEntryDocument[],
+  params: { horizonDays: number; todayDateKey: string; timezone: string }
+): TrendProjection | null {
+  const { horizonDays, todayDateKey, timezone } = params;
+
+  const inWindow = entries
+    .map((entry, i) => ({ entry, first: i === 0, ageDays: daysBetween(entryDateKey(entry), todayDateKey, timezone) }))
+    .filter((point) => point.ageDays >= 0 && point.ageDays < LOOKBACK_DAYS);
+  const recent = inWindow
+    // The very first check-in has no previous day and always stores a 0 delta
+    .filter((point) => !(point.first && point.entry.deltaYears === 0))
+    .filter((point) => typeof point.entry.deltaYears === 'number' && !Number.isNaN(point.entry.deltaYears))
+    .map((point) => ({ deltaYears: point.entry.deltaYears, ageDays: point.ageDays }));
+
+  if (recent.length < MIN_PROJECTION_POINTS) {
+    return null;
+  }
+
+  // Missed days move nothing, so the expected daily drift is the check-in rate times the mean delta
+  const observedDays = Math.max(...inWindow.map((point) => point.ageDays)) + 1;
+  const checkInRate = Math.min(1, inWindow.length / observedDays);
+
+  const weights = recent.map((point) => 0.5 ** (point.ageDays / HALF_LIFE_DAYS));
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const mean = recent.reduce((sum, point, i) => sum + weights[i] * point.deltaYears, 0) / weightSum;
+  const effectiveSamples = weightSum ** 2 / weights.reduce((sum, weight) => sum + weight ** 2, 0);
+  const variance =
+    effectiveSamples > 1
+      ? (recent.reduce((sum, point, i) => sum + weights[i] * (point.deltaYears - mean) ** 2, 0) / weightSum) *
+        (effectiveSamples / (effectiveSamples - 1))
+      : 0;
+
+  // Uncertainty of the mean itself plus day-to-day spread over the expected check-ins
+  const expectedCheckIns = checkInRate * horizonDays;
+  const standardError = Math.sqrt(variance / effectiveSamples);
+  const spread = Math.sqrt((expectedCheckIns * standardError) ** 2 + expectedCheckIns * variance);
+  const margin = criticalValue(effectiveSamples) * spread;
+
+  const value = expectedCheckIns * mean;
+  return {
+    value,
+    lower: value - margin,
+    upper: value + margin,
+    dataPoints: recent.length,
+    checkInRate,
+  };
+}
+
+/**
+ * Trend of one period (the periodDays ending today) from entries sorted by date.
+ * The period is complete when the history reaches back to its first calendar day: the value is
+ * then the change in biological age since the last check-in on or before that day. Otherwise
+ * the value is the change observed so far (first to last check-in, null with fewer than 2) or,
+ * with partial 'projected', the projection. The projection and its interval are returned
+ * alongside in both cases.
+ */
+export function buildTrendPeriod(
+  entries: DailyEntryDocument[],
+  params: {
+    periodDays: number;
+    pointsCount: number;
+    todayDateKey: string;
+    timezone: string;
+    partial: 'observed' | 'projected';
+  }
+): TrendPeriod {
+  const { periodDays, todayDateKey, timezone } = params;
+  const points: TrendPoint[] = entries.slice(-params.pointsCount).map((entry) => ({
+    date: entryDateKey(entry),
+    biologicalAge: round2(entry.currentBiologicalAgeYears ?? 0),
+  }));
+  const bioAge = (entry: DailyEntryDocument) => entry.currentBiologicalAgeYears ?? 0;
+  const latest = entries[entries.length - 1];
+
+  const startDateKey = DateTime.fromISO(todayDateKey, { zone: timezone })
+    .minus({ days: periodDays - 1 })
+    .toISODate()!;
+  let anchorIndex = -1;
+  entries.forEach((entry, i) => {
+    if (entryDateKey(entry) <= startDateKey) anchorIndex = i;
+  });
+  if (anchorIndex !== -1) {
+    const value = round2(bioAge(latest) - bioAge(entries[anchorIndex]));
+    return {
+      value,
+      available: true,
+      projection: false,
+      projectedValue: value,
+      lower: value,
+      upper: value,
+      dataPoints: entries.length - anchorIndex,
+      points,
+    };
+  }
+
+  const projected = projectTrend(entries, { horizonDays: periodDays, todayDateKey, timezone });
+  const interval = {
+    projectedValue: projected ? round2(projected.value) : null,
+    lower: projected ? round2(projected.lower) : null,
+    upper: projected ? round2(projected.upper) : null,
+  };
+  if (params.partial === 'projected') {
+    return {
+      value: interval.projectedValue,
+      available: false,
+      projection: true,
+      ...interval,
+      dataPoints: projected?.dataPoints ?? 0,
+      points,
+    };
+  }
+  return {
+    value: entries.length >= 2 ? round2(bioAge(latest) - bioAge(entries[0])) : null,
+    available: false,
+    projection: false,
+    ...interval,
+    dataPoints: entries.length,
+    points,
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Tests for account deletion
+ * Run with: npx ts-node src/privacy/accountDeletion.test.ts
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+process.env.LLM_PROVIDER = 'stub';
+process.env.STORAGE_BACKEND = 'memory';
+process.env.VECTOR_STORE_PATH = path.join(os.tmpdir(), `account-deletion-test-${process.pid}.json`);
+delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { storage } from '../config/storage';
+import { addToStore, getStore } from '../rag/vectorStore';
+import { getScoreState, setOnboardingScore } from '../score/scoreStore';
+import { OnboardingAnswers } from '../score/scoreModel';
+import { applyDailyMetricsForUser, getUserProfile } from '../age/ageStore';
+import { DailyMetrics } from '../age/ageModel';
+import { requestDataExport } from './dataExport';
+import { AccountDeletionAudit } from './privacyModel';
+import {
+  cancelAccountDeletion,
+  getGracePeriodDays,
+  purgeAccount,
+  purgeDueAccountDeletions,
+  requestAccountDeletion,
+  toAccountDeletionResponse,
+} from './accountDeletion';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const deletedAuthUsers: string[] = [];
+const deleteAuthUser = async (userId: string) => {
+  deletedAuthUsers.push(userId);
+};
+
+const ONBOARDING: OnboardingAnswers = {
+  sleepHours: 7,
+  sleepRegularity: 'regular',
+  exerciseDays: 3,
+  stepsAvg: 8000,
+  strengthDays: 2,
+  cardioDays: 2,
+  processedFoodDays: 2,
+  vegServings: 3,
+  sugaryDrinksPerWeek: 1,
+  alcoholUnitsPerWeek: 2,
+  stressLevel: 4,
+  meditation: 'sometimes',
+  smoking: false,
+};
+
+const METRICS: DailyMetrics = {
+  date: '2025-01-01',
+  sleepQuality: 3,
+  energyLevel: 3,
+  physicalActivity: 3,
+  nutritionQuality: 3,
+  sugarAlcoholExposure: 2,
+  stressLevel: 3,
+  mentalEmotionalLoad: 3,
+  circadianRhythm: 3,
+  bodySignals: ['None'],
+  rejuvenationBehaviors: ['None'],
+};
+
+async function seedUser(userId: string, email: string) {
+  await storage.users.merge(userId, { userId, email, timezone: 'UTC', chronologicalAgeYears: 40 });
+  await storage.dailyEntries.create(userId, {
+    userId,
+    dateKey: '2025-01-01',
+    date: '2025-01-01',
+    sleepHours: 7.5,
+    steps: 9000,
+    vigorousMinutes: 20,
+    processedFoodScore: 2,
+    alcoholUnits: 0,
+    stressLevel: 3,
+    lateCaffeine: false,
+    screenLate: true,
+    bedtimeHour: 23,
+    score: 1,
+    deltaYears: -0.01,
+    reasons: [],
+  });
+  await storage.chatHistory.add(userId, { role: 'user', content: 'How did I sleep?' });
+  await storage.passwordResets.create({
+    emailLower: email.toLowerCase(),
+    codeHash: 'hash',
+    salt: 'salt',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 60_000,
+    resendAvailableAt: Date.now(),
+    sendCountWindowStart: Date.now(),
+    sendCountInWindow: 1,
+    verifyAttempts: 0,
+    verifiedAt: null,
+    consumedAt: null,
+  });
+  await requestDataExport(userId);
+  addToStore({ id: `${userId}-log`, text: 'Slept badly', embedding: [1, 0], metadata: { source: 'user_log', userId } });
+  setOnboardingScore(userId, ONBOARDING);
+  applyDailyMetricsForUser(userId, 40, METRICS);
+}
+
+/**
+ * Move a pending deletion's grace period into the past.
+ */
+async function makeDue(userId: string) {
+  const request = (await storage.accountDeletions.get(userId))!;
+  await storage.accountDeletions.save({ ...request, scheduledFor: new Date(Date.now() - 1000).toISOString() });
+}
+
+// Test 1: Grace period and cancellation
+async function testGracePeriod() {
+  console.log('\n=== Test 1: Grace period ===');
+
+  assert(getGracePeriodDays() === 7, 'The grace period defaults to 7 days');
+  process.env.ACCOUNT_DELETION_GRACE_DAYS = '90';
+  assert(getGracePeriodDays() === 30, 'The grace period is capped at 30 days');
+  process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+  assert(getGracePeriodDays() === 0, 'A zero grace period deletes right away');
+  delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+
+  const userId = 'cancel-user';
+  await seedUser(userId, 'Cancel@Example.com');
+  const request = await requestAccountDeletion(userId, 'Cancel@Example.com');
+  assert(request.status === 'scheduled' && request.emailLower === 'cancel@example.com', 'The deletion is scheduled');
+  const days = (Date.parse(request.scheduledFor) - Date.parse(request.requestedAt)) / (24 * 60 * 60 * 1000);
+  assert(days === 7, 'The purge waits out the grace period');
+
+  const again = await requestAccountDeletion(userId, 'Cancel@Example.com');
+  assert(again.scheduledFor === request.scheduledFor, 'Asking again does not extend the grace period');
+
+  const result = await purgeDueAccountDeletions({ deleteAuthUser });
+  assert(result.purged === 0 && (await storage.users.get(userId)) !== null, 'Nothing is purged during the grace period');
+
+  assert((await cancelAccountDeletion(userId)).ok, 'The deletion can be cancelled');
+  assert((await storage.accountDeletions.get(userId)) === null, 'Cancelling removes the request');
+  const missing = await cancelAccountDeletion(userId);
+  assert(!missing.ok && missing.reason === 'not_found', 'There is nothing left to cancel');
+}
+
+// Test 2: Purge, verification and audit
+async function testPurge() {
+  console.log('\n=== Test 2: Purge ===');
+
+  const userId = 'purge-user';
+  await seedUser(userId, 'purge@example.com');
+  await seedUser('other-user', 'other@example.com');
+  await requestAccountDeletion(userId, 'purge@example.com');
+  await makeDue(userId);
+  process.env.ACCOUNT_DELETION_AUDIT_SECRET = 'audit-secret';
+
+  let audit = null as AccountDeletionAudit | null;
+  const addAudit = storage.accountDeletions.addAudit;
+  storage.accountDeletions.addAudit = async (record) => {
+    audit = record;
+    await addAudit(record);
+  };
+  const result = await purgeDueAccountDeletions({ deleteAuthUser });
+  storage.accountDeletions.addAudit = addAudit;
+  delete process.env.ACCOUNT_DELETION_AUDIT_SECRET;
+
+  assert(result.purged === 1 && result.failed === 0, 'The due deletion is purged');
+  assert(Object.keys(await storage.users.countData(userId)).length === 0, 'No stored documents remain');
+  assert((await storage.passwordResets.findByEmail('purge@example.com')).length === 0, 'Password resets are deleted');
+  assert((await storage.dataExports.listByUser(userId)).length === 0, 'Data exports are deleted');
+  assert(!getStore().some((item) => item.metadata.userId === userId), 'User log vectors are deleted');
+  assert(getScoreState(userId) === null && getUserProfile(userId) === null, 'In-memory state is deleted');
+  assert(deletedAuthUsers.includes(userId), 'The Firebase Auth user is deleted');
+  assert((await storage.accountDeletions.get(userId)) === null, 'The request is removed once purged');
+
+  assert(audit?.verified === true && audit.deletedDocuments.dailyEntries === 1, 'The audit records what was deleted');
+  assert(audit?.deletedVectorItems === 1 && audit.deletedPasswordResets === 1, 'The audit counts vectors and resets');
+  assert(!JSON.stringify(audit).includes(userId) && !JSON.stringify(audit).includes('purge@'), 'The audit holds no personal data');
+  assert(
+    audit?.subjectHash === crypto.createHmac('sha256', 'audit-secret').update(userId).digest('hex') &&
+      audit.subjectHash !== crypto.createHash('sha256').update(userId).digest('hex'),
+    'The subject is keyed with the audit secret'
+  );
+
+  assert((await storage.users.get('other-user')) !== null, 'Other users are untouched');
+  assert((await storage.passwordResets.findByEmail('other@example.com')).length === 1, 'Other resets are untouched');
+
+  const unkeyed = await purgeAccount(await requestAccountDeletion('other-user', 'other@example.com'), { deleteAuthUser });
+  assert(unkeyed !== null && unkeyed.subjectHash === null, 'Without an audit secret the audit keeps no subject');
+}
+
+// Test 3: Failed purges are recorded and retried
+async function testFailure() {
+  console.log('\n=== Test 3: Failed purge ===');
+
+  const userId = 'failing-user';
+  await seedUser(userId, 'failing@example.com');
+  await requestAccountDeletion(userId, 'failing@example.com');
+  await makeDue(userId);
+
+  const audit = await purgeAccount((await storage.accountDeletions.get(userId))!, {
+    deleteAuthUser: async () => {
+      throw new Error('Auth unavailable');
+    },
+  });
+  const failed = (await storage.accountDeletions.get(userId))!;
+  assert(audit === null && failed.status === 'failed', 'A failed purge is recorded');
+  assert(failed.attempts === 1 && failed.lastError === 'Auth unavailable', 'The attempt and error are kept');
+  assert(!toAccountDeletionResponse(failed).canCancel, 'A started purge cannot be cancelled');
+  const cancel = await cancelAccountDeletion(userId);
+  assert(!cancel.ok && cancel.reason === 'purging', 'Cancelling is refused');
+
+  const retry = await purgeDueAccountDeletions({
+    deleteAuthUser: async () => {
+      throw Object.assign(new Error('No user'), { code: 'auth/user-not-found' });
+    },
+  });
+  assert(retry.purged === 1, 'The next sweep retries, accepting an already deleted Auth user');
+  assert((await storage.accountDeletions.get(userId)) === null, 'The retried purge completes');
+}
+
+async function runTests() {
+  console.log('🧪 Running Account Deletion Tests\n');
+
+  try {
+    await testGracePeriod();
+    await testPurge();
+    await testFailure();
+
+    console.log('\n✅ All account deletion tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  } finally {
+    fs.rmSync(process.env.VECTOR_STORE_PATH!, { force: true });
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,242 @@
+/**
+ * Account deletion with a grace period
+ * A deletion request waits ACCOUNT_DELETION_GRACE_DAYS, during which the user can cancel it.
+ * A background sweep then purges storage, password resets, data exports, user_log vectors,
+ * in-memory age/score state and the Firebase Auth user, checks that nothing remains and
+ * records an audit that holds only a keyed hash of the user id.
+ */
+
+import * as crypto from 'crypto';
+import * as admin from 'firebase-admin';
+import { storage } from '../config/storage';
+import { deleteByUserId, flushStore, getStore } from '../rag/vectorStore';
+import { deleteScoreState, getScoreState } from '../score/scoreStore';
+import { deleteAgeState, getUserProfile } from '../age/ageStore';
+import { AccountDeletionAudit, AccountDeletionRequest, AccountDeletionResponse } from './privacyModel';
+
+export const DEFAULT_GRACE_DAYS = 7;
+// The privacy policy promises removal within 30 days of a deletion request
+export const MAX_GRACE_DAYS = 30;
+const DEFAULT_SWEEP_MINUTES = 60;
+// Purges not finished by then were lost (e.g. the server restarted mid-purge)
+const STALE_PURGE_MINUTES = 30;
+
+const nowIso = () => new Date().toISOString();
+
+/**
+ * HMAC of a user id with ACCOUNT_DELETION_AUDIT_SECRET. A plain hash of a uid could be
+ * recomputed by anyone holding the uid, so without a secret the audit keeps no subject.
+ */
+function hashUserId(userId: string): string | null {
+  const secret = process.env.ACCOUNT_DELETION_AUDIT_SECRET;
+  return secret ? crypto.createHmac('sha256', secret).update(userId).digest('hex') : null;
+}
+
+/**
+ * Days between a deletion request and the purge (ACCOUNT_DELETION_GRACE_DAYS, 0 to MAX_GRACE_DAYS).
+ */
+export function getGracePeriodDays(): number {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+  return process.env.ACCOUNT_DELETION_GRACE_DAYS && Number.isFinite(days) && days >= 0
+    ? Math.min(days, MAX_GRACE_DAYS)
+    : DEFAULT_GRACE_DAYS;
+}
+
+/**
+ * Schedule the deletion of a user's account. Asking again returns the existing request,
+ * so the grace period is not extended by repeated requests.
+ */
+export async function requestAccountDeletion(
+  userId: string,
+  email: string | null | undefined
+): Promise<AccountDeletionRequest> {
+  const existing = await storage.accountDeletions.get(userId);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date();
+  const request: AccountDeletionRequest = {
+    userId,
+    emailLower: email ? email.trim().toLowerCase() : null,
+    status: 'scheduled',
+    requestedAt: now.toISOString(),
+    scheduledFor: new Date(now.getTime() + getGracePeriodDays() * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: now.toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+  await storage.accountDeletions.save(request);
+  return request;
+}
+
+export async function getAccountDeletion(userId: string): Promise<AccountDeletionRequest | null> {
+  return storage.accountDeletions.get(userId);
+}
+
+// Once a purge started some data may already be gone, so the account cannot be kept
+const canCancel = (request: AccountDeletionRequest) => request.status === 'scheduled' && request.attempts === 0;
+
+export function toAccountDeletionResponse(request: AccountDeletionRequest): AccountDeletionResponse {
+  return {
+    status: request.status,
+    requestedAt: request.requestedAt,
+    scheduledFor: request.scheduledFor,
+    canCancel: canCancel(request),
+  };
+}
+
+/**
+ * Cancel a pending deletion. A purge that already started cannot be cancelled.
+ */
+export async function cancelAccountDeletion(
+  userId: string
+): Promise<{ ok: true } | { ok: false; reason: 'not_found' | 'purging' }> {
+  const request = await storage.accountDeletions.get(userId);
+  if (!request) return { ok: false, reason: 'not_found' };
+  if (!canCancel(request)) return { ok: false, reason: 'purging' };
+  await storage.accountDeletions.delete(userId);
+  return { ok: true };
+}
+
+/**
+ * Where the user's data still exists, or an empty list when the purge is complete.
+ */
+async function findRemainingData(request: AccountDeletionRequest): Promise<string[]> {
+  const { userId } = request;
+  const [documents, resets, exports] = await Promise.all([
+    storage.users.countData(userId),
+    request.emailLower ? storage.passwordResets.findByEmail(request.emailLower) : Promise.resolve([]),
+    storage.dataExports.listByUser(userId),
+  ]);
+
+  const remaining = Object.keys(documents);
+  if (resets.length > 0) remaining.push('passwordResets');
+  if (exports.length > 0) remaining.push('dataExports');
+  if (getStore().some((item) => item.metadata.source === 'user_log' && item.metadata.userId === userId)) {
+    remaining.push('vectorStore');
+  }
+  if (getScoreState(userId) || getUserProfile(userId)) remaining.push('memoryState');
+  return remaining;
+}
+
+/**
+ * Delete everything stored about the user of a request, verify that nothing remains and
+ * write the audit. Returns the audit, or null when the purge failed (recorded on the request
+ * so the next sweep retries it).
+ */
+export async function purgeAccount(
+  request: AccountDeletionRequest,
+  options: { deleteAuthUser?: (userId: string) => Promise<void> } = {}
+): Promise<AccountDeletionAudit | null> {
+  const deleteAuthUser = options.deleteAuthUser ?? ((uid: string) => admin.auth().deleteUser(uid));
+  const { userId } = request;
+
+  const purging: AccountDeletionRequest = {
+    ...request,
+    status: 'purging',
+    attempts: request.attempts + 1,
+    updatedAt: nowIso(),
+  };
+  await storage.accountDeletions.save(purging);
+
+  try {
+    const deletedDocuments = await storage.users.countData(userId);
+    await storage.users.delete(userId);
+    const deletedVectorItems = deleteByUserId(userId);
+    await flushStore();
+    const deletedPasswordResets = request.emailLower
+      ? await storage.passwordResets.deleteByEmail(request.emailLower)
+      : 0;
+    const deletedDataExports = await storage.dataExports.deleteByUser(userId);
+    deleteScoreState(userId);
+    deleteAgeState(userId);
+
+    try {
+      await deleteAuthUser(userId);
+    } catch (error: any) {
+      // Already gone when an earlier attempt got this far
+      if (error?.code !== 'auth/user-not-found') throw error;
+    }
+
+    const remaining = await findRemainingData(request);
+    if (remaining.length > 0) {
+      throw new Error(`Data remains after purge: ${remaining.join(', ')}`);
+    }
+
+    const audit: AccountDeletionAudit = {
+      id: crypto.randomBytes(12).toString('hex'),
+      subjectHash: hashUserId(userId),
+      requestedAt: request.requestedAt,
+      scheduledFor: request.scheduledFor,
+      purgedAt: nowIso(),
+      attempts: purging.attempts,
+      deletedDocuments,
+      deletedVectorItems,
+      deletedPasswordResets,
+      deletedDataExports,
+      verified: true,
+    };
+    await storage.accountDeletions.addAudit(audit);
+    await storage.accountDeletions.delete(userId);
+    return audit;
+  } catch (error: any) {
+    console.error('[account-deletion] Purge failed:', error?.message);
+    await storage.accountDeletions.save({
+      ...purging,
+      status: 'failed',
+      lastError: String(error?.message ?? error),
+      updatedAt: nowIso(),
+    });
+    return null;
+  }
+}
+
+/**
+ * Purge every account whose grace period is over. Failed purges are retried; purges still
+ * running elsewhere are left alone until they go stale.
+ */
+export async function purgeDueAccountDeletions(
+  options: { deleteAuthUser?: (userId: string) => Promise<void> } = {}
+): Promise<{ purged: number; failed: number }> {
+  const staleBefore = Date.now() - STALE_PURGE_MINUTES * 60 * 1000;
+  const due = await storage.accountDeletions.listDue(nowIso());
+  let purged = 0;
+  let failed = 0;
+  for (const request of due) {
+    if (request.status === 'purging' && Date.parse(request.updatedAt) > staleBefore) continue;
+    if (await purgeAccount(request, options)) {
+      purged++;
+    } else {
+      failed++;
+    }
+  }
+  return { purged, failed };
+}
+
+/**
+ * Run a sweep without blocking the caller. Failures are logged only.
+ */
+export function scheduleAccountDeletionSweep(): Promise<void> {
+  return purgeDueAccountDeletions()
+    .then(({ purged, failed }) => {
+      if (purged > 0 || failed > 0) {
+        console.log(`[account-deletion] Purged ${purged} account(s), ${failed} failed`);
+      }
+    })
+    .catch((error: any) => {
+      console.error('[account-deletion] Sweep failed:', error?.message);
+    });
+}
+
+/**
+ * Sweep due deletions now and every ACCOUNT_DELETION_SWEEP_MINUTES (default 60).
+ */
+export function startAccountDeletionSweeper(): NodeJS.Timeout {
+  const minutes = Number(process.env.ACCOUNT_DELETION_SWEEP_MINUTES);
+  const interval = (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_SWEEP_MINUTES) * 60 * 1000;
+  scheduleAccountDeletionSweep();
+  const timer = setInterval(scheduleAccountDeletionSweep, interval);
+  timer.unref();
+  return timer;
+}
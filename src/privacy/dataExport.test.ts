@@ -0,0 +1,194 @@
+/**
+ * Tests for personal data export jobs
+ * Run with: npx ts-node src/privacy/dataExport.test.ts
+ */
+
+process.env.LLM_PROVIDER = 'stub';
+process.env.STORAGE_BACKEND = 'memory';
+
+import * as zlib from 'zlib';
+import { storage } from '../config/storage';
+import { parseImportBody, validateImportRows } from '../longevity/historyImport';
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import {
+  dailyEntriesToCsv,
+  getDataExportArchive,
+  getDataExportJob,
+  purgeExpiredDataExports,
+  requestDataExport,
+  runDataExport,
+  toDataExportJobResponse,
+} from './dataExport';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+function makeEntry(dateKey: string, overrides: Partial<DailyEntryDocument> = {}): DailyEntryDocument {
+  return {
+    userId: 'export-user',
+    dateKey,
+    date: dateKey,
+    sleepHours: 7.5,
+    steps: 9000,
+    vigorousMinutes: 20,
+    processedFoodScore: 2,
+    alcoholUnits: 0,
+    stressLevel: 3,
+    lateCaffeine: false,
+    screenLate: true,
+    bedtimeHour: 23,
+    score: 1,
+    deltaYears: -0.01,
+    reasons: [],
+    createdAt: '2025-01-01T20:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Files of a .zip written by createZipArchive, by name.
+ */
+function readZip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files.set(name, zlib.inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8'));
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+// Test 1: Daily entries CSV
+function testCsv() {
+  console.log('\n=== Test 1: Daily entries CSV ===');
+
+  const csv = dailyEntriesToCsv([
+    makeEntry('2025-01-01'),
+    makeEntry('2025-01-02', {
+      scoringVersion: 'questionnaire-v1',
+      answers: { sleepQuality: 4, bodySignals: ['Bloating', 'Headache'] },
+    }),
+  ]);
+  const [header, first, second] = csv.trim().split('\n');
+  assert(header.startsWith('dateKey,scoringVersion,scoringModelVersion,score'), 'Results come first');
+  assert(first.startsWith('2025-01-01,metrics-v1,,1,-0.01'), 'Missing values are empty cells');
+  assert(second.includes(',Bloating;Headache,'), 'Multi-select answers are joined with ;');
+
+  const rows = parseImportBody({ csv: dailyEntriesToCsv([makeEntry('2025-01-01')]) });
+  const imported = validateImportRows(rows.ok ? rows.value : [], 'UTC');
+  assert(
+    imported.errors.length === 0 && imported.valid[0].checkIn.answers.screenLate === true,
+    'The CSV can be imported back'
+  );
+}
+
+// Test 2: Job lifecycle and download
+async function testJob() {
+  console.log('\n=== Test 2: Export job ===');
+
+  const userId = 'export-user';
+  await storage.users.merge(userId, { userId, timezone: 'UTC', chronologicalAgeYears: 40 });
+  await storage.dailyEntries.create(userId, makeEntry('2025-01-01'));
+  await storage.chatHistory.add(userId, { role: 'user', content: 'How did I sleep, "really"?' });
+  await storage.moderationLogs.add({
+    userId,
+    conversationId: 'default',
+    messageId: null,
+    direction: 'input',
+    flags: ['medication_dosing'],
+    violations: [],
+    action: 'disclaimer',
+  });
+
+  const { job, token } = await requestDataExport(userId);
+  assert(job.status === 'pending' && typeof token === 'string', 'A job starts pending with a download token');
+  assert(job.tokenHash !== token, 'Only the token hash is stored');
+
+  const again = await requestDataExport(userId);
+  assert(again.job.id === job.id && again.token === null, 'A running export is not started twice');
+  assert((await getDataExportJob('someone-else', job.id)) === null, 'Jobs are private to their user');
+
+  assert(!(await getDataExportArchive(job.id, token!)).ok, 'Nothing can be downloaded before the job is ready');
+  await runDataExport(job.id);
+  const ready = (await getDataExportJob(userId, job.id))!;
+  assert(ready.status === 'ready' && ready.files.length === 2, 'The job is ready with two files');
+  assert(
+    toDataExportJobResponse(ready).downloadPath === `/api/privacy/exports/${job.id}/download`,
+    'Ready jobs have a download path'
+  );
+
+  const wrong = await getDataExportArchive(job.id, 'not-the-token');
+  assert(!wrong.ok && wrong.reason === 'not_found', 'A wrong token finds nothing');
+
+  const download = await getDataExportArchive(job.id, token!);
+  assert(download.ok, 'The token downloads the archive');
+  const files = readZip(download.ok ? download.archive : Buffer.alloc(4));
+  const data = JSON.parse(files.get('export.json')!);
+  assert(data.user.userId === userId && data.dailyEntries.length === 1, 'export.json holds the user and entries');
+  assert(data.conversations[0].messages[0].content === 'How did I sleep, "really"?', 'Chat history is included');
+  assert(
+    'consent' in data && 'subscription' in data && 'scoreState' in data,
+    'Consent, subscription and score state are included'
+  );
+  assert(data.moderationLogs.length === 1 && data.moderationLogs[0].action === 'disclaimer', 'Moderation logs are included');
+  assert(files.get('daily-entries.csv')!.split('\n')[1].startsWith('2025-01-01'), 'The archive holds the CSV');
+}
+
+// Test 3: Expiry
+async function testExpiry() {
+  console.log('\n=== Test 3: Expiry ===');
+
+  const userId = 'expiring-user';
+  await storage.users.merge(userId, { userId });
+  const { job, token } = await requestDataExport(userId);
+  await runDataExport(job.id);
+
+  const ready = (await storage.dataExports.get(job.id))!;
+  const past = new Date(Date.now() - 1000).toISOString();
+  await storage.dataExports.save({ ...ready, expiresAt: past, purgeAt: past });
+  const expired = await getDataExportArchive(job.id, token!);
+  assert(!expired.ok && expired.reason === 'expired', 'Expired tokens no longer download');
+  assert((await storage.dataExports.getFiles(job.id)).length === 0, 'The archive of an expired job is deleted');
+
+  const next = await requestDataExport(userId);
+  assert(next.token !== null && next.job.id !== job.id, 'A new export can be requested after expiry');
+
+  await runDataExport(next.job.id);
+  const unread = (await storage.dataExports.get(next.job.id))!;
+  await storage.dataExports.save({ ...unread, expiresAt: past, purgeAt: past });
+  assert((await purgeExpiredDataExports()) === 1, 'The sweep expires jobs that are never read again');
+  assert((await storage.dataExports.getFiles(next.job.id)).length === 0, 'The sweep deletes their archive');
+  const swept = (await storage.dataExports.get(next.job.id))!;
+  assert(swept.status === 'expired' && swept.purgeAt === null, 'The job is kept as expired and marked swept');
+  assert((await purgeExpiredDataExports()) === 0, 'Expired jobs are not swept again');
+}
+
+async function runTests() {
+  console.log('🧪 Running Data Export Tests\n');
+
+  try {
+    testCsv();
+    await testJob();
+    await testExpiry();
+
+    console.log('\n✅ All data export tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,296 @@
+/**
+ * Personal data export jobs
+ * Gathers everything stored about a user into export.json plus a daily-entries.csv that
+ * POST /api/age/history/import reads back. Jobs run in the background; the archive is
+ * downloaded with the token handed out when the job was requested and is deleted by a
+ * background sweep once the token expires.
+ */
+
+import * as crypto from 'crypto';
+import { storage } from '../config/storage';
+import { listConversations } from '../rag/conversations';
+import { getScoreState } from '../score/scoreStore';
+import { entryToCheckIn } from '../scoring/engine';
+import { listQuestionnaireSchemas } from '../scoring/registry';
+import { AnswerValue } from '../scoring/scoringModel';
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import { DataExportFile, DataExportJob, DataExportJobResponse } from './privacyModel';
+import { createZipArchive } from './zipArchive';
+
+export const DATA_EXPORT_TTL_HOURS = 24;
+export const EXPORT_FORMAT_VERSION = 1;
+// Jobs not finished by then were lost (e.g. the server restarted mid-export)
+const STALE_JOB_MINUTES = 30;
+// Every action plan the user ever had
+const MAX_EXPORTED_ACTION_PLANS = 1000;
+const MAX_EXPORTED_MODERATION_LOGS = 10000;
+const DEFAULT_SWEEP_MINUTES = 60;
+
+const ENTRY_CSV_COLUMNS = [
+  'dateKey',
+  'scoringVersion',
+  'scoringModelVersion',
+  'score',
+  'deltaYears',
+  'currentBiologicalAgeYears',
+  'currentAgingDebtYears',
+  'rejuvenationStreakDays',
+  'accelerationStreakDays',
+] as const;
+
+const nowIso = () => new Date().toISOString();
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Daily entries as CSV: the day's results, then one column per questionnaire answer.
+ * Multi-select answers are joined with ";" as the history import expects.
+ */
+export function dailyEntriesToCsv(entries: DailyEntryDocument[]): string {
+  const answerKeys = Array.from(
+    new Set(listQuestionnaireSchemas().flatMap((schema) => schema.questions.map((question) => question.key)))
+  );
+  const lines = [[...ENTRY_CSV_COLUMNS, ...answerKeys, 'createdAt'].join(',')];
+  for (const entry of entries) {
+    const checkIn = entryToCheckIn(entry);
+    const answers: Record<string, AnswerValue> = checkIn.answers;
+    const row = [
+      entry.dateKey || entry.date,
+      checkIn.version,
+      entry.scoringModelVersion,
+      entry.score,
+      entry.deltaYears,
+      entry.currentBiologicalAgeYears,
+      entry.currentAgingDebtYears,
+      entry.rejuvenationStreakDays,
+      entry.accelerationStreakDays,
+      ...answerKeys.map((key) => answers[key]),
+      entry.createdAt,
+    ];
+    lines.push(row.map(csvCell).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * The archive files of a user's data.
+ */
+export async function buildDataExportFiles(userId: string): Promise<DataExportFile[]> {
+  const [user, consent, subscription, entries, conversations, goals, actionPlans, healthMetrics, insights, moderationLogs] =
+    await Promise.all([
+      storage.users.get(userId),
+      storage.consents.get(userId),
+      storage.subscriptions.get(userId),
+      storage.dailyEntries.list(userId),
+      listConversations(userId),
+      storage.goals.list(userId),
+      storage.actionPlans.list(userId, MAX_EXPORTED_ACTION_PLANS),
+      storage.healthMetrics.list(userId),
+      storage.insights.get(userId),
+      storage.moderationLogs.list(userId, { limit: MAX_EXPORTED_MODERATION_LOGS }),
+    ]);
+
+  const chats = await Promise.all(
+    conversations.map(async (conversation) => ({
+      conversation,
+      messages: (await storage.chatHistory.listAll(userId, conversation.id)).map(
+        ({ id, role, content, createdAt }) => ({ id, role, content, createdAt })
+      ),
+    }))
+  );
+
+  const data = {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: nowIso(),
+    user,
+    consent,
+    subscription,
+    scoreState: getScoreState(userId),
+    dailyEntries: entries,
+    conversations: chats,
+    goals,
+    actionPlans,
+    healthMetrics,
+    insights,
+    moderationLogs,
+  };
+
+  return [
+    { name: 'export.json', contentType: 'application/json', content: JSON.stringify(data, null, 2) },
+    { name: 'daily-entries.csv', contentType: 'text/csv', content: dailyEntriesToCsv(entries) },
+  ];
+}
+
+/**
+ * Marks jobs whose token ran out as expired (deleting their archive) and jobs that
+ * stopped mid-run as failed. Returns the job as it now stands.
+ */
+async function settleJob(job: DataExportJob): Promise<DataExportJob> {
+  const now = Date.now();
+  if (job.status !== 'expired' && Date.parse(job.expiresAt) <= now) {
+    await storage.dataExports.deleteFiles(job.id);
+    job = { ...job, status: 'expired', files: [], purgeAt: null, updatedAt: nowIso() };
+    await storage.dataExports.save(job);
+  } else if (
+    (job.status === 'pending' || job.status === 'running') &&
+    Date.parse(job.updatedAt) <= now - STALE_JOB_MINUTES * 60 * 1000
+  ) {
+    job = { ...job, status: 'failed', error: 'Export did not finish', updatedAt: nowIso() };
+    await storage.dataExports.save(job);
+  }
+  return job;
+}
+
+/**
+ * Delete the archives of every job whose token expired. Returns the number of jobs expired.
+ */
+export async function purgeExpiredDataExports(): Promise<number> {
+  const expired = await storage.dataExports.listExpired(nowIso());
+  for (const job of expired) {
+    await settleJob(job);
+  }
+  return expired.length;
+}
+
+/**
+ * Run a sweep without blocking the caller. Failures are logged only.
+ */
+export function scheduleDataExportSweep(): Promise<void> {
+  return purgeExpiredDataExports()
+    .then((expired) => {
+      if (expired > 0) {
+        console.log(`[data-export] Deleted ${expired} expired export(s)`);
+      }
+    })
+    .catch((error: any) => {
+      console.error('[data-export] Sweep failed:', error?.message);
+    });
+}
+
+/**
+ * Sweep expired exports now and every DATA_EXPORT_SWEEP_MINUTES (default 60).
+ */
+export function startDataExportSweeper(): NodeJS.Timeout {
+  const minutes = Number(process.env.DATA_EXPORT_SWEEP_MINUTES);
+  const interval = (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_SWEEP_MINUTES) * 60 * 1000;
+  scheduleDataExportSweep();
+  const timer = setInterval(scheduleDataExportSweep, interval);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Build and store the archive of a job. Failures are recorded on the job.
+ */
+export async function runDataExport(jobId: string): Promise<void> {
+  let job = await storage.dataExports.get(jobId);
+  if (!job || job.status !== 'pending') return;
+
+  job = { ...job, status: 'running', updatedAt: nowIso() };
+  await storage.dataExports.save(job);
+  try {
+    const files = await buildDataExportFiles(job.userId);
+    await storage.dataExports.saveFiles(job.id, files);
+    const completedAt = nowIso();
+    await storage.dataExports.save({
+      ...job,
+      status: 'ready',
+      completedAt,
+      updatedAt: completedAt,
+      files: files.map((file) => ({ name: file.name, bytes: Buffer.byteLength(file.content, 'utf8') })),
+    });
+  } catch (error: any) {
+    console.error('[data-export] Failed to build export:', error?.message);
+    await storage.dataExports.save({ ...job, status: 'failed', error: 'Export failed', updatedAt: nowIso() });
+  }
+}
+
+/**
+ * Run a job without blocking the response that requested it. Failures are logged only.
+ */
+export function scheduleDataExport(jobId: string): Promise<void> {
+  return runDataExport(jobId).catch((error: any) => {
+    console.error('[data-export] Failed to run export:', error?.message);
+  });
+}
+
+/**
+ * Create an export job for a user (run it with scheduleDataExport). Returns the job and its
+ * download token (shown only here), or the unfinished job and a null token when one is
+ * already underway.
+ */
+export async function requestDataExport(userId: string): Promise<{ job: DataExportJob; token: string | null }> {
+  const jobs = await Promise.all((await storage.dataExports.listByUser(userId)).map(settleJob));
+  const active = jobs.find((job) => job.status === 'pending' || job.status === 'running');
+  if (active) {
+    return { job: active, token: null };
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000).toISOString();
+  const job: DataExportJob = {
+    id: crypto.randomBytes(12).toString('hex'),
+    userId,
+    status: 'pending',
+    tokenHash: hashToken(token),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    completedAt: null,
+    expiresAt,
+    purgeAt: expiresAt,
+    files: [],
+    error: null,
+  };
+  await storage.dataExports.save(job);
+  return { job, token };
+}
+
+/**
+ * A user's export job, or null when it does not exist or belongs to someone else.
+ */
+export async function getDataExportJob(userId: string, jobId: string): Promise<DataExportJob | null> {
+  const job = await storage.dataExports.get(jobId);
+  if (!job || job.userId !== userId) return null;
+  return settleJob(job);
+}
+
+export function toDataExportJobResponse(job: DataExportJob): DataExportJobResponse {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    expiresAt: job.expiresAt,
+    files: job.files,
+    downloadPath: job.status === 'ready' ? `/api/privacy/exports/${job.id}/download` : null,
+  };
+}
+
+/**
+ * The .zip archive of a job for its download token.
+ */
+export async function getDataExportArchive(
+  jobId: string,
+  token: string
+): Promise<{ ok: true; archive: Buffer; job: DataExportJob } | { ok: false; reason: 'not_found' | 'expired' | 'not_ready' }> {
+  const stored = await storage.dataExports.get(jobId);
+  const expected = stored ? Buffer.from(stored.tokenHash, 'hex') : null;
+  const given = Buffer.from(hashToken(token), 'hex');
+  if (!stored || !expected || expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return { ok: false, reason: 'not_found' };
+  }
+
+  const job = await settleJob(stored);
+  if (job.status === 'expired') return { ok: false, reason: 'expired' };
+  if (job.status !== 'ready') return { ok: false, reason: 'not_ready' };
+
+  const files = await storage.dataExports.getFiles(job.id);
+  return { ok: true, archive: createZipArchive(files, new Date(job.completedAt ?? job.createdAt)), job };
+}
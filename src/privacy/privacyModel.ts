@@ -0,0 +1,93 @@
+/**
+ * Privacy request models: personal data exports and account deletions
+ */
+
+/**
+ * Personal data export (GDPR / KVKK data portability)
+ * A user asks for an export, polls its status and downloads the archive with the token
+ * they got when asking. Archives are kept until the token expires.
+ */
+
+export type DataExportStatus = 'pending' | 'running' | 'ready' | 'failed' | 'expired';
+
+export interface DataExportJob {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  tokenHash: string; // sha256 of the download token; the token itself is never stored
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  completedAt: string | null; // ISO timestamp, set once the archive is ready
+  expiresAt: string; // ISO timestamp; the token and the archive are gone after this
+  purgeAt: string | null; // ISO timestamp the sweep deletes the archive at (expiresAt); null once deleted
+  files: Array<{ name: string; bytes: number }>; // archive contents, empty until ready
+  error: string | null;
+}
+
+/**
+ * One file of an export archive. Content is text (JSON or CSV).
+ */
+export interface DataExportFile {
+  name: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * Status of a job as shown to its owner.
+ */
+export interface DataExportJobResponse {
+  id: string;
+  status: DataExportStatus;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string;
+  files: Array<{ name: string; bytes: number }>;
+  downloadPath: string | null; // append ?token=<download token>; set when ready
+}
+
+/**
+ * Account deletion (KVKK / GDPR right to erasure)
+ * A deletion waits out a grace period in which the user can cancel it, then everything
+ * stored about them is purged in the background and the purge is verified. What remains
+ * is an audit record without personal data.
+ */
+
+export type AccountDeletionStatus = 'scheduled' | 'purging' | 'failed';
+
+export interface AccountDeletionRequest {
+  userId: string;
+  emailLower: string | null; // Needed to purge password reset requests, which are keyed by email
+  status: AccountDeletionStatus;
+  requestedAt: string; // ISO timestamp
+  scheduledFor: string; // ISO timestamp; end of the grace period
+  updatedAt: string; // ISO timestamp
+  attempts: number; // purge attempts so far
+  lastError: string | null;
+}
+
+export interface AccountDeletionAudit {
+  id: string;
+  // HMAC of the user id keyed with ACCOUNT_DELETION_AUDIT_SECRET: answers "was this account deleted?"
+  // without storing the id. Null when no secret is configured.
+  subjectHash: string | null;
+  requestedAt: string;
+  scheduledFor: string;
+  purgedAt: string;
+  attempts: number;
+  deletedDocuments: Record<string, number>; // per collection, counted before the purge
+  deletedVectorItems: number;
+  deletedPasswordResets: number;
+  deletedDataExports: number;
+  verified: true; // audits are only written once nothing of the account remains
+}
+
+/**
+ * A pending deletion as shown to its owner.
+ */
+export interface AccountDeletionResponse {
+  status: AccountDeletionStatus;
+  requestedAt: string;
+  scheduledFor: string;
+  canCancel: boolean;
+}
@@ -0,0 +1,206 @@
+/**
+ * Offline tests for the chat and ingestion flows (stub LLM provider, in-memory storage)
+ * Run with: npx ts-node src/rag/chat.test.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.LLM_PROVIDER = 'stub';
+process.env.STORAGE_BACKEND = 'memory';
+process.env.VECTOR_STORE_PATH = path.join(os.tmpdir(), `vector-store-chat-test-${process.pid}.json`);
+
+import { llm } from '../config/llm';
+import { longevityChat, longevityChatStream } from './chat';
+import { ingestUserLog } from './ingest';
+import { deleteChatMessage } from './conversations';
+import { flushStore, getItem, getStore } from './vectorStore';
+import { detectOutputViolations } from '../safety/guardrails';
+import { getChatHistory } from '../longevity/longevityStore';
+import { storage } from '../config/storage';
+import { selectRecentWithinBudget, whenSummariesSettled } from './conversationMemory';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+// Test 1: Stub provider is deterministic
+async function testStubProvider() {
+  console.log('\n=== Test 1: Stub provider ===');
+
+  const [a, b, c] = await llm.embed(['sleep and caffeine', 'sleep and caffeine', 'strength training']);
+  assert(a.length === b.length && a.every((v, i) => v === b[i]), 'Identical texts embed identically');
+  assert(a.some((v, i) => v !== c[i]), 'Different texts embed differently');
+
+  const messages = [{ role: 'user' as const, content: 'How do I sleep better?' }];
+  const reply = await llm.complete({ messages });
+  assert(reply === (await llm.complete({ messages })), 'Replies are deterministic');
+
+  let streamed = '';
+  for await (const delta of llm.streamComplete({ messages })) {
+    streamed += delta;
+  }
+  assert(streamed === reply, 'Streamed deltas join to the full reply');
+}
+
+// Test 2: Blocking chat persists history and ingests the turn
+async function testChat() {
+  console.log('\n=== Test 2: Chat ===');
+
+  const logId = await ingestUserLog('chat-user', 'My evening coffee is a problem for my sleep');
+  assert(getItem(logId)?.metadata.userId === 'chat-user', 'User log is ingested');
+
+  const result = await longevityChat({ userId: 'chat-user', message: 'Is my evening coffee a problem?' });
+  assert(result.answer.includes('evening coffee'), 'Answer is generated by the stub');
+  assert(result.contextItems.some((item) => item.id === logId), "User's own log is retrieved as context");
+
+  const history = await getChatHistory('chat-user', 10);
+  assert(history.length === 2 && history[1].content === result.answer, 'Turn is saved to history');
+
+  const otherLogId = await ingestUserLog('forget-user', 'I walk every morning');
+  await longevityChat({ userId: 'forget-user', message: 'Should I walk more?' });
+  const [question] = await storage.chatHistory.listAll('forget-user', 'default');
+  const turnLog = () =>
+    getStore().find((item) => item.metadata.userId === 'forget-user' && item.metadata.messageIds?.includes(question.id));
+  assert(turnLog()?.metadata.messageIds?.length === 2, 'The ingested turn references both messages');
+  await deleteChatMessage('forget-user', 'default', question.id);
+  assert(!turnLog() && getItem(otherLogId) !== null, 'Deleting a message deletes the log derived from it');
+}
+
+// Test 3: Streaming chat emits context first and persists on completion
+async function testChatStream() {
+  console.log('\n=== Test 3: Streaming chat ===');
+
+  const events: string[] = [];
+  let streamed = '';
+  const result = await longevityChatStream({
+    userId: 'stream-user',
+    message: 'How much should I walk?',
+    onContext: () => events.push('context'),
+    onDelta: (delta) => {
+      events.push('delta');
+      streamed += delta;
+    },
+  });
+
+  assert(events[0] === 'context' && events.filter((e) => e === 'context').length === 1, 'Context is sent once, first');
+  assert(!result.aborted && streamed === result.answer, 'Deltas join to the final answer');
+
+  const history = await getChatHistory('stream-user', 10);
+  assert(history.length === 2 && history[1].content === result.answer, 'Final message is saved');
+}
+
+// Test 4: Aborted stream persists the partial answer
+async function testChatStreamAbort() {
+  console.log('\n=== Test 4: Aborted stream ===');
+
+  const controller = new AbortController();
+  const deltas: string[] = [];
+  const result = await longevityChatStream({
+    userId: 'abort-user',
+    message: 'Tell me about sleep',
+    signal: controller.signal,
+    onContext: () => undefined,
+    onDelta: (delta) => {
+      deltas.push(delta);
+      controller.abort();
+    },
+  });
+
+  assert(result.aborted, 'Stream reports the abort');
+  const history = await getChatHistory('abort-user', 10);
+  assert(history.length === 2 && history[1].content === result.answer, 'Partial answer is saved');
+  assert(deltas.length === 1 && result.answer.trim() === deltas[0], 'No deltas are produced after the abort');
+}
+
+// Test 5: Rolling summary and token budget
+async function testConversationMemory() {
+  console.log('\n=== Test 5: Conversation memory ===');
+
+  await whenSummariesSettled();
+  const conversation = await storage.conversations.get('chat-user', 'default');
+  assert(!!conversation?.summary && conversation.summaryUpdatedAt !== null, 'Summary is persisted after an exchange');
+
+  const messages = ['a'.repeat(400), 'b'.repeat(400), 'c'.repeat(40), 'd'.repeat(40)].map((content) => ({ content }));
+  const selected = selectRecentWithinBudget(messages, 120);
+  assert(selected.map((m) => m.content[0]).join('') === 'bcd', 'Newest messages are kept within the budget');
+  assert(selectRecentWithinBudget(messages, 5).length === 0, 'Nothing is kept when the newest message does not fit');
+}
+
+// Test 6: Guardrails around chat
+async function testChatGuardrails() {
+  console.log('\n=== Test 6: Chat guardrails ===');
+
+  const crisis = await longevityChat({ userId: 'safety-user', message: 'I want to die' });
+  assert(crisis.moderation.action === 'escalate' && crisis.contextItems.length === 0, 'Crisis message gets resources only');
+  assert(crisis.answer.includes('988') && !crisis.answer.includes('(offline stub)'), 'Model is not called for crisis messages');
+
+  const pregnancy = await longevityChat({ userId: 'safety-user', message: 'I am pregnant, can I keep running?' });
+  assert(pregnancy.moderation.action === 'disclaimer', 'Pregnancy question is answered with a disclaimer');
+  assert(pregnancy.answer.includes('obstetrician'), 'Disclaimer is appended to the answer');
+
+  const deltas: string[] = [];
+  const streamed = await longevityChatStream({
+    userId: 'safety-user',
+    message: 'Chest pain on my run today',
+    onContext: () => undefined,
+    onDelta: (delta) => deltas.push(delta),
+  });
+  assert(deltas.length === 1 && deltas[0] === streamed.answer, 'Flagged stream is sent as one screened delta');
+
+  // The stub echoes the question, so this unflagged question gets a dosing answer
+  const dosingDeltas: string[] = [];
+  const dosing = await longevityChatStream({
+    userId: 'safety-user',
+    message: 'My friend takes metformin 500 mg with dinner. Is a walk after meals good?',
+    onContext: () => undefined,
+    onDelta: (delta) => dosingDeltas.push(delta),
+  });
+  assert(dosing.moderation.flags.length === 0 && dosing.moderation.action === 'block', 'Unflagged dosing answer is blocked');
+  assert(
+    dosingDeltas.every((delta) => detectOutputViolations(delta).length === 0) &&
+      detectOutputViolations(dosingDeltas.join('')).length === 0,
+    'No violating text is streamed'
+  );
+  assert(dosingDeltas[dosingDeltas.length - 1] === dosing.answer, 'The blocked answer is the last delta');
+
+  const logs = await storage.moderationLogs.list('safety-user', { limit: 10 });
+  assert(logs.length === 8, 'Every message gets a moderation log entry');
+  const history = await storage.chatHistory.listAll('safety-user', 'default');
+  assert(logs.every((log) => history.some((m) => m.id === log.messageId)), 'Log entries reference the stored messages');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Offline Chat Tests\n');
+
+  try {
+    await testStubProvider();
+    await testChat();
+    await testChatStream();
+    await testChatStreamAbort();
+    await testConversationMemory();
+    await testChatGuardrails();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  } finally {
+    await whenSummariesSettled();
+    await flushStore();
+    fs.rmSync(process.env.VECTOR_STORE_PATH!, { force: true });
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
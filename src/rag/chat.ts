@@ -1,6 +1,15 @@
-import { openai } from '../config/openai';
-import { searchSimilar } from './vectorStore';
+import { llm } from '../config/llm';
+import { searchHybrid } from './vectorStore';
 import { ingestUserLog } from './ingest';
+import { VectorItem } from '../types';
+import { storage } from '../config/storage';
+import { DEFAULT_CONVERSATION_ID } from '../storage/repository';
+import {
+  estimateTokens,
+  getHistoryTokenBudget,
+  scheduleSummaryUpdate,
+  selectRecentWithinBudget,
+} from './conversationMemory';
 import {
   getUserDocument,
   listDailyEntries,
@@ -8,6 +17,19 @@ import {
   saveChatMessage,
   getTodayDateKey,
 } from '../longevity/longevityStore';
+import {
+  buildSafetyPrompt,
+  completeSentencesLength,
+  detectOutputViolations,
+  recordModeration,
+  screenInput,
+  screenOutput,
+  summarizeModeration,
+} from '../safety/guardrails';
+import { ChatModeration, InputScreening, OutputScreening } from '../safety/safetyModel';
+import { describeCheckIn, entryToCheckIn } from '../scoring/engine';
+import { getUserInsights, renderInsight } from '../longevity/insights';
+import { DEFAULT_LOCALE, Locale, LOCALE_NAMES, localizeReasons } from '../i18n/i18n';
 
 export const SYSTEM_PROMPT = `
 You are Longevity Coach AI inside a longevity app.
@@ -27,27 +49,38 @@ Style:
 - Use bullet points for plans.
 `;
 
-export async function longevityChat(options: {
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+// Upper bound on messages loaded before the token budget is applied
+const MAX_HISTORY_MESSAGES = 30;
+// Strongest history patterns shown to the coach
+const MAX_CONTEXT_INSIGHTS = 5;
+
+/**
+ * Build the completion messages for a user question: system prompt, recent history and
+ * a user turn carrying biological age state, recent check-ins and retrieved knowledge.
+ * Shared by the blocking and streaming chat endpoints.
+ */
+async function buildChatContext(options: {
   userId: string;
   message: string;
-}): Promise<{ answer: string; contextItems: any[] }> {
-  console.log('[longevityChat] Starting chat for userId:', options.userId);
-  console.log('[longevityChat] Message:', options.message);
+  conversationId?: string;
+  safety: InputScreening;
+  locale: Locale;
+}): Promise<{ messages: ChatMessage[]; contextItems: VectorItem[] }> {
+  // Get user document from Firestore
+  console.log('[buildChatContext] Fetching user document...');
+  const userDoc = await getUserDocument(options.userId);
   
-  try {
-    // Get user document from Firestore
-    console.log('[longevityChat] Fetching user document...');
-    const userDoc = await getUserDocument(options.userId);
-    
-    if (!userDoc) {
-      console.warn('[longevityChat] User document not found');
-    }
+  if (!userDoc) {
+    console.warn('[buildChatContext] User document not found');
+  }
 
-    // Build age summary from Firestore data
-    let ageSummary = 'No biological age data yet.';
-    if (userDoc) {
-      // Use toFixed(2) for chronological age to match score screen (2 decimal places)
-      ageSummary = `
+  // Build age summary from Firestore data
+  let ageSummary = 'No biological age data yet.';
+  if (userDoc) {
+    // Use toFixed(2) for chronological age to match score screen (2 decimal places)
+    ageSummary = `
 Chronological age: ${userDoc.chronologicalAgeYears.toFixed(2)} years
 Current biological age: ${userDoc.currentBiologicalAgeYears.toFixed(2)} years
 Baseline biological age: ${userDoc.baselineBiologicalAgeYears.toFixed(2)} years
@@ -57,179 +90,269 @@ Acceleration streak: ${userDoc.accelerationStreakDays} days
 Total rejuvenation days: ${userDoc.totalRejuvenationDays}
 Total acceleration days: ${userDoc.totalAccelerationDays}
 `.trim();
-    }
+  }
 
-    // Get recent daily check-ins (last 7 days)
-    console.log('[longevityChat] Fetching daily check-ins...');
-    const allEntries = await listDailyEntries(options.userId);
-    const recentEntries = allEntries.slice(-7); // Last 7 entries
+  // Get recent daily check-ins (last 7 days)
+  console.log('[buildChatContext] Fetching daily check-ins...');
+  const allEntries = await listDailyEntries(options.userId);
+  const recentEntries = allEntries.slice(-7); // Last 7 entries
+  
+  let dailyCheckInsSummary = 'No daily check-ins yet.';
+  if (recentEntries.length > 0) {
+    const entriesText = recentEntries.map((entry) => {
+      const date = entry.dateKey || entry.date;
+      return `Date: ${date}
+- Score: ${entry.score.toFixed(2)}
+- Delta: ${entry.deltaYears > 0 ? '+' : ''}${entry.deltaYears.toFixed(3)} years
+- Answers: ${describeCheckIn(entryToCheckIn(entry))}
+- Reasons: ${localizeReasons(options.locale, entry).join(', ')}`;
+    }).join('\n\n');
     
-    let dailyCheckInsSummary = 'No daily check-ins yet.';
-    if (recentEntries.length > 0) {
-      const entriesText = recentEntries.map((entry) => {
-        const date = entry.dateKey || entry.date;
-        return `Date: ${date}
-  - Score: ${entry.score.toFixed(2)}
-  - Delta: ${entry.deltaYears > 0 ? '+' : ''}${entry.deltaYears.toFixed(3)} years
-  - Sleep: ${entry.sleepHours}h, Steps: ${entry.steps}, Exercise: ${entry.vigorousMinutes}min
-  - Stress: ${entry.stressLevel}/10
-  - Reasons: ${entry.reasons.join(', ')}`;
-      }).join('\n\n');
-      
-      dailyCheckInsSummary = `Recent daily check-ins (last ${recentEntries.length} entries):\n${entriesText}`;
-    }
+    dailyCheckInsSummary = `Recent daily check-ins (last ${recentEntries.length} entries):\n${entriesText}`;
+  }
 
-    // Get chat history (last 10 messages) for OpenAI messages array
-    console.log('[longevityChat] Fetching chat history...');
-    const chatHistory = await getChatHistory(options.userId, 10);
-    
-    // Build conversation history for context summary
-    let conversationContext = '';
-    if (chatHistory.length > 0) {
-      const recentTopics = chatHistory
-        .filter(msg => msg.role === 'user')
-        .slice(-3)
-        .map(msg => msg.content.substring(0, 100))
-        .join('; ');
-      conversationContext = `Recent conversation topics: ${recentTopics}`;
-    }
+  // Patterns mined from the whole history (cached, refreshed after each check-in)
+  console.log('[buildChatContext] Fetching insights...');
+  const { insights } = await getUserInsights(options.userId);
+  const insightsSummary = insights.length > 0
+    ? insights.slice(0, MAX_CONTEXT_INSIGHTS).map((insight) => `- ${renderInsight(options.locale, insight)}`).join('\n')
+    : 'No patterns found in their history yet.';
 
-    // Create embedding for the user's message
-    console.log('[longevityChat] Creating embedding...');
-    let queryEmbedding: number[];
-    try {
-      const embeddingResp = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: options.message,
-      });
-      queryEmbedding = embeddingResp.data[0].embedding;
-      console.log('[longevityChat] Embedding created, dimension:', queryEmbedding.length);
-    } catch (error: any) {
-      console.error('[longevityChat] Embedding error:', error?.message);
-      throw new Error(`Failed to create embedding: ${error?.message}`);
-    }
+  // Rolling summary carries older context; recent turns fill the rest of the token budget
+  console.log('[buildChatContext] Fetching chat history...');
+  const conversation = await storage.conversations.get(
+    options.userId,
+    options.conversationId ?? DEFAULT_CONVERSATION_ID
+  );
+  const conversationSummary = conversation?.summary ?? null;
+  const historyBudget = getHistoryTokenBudget() - (conversationSummary ? estimateTokens(conversationSummary) : 0);
+  const chatHistory = selectRecentWithinBudget(
+    await getChatHistory(options.userId, MAX_HISTORY_MESSAGES, options.conversationId),
+    Math.max(historyBudget, 0)
+  );
+  console.log('[buildChatContext] History messages in budget:', chatHistory.length, 'summary:', !!conversationSummary);
 
-    // Search for similar context items
-    const contextItems = searchSimilar(queryEmbedding, {
-      topK: 6,
-      userId: options.userId,
-    });
+  // Create embedding for the user's message
+  console.log('[buildChatContext] Creating embedding...');
+  let queryEmbedding: number[];
+  try {
+    [queryEmbedding] = await llm.embed([options.message]);
+    console.log('[buildChatContext] Embedding created, dimension:', queryEmbedding.length);
+  } catch (error: any) {
+    console.error('[buildChatContext] Embedding error:', error?.message);
+    throw new Error(`Failed to create embedding: ${error?.message}`);
+  }
 
-    // Build context text
-    const contextText = contextItems
-      .map(
-        (item, i) =>
-          `# Context ${i + 1} (source: ${item.metadata.source})\n${item.text}`
-      )
-      .join('\n\n');
-
-    // Define system prompt
-    const checkInsCount = recentEntries.length;
-    const systemPrompt = `
+  // Hybrid (vector + keyword) search; results below the similarity cutoff are dropped
+  const searchResults = searchHybrid(options.message, queryEmbedding, {
+    topK: 6,
+    userId: options.userId,
+  });
+  const contextItems = searchResults.map((result) => result.item);
+  console.log('[buildChatContext] Context items:', searchResults.map((r) => `${r.item.id} (${r.score.toFixed(3)})`).join(', '));
+
+  // Build context text
+  const contextText = contextItems.length > 0
+    ? contextItems
+        .map((item, i) => {
+          const label = [item.metadata.source, item.metadata.title, item.metadata.section]
+            .filter(Boolean)
+            .join(' / ');
+          return `# Context ${i + 1} (source: ${label})\n${item.text}`;
+        })
+        .join('\n\n')
+    : 'No relevant knowledge found.';
+
+  // Define system prompt
+  const checkInsCount = recentEntries.length;
+  const systemPrompt = `
 ${SYSTEM_PROMPT}
 
 You have access to the user's comprehensive health data:
 - Biological age data (chronological age, biological age, aging debt, streaks)
 - Recent daily check-ins with scores, metrics, and trends (${checkInsCount} recent entries)
-- Previous conversation history for context
+- Patterns found across their whole check-in history
+- A running summary of this conversation plus its most recent messages
 
 Guidelines:
 - Reference specific daily check-in data when relevant (e.g., "I see you had ${checkInsCount} check-ins recently...")
 - Mention trends in their data (e.g., "Your biological age has improved by X years since baseline")
-- Use conversation history to maintain context and avoid repeating information
+- Use the history patterns to explain what is driving their aging; they are associations, not proven causes
+- Use the conversation summary and history to remember the user's goals and avoid repeating information
 - Be specific about their metrics (sleep hours, steps, exercise, stress levels)
 - If data is missing, acknowledge it and ask for more information
 - Reference previous conversations when relevant to show continuity
+- Answer in ${LOCALE_NAMES[options.locale]}, the user's app language, unless they write to you in another language
+${buildSafetyPrompt(options.safety)}
 `.trim();
 
-    // Build user content with all context
-    const userContent = `
+  // Build user content with all context
+  const userContent = `
 BIOLOGICAL AGE STATE:
 ${ageSummary}
 
 DAILY CHECK-INS:
 ${dailyCheckInsSummary}
 
-${conversationContext ? `CONVERSATION HISTORY:\n${conversationContext}\n\n` : ''}RAG CONTEXT (Knowledge Base):
+HISTORY PATTERNS:
+${insightsSummary}
+
+${conversationSummary ? `CONVERSATION SUMMARY (earlier in this conversation):\n${conversationSummary}\n\n` : ''}RAG CONTEXT (Knowledge Base):
 ${contextText}
 
 CURRENT USER QUESTION:
 ${options.message}
 `.trim();
 
-    // Build messages array with conversation history
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-      { role: 'system', content: systemPrompt },
-    ];
-    
-    // Add chat history (last 10 messages) to maintain conversation context
-    if (chatHistory.length > 0) {
-      chatHistory.forEach((msg) => {
-        messages.push({
-          role: msg.role,
-          content: msg.content,
-        });
+  // Build messages array with conversation history
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+  ];
+  
+  // Add recent chat history (within the token budget) to maintain conversation context
+  if (chatHistory.length > 0) {
+    chatHistory.forEach((msg) => {
+      messages.push({
+        role: msg.role,
+        content: msg.content,
       });
+    });
+  }
+  
+  // Add current user message
+  messages.push({ role: 'user', content: userContent });
+
+  console.log('[buildChatContext] System prompt length:', systemPrompt.length);
+  console.log('[buildChatContext] User content length:', userContent.length);
+
+  return { messages, contextItems };
+}
+
+/**
+ * Save a completed (or aborted) turn to chat history, log its moderation outcome and ingest it for RAG.
+ * Failures are logged but never thrown - persistence must not break chat.
+ */
+async function persistChatTurn(
+  userId: string,
+  conversationId: string | undefined,
+  message: string,
+  answer: string,
+  options: { ingest: boolean; moderation: { input: InputScreening; output: OutputScreening } }
+): Promise<void> {
+  // Save conversation to history
+  let userMessageId: string | null = null;
+  let answerMessageId: string | null = null;
+  try {
+    userMessageId = await saveChatMessage(userId, 'user', message, conversationId);
+    if (answer.length > 0) {
+      answerMessageId = await saveChatMessage(userId, 'assistant', answer, conversationId);
     }
-    
-    // Add current user message
-    messages.push({ role: 'user', content: userContent });
+    console.log('[longevityChat] Conversation saved to history');
+  } catch (error: any) {
+    console.error('[longevityChat] Failed to save conversation:', error?.message);
+  }
+
+  const { input, output } = options.moderation;
+  const logConversationId = conversationId ?? DEFAULT_CONVERSATION_ID;
+  await recordModeration({
+    userId,
+    conversationId: logConversationId,
+    messageId: userMessageId,
+    direction: 'input',
+    flags: input.flags,
+    violations: [],
+    action: input.action,
+  });
+  await recordModeration({
+    userId,
+    conversationId: logConversationId,
+    messageId: answerMessageId,
+    direction: 'output',
+    flags: input.flags,
+    violations: output.violations,
+    action: output.action,
+  });
+
+  // Runs in the background so the summary call does not delay the response
+  void scheduleSummaryUpdate(userId, conversationId ?? DEFAULT_CONVERSATION_ID, { message, answer });
+
+  if (!options.ingest) return;
+
+  // Ingest the user log for RAG
+  try {
+    const messageIds = [userMessageId, answerMessageId].filter((id): id is string => id !== null);
+    await ingestUserLog(userId, `User asked: ${message}\nAI answered: ${answer}`, { conversationId, messageIds });
+    console.log('[longevityChat] User log ingested');
+  } catch (error: any) {
+    console.error('[longevityChat] Failed to ingest user log:', error?.message);
+  }
+}
 
-    // Call OpenAI chat completions
-    console.log('[longevityChat] Calling OpenAI chat completions...');
-    console.log('[longevityChat] System prompt length:', systemPrompt.length);
+export async function longevityChat(options: {
+  userId: string;
+  message: string;
+  conversationId?: string;
+  locale?: Locale;
+}): Promise<{ answer: string; contextItems: any[]; moderation: ChatModeration }> {
+  console.log('[longevityChat] Starting chat for userId:', options.userId);
+  console.log('[longevityChat] Message:', options.message);
+  
+  try {
+    const locale = options.locale ?? DEFAULT_LOCALE;
+    const safety = screenInput(options.message, locale);
+    if (safety.flags.length > 0) {
+      console.log('[longevityChat] Red flags:', safety.flags.join(', '), 'action:', safety.action);
+    }
+
+    // Crisis messages get resources only; the model is not asked to coach
+    if (safety.cannedAnswer !== null) {
+      const output = screenOutput('', safety);
+      await persistChatTurn(options.userId, options.conversationId, options.message, output.answer, {
+        ingest: false,
+        moderation: { input: safety, output },
+      });
+      return { answer: output.answer, contextItems: [], moderation: summarizeModeration(safety, output) };
+    }
+
+    const { messages, contextItems } = await buildChatContext({ ...options, safety, locale });
+
+    // Call the configured LLM provider
+    console.log('[longevityChat] Calling LLM provider:', llm.name);
     console.log('[longevityChat] Total messages:', messages.length);
-    console.log('[longevityChat] User content length:', userContent.length);
     
-    let completion;
+    let completion: string | null;
     try {
-      completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: messages,
-      });
-      console.log('[longevityChat] OpenAI response received');
+      completion = await llm.complete({ messages });
+      console.log('[longevityChat] LLM response received');
     } catch (error: any) {
-      console.error('[longevityChat] OpenAI API error:', error?.message);
-      console.error('[longevityChat] OpenAI error type:', error?.constructor?.name);
-      console.error('[longevityChat] OpenAI error code:', error?.code);
-      throw new Error(`OpenAI API error: ${error?.message || 'Unknown error'}`);
+      console.error('[longevityChat] LLM API error:', error?.message);
+      console.error('[longevityChat] LLM error type:', error?.constructor?.name);
+      console.error('[longevityChat] LLM error code:', error?.code);
+      throw new Error(`LLM API error: ${error?.message || 'Unknown error'}`);
     }
 
     // Safely extract answer
-    const answer =
-      completion.choices[0]?.message?.content ?? 'No response generated.';
+    const rawAnswer = completion ?? 'No response generated.';
     
-    console.log('[longevityChat] Answer extracted, length:', answer.length);
+    console.log('[longevityChat] Answer extracted, length:', rawAnswer.length);
     
-    if (answer === 'No response generated.') {
-      console.warn('[longevityChat] WARNING: No response from OpenAI');
-      console.warn('[longevityChat] Completion object:', JSON.stringify(completion, null, 2));
+    if (rawAnswer === 'No response generated.') {
+      console.warn('[longevityChat] WARNING: No response from LLM provider:', llm.name);
     }
 
-    // Save conversation to history
-    try {
-      await saveChatMessage(options.userId, 'user', options.message);
-      await saveChatMessage(options.userId, 'assistant', answer);
-      console.log('[longevityChat] Conversation saved to history');
-    } catch (error: any) {
-      console.error('[longevityChat] Failed to save conversation:', error?.message);
-      // Don't throw - history save failure shouldn't break chat
+    const output = screenOutput(rawAnswer, safety);
+    if (output.action === 'block') {
+      console.warn('[longevityChat] Answer blocked:', output.violations.join(', '));
     }
 
-    // Ingest the user log for RAG
-    try {
-      await ingestUserLog(
-        options.userId,
-        `User asked: ${options.message}\nAI answered: ${answer}`
-      );
-      console.log('[longevityChat] User log ingested');
-    } catch (error: any) {
-      console.error('[longevityChat] Failed to ingest user log:', error?.message);
-      // Don't throw - log ingestion failure shouldn't break chat
-    }
+    // Escalated turns are kept out of RAG memory
+    await persistChatTurn(options.userId, options.conversationId, options.message, output.answer, {
+      ingest: safety.action !== 'escalate',
+      moderation: { input: safety, output },
+    });
 
     console.log('[longevityChat] Returning result');
-    return { answer, contextItems };
+    return { answer: output.answer, contextItems, moderation: summarizeModeration(safety, output) };
   } catch (error: any) {
     console.error('[longevityChat] Unexpected error:', error);
     console.error('[longevityChat] Error stack:', error?.stack);
@@ -237,3 +360,94 @@ ${options.message}
   }
 }
 
+
+/**
+ * Streaming variant of longevityChat.
+ * Calls onContext with the retrieved context item ids before the completion starts,
+ * then onDelta for every token delta. The final assistant message is persisted when
+ * the stream completes, or with the partial answer when the signal aborts it.
+ *
+ * Nothing reaches onDelta unscreened. Red-flagged messages are not streamed token by token:
+ * the answer is screened first and sent as a single delta. Unflagged answers are released one
+ * complete sentence at a time once the text so far passes the output screen; on a violation
+ * the stream stops and the blocked answer is sent instead of the rest.
+ */
+export async function longevityChatStream(options: {
+  userId: string;
+  message: string;
+  conversationId?: string;
+  locale?: Locale;
+  signal?: AbortSignal;
+  onContext: (contextItemIds: string[]) => void;
+  onDelta: (delta: string) => void;
+}): Promise<{ answer: string; aborted: boolean; moderation: ChatModeration }> {
+  console.log('[longevityChatStream] Starting chat for userId:', options.userId);
+
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const safety = screenInput(options.message, locale);
+  if (safety.cannedAnswer !== null) {
+    options.onContext([]);
+    const output = screenOutput('', safety);
+    options.onDelta(output.answer);
+    await persistChatTurn(options.userId, options.conversationId, options.message, output.answer, {
+      ingest: false,
+      moderation: { input: safety, output },
+    });
+    return { answer: output.answer, aborted: false, moderation: summarizeModeration(safety, output) };
+  }
+
+  const { messages, contextItems } = await buildChatContext({ ...options, safety, locale });
+  options.onContext(contextItems.map((item) => item.id));
+
+  const buffered = safety.flags.length > 0;
+  let answer = '';
+  let released = 0; // answer.slice(0, released) has been screened and sent
+  let aborted = false;
+  try {
+    for await (const delta of llm.streamComplete({ messages, signal: options.signal })) {
+      answer += delta;
+      if (buffered) continue;
+      const end = completeSentencesLength(answer);
+      if (end <= released) continue;
+      if (detectOutputViolations(answer.slice(0, end), safety.flags).length > 0) {
+        break;
+      }
+      options.onDelta(answer.slice(released, end));
+      released = end;
+    }
+  } catch (error: any) {
+    // Aborting the signal makes the provider throw; that is a normal end of stream
+    if (!options.signal?.aborted) {
+      console.error('[longevityChatStream] LLM API error:', error?.message);
+      throw new Error(`LLM API error: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  if (options.signal?.aborted) {
+    aborted = true;
+    console.log('[longevityChatStream] Stream aborted by client, answer length:', answer.length);
+  } else {
+    console.log('[longevityChatStream] Stream completed, answer length:', answer.length);
+  }
+
+  const output = screenOutput(answer, safety);
+  if (output.action === 'block') {
+    console.warn('[longevityChatStream] Answer blocked:', output.violations.join(', '));
+  }
+  if (!aborted) {
+    if (buffered || output.action === 'block') {
+      options.onDelta(output.answer);
+    } else if (output.answer.length > released) {
+      options.onDelta(output.answer.slice(released));
+    }
+  }
+
+  // Partial answers are kept in history but not ingested as knowledge; neither are escalated turns
+  const savedAnswer = aborted && answer.length === 0 ? '' : output.answer;
+  await persistChatTurn(options.userId, options.conversationId, options.message, savedAnswer, {
+    ingest: !aborted && safety.action !== 'escalate',
+    moderation: { input: safety, output },
+  });
+
+  return { answer: savedAnswer, aborted, moderation: summarizeModeration(safety, output) };
+}
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for markdown chunking and hybrid retrieval
+ * Run with: npx ts-node src/rag/chunking.test.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.LLM_PROVIDER = 'stub';
+process.env.VECTOR_STORE_PATH = path.join(os.tmpdir(), `vector-store-test-${process.pid}.json`);
+
+import { chunkMarkdown, parseFrontMatter } from './chunking';
+import { addToStore, flushStore, searchHybrid } from './vectorStore';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+// Test 1: Front matter parsing
+function testFrontMatter() {
+  console.log('\n=== Test 1: Front matter ===');
+
+  const { attributes, body } = parseFrontMatter(
+    '---\ntitle: "Sleep Basics"\ntags: [sleep, circadian]\nlevel: beginner\n---\n# Heading\nText'
+  );
+  assert(attributes.title === 'Sleep Basics', 'Title is parsed without quotes');
+  assert(attributes.tags?.join(',') === 'sleep,circadian', 'Inline tag list is parsed');
+  assert(body.startsWith('# Heading'), 'Body excludes the front matter block');
+
+  const listStyle = parseFrontMatter('---\ntags:\n  - sleep\n  - stress\n---\nBody');
+  assert(listStyle.attributes.tags?.join(',') === 'sleep,stress', 'Block tag list is parsed');
+
+  const none = parseFrontMatter('# No front matter');
+  assert(Object.keys(none.attributes).length === 0 && none.body === '# No front matter', 'Missing front matter is a no-op');
+}
+
+// Test 2: Heading-aware chunking
+function testHeadingChunks() {
+  console.log('\n=== Test 2: Heading-aware chunking ===');
+
+  const chunks = chunkMarkdown(
+    '# Sleep\nIntro text.\n\n## Light\nMorning light helps.\n\n### Screens\nAvoid screens.\n\n## Caffeine\nNo late coffee.'
+  );
+  assert(chunks.length === 4, 'One chunk per non-empty section');
+  assert(chunks[2].section === 'Sleep > Light > Screens', 'Section path follows heading levels');
+  assert(chunks[3].section === 'Sleep > Caffeine', 'Deeper headings are popped on a shallower heading');
+  assert(chunks[3].text.startsWith('Sleep > Caffeine\n\n'), 'Chunk text starts with its section path');
+  assert(chunks.map((c) => c.index).join(',') === '0,1,2,3', 'Chunks are indexed in order');
+
+  const code = chunkMarkdown('# Code\n```\n# not a heading\n```');
+  assert(code.length === 1 && code[0].text.includes('# not a heading'), 'Headings inside code blocks are ignored');
+}
+
+// Test 3: Long sections are windowed with overlap
+function testOverlap() {
+  console.log('\n=== Test 3: Overlapping windows ===');
+
+  const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i} ${'word '.repeat(20)}`.trim());
+  const chunks = chunkMarkdown(`# Long\n${paragraphs.join('\n\n')}`, { maxChars: 400, overlapChars: 80 });
+
+  assert(chunks.length > 1, 'Long section is split');
+  assert(chunks.every((c) => c.text.length <= 400), 'Chunks respect maxChars');
+  assert(chunks.every((c) => c.section === 'Long'), 'Split chunks keep their section');
+
+  const firstBody = chunks[0].text.replace('Long\n\n', '');
+  const secondBody = chunks[1].text.replace('Long\n\n', '');
+  const tail = firstBody.slice(-40);
+  assert(secondBody.includes(tail.trim().slice(-20)), 'Consecutive chunks overlap');
+  assert(paragraphs.every((p) => chunks.some((c) => c.text.includes(p))), 'No paragraph is lost');
+}
+
+// Test 4: Hybrid retrieval with similarity cutoff
+function testHybridSearch() {
+  console.log('\n=== Test 4: Hybrid retrieval ===');
+
+  addToStore({ id: 'k1', text: 'Caffeine after noon delays sleep onset', embedding: [0.9, 0.1, 0], metadata: { source: 'knowledge' } });
+  addToStore({ id: 'k2', text: 'Morning light anchors the circadian rhythm', embedding: [0.85, 0.15, 0], metadata: { source: 'knowledge' } });
+  addToStore({ id: 'k3', text: 'Caffeine in unrelated context', embedding: [0, 0, 1], metadata: { source: 'knowledge' } });
+  addToStore({ id: 'u1', text: 'Caffeine log', embedding: [0.9, 0.1, 0], metadata: { source: 'user_log', userId: 'other' } });
+
+  const results = searchHybrid('does caffeine hurt sleep', [1, 0, 0], { topK: 5, userId: 'me', minSimilarity: 0.3 });
+  const ids = results.map((r) => r.item.id);
+
+  assert(ids[0] === 'k1', 'Keyword match breaks the tie between similar vectors');
+  assert(ids.includes('k2'), 'Semantically similar item without keywords is returned');
+  assert(!ids.includes('k3'), 'Keyword-only match below the similarity cutoff is dropped');
+  assert(!ids.includes('u1'), "Other users' logs are excluded");
+  assert(results.every((r) => r.keywordScore >= 0 && r.keywordScore <= 1), 'Keyword scores are normalized');
+
+  process.env.RAG_MIN_SIMILARITY = '0';
+  process.env.RAG_VECTOR_WEIGHT = '0';
+  const keywordOnly = searchHybrid('does caffeine hurt sleep', [1, 0, 0], { topK: 5, userId: 'me' });
+  delete process.env.RAG_MIN_SIMILARITY;
+  delete process.env.RAG_VECTOR_WEIGHT;
+  assert(keywordOnly.some((r) => r.item.id === 'k3'), 'RAG_MIN_SIMILARITY=0 turns the similarity cutoff off');
+  assert(keywordOnly.every((r) => r.score === r.keywordScore), 'RAG_VECTOR_WEIGHT=0 ranks by keywords only');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Chunking & Retrieval Tests\n');
+
+  try {
+    testFrontMatter();
+    testHeadingChunks();
+    testOverlap();
+    testHybridSearch();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  } finally {
+    await flushStore();
+    fs.rmSync(process.env.VECTOR_STORE_PATH!, { force: true });
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,172 @@
+/**
+ * Markdown chunking for knowledge ingestion
+ * Splits documents along headings so each chunk stays within one section,
+ * and windows long sections with overlap so no paragraph loses its context.
+ */
+
+export interface FrontMatter {
+  title?: string;
+  tags?: string[];
+  [key: string]: string | string[] | undefined;
+}
+
+export interface MarkdownChunk {
+  index: number;
+  text: string;
+  section: string | null; // Heading path, e.g. "Sleep Basics > Circadian Rhythm & Light"
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+function parseFrontMatterValue(raw: string): string | string[] {
+  const value = raw.trim();
+  // Inline list: [a, b, "c"]
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map((v) => v.trim().replace(/^["']|["']$/g, ''))
+      .filter((v) => v.length > 0);
+  }
+  return value.replace(/^["']|["']$/g, '');
+}
+
+/**
+ * Parse a simple YAML front matter block (key: value, inline lists and "- item" lists).
+ * Returns the attributes and the document body without the block.
+ */
+export function parseFrontMatter(content: string): { attributes: FrontMatter; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: content };
+  }
+
+  const attributes: Record<string, string | string[]> = {};
+  let currentListKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s*-\s+(.+)$/);
+    if (listItem && currentListKey) {
+      const list = attributes[currentListKey];
+      const value = String(parseFrontMatterValue(listItem[1]));
+      attributes[currentListKey] = Array.isArray(list) ? [...list, value] : [value];
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === '') {
+      currentListKey = key;
+      attributes[key] = [];
+    } else {
+      currentListKey = null;
+      attributes[key] = parseFrontMatterValue(rawValue);
+    }
+  }
+
+  // Normalize tags to an array ("tags: sleep, recovery" is common) and title to a string
+  const { tags, title } = attributes;
+  const frontMatter: FrontMatter = {
+    ...attributes,
+    title: Array.isArray(title) ? title.join(' ') : title,
+    tags: typeof tags === 'string'
+      ? tags.split(',').map((t) => t.trim()).filter((t) => t.length > 0)
+      : tags,
+  };
+
+  return { attributes: frontMatter, body: content.slice(match[0].length) };
+}
+
+/**
+ * Split an oversized section into windows of at most maxChars, preferring paragraph
+ * and line boundaries. Each window after the first starts with the tail of the previous one.
+ */
+function windowText(text: string, maxChars: number, overlapChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const windows: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      // Break at the last paragraph, line or sentence boundary in the second half of the window
+      const slice = text.slice(start, end);
+      const minBreak = Math.floor(maxChars / 2);
+      const breakAt = Math.max(
+        slice.lastIndexOf('\n\n'),
+        slice.lastIndexOf('\n'),
+        slice.lastIndexOf('. ')
+      );
+      if (breakAt >= minBreak) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    windows.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+
+    // Overlap must be smaller than the step or the loop would not advance
+    start = Math.max(end - Math.min(overlapChars, Math.floor((end - start) / 2)), start + 1);
+  }
+
+  return windows.filter((w) => w.length > 0);
+}
+
+/**
+ * Heading-aware markdown chunking.
+ * Each chunk belongs to a single section and starts with its heading path,
+ * so the embedding carries the section context even when the section is split.
+ */
+export function chunkMarkdown(body: string, options?: ChunkOptions): MarkdownChunk[] {
+  const maxChars = options?.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = options?.overlapChars ?? DEFAULT_OVERLAP_CHARS;
+
+  const sections: Array<{ path: string[]; lines: string[] }> = [];
+  const headingStack: string[] = [];
+  let current: { path: string[]; lines: string[] } = { path: [], lines: [] };
+  let inCodeBlock = false;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : line.match(HEADING_RE);
+    if (heading) {
+      sections.push(current);
+      const level = heading[1].length;
+      headingStack.length = Math.min(headingStack.length, level - 1);
+      headingStack[level - 1] = heading[2];
+      current = { path: headingStack.filter((h) => h !== undefined), lines: [] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  sections.push(current);
+
+  const chunks: MarkdownChunk[] = [];
+  for (const section of sections) {
+    const content = section.lines.join('\n').trim();
+    if (!content) continue;
+
+    const sectionPath = section.path.length > 0 ? section.path.join(' > ') : null;
+    const header = sectionPath ? `${sectionPath}\n\n` : '';
+    const budget = Math.max(maxChars - header.length, Math.floor(maxChars / 2));
+
+    for (const window of windowText(content, budget, overlapChars)) {
+      chunks.push({ index: chunks.length, text: `${header}${window}`, section: sectionPath });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,117 @@
+/**
+ * Long-term conversation memory
+ * Maintains a rolling summary per conversation (updated after every exchange) and
+ * selects as many recent turns as fit in the prompt's token budget.
+ */
+
+import { llm } from '../config/llm';
+import { storage } from '../config/storage';
+
+// Rough heuristic for English/Turkish text; good enough for budgeting, not billing
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+const MAX_SUMMARY_CHARS = 2000;
+
+const SUMMARY_PROMPT = `
+You maintain a running summary of a conversation between a user and their longevity coach.
+
+Rules:
+- Keep the user's goals, commitments, preferences, constraints, health context and open questions.
+- Drop small talk and advice that was only given once and not acted on.
+- Write in the third person ("The user ..."), as short bullet points, under 200 words.
+- Return only the updated summary.
+`.trim();
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Token budget shared by the summary and the recent turns (CHAT_HISTORY_TOKEN_BUDGET).
+ */
+export function getHistoryTokenBudget(): number {
+  const budget = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+/**
+ * Newest-first selection of messages that fit in the budget, returned chronologically.
+ * Stops at the first message that does not fit so the kept turns stay contiguous.
+ */
+export function selectRecentWithinBudget<T extends { content: string }>(messages: T[], budgetTokens: number): T[] {
+  const selected: T[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (used + cost > budgetTokens) break;
+    selected.unshift(messages[i]);
+    used += cost;
+  }
+  return selected;
+}
+
+/**
+ * Fold one exchange into the conversation's summary and persist it.
+ */
+export async function updateConversationSummary(
+  userId: string,
+  conversationId: string,
+  exchange: { message: string; answer: string }
+): Promise<string | null> {
+  const conversation = await storage.conversations.get(userId, conversationId);
+  if (!conversation) return null;
+
+  const summary = await llm.complete({
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `CURRENT SUMMARY:\n${conversation.summary ?? '(none yet)'}\n\nNEW EXCHANGE:\nUser: ${exchange.message}\nCoach: ${exchange.answer || '(no answer)'}`,
+      },
+    ],
+    temperature: 0,
+  });
+  if (!summary) return conversation.summary;
+
+  const trimmed = summary.trim().slice(0, MAX_SUMMARY_CHARS);
+  await storage.conversations.setSummary(userId, conversationId, trimmed);
+  return trimmed;
+}
+
+// Updates for the same conversation run one after another so none is lost
+const pendingUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Queue a summary update without blocking the chat response. Failures are logged only.
+ */
+export function scheduleSummaryUpdate(
+  userId: string,
+  conversationId: string,
+  exchange: { message: string; answer: string }
+): Promise<void> {
+  const key = `${userId}/${conversationId}`;
+  const previous = pendingUpdates.get(key) ?? Promise.resolve();
+  const next = previous
+    .then(async () => {
+      await updateConversationSummary(userId, conversationId, exchange);
+    })
+    .catch((error: any) => {
+      console.error('[conversationMemory] Failed to update summary:', error?.message);
+    })
+    .finally(() => {
+      if (pendingUpdates.get(key) === next) {
+        pendingUpdates.delete(key);
+      }
+    });
+  pendingUpdates.set(key, next);
+  return next;
+}
+
+/**
+ * Resolves once all queued summary updates have finished.
+ */
+export async function whenSummariesSettled(): Promise<void> {
+  while (pendingUpdates.size > 0) {
+    await Promise.all(pendingUpdates.values());
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Coach conversation management
+ * Threads, cursor-paged history, deletion and export on top of the chat history repository.
+ */
+
+import { storage } from '../config/storage';
+import { ChatMessageRecord, ConversationRecord, DEFAULT_CONVERSATION_ID } from '../storage/repository';
+import { deleteWhere } from './vectorStore';
+
+export { DEFAULT_CONVERSATION_ID };
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+const MAX_TITLE_LENGTH = 120;
+
+export interface ConversationExport {
+  conversation: ConversationRecord;
+  messages: Array<Pick<ChatMessageRecord, 'id' | 'role' | 'content' | 'createdAt'>>;
+  exportedAt: string;
+}
+
+/**
+ * Normalize a user-supplied title. Throws 'Invalid title' for non-strings.
+ */
+export function normalizeConversationTitle(title: unknown): string | null {
+  if (title === undefined || title === null) return null;
+  if (typeof title !== 'string') {
+    throw new Error('Invalid title');
+  }
+  const trimmed = title.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+/**
+ * The default conversation always exists, even before its first message
+ * (users who chatted before threads were introduced have no record for it).
+ */
+function defaultConversation(userId: string, latestMessage?: ChatMessageRecord): ConversationRecord {
+  const at = latestMessage?.createdAt ?? new Date().toISOString();
+  return {
+    id: DEFAULT_CONVERSATION_ID,
+    userId,
+    title: null,
+    createdAt: at,
+    updatedAt: at,
+    lastMessageAt: latestMessage?.createdAt ?? null,
+    summary: null,
+    summaryUpdatedAt: null,
+  };
+}
+
+export async function getConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationRecord | null> {
+  const conversation = await storage.conversations.get(userId, conversationId);
+  if (conversation || conversationId !== DEFAULT_CONVERSATION_ID) {
+    return conversation;
+  }
+  const [latest] = await storage.chatHistory.listRecent(userId, 1, DEFAULT_CONVERSATION_ID);
+  return defaultConversation(userId, latest);
+}
+
+/**
+ * All conversations, most recent first. Includes the default conversation
+ * if it has messages but no record yet.
+ */
+export async function listConversations(userId: string): Promise<ConversationRecord[]> {
+  const conversations = await storage.conversations.list(userId);
+  if (conversations.some((c) => c.id === DEFAULT_CONVERSATION_ID)) {
+    return conversations;
+  }
+
+  const [latest] = await storage.chatHistory.listRecent(userId, 1, DEFAULT_CONVERSATION_ID);
+  if (!latest) {
+    return conversations;
+  }
+  return [...conversations, defaultConversation(userId, latest)].sort((a, b) =>
+    (b.lastMessageAt ?? b.createdAt).localeCompare(a.lastMessageAt ?? a.createdAt)
+  );
+}
+
+export async function createConversation(userId: string, title: string | null): Promise<ConversationRecord> {
+  return storage.conversations.create(userId, { title });
+}
+
+/**
+ * One page of messages, chronological within the page.
+ * Pass the returned nextCursor as `before` to load older messages.
+ * Throws 'Invalid cursor' if the cursor does not belong to the conversation.
+ */
+export async function getConversationMessages(
+  userId: string,
+  conversationId: string,
+  options: { limit?: number; before?: string }
+): Promise<{ messages: ChatMessageRecord[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  return storage.chatHistory.listPage(userId, conversationId, { limit, before: options.before });
+}
+
+/**
+ * Delete a single message and the RAG logs derived from it. The rolling summary is cleared
+ * as well, since it may still mention the deleted content; it is rebuilt from the following
+ * exchanges.
+ */
+export async function deleteChatMessage(
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<boolean> {
+  const deleted = await storage.chatHistory.delete(userId, conversationId, messageId);
+  if (deleted) {
+    await storage.conversations.setSummary(userId, conversationId, null);
+    deleteWhere(
+      (item) =>
+        item.metadata.source === 'user_log' &&
+        item.metadata.userId === userId &&
+        !!item.metadata.messageIds?.includes(messageId)
+    );
+  }
+  return deleted;
+}
+
+/**
+ * Delete a conversation with its messages and the RAG logs derived from it.
+ * Deleting the default conversation clears its messages.
+ */
+export async function deleteConversation(
+  userId: string,
+  conversationId: string
+): Promise<{ deletedMessages: number }> {
+  const deletedMessages = await storage.chatHistory.deleteAll(userId, conversationId);
+  await storage.conversations.delete(userId, conversationId);
+  deleteWhere(
+    (item) =>
+      item.metadata.source === 'user_log' &&
+      item.metadata.userId === userId &&
+      item.metadata.conversationId === conversationId
+  );
+  return { deletedMessages };
+}
+
+/**
+ * Clear all coach history: every conversation, its messages and all of the user's
+ * RAG logs (including logs ingested before threads existed).
+ */
+export async function deleteAllConversations(
+  userId: string
+): Promise<{ deletedConversations: number; deletedMessages: number }> {
+  const conversations = await listConversations(userId);
+  let deletedMessages = 0;
+  for (const conversation of conversations) {
+    deletedMessages += (await deleteConversation(userId, conversation.id)).deletedMessages;
+  }
+  // Default conversation may have messages even if it was not listed
+  deletedMessages += await storage.chatHistory.deleteAll(userId, DEFAULT_CONVERSATION_ID);
+  deleteWhere((item) => item.metadata.source === 'user_log' && item.metadata.userId === userId);
+
+  return { deletedConversations: conversations.length, deletedMessages };
+}
+
+export async function exportConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationExport | null> {
+  const conversation = await getConversation(userId, conversationId);
+  if (!conversation) return null;
+
+  const messages = await storage.chatHistory.listAll(userId, conversationId);
+  return {
+    conversation,
+    messages: messages.map(({ id, role, content, createdAt }) => ({ id, role, content, createdAt })),
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Render an export as Markdown for sharing.
+ */
+export function conversationExportToMarkdown(data: ConversationExport): string {
+  const title = data.conversation.title ?? 'Coach conversation';
+  const lines = [`# ${title}`, '', `Exported: ${data.exportedAt}`, ''];
+  for (const message of data.messages) {
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Coach'} (${message.createdAt})`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
@@ -1,66 +1,151 @@
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
-import { openai } from '../config/openai';
-import { addToStore } from './vectorStore';
+import { llm } from '../config/llm';
+import { addToStore, deleteWhere, getItem } from './vectorStore';
+import { chunkMarkdown, parseFrontMatter } from './chunking';
 import { VectorItem } from '../types';
 
-async function embedText(text: string): Promise<number[]> {
-  const resp = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text,
-  });
-  return resp.data[0].embedding;
+// Chunks embedded per API request
+const EMBEDDING_BATCH_SIZE = 64;
+// Longest log accepted from POST /api/ingest-log
+export const MAX_USER_LOG_LENGTH = 2000;
+
+async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...(await llm.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE))));
+  }
+  return embeddings;
+}
+
+export function hashContent(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
 }
 
-export async function ingestKnowledgeDir(): Promise<void> {
+const knowledgeChunkId = (fileName: string, index: number) => `knowledge:${fileName}#${index}`;
+
+/**
+ * Chunk one knowledge file and upsert its chunks.
+ * Chunks whose text hash is unchanged keep their embedding (metadata is still refreshed),
+ * and chunks beyond the new chunk count are removed.
+ */
+async function ingestKnowledgeFile(
+  fileName: string,
+  content: string
+): Promise<{ embedded: number; skipped: number }> {
+  const { attributes, body } = parseFrontMatter(content);
+  const chunks = chunkMarkdown(body);
+  const title = attributes.title || fileName;
+  const tags = attributes.tags;
+
+  const toEmbed = chunks.filter(
+    (chunk) => getItem(knowledgeChunkId(fileName, chunk.index))?.contentHash !== hashContent(chunk.text)
+  );
+  const embeddings = await embedTexts(toEmbed.map((chunk) => chunk.text));
+  const newEmbeddings = new Map(toEmbed.map((chunk, i) => [chunk.index, embeddings[i]]));
+
+  for (const chunk of chunks) {
+    const id = knowledgeChunkId(fileName, chunk.index);
+    const existing = getItem(id);
+    const item: VectorItem = {
+      id,
+      text: chunk.text,
+      embedding: newEmbeddings.get(chunk.index) ?? existing!.embedding,
+      contentHash: hashContent(chunk.text),
+      createdAt: newEmbeddings.has(chunk.index) ? new Date().toISOString() : existing!.createdAt,
+      metadata: {
+        source: 'knowledge',
+        title,
+        tags,
+        documentId: fileName,
+        section: chunk.section,
+        chunkIndex: chunk.index,
+      },
+    };
+    addToStore(item);
+  }
+
+  deleteWhere(
+    (item) =>
+      item.metadata.source === 'knowledge' &&
+      item.metadata.documentId === fileName &&
+      (item.metadata.chunkIndex ?? 0) >= chunks.length
+  );
+
+  return { embedded: toEmbed.length, skipped: chunks.length - toEmbed.length };
+}
+
+/**
+ * Ingest data/knowledge into the vector store.
+ * Files are split into heading-aware chunks; unchanged chunks are not re-embedded,
+ * and chunks of files that no longer exist are removed.
+ */
+export async function ingestKnowledgeDir(): Promise<{ embedded: number; skipped: number; removed: number }> {
   const dir = path.join(process.cwd(), 'data', 'knowledge');
 
   try {
     const fileNames = await fs.readdir(dir);
+    let embedded = 0;
+    let skipped = 0;
 
     for (const fileName of fileNames) {
       const filePath = path.join(dir, fileName);
-      
+
       try {
         const content = await fs.readFile(filePath, 'utf-8');
-        const embedding = await embedText(content);
-
-        const item: VectorItem = {
-          id: `knowledge:${fileName}`,
-          text: content,
-          embedding,
-          metadata: {
-            source: 'knowledge',
-            title: fileName,
-          },
-        };
-
-        addToStore(item);
+        const result = await ingestKnowledgeFile(fileName, content);
+        embedded += result.embedded;
+        skipped += result.skipped;
       } catch (error) {
         console.error(`Error processing file ${fileName}:`, error);
       }
     }
 
-    console.log(`Ingested ${fileNames.length} knowledge file(s)`);
+    // Also drops whole-file items written before chunking was introduced
+    const currentFiles = new Set(fileNames);
+    const removed = deleteWhere(
+      (item) =>
+        item.metadata.source === 'knowledge' &&
+        (!item.metadata.documentId || !currentFiles.has(item.metadata.documentId))
+    );
+
+    console.log(
+      `Ingested ${fileNames.length} knowledge file(s): ${embedded} chunk(s) embedded, ${skipped} unchanged, ${removed} removed`
+    );
+    return { embedded, skipped, removed };
   } catch (error) {
     console.error(`Error reading knowledge directory:`, error);
     throw error;
   }
 }
 
-export async function ingestUserLog(userId: string, logText: string): Promise<void> {
-  const embedding = await embedText(logText);
+/**
+ * Embed and store a user log. Returns the vector item id.
+ * Logs derived from chat carry their conversationId and messageIds so they can be removed
+ * with the thread or with one of its messages.
+ */
+export async function ingestUserLog(
+  userId: string,
+  logText: string,
+  options?: { conversationId?: string; messageIds?: string[] }
+): Promise<string> {
+  const [embedding] = await llm.embed([logText]);
 
   const item: VectorItem = {
-    id: `userlog:${userId}:${Date.now()}`,
+    id: `userlog:${userId}:${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
     text: logText,
     embedding,
+    contentHash: hashContent(logText),
+    createdAt: new Date().toISOString(),
     metadata: {
       source: 'user_log',
       userId,
+      conversationId: options?.conversationId,
+      messageIds: options?.messageIds,
     },
   };
 
   addToStore(item);
+  return item.id;
 }
-
@@ -1,13 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import { llm } from '../config/llm';
 import { VectorItem } from '../types';
 
-const store: VectorItem[] = [];
+/**
+ * File-backed vector store.
+ * Items are kept in memory for search and persisted as JSON to VECTOR_STORE_PATH
+ * (default: data/vector-store.json) so embeddings survive restarts.
+ */
 
+const STORE_FILE_VERSION = 1;
+
+interface StoreFile {
+  version: number;
+  embeddingModel: string;
+  items: VectorItem[];
+}
+
+const storePath = () =>
+  process.env.VECTOR_STORE_PATH || path.join(process.cwd(), 'data', 'vector-store.json');
+
+let store: Map<string, VectorItem> | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+let writeScheduled = false;
+
+function loadStore(): Map<string, VectorItem> {
+  if (store) return store;
+
+  store = new Map();
+  const filePath = storePath();
+  if (!fs.existsSync(filePath)) {
+    console.log(`[vectorStore] No store file at ${filePath}, starting empty`);
+    return store;
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StoreFile;
+    // Embeddings from another model (or file format) are not comparable; start over
+    if (file.version !== STORE_FILE_VERSION || file.embeddingModel !== llm.embeddingModel) {
+      console.warn('[vectorStore] Store file is from a different version or embedding model, discarding');
+      return store;
+    }
+    for (const item of file.items) {
+      store.set(item.id, item);
+    }
+    console.log(`[vectorStore] Loaded ${store.size} item(s) from ${filePath}`);
+  } catch (error) {
+    console.error(`[vectorStore] Failed to load ${filePath}, starting empty:`, error);
+  }
+  return store;
+}
+
+/**
+ * Schedule a write of the whole store. Writes are coalesced and serialized,
+ * and go through a temp file + rename so a crash never leaves a truncated store.
+ */
+function scheduleWrite(): void {
+  if (writeScheduled) return;
+  writeScheduled = true;
+
+  pendingWrite = pendingWrite.then(async () => {
+    writeScheduled = false;
+    const filePath = storePath();
+    const file: StoreFile = {
+      version: STORE_FILE_VERSION,
+      embeddingModel: llm.embeddingModel,
+      items: Array.from(loadStore().values()),
+    };
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(file));
+      await fs.promises.rename(tmpPath, filePath);
+    } catch (error) {
+      console.error(`[vectorStore] Failed to persist store to ${filePath}:`, error);
+    }
+  });
+}
+
+/**
+ * Resolves once all scheduled writes have reached disk.
+ */
+export function flushStore(): Promise<void> {
+  return pendingWrite;
+}
+
+/**
+ * Add an item, replacing any existing item with the same id.
+ */
 export function addToStore(item: VectorItem): void {
-  store.push(item);
+  loadStore().set(item.id, item);
+  scheduleWrite();
 }
 
 export function getStore(): VectorItem[] {
-  return store;
+  return Array.from(loadStore().values());
+}
+
+export function getItem(id: string): VectorItem | null {
+  return loadStore().get(id) ?? null;
+}
+
+/**
+ * Delete a single item by id. Returns true if it existed.
+ */
+export function deleteFromStore(id: string): boolean {
+  const deleted = loadStore().delete(id);
+  if (deleted) scheduleWrite();
+  return deleted;
+}
+
+/**
+ * Delete all items matching the predicate. Returns the number of deleted items.
+ */
+export function deleteWhere(predicate: (item: VectorItem) => boolean): number {
+  const items = loadStore();
+  let deleted = 0;
+  for (const [id, item] of items) {
+    if (predicate(item)) {
+      items.delete(id);
+      deleted++;
+    }
+  }
+  if (deleted > 0) scheduleWrite();
+  return deleted;
+}
+
+/**
+ * Delete every user log item belonging to a user.
+ */
+export function deleteByUserId(userId: string): number {
+  return deleteWhere((item) => item.metadata.source === 'user_log' && item.metadata.userId === userId);
 }
 
 function cosineSimilarity(vec1: number[], vec2: number[]): number {
@@ -35,20 +158,27 @@ function cosineSimilarity(vec1: number[], vec2: number[]): number {
   return dotProduct / (magnitude1 * magnitude2);
 }
 
+/**
+ * Items visible to a user: all knowledge plus the user's own logs.
+ */
+function itemsForUser(userId: string | null | undefined): VectorItem[] {
+  const items = getStore();
+  return userId !== undefined && userId !== null
+    ? items.filter(item =>
+        item.metadata.source === 'knowledge' ||
+        (item.metadata.source === 'user_log' && item.metadata.userId === userId)
+      )
+    : items;
+}
+
 export function searchSimilar(
   queryEmbedding: number[],
   options?: { topK?: number; userId?: string | null }
 ): VectorItem[] {
   const topK = options?.topK ?? 5;
-  const userId = options?.userId;
 
   // Filter items based on userId if provided
-  const filteredItems = userId !== undefined && userId !== null
-    ? store.filter(item => 
-        item.metadata.source === 'knowledge' ||
-        (item.metadata.source === 'user_log' && item.metadata.userId === userId)
-      )
-    : store;
+  const filteredItems = itemsForUser(options?.userId);
 
   // Compute similarity scores
   const itemsWithScores = filteredItems.map(item => ({
@@ -63,3 +193,102 @@ export function searchSimilar(
   return itemsWithScores.slice(0, topK).map(result => result.item);
 }
 
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length > 1);
+}
+
+/**
+ * BM25 keyword scores of the query against each document, computed over the given corpus.
+ */
+function bm25Scores(query: string, documents: string[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const docTokens = documents.map(tokenize);
+  const avgLength = docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of docTokens) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return docTokens.map((tokens) => {
+    const termFrequency = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequency.set(token, (termFrequency.get(token) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term) ?? 0;
+      if (tf === 0) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (tokens.length / avgLength))));
+    }
+    return score;
+  });
+}
+
+export interface HybridSearchResult {
+  item: VectorItem;
+  similarity: number; // Cosine similarity to the query embedding
+  keywordScore: number; // BM25 score normalized to 0-1 within the candidate set
+  score: number; // Weighted combination used for ranking
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.25;
+const DEFAULT_VECTOR_WEIGHT = 0.7;
+
+/**
+ * Numeric setting from the environment; 0 is a valid value, unset or unparsable falls back.
+ */
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw !== undefined && raw.trim() !== '' ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Hybrid retrieval: ranks items by a weighted mix of cosine similarity and BM25 keyword score.
+ * Items below minSimilarity (cosine) are dropped, so keyword matches alone cannot pull in
+ * unrelated paragraphs.
+ * Defaults can be tuned with RAG_MIN_SIMILARITY and RAG_VECTOR_WEIGHT.
+ */
+export function searchHybrid(
+  query: string,
+  queryEmbedding: number[],
+  options?: { topK?: number; userId?: string | null; minSimilarity?: number; vectorWeight?: number }
+): HybridSearchResult[] {
+  const topK = options?.topK ?? 5;
+  const minSimilarity = options?.minSimilarity ?? envNumber('RAG_MIN_SIMILARITY', DEFAULT_MIN_SIMILARITY);
+  const vectorWeight = options?.vectorWeight ?? envNumber('RAG_VECTOR_WEIGHT', DEFAULT_VECTOR_WEIGHT);
+
+  const candidates = itemsForUser(options?.userId);
+  const keywordScores = bm25Scores(query, candidates.map((item) => item.text));
+  const maxKeywordScore = keywordScores.reduce((max, score) => Math.max(max, score), 0);
+
+  const results: HybridSearchResult[] = candidates
+    .map((item, i) => {
+      const similarity = cosineSimilarity(queryEmbedding, item.embedding);
+      const keywordScore = maxKeywordScore > 0 ? keywordScores[i] / maxKeywordScore : 0;
+      return {
+        item,
+        similarity,
+        keywordScore,
+        score: vectorWeight * similarity + (1 - vectorWeight) * keywordScore,
+      };
+    })
+    .filter((result) => result.similarity >= minSimilarity);
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, topK);
+}
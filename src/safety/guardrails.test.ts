@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the coach safety guardrails
+ * Run with: npx ts-node src/safety/guardrails.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { completeSentencesLength, detectOutputViolations, detectRedFlags, screenInput, screenOutput } from './guardrails';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+// Test 1: Red-flag detection
+function testRedFlags() {
+  console.log('\n=== Test 1: Red-flag detection ===');
+
+  assert(detectRedFlags('I get chest pain when I run').join() === 'chest_pain', 'Chest pain is detected');
+  assert(detectRedFlags('Koşarken göğsümde ağrı oluyor').join() === 'chest_pain', 'Turkish chest pain is detected');
+  assert(detectRedFlags('Sometimes I want to die').join() === 'suicidal_ideation', 'Suicidal ideation is detected');
+  assert(detectRedFlags('Can I fast while pregnant?').join() === 'pregnancy', 'Pregnancy is detected');
+  assert(detectRedFlags('What dose of metformin should I take?').join() === 'medication_dosing', 'Dosing question is detected');
+  assert(detectRedFlags('Metformin dozunu artırabilir miyim?').join() === 'medication_dosing', 'Turkish dosing question is detected');
+  assert(detectRedFlags('How can I sleep better? I dozed off at 2am').length === 0, 'Ordinary questions are not flagged');
+}
+
+// Test 2: Input screening decides the handling
+function testInputScreening() {
+  console.log('\n=== Test 2: Input screening ===');
+
+  const crisis = screenInput('I have been thinking about suicide');
+  assert(crisis.action === 'escalate' && crisis.cannedAnswer !== null, 'Crisis messages skip the model');
+
+  const chest = screenInput('Chest pain after my workout, should I keep training?');
+  assert(chest.action === 'escalate' && chest.cannedAnswer === null, 'Chest pain escalates but still gets coaching');
+  assert(chest.promptInstructions.length === 1, 'Flag adds a prompt instruction');
+
+  const pregnancy = screenInput('I am pregnant, is running ok?');
+  assert(pregnancy.action === 'disclaimer', 'Pregnancy requires a disclaimer');
+  assert(screenInput('How do I sleep better?').action === 'allow', 'Unflagged messages are allowed');
+}
+
+// Test 3: Output screening blocks and frames answers
+function testOutputScreening() {
+  console.log('\n=== Test 3: Output screening ===');
+
+  assert(detectOutputViolations('You most likely have sleep apnea.').join() === 'diagnosis', 'Diagnosis is detected');
+  assert(detectOutputViolations('If you have heart disease, talk to your doctor.').length === 0, 'Conditional phrasing is allowed');
+  assert(detectOutputViolations('Stop taking your statins for a week.').join() === 'stop_medication', 'Stopping medication is detected');
+  assert(detectOutputViolations("Don't stop taking your medication without your doctor.").length === 0, 'Negated advice is allowed');
+  assert(detectOutputViolations('Take 500 mg of metformin with dinner.').join() === 'medication_dosing', 'Drug dose is detected');
+  assert(detectOutputViolations('Aim for 1000 IU of vitamin D.').length === 0, 'Supplement amounts are allowed without a dosing question');
+  assert(
+    detectOutputViolations('Aim for 1000 IU of vitamin D.', ['medication_dosing']).join() === 'medication_dosing',
+    'Any dose counts after a dosing question'
+  );
+
+  const chest = screenInput('I have chest pain');
+  const framed = screenOutput('Rest and see a doctor.', chest);
+  assert(framed.action === 'escalate' && framed.answer.startsWith('Chest pain'), 'Escalation notice comes first');
+  assert(framed.answer.includes('Rest and see a doctor.'), 'Coach answer is kept');
+
+  const dosing = screenInput('What dose of metformin should I take?');
+  const blocked = screenOutput('Take 500 mg twice a day.', dosing);
+  assert(blocked.action === 'block' && !blocked.answer.includes('500 mg'), 'Disallowed answer is withheld');
+  assert(blocked.answer.includes('pharmacist before starting'), 'Blocked answer keeps the mandatory disclaimer');
+
+  const turkish = screenOutput('Dinlenin.', screenInput('Göğüs ağrım var', 'tr'));
+  assert(turkish.answer.startsWith('Göğüs ağrısı') && turkish.answer.includes('112'), 'Notices follow the user locale');
+  const crisisTr = screenInput('Kendimi öldürmek istiyorum', 'tr');
+  assert(crisisTr.cannedAnswer!.includes("Türkiye'de ve AB'de 112"), 'Crisis resources are localized');
+
+  const partial = 'Walk daily. Take 2.5 mg of melat';
+  assert(partial.slice(0, completeSentencesLength(partial)) === 'Walk daily.', 'Only complete sentences are released');
+  assert(completeSentencesLength('Take 2.5 mg') === 0, 'Decimal points do not end a sentence');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Safety Guardrail Tests\n');
+
+  try {
+    testRedFlags();
+    testInputScreening();
+    testOutputScreening();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
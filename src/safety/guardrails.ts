@@ -0,0 +1,247 @@
+/**
+ * Coach safety guardrails
+ * User messages are screened for red-flag topics before the model is called (adding prompt
+ * instructions, disclaimers, escalation resources, or skipping the model entirely for crisis
+ * messages); answers are screened afterwards and withheld if they diagnose or prescribe.
+ * Every screened message gets a moderation log entry.
+ */
+
+import { storage } from '../config/storage';
+import { DEFAULT_LOCALE, Locale, MessageKey, t } from '../i18n/i18n';
+import {
+  ChatModeration,
+  InputScreening,
+  ModerationLogRecord,
+  OutputScreening,
+  OutputViolation,
+  RedFlagCategory,
+} from './safetyModel';
+
+interface RedFlagPolicy {
+  // English and Turkish phrasings; Turkish patterns avoid \b, which only knows ASCII letters
+  patterns: RegExp[];
+  action: 'disclaimer' | 'escalate';
+  // User-facing texts are catalog keys (src/i18n); prompt instructions are for the model and stay English
+  /** Skip the model and answer with this text only. */
+  cannedAnswer?: MessageKey;
+  /** Shown before the coach answer. */
+  notice?: MessageKey;
+  /** Shown after the coach answer. */
+  disclaimer?: MessageKey;
+  promptInstruction: string;
+}
+
+/**
+ * Policies in priority order (crisis first).
+ */
+const RED_FLAG_POLICIES: Record<RedFlagCategory, RedFlagPolicy> = {
+  suicidal_ideation: {
+    patterns: [
+      /\bsuicid(e|al)\b/i,
+      /\b(kill|killing|hurt|hurting|harm|harming) myself\b/i,
+      /\bself[- ]harm/i,
+      /\b(end|ending|take|taking) my (own )?life\b/i,
+      /\b(want|wanted|wish) to (die|be dead)\b/i,
+      /\bno reason to (live|go on)\b/i,
+      /intihar/i,
+      /kendimi öldür/i,
+      /ölmek istiyorum/i,
+      /yaşamak istemiyorum/i,
+    ],
+    action: 'escalate',
+    cannedAnswer: 'safety.suicidal_ideation.answer',
+    promptInstruction: 'The user may be in crisis. Do not coach; direct them to crisis resources.',
+  },
+  chest_pain: {
+    patterns: [
+      /\bchest (pain|pains|tightness|pressure|discomfort)\b/i,
+      /\b(pain|pressure|tightness) in (my|the) chest\b/i,
+      /\bheart attack\b/i,
+      /göğs?(ü|üm|ümde|ümdeki|üs) (ağrı|sıkış|bask)/i,
+      /göğüs ağrı/i,
+      /kalp krizi/i,
+    ],
+    action: 'escalate',
+    notice: 'safety.chest_pain.notice',
+    promptInstruction:
+      'The user mentioned chest pain. Do not speculate about causes or suggest exercise through it; tell them to get ' +
+      'urgent medical care if symptoms are current and to see a doctor before resuming training otherwise.',
+  },
+  pregnancy: {
+    patterns: [
+      /\bpregnan(t|cy)\b/i,
+      /\btrying to conceive\b/i,
+      /\bbreast ?feeding\b/i,
+      /\bexpecting a baby\b/i,
+      /hamile/i,
+      /gebelik/i,
+      /emzir/i,
+    ],
+    action: 'disclaimer',
+    disclaimer: 'safety.pregnancy.disclaimer',
+    promptInstruction:
+      'The user mentioned pregnancy or breastfeeding. Keep advice conservative (no fasting, no new supplements, ' +
+      'no intense new training) and tell them to confirm changes with their obstetrician or midwife.',
+  },
+  medication_dosing: {
+    patterns: [
+      /\b(dose|doses|dosage|dosing|overdose)\b/i,
+      /\bhow (much|many|often)\b[^.?!\n]{0,40}\b(take|mg|pills?|tablets?|capsules?|medications?|medicines?|meds)\b/i,
+      /\b(increase|decrease|double|halve|skip|stop|quit|change|adjust)\b[^.?!\n]{0,20}\b(medications?|medicines?|meds|prescription|pills?|insulin|statins?|metformin)\b/i,
+      /\bdoz(aj|u|unu|unda|lar)?(?![a-z])/i,
+      /kaç (mg|miligram|tane|tablet|hap)/i,
+      /ilac(ı|ımı|ımın)? (bırak|artır|azalt)/i,
+    ],
+    action: 'disclaimer',
+    disclaimer: 'safety.medication_dosing.disclaimer',
+    promptInstruction:
+      'The user asked about medication. Never state doses or tell them to start, stop or change a medication; ' +
+      'refer them to their doctor or pharmacist and focus on lifestyle factors.',
+  },
+};
+
+const RED_FLAG_ORDER = Object.keys(RED_FLAG_POLICIES) as RedFlagCategory[];
+
+const KNOWN_MEDICATIONS =
+  '(metformin|statins?|atorvastatin|rosuvastatin|simvastatin|insulin|rapamycin|sirolimus|warfarin|aspirin|' +
+  'levothyroxine|ssris?|sertraline|fluoxetine|antidepressants?|beta[- ]blockers?|metoprolol|lisinopril|' +
+  'semaglutide|ozempic|tirzepatide|testosterone|melatonin)';
+const DOSE_AMOUNT = '\\d+(?:[.,]\\d+)?\\s?(?:mg|mcg|µg|milligrams?|micrograms?|ml|units?|iu)\\b';
+
+// Negated or conditional phrasings ("if you have...", "don't stop...") are advice, not violations
+const OUTPUT_VIOLATION_PATTERNS: Record<OutputViolation, RegExp[]> = {
+  diagnosis: [
+    /(?<!\b(?:if|whether|unless|when|think|suspect|believe|worry|worried|feel like)\s)\byou (?:most likely |probably |likely |definitely |clearly |may |might )?(?:have|are suffering from|suffer from|have been diagnosed with)\s+(?:an? )?(?:[a-z'-]+ ){0,2}(?:disease|disorder|syndrome|diabetes|cancer|depression|hypertension|apnea|apnoea|infection|deficiency|condition|arrhythmia|angina)\b/i,
+    /\bmy diagnosis\b/i,
+    /\bI (?:would |can )?diagnose\b/i,
+    /\bthis is (?:definitely|clearly|certainly|probably|likely) (?:an? )?(?:[a-z'-]+ ){0,2}(?:disease|disorder|syndrome|heart attack|cancer|infection|angina)\b/i,
+  ],
+  stop_medication: [
+    /(?<!(?:\bnot|\bnever|n't)\s)\b(?:stop|quit|discontinue|skip|halve|double)\s+(?:taking\s+)?(?:your|the)\s+(?:medications?|medicines?|meds|prescriptions?|pills|insulin|statins?|metformin|dose)\b/i,
+  ],
+  medication_dosing: [
+    new RegExp(`\\b${KNOWN_MEDICATIONS}\\b[^.!?\\n]{0,60}\\b${DOSE_AMOUNT}`, 'i'),
+    new RegExp(`\\b${DOSE_AMOUNT}[^.!?\\n]{0,60}\\b${KNOWN_MEDICATIONS}\\b`, 'i'),
+  ],
+};
+
+// After a medication question any dose amount counts, not just doses of known drugs
+const ANY_DOSE_PATTERN = new RegExp(`\\b${DOSE_AMOUNT}`, 'i');
+
+export function detectRedFlags(text: string): RedFlagCategory[] {
+  return RED_FLAG_ORDER.filter((category) =>
+    RED_FLAG_POLICIES[category].patterns.some((pattern) => pattern.test(text))
+  );
+}
+
+// Safety texts in the user's language, with the emergency numbers filled in
+function renderSafetyText(locale: Locale, key: MessageKey): string {
+  return t(locale, key, { emergencyNumbers: t(locale, 'safety.emergency_numbers') });
+}
+
+/**
+ * Pre-processing: decide how a user message is handled before the model sees it.
+ * Texts shown to the user are rendered in locale.
+ */
+export function screenInput(message: string, locale: Locale = DEFAULT_LOCALE): InputScreening {
+  const flags = detectRedFlags(message);
+  const policies = flags.map((flag) => RED_FLAG_POLICIES[flag]);
+
+  let action: InputScreening['action'] = 'allow';
+  if (policies.some((policy) => policy.action === 'escalate')) {
+    action = 'escalate';
+  } else if (policies.length > 0) {
+    action = 'disclaimer';
+  }
+
+  const cannedAnswer = policies.find((policy) => policy.cannedAnswer)?.cannedAnswer;
+  return {
+    flags,
+    action,
+    cannedAnswer: cannedAnswer ? renderSafetyText(locale, cannedAnswer) : null,
+    promptInstructions: policies.map((policy) => policy.promptInstruction),
+    locale,
+  };
+}
+
+/**
+ * Safety section appended to the system prompt for flagged messages ('' when nothing was flagged).
+ */
+export function buildSafetyPrompt(input: InputScreening): string {
+  if (input.promptInstructions.length === 0) return '';
+  return `SAFETY REQUIREMENTS (mandatory for this answer):\n${input.promptInstructions.map((i) => `- ${i}`).join('\n')}`;
+}
+
+// No violation pattern matches across sentence-ending punctuation, so a streamed answer can be
+// screened and released one complete sentence at a time
+const SENTENCE_END = /[.!?](?=\s)/g;
+
+/**
+ * Length of the complete sentences at the start of a partial answer (0 while none is complete).
+ */
+export function completeSentencesLength(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    end = match.index! + 1;
+  }
+  return end;
+}
+
+export function detectOutputViolations(answer: string, flags: RedFlagCategory[] = []): OutputViolation[] {
+  const violations = (Object.keys(OUTPUT_VIOLATION_PATTERNS) as OutputViolation[]).filter((violation) =>
+    OUTPUT_VIOLATION_PATTERNS[violation].some((pattern) => pattern.test(answer))
+  );
+  if (flags.includes('medication_dosing') && !violations.includes('medication_dosing') && ANY_DOSE_PATTERN.test(answer)) {
+    violations.push('medication_dosing');
+  }
+  return violations;
+}
+
+/**
+ * Wrap an answer with the escalation notices and disclaimers required by the input flags.
+ */
+export function frameAnswer(body: string, input: InputScreening): string {
+  const policies = input.flags.map((flag) => RED_FLAG_POLICIES[flag]);
+  const notices = policies
+    .map((policy) => policy.notice)
+    .filter((key): key is MessageKey => !!key)
+    .map((key) => renderSafetyText(input.locale, key));
+  const disclaimers = policies
+    .map((policy) => policy.disclaimer)
+    .filter((key): key is MessageKey => !!key)
+    .map((key) => renderSafetyText(input.locale, key));
+  return [...notices, body, ...disclaimers].filter((part) => part.trim().length > 0).join('\n\n');
+}
+
+/**
+ * Post-processing: withhold disallowed answers, then apply the mandatory framing.
+ * Canned crisis answers are returned unchanged.
+ */
+export function screenOutput(answer: string, input: InputScreening): OutputScreening {
+  if (input.cannedAnswer !== null) {
+    return { violations: [], action: 'escalate', answer: input.cannedAnswer };
+  }
+
+  const violations = detectOutputViolations(answer, input.flags);
+  if (violations.length > 0) {
+    return { violations, action: 'block', answer: frameAnswer(t(input.locale, 'safety.blocked_answer'), input) };
+  }
+  return { violations, action: input.action, answer: frameAnswer(answer, input) };
+}
+
+export function summarizeModeration(input: InputScreening, output: OutputScreening): ChatModeration {
+  return { flags: input.flags, violations: output.violations, action: output.action };
+}
+
+/**
+ * Record the moderation outcome of one chat message. Failures are logged only.
+ */
+export async function recordModeration(
+  entry: Omit<ModerationLogRecord, 'id' | 'createdAt'>
+): Promise<void> {
+  try {
+    await storage.moderationLogs.add(entry);
+  } catch (error: any) {
+    console.error('[guardrails] Failed to record moderation log:', error?.message);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Coach safety guardrail types
+ */
+
+import type { Locale } from '../i18n/i18n';
+
+/** Red-flag topics detected in user messages. */
+export type RedFlagCategory = 'chest_pain' | 'suicidal_ideation' | 'pregnancy' | 'medication_dosing';
+
+/** Disallowed content detected in coach answers. */
+export type OutputViolation = 'diagnosis' | 'medication_dosing' | 'stop_medication';
+
+/**
+ * allow      - nothing detected
+ * disclaimer - a mandatory disclaimer was appended
+ * escalate   - emergency / crisis resources were added (or replaced the answer)
+ * block      - the coach answer was withheld and replaced with a safe message
+ */
+export type ModerationAction = 'allow' | 'disclaimer' | 'escalate' | 'block';
+
+export interface InputScreening {
+  flags: RedFlagCategory[];
+  action: Exclude<ModerationAction, 'block'>;
+  /** When set, the model is not called and this text is the answer. */
+  cannedAnswer: string | null;
+  /** Extra system prompt instructions for the flagged topics. */
+  promptInstructions: string[];
+  /** Language of the texts added to the answer. */
+  locale: Locale;
+}
+
+export interface OutputScreening {
+  violations: OutputViolation[];
+  action: ModerationAction;
+  /** Final answer with disclaimers/escalation applied (or the safe replacement if blocked). */
+  answer: string;
+}
+
+/**
+ * Moderation outcome of one chat turn, returned to clients.
+ */
+export interface ChatModeration {
+  flags: RedFlagCategory[];
+  violations: OutputViolation[];
+  action: ModerationAction;
+}
+
+/**
+ * One moderation log entry per screened chat message.
+ * Message content is not copied here; messageId points at the stored message.
+ */
+export interface ModerationLogRecord {
+  id: string;
+  userId: string;
+  conversationId: string;
+  messageId: string | null;
+  direction: 'input' | 'output';
+  flags: RedFlagCategory[];
+  violations: OutputViolation[];
+  action: ModerationAction;
+  createdAt: string; // ISO timestamp
+}
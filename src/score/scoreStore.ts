@@ -4,7 +4,7 @@ import {
   calculateOnboardingScore,
   updateDailyScore,
 } from './scoreModel';
-import { DailyMetrics } from '../age/ageModel';
+import { DailyCheckIn } from '../scoring/scoringModel';
 
 // In-memory store
 const scoreStore = new Map<string, ScoreState>();
@@ -43,25 +43,35 @@ export function getScoreState(
 }
 
 /**
- * Updates score based on daily metrics.
+ * Updates score based on a daily check-in.
+ * Only questionnaire answers carry the ratings the score adjusts on; check-ins
+ * from other scoring versions leave the current score at the baseline.
  */
 export function updateScoreFromDaily(
   userId: string,
-  dailyMetrics: DailyMetrics
+  checkIn: DailyCheckIn
 ): ScoreState | null {
   const prevState = scoreStore.get(userId);
   if (!prevState) {
     return null;
   }
 
+  const answers = checkIn.version === 'questionnaire-v1' ? checkIn.answers : {};
   const updated = updateDailyScore(prevState, {
-    sleepQuality: dailyMetrics.sleepQuality,
-    physicalActivity: dailyMetrics.physicalActivity,
-    nutritionQuality: dailyMetrics.nutritionQuality,
-    stressLevel: dailyMetrics.stressLevel,
-    sugarAlcoholExposure: dailyMetrics.sugarAlcoholExposure,
+    sleepQuality: answers.sleepQuality as number | undefined,
+    physicalActivity: answers.physicalActivity as number | undefined,
+    nutritionQuality: answers.nutritionQuality as number | undefined,
+    stressLevel: answers.stressLevel as number | undefined,
+    sugarAlcoholExposure: answers.sugarAlcoholExposure as number | undefined,
   });
 
   scoreStore.set(userId, updated);
   return updated;
 }
+
+/**
+ * Removes a user's score state (account deletion).
+ */
+export function deleteScoreState(userId: string): void {
+  scoreStore.delete(userId);
+}
@@ -0,0 +1,200 @@
+/**
+ * Unit tests for the versioned daily scoring engine
+ * Run with: npx ts-node src/scoring/engine.test.ts
+ */
+
+import { calculateDailyScore as calculateMetricsScore } from '../longevity/longevityScoring';
+import { calculateDailyScore as calculateQuestionnaireScore } from '../age/ageModel';
+import { replayDailyEntries } from '../longevity/dailyReplay';
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import {
+  checkInToEntryFields,
+  detectScoringVersion,
+  entryToCheckIn,
+  parseDailyCheckIn,
+  scoreDailyCheckIn,
+} from './engine';
+import { listQuestionnaireSchemas } from './registry';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const metrics = {
+  sleepHours: 8,
+  steps: 11000,
+  vigorousMinutes: 40,
+  processedFoodScore: 1,
+  alcoholUnits: 0,
+  stressLevel: 2,
+  lateCaffeine: false,
+  screenLate: false,
+  bedtimeHour: 22,
+};
+
+const questionnaire = {
+  sleepQuality: 3,
+  energyLevel: 4,
+  physicalActivity: 2,
+  nutritionQuality: 3,
+  sugarAlcoholExposure: 2,
+  stressLevel: 3,
+  mentalEmotionalLoad: 3,
+  circadianRhythm: 4,
+  bodySignals: ['Great'],
+  rejuvenationBehaviors: ['Meditation', 'Sauna'],
+};
+
+// Test 1: Version detection
+function testDetection() {
+  console.log('\n=== Test 1: Version detection ===');
+
+  assert(detectScoringVersion(metrics) === 'metrics-v1', 'Numeric metrics select metrics-v1');
+  assert(detectScoringVersion(questionnaire) === 'questionnaire-v1', 'Questionnaire answers select questionnaire-v1');
+  assert(detectScoringVersion({ stressLevel: 2 }) === 'metrics-v1', 'Shared keys alone default to metrics-v1');
+  assert(detectScoringVersion({ ...metrics, scoringVersion: 'questionnaire-v1' }) === 'questionnaire-v1', 'Explicit version wins');
+  assert(detectScoringVersion({ scoringVersion: 'v99' }) === null, 'Unknown version is rejected');
+  assert(listQuestionnaireSchemas().length === 2, 'Registry lists every schema');
+}
+
+// Test 2: Validation instead of coercion
+function testValidation() {
+  console.log('\n=== Test 2: Validation ===');
+
+  const parsed = parseDailyCheckIn({ metrics: questionnaire });
+  assert(parsed.ok && parsed.value.version === 'questionnaire-v1', 'Questionnaire check-in parses');
+
+  const missing = parseDailyCheckIn({ metrics: { sleepQuality: 3, energyLevel: 4 } });
+  assert(!missing.ok && missing.errors.includes('physicalActivity is required'), 'Missing answers are errors, not zeros');
+
+  const outOfRange = parseDailyCheckIn({ ...questionnaire, sleepQuality: 7 });
+  assert(!outOfRange.ok && outOfRange.errors[0].startsWith('sleepQuality must be between'), 'Out-of-range answers are rejected');
+
+  const badOption = parseDailyCheckIn({ ...questionnaire, bodySignals: ['Fever'] });
+  assert(!badOption.ok && badOption.errors[0].includes('unknown options'), 'Unknown options are rejected');
+
+  const defaults = parseDailyCheckIn({ ...metrics, lateCaffeine: undefined, steps: '9000' });
+  assert(defaults.ok && defaults.value.answers.lateCaffeine === false && defaults.value.answers.steps === 9000, 'Defaults and numeric strings are applied');
+
+  const unknownVersion = parseDailyCheckIn({ scoringVersion: 'v99', metrics });
+  assert(!unknownVersion.ok, 'Unknown explicit version fails validation');
+}
+
+// Test 3: Scoring delegates to the registered scorer
+function testScoring() {
+  console.log('\n=== Test 3: Scoring ===');
+
+  const metricsCheckIn = parseDailyCheckIn(metrics);
+  const questionnaireCheckIn = parseDailyCheckIn(questionnaire);
+  if (!metricsCheckIn.ok || !questionnaireCheckIn.ok) throw new Error('TEST FAILED: fixtures must parse');
+
+  const metricsScore = scoreDailyCheckIn(metricsCheckIn.value, '2025-01-01', 'v1');
+  assert(metricsScore.score === calculateMetricsScore({ ...metrics, date: '2025-01-01' }).score, 'metrics-v1 uses the metrics scorer');
+
+  const questionnaireScore = scoreDailyCheckIn(questionnaireCheckIn.value, '2025-01-01', 'v1');
+  const expected = calculateQuestionnaireScore({ ...questionnaire, date: '2025-01-01' });
+  assert(questionnaireScore.deltaYears === expected.deltaYears, 'questionnaire-v1 uses the questionnaire scorer');
+  assert(questionnaireScore.deltaYears < 0, 'Good questionnaire answers are no longer scored as zeros');
+}
+
+// Test 4: Entries round-trip their check-in and version
+function testEntryRoundTrip() {
+  console.log('\n=== Test 4: Entry round-trip ===');
+
+  const legacy = { userId: 'u', dateKey: '2025-01-01', date: '2025-01-01', ...metrics, score: 0, deltaYears: 0, reasons: [], createdAt: '' };
+  assert(entryToCheckIn(legacy).version === 'metrics-v1', 'Unversioned entries are metrics-v1');
+  assert(entryToCheckIn(legacy).answers.steps === 11000, 'Legacy metrics are read from top-level fields');
+
+  const parsed = parseDailyCheckIn(questionnaire);
+  if (!parsed.ok) throw new Error('TEST FAILED: fixture must parse');
+  const entry: DailyEntryDocument = {
+    userId: 'u',
+    dateKey: '2025-01-02',
+    date: '2025-01-02',
+    ...checkInToEntryFields(parsed.value),
+    score: 0,
+    deltaYears: 0,
+    reasons: [],
+    createdAt: '',
+  };
+  assert(entry.scoringVersion === 'questionnaire-v1' && entry.sleepHours === undefined, 'Questionnaire entries store answers only');
+
+  const replay = replayDailyEntries({
+    entries: [legacy, entry],
+    fromDateKey: '2025-01-01',
+    baselineBiologicalAgeYears: 40,
+    chronologicalAgeYears: 40,
+    timezone: 'UTC',
+    scoringModelVersion: 'v1',
+  });
+  assert(replay.entries[1].scoringVersion === 'questionnaire-v1', 'Replay keeps each entry on its version');
+  assert(replay.entries[1].reasons.includes('Sleep: Good'), 'Replay rescores with the entry version');
+}
+
+// Test 5: Contributions break the day down per factor
+function testContributions() {
+  console.log('\n=== Test 5: Factor contributions ===');
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const metricsResult = calculateMetricsScore({ date: '2025-01-01', ...metrics, steps: 8000, lateCaffeine: true });
+  assert(metricsResult.contributions.length === 9, 'Every metric gets a contribution');
+  assert(
+    Math.abs(sum(metricsResult.contributions.map((c) => c.deltaYears)) - metricsResult.deltaYears) < 1e-9,
+    'Metric shares add up to deltaYears'
+  );
+  const steps = metricsResult.contributions.find((c) => c.factor === 'steps')!;
+  assert(
+    steps.band === 'daily.steps.moderate' && steps.target?.band === 'daily.steps.active_day' && steps.target.points === 1,
+    'Steps target the best band with the points still to gain'
+  );
+  const caffeine = metricsResult.contributions.find((c) => c.factor === 'lateCaffeine')!;
+  assert(
+    caffeine.points === -1 && caffeine.target?.band === null && caffeine.target.points === 1,
+    'Late caffeine targets matching no band'
+  );
+  const sleep = metricsResult.contributions.find((c) => c.factor === 'sleepHours')!;
+  assert(sleep.target === null, 'Factors already in their best band have no target');
+
+  const questionnaireResult = calculateQuestionnaireScore({ date: '2025-01-01', ...questionnaire });
+  assert(
+    Math.abs(sum(questionnaireResult.contributions.map((c) => c.deltaYears)) - questionnaireResult.deltaYears) < 1e-9,
+    'Questionnaire shares add up to deltaYears'
+  );
+  const activity = questionnaireResult.contributions.find((c) => c.factor === 'physicalActivity')!;
+  assert(
+    activity.band === 'questionnaire.activity.moderate' &&
+      activity.target?.condition?.equals === 4 &&
+      Math.abs(activity.target.deltaYears + 0.03) < 1e-9,
+    'Questionnaire answers target their best option'
+  );
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Scoring Engine Tests\n');
+
+  try {
+    testDetection();
+    testValidation();
+    testScoring();
+    testEntryRoundTrip();
+    testContributions();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
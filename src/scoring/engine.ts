@@ -0,0 +1,179 @@
+/**
+ * Daily scoring engine
+ * Detects which questionnaire a check-in answers, validates it against the registered
+ * schema (rejecting missing or out-of-range answers instead of coercing them) and scores it.
+ */
+
+import { DailyEntryDocument } from '../longevity/longevityModel';
+import { getScoringModel } from './models';
+import { getQuestionnaireSchema, isScoringVersionId, SCORING_VERSION_IDS } from './registry';
+import {
+  AnswerValue,
+  CheckInValidationResult,
+  DailyAnswers,
+  DailyCheckIn,
+  DailyScoreResult,
+  LEGACY_SCORING_VERSION,
+  QuestionnaireSchema,
+  QuestionSpec,
+  ScoringModelId,
+  ScoringVersionId,
+} from './scoringModel';
+
+// Keys only the questionnaire has (stressLevel is shared with the metrics schema)
+const QUESTIONNAIRE_ONLY_KEYS = getQuestionnaireSchema('questionnaire-v1')
+  .questions.map((q) => q.key)
+  .filter((key) => !getQuestionnaireSchema('metrics-v1').questions.some((q) => q.key === key));
+
+/**
+ * Version a raw check-in body is meant for: an explicit scoringVersion wins, otherwise
+ * any questionnaire-only key selects the questionnaire. Returns null for unknown versions.
+ */
+export function detectScoringVersion(raw: Record<string, unknown>): ScoringVersionId | null {
+  if (raw.scoringVersion !== undefined) {
+    return isScoringVersionId(raw.scoringVersion) ? raw.scoringVersion : null;
+  }
+  return QUESTIONNAIRE_ONLY_KEYS.some((key) => raw[key] !== undefined) ? 'questionnaire-v1' : 'metrics-v1';
+}
+
+function validateAnswer(question: QuestionSpec, raw: unknown, errors: string[]): AnswerValue | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    if (question.default !== undefined) {
+      return Array.isArray(question.default) ? [...question.default] : question.default;
+    }
+    errors.push(`${question.key} is required`);
+    return undefined;
+  }
+
+  switch (question.type) {
+    case 'number':
+    case 'integer': {
+      // Numeric strings are accepted (form posts); anything else is an error
+      const value = typeof raw === 'string' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${question.key} must be a number`);
+        return undefined;
+      }
+      if (question.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${question.key} must be an integer`);
+        return undefined;
+      }
+      if ((question.min !== undefined && value < question.min) || (question.max !== undefined && value > question.max)) {
+        errors.push(`${question.key} must be between ${question.min} and ${question.max}`);
+        return undefined;
+      }
+      return value;
+    }
+    case 'boolean':
+      if (typeof raw !== 'boolean') {
+        errors.push(`${question.key} must be a boolean`);
+        return undefined;
+      }
+      return raw;
+    case 'multiselect': {
+      if (!Array.isArray(raw) || !raw.every((item) => typeof item === 'string')) {
+        errors.push(`${question.key} must be an array of strings`);
+        return undefined;
+      }
+      const unknown = question.options ? raw.filter((item) => !question.options!.includes(item)) : [];
+      if (unknown.length > 0) {
+        errors.push(`${question.key} has unknown options: ${unknown.join(', ')} (allowed: ${question.options!.join(', ')})`);
+        return undefined;
+      }
+      return [...raw];
+    }
+  }
+}
+
+/**
+ * Validate answers against a schema. Unknown keys are ignored.
+ */
+export function validateAnswers(
+  schema: QuestionnaireSchema,
+  raw: Record<string, unknown>
+): { ok: true; value: DailyAnswers } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const answers: DailyAnswers = {};
+  for (const question of schema.questions) {
+    const value = validateAnswer(question, raw[question.key], errors);
+    if (value !== undefined) {
+      answers[question.key] = value;
+    }
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: answers };
+}
+
+/**
+ * Parse a raw check-in body ({ metrics: {...} } or the answers themselves).
+ */
+export function parseDailyCheckIn(body: unknown): CheckInValidationResult {
+  const source = (body as any)?.metrics ?? body;
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return { ok: false, errors: ['Check-in answers must be an object'] };
+  }
+
+  // scoringVersion may sit next to metrics or inside it
+  const raw = { scoringVersion: (body as any)?.scoringVersion, ...(source as Record<string, unknown>) };
+  const version = detectScoringVersion(raw);
+  if (!version) {
+    return { ok: false, errors: [`scoringVersion must be one of ${SCORING_VERSION_IDS.join(', ')}`] };
+  }
+
+  const result = validateAnswers(getQuestionnaireSchema(version), raw);
+  return result.ok ? { ok: true, value: { version, answers: result.value } } : result;
+}
+
+/**
+ * Score a check-in under a scoring model (the user's scoringModelVersion for stored history).
+ */
+export function scoreDailyCheckIn(
+  checkIn: DailyCheckIn,
+  dateKey: string,
+  modelId: ScoringModelId
+): DailyScoreResult {
+  return getScoringModel(modelId).scoreDaily[checkIn.version](checkIn.answers, dateKey);
+}
+
+/**
+ * The check-in stored on an entry. Entries written before versioning hold metrics-v1
+ * answers as top-level fields; other versions keep them in `answers`.
+ */
+export function entryToCheckIn(entry: DailyEntryDocument): DailyCheckIn {
+  const version = entry.scoringVersion ?? LEGACY_SCORING_VERSION;
+  if (version !== 'metrics-v1') {
+    return { version, answers: { ...(entry.answers ?? {}) } };
+  }
+  const answers: DailyAnswers = {};
+  for (const question of getQuestionnaireSchema('metrics-v1').questions) {
+    const value = (entry as unknown as Record<string, AnswerValue | undefined>)[question.key];
+    if (value !== undefined) {
+      answers[question.key] = value;
+    }
+  }
+  return { version, answers };
+}
+
+/**
+ * Entry fields holding a check-in. metrics-v1 answers stay top-level so existing
+ * readers of sleepHours, steps, ... keep working.
+ */
+export function checkInToEntryFields(checkIn: DailyCheckIn): Partial<DailyEntryDocument> {
+  if (checkIn.version === 'metrics-v1') {
+    return { scoringVersion: checkIn.version, ...(checkIn.answers as Partial<DailyEntryDocument>) };
+  }
+  return { scoringVersion: checkIn.version, answers: { ...checkIn.answers } };
+}
+
+/**
+ * One-line description of a check-in's answers for prompts and logs.
+ */
+export function describeCheckIn(checkIn: DailyCheckIn): string {
+  return getQuestionnaireSchema(checkIn.version).questions
+    .filter((question) => checkIn.answers[question.key] !== undefined)
+    .map((question) => {
+      const value = checkIn.answers[question.key];
+      const text = Array.isArray(value) ? value.join('/') || 'none' : String(value);
+      return `${question.key}: ${text}`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,92 @@
+/**
+ * Registry of scoring models
+ * Never edit a registered model's rules: add a new model instead, point
+ * CURRENT_SCORING_MODEL at it and move existing users over with the admin recompute
+ * (./recompute). Users and entries keep the id of the model that produced their numbers.
+ * v1's metrics bands are read from data/scoring-rules/daily-metrics-v1.json; editing that
+ * file in place rescores v1 for new check-ins only, so follow it with a recompute.
+ */
+
+import {
+  calculateDailyScore as calculateMetricsScore,
+  calculateOnboardingResult,
+} from '../longevity/longevityScoring';
+import { calculateDailyScore as calculateQuestionnaireScore } from '../age/ageModel';
+import { LEGACY_SCORING_MODEL, ScoringModel, ScoringModelId } from './scoringModel';
+
+const MODEL_V1: ScoringModel = {
+  id: 'v1',
+  description: 'Original onboarding weights and daily thresholds',
+  scoreOnboarding: calculateOnboardingResult,
+  scoreDaily: {
+    'metrics-v1': (answers, dateKey) =>
+      calculateMetricsScore({
+        date: dateKey,
+        sleepHours: answers.sleepHours as number,
+        steps: answers.steps as number,
+        vigorousMinutes: answers.vigorousMinutes as number,
+        processedFoodScore: answers.processedFoodScore as number,
+        alcoholUnits: answers.alcoholUnits as number,
+        stressLevel: answers.stressLevel as number,
+        lateCaffeine: answers.lateCaffeine as boolean,
+        screenLate: answers.screenLate as boolean,
+        bedtimeHour: answers.bedtimeHour as number,
+      }),
+    'questionnaire-v1': (answers, dateKey) =>
+      calculateQuestionnaireScore({
+        date: dateKey,
+        sleepQuality: answers.sleepQuality as number,
+        energyLevel: answers.energyLevel as number,
+        physicalActivity: answers.physicalActivity as number,
+        nutritionQuality: answers.nutritionQuality as number,
+        sugarAlcoholExposure: answers.sugarAlcoholExposure as number,
+        stressLevel: answers.stressLevel as number,
+        mentalEmotionalLoad: answers.mentalEmotionalLoad as number,
+        circadianRhythm: answers.circadianRhythm as number,
+        bodySignals: answers.bodySignals as string[],
+        rejuvenationBehaviors: answers.rejuvenationBehaviors as string[],
+      }),
+  },
+};
+
+const SCORING_MODELS = new Map<ScoringModelId, ScoringModel>([[MODEL_V1.id, MODEL_V1]]);
+
+/** Model new users are onboarded with. */
+export const CURRENT_SCORING_MODEL: ScoringModelId = 'v1';
+
+/**
+ * Register an additional model (e.g. a candidate evaluated with the dry-run recompute).
+ */
+export function registerScoringModel(model: ScoringModel): void {
+  if (SCORING_MODELS.has(model.id)) {
+    throw new Error(`Scoring model already registered: ${model.id}`);
+  }
+  SCORING_MODELS.set(model.id, model);
+}
+
+export function isScoringModelId(value: unknown): value is ScoringModelId {
+  return typeof value === 'string' && SCORING_MODELS.has(value);
+}
+
+export function getScoringModel(id: ScoringModelId): ScoringModel {
+  const model = SCORING_MODELS.get(id);
+  if (!model) {
+    throw new Error(`Unknown scoring model: ${id}`);
+  }
+  return model;
+}
+
+export function listScoringModels(): Array<{ id: ScoringModelId; description: string; current: boolean }> {
+  return Array.from(SCORING_MODELS.values()).map((model) => ({
+    id: model.id,
+    description: model.description,
+    current: model.id === CURRENT_SCORING_MODEL,
+  }));
+}
+
+/**
+ * Model a user's numbers are computed with. Users onboarded before versioning are on v1.
+ */
+export function getUserScoringModelId(user: { scoringModelVersion?: ScoringModelId | null }): ScoringModelId {
+  return user.scoringModelVersion ?? LEGACY_SCORING_MODEL;
+}
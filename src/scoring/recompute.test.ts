@@ -0,0 +1,205 @@
+/**
+ * Unit tests for scoring model versions and the historical recompute
+ * Run with: npx ts-node src/scoring/recompute.test.ts
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { storage } from '../config/storage';
+import { calculateOnboardingResult } from '../longevity/longevityScoring';
+import { replayDailyEntries } from '../longevity/dailyReplay';
+import { DailyEntryDocument, OnboardingAnswers } from '../longevity/longevityModel';
+import { getUserDocument, listDailyEntries, upsertUserOnboarding } from '../longevity/longevityStore';
+import { checkInToEntryFields, parseDailyCheckIn, scoreDailyCheckIn } from './engine';
+import { getScoringModel, getUserScoringModelId, registerScoringModel } from './models';
+import { buildScoringRecompute, recomputeUserScoring } from './recompute';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const answers: OnboardingAnswers = {
+  activity: 0.5,
+  smokingAlcohol: 1,
+  metabolicHealth: 0,
+  energyFocus: 0.5,
+  visceralFat: 0,
+  sleep: 0.5,
+  stress: 0,
+  muscle: 0,
+  nutritionPattern: 0.5,
+  sugar: 0,
+};
+
+const metrics = {
+  sleepHours: 8,
+  steps: 11000,
+  vigorousMinutes: 40,
+  processedFoodScore: 1,
+  alcoholUnits: 0,
+  stressLevel: 2,
+  lateCaffeine: false,
+  screenLate: false,
+  bedtimeHour: 22,
+};
+
+// Candidate model: one year older baseline, daily deltas doubled
+const v1 = getScoringModel('v1');
+registerScoringModel({
+  id: 'v2-test',
+  description: 'Test model',
+  scoreOnboarding: (onboardingAnswers, age) => {
+    const result = v1.scoreOnboarding(onboardingAnswers, age);
+    return { ...result, baselineBiologicalAgeYears: result.baselineBiologicalAgeYears + 1 };
+  },
+  scoreDaily: {
+    'metrics-v1': (dailyAnswers, dateKey) => {
+      const result = v1.scoreDaily['metrics-v1'](dailyAnswers, dateKey);
+      return { ...result, deltaYears: result.deltaYears * 2 };
+    },
+    'questionnaire-v1': v1.scoreDaily['questionnaire-v1'],
+  },
+});
+
+async function seedUser(userId: string) {
+  const baseline = calculateOnboardingResult(answers, 40);
+  await upsertUserOnboarding({
+    userId,
+    chronologicalAgeYears: 40,
+    answers,
+    onboardingTotalScore: baseline.totalScore,
+    baselineBiologicalAgeYears: baseline.baselineBiologicalAgeYears,
+    baselineBAOYears: baseline.BAOYears,
+    scoringModelVersion: 'v1',
+  });
+
+  const parsed = parseDailyCheckIn(metrics);
+  if (!parsed.ok) throw new Error('TEST FAILED: fixture must parse');
+  const entries: DailyEntryDocument[] = ['2025-01-01', '2025-01-02', '2025-01-03'].map((dateKey) => ({
+    userId,
+    dateKey,
+    date: dateKey,
+    ...checkInToEntryFields(parsed.value),
+    score: 0,
+    deltaYears: 0,
+    reasons: [],
+    createdAt: '',
+  }));
+  const replay = replayDailyEntries({
+    entries,
+    fromDateKey: '2025-01-01',
+    baselineBiologicalAgeYears: baseline.baselineBiologicalAgeYears,
+    chronologicalAgeYears: 40,
+    timezone: 'UTC',
+    scoringModelVersion: 'v1',
+  });
+  await storage.dailyEntries.writeMany(userId, { upserts: replay.entries, userUpdate: replay.state });
+}
+
+// Test 1: Models score answers and are stamped on users and entries
+async function testModels() {
+  console.log('\n=== Test 1: Scoring models ===');
+
+  const parsed = parseDailyCheckIn(metrics);
+  if (!parsed.ok) throw new Error('TEST FAILED: fixture must parse');
+  const under1 = scoreDailyCheckIn(parsed.value, '2025-01-01', 'v1');
+  const under2 = scoreDailyCheckIn(parsed.value, '2025-01-01', 'v2-test');
+  assert(under2.deltaYears === under1.deltaYears * 2, 'The same answers score differently under another model');
+
+  let unknown = false;
+  try {
+    getScoringModel('v99');
+  } catch {
+    unknown = true;
+  }
+  assert(unknown, 'Unknown models are rejected');
+  assert(getUserScoringModelId({}) === 'v1', 'Users without a model are on v1');
+
+  await seedUser('u1');
+  const user = await getUserDocument('u1');
+  assert(user!.scoringModelVersion === 'v1', 'Onboarding stores the model on the user');
+  const entries = await listDailyEntries('u1');
+  assert(entries.every((e) => e.scoringModelVersion === 'v1'), 'Replayed entries store their model');
+}
+
+// Test 2: Dry run diffs without writing
+async function testDryRun() {
+  console.log('\n=== Test 2: Dry run ===');
+
+  const before = await getUserDocument('u1');
+  const plan = await recomputeUserScoring('u1', 'v2-test', { dryRun: true });
+  assert(!plan.committed, 'Dry run is not committed');
+  assert(plan.before.scoringModelVersion === 'v1' && plan.after.scoringModelVersion === 'v2-test', 'Diff names both models');
+  assert(
+    Math.abs(plan.after.baselineBiologicalAgeYears - plan.before.baselineBiologicalAgeYears - 1) < 1e-9,
+    'Baseline is recomputed under the new model'
+  );
+  assert(plan.totalEntries === 3 && plan.changedEntries.length === 3, 'Every changed entry is listed');
+  assert(plan.changedEntries[0].after.biologicalAgeYears > plan.changedEntries[0].before.biologicalAgeYears!, 'Entries carry before and after bio age');
+
+  const after = await getUserDocument('u1');
+  assert(after!.currentBiologicalAgeYears === before!.currentBiologicalAgeYears, 'Dry run writes nothing');
+
+  const user = (await getUserDocument('u1'))!;
+  const same = buildScoringRecompute(user, await listDailyEntries('u1'), 'v1');
+  assert(same.plan.changedEntries.length === 0, 'Recomputing under the stored model changes nothing');
+}
+
+// Test 3: Commit requires a fresh diff token
+async function testCommit() {
+  console.log('\n=== Test 3: Commit ===');
+
+  const plan = await recomputeUserScoring('u1', 'v2-test', { dryRun: true });
+
+  // An edit between dry run and commit invalidates the token
+  const entries = await listDailyEntries('u1');
+  await storage.dailyEntries.writeMany('u1', { upserts: [{ ...entries[0], sleepHours: 5 }] });
+  let stale = false;
+  try {
+    await recomputeUserScoring('u1', 'v2-test', { dryRun: false, diffToken: plan.diffToken });
+  } catch (error: any) {
+    stale = error.message === 'Recompute diff is stale';
+  }
+  assert(stale, 'Stale diff token is rejected');
+
+  const fresh = await recomputeUserScoring('u1', 'v2-test', { dryRun: true });
+  const committed = await recomputeUserScoring('u1', 'v2-test', { dryRun: false, diffToken: fresh.diffToken });
+  assert(committed.committed, 'Fresh diff token commits');
+
+  const user = await getUserDocument('u1');
+  assert(user!.scoringModelVersion === 'v2-test', 'User moves to the new model');
+  assert(user!.baselineBiologicalAgeYears === fresh.after.baselineBiologicalAgeYears, 'Baseline is written');
+  assert(user!.currentBiologicalAgeYears === fresh.after.currentBiologicalAgeYears, 'Current bio age is written');
+  const stored = await listDailyEntries('u1');
+  assert(stored.every((e) => e.scoringModelVersion === 'v2-test'), 'Entries are restamped');
+
+  const again = await recomputeUserScoring('u1', 'v2-test', { dryRun: true });
+  assert(again.changedEntries.length === 0, 'History is consistent after commit');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Scoring Recompute Tests\n');
+
+  try {
+    await testModels();
+    await testDryRun();
+    await testCommit();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,217 @@
+/**
+ * Scoring model recompute
+ * Rescores a user's onboarding baseline and full daily history under another scoring
+ * model. A dry run returns the diff plus a token over the data it was computed from;
+ * committing requires that token, so nothing is written if the user's data changed
+ * in between.
+ */
+
+import crypto from 'crypto';
+import { storage } from '../config/storage';
+import { replayDailyEntries, ReplayResult } from '../longevity/dailyReplay';
+import { DailyEntryDocument, UserDocument } from '../longevity/longevityModel';
+import { scheduleInsightsRefresh } from '../longevity/insights';
+import { getUserDocument, listDailyEntries } from '../longevity/longevityStore';
+import { entryToCheckIn } from './engine';
+import { getScoringModel, getUserScoringModelId } from './models';
+import { ScoringModelId } from './scoringModel';
+
+export interface ScoringSnapshot {
+  scoringModelVersion: ScoringModelId;
+  onboardingTotalScore: number;
+  baselineBAOYears: number;
+  baselineBiologicalAgeYears: number;
+  currentBiologicalAgeYears: number;
+  currentAgingDebtYears: number;
+}
+
+export interface EntryScoreChange {
+  dateKey: string;
+  before: { score: number; deltaYears: number; biologicalAgeYears: number | null };
+  after: { score: number; deltaYears: number; biologicalAgeYears: number };
+}
+
+export interface ScoringRecomputePlan {
+  userId: string;
+  before: ScoringSnapshot;
+  after: ScoringSnapshot;
+  difference: { baselineBiologicalAgeYears: number; currentBiologicalAgeYears: number };
+  totalEntries: number;
+  changedEntries: EntryScoreChange[];
+  diffToken: string;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const entryDateKey = (entry: DailyEntryDocument) => entry.dateKey || entry.date;
+
+function storedSnapshot(user: UserDocument): ScoringSnapshot {
+  return {
+    scoringModelVersion: getUserScoringModelId(user),
+    onboardingTotalScore: user.onboardingTotalScore,
+    baselineBAOYears: user.baselineBAOYears,
+    baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+    currentBiologicalAgeYears: user.currentBiologicalAgeYears ?? user.baselineBiologicalAgeYears,
+    currentAgingDebtYears:
+      user.currentAgingDebtYears ?? user.baselineBiologicalAgeYears - user.chronologicalAgeYears,
+  };
+}
+
+/**
+ * Token over everything the recompute reads: any edit to the user's baseline or
+ * entries between dry run and commit changes it.
+ */
+function computeDiffToken(
+  user: UserDocument,
+  entries: DailyEntryDocument[],
+  toVersion: ScoringModelId
+): string {
+  const input = {
+    userId: user.userId,
+    toVersion,
+    stored: storedSnapshot(user),
+    onboardingAnswers: user.onboardingAnswers ?? null,
+    chronologicalAgeYears: user.chronologicalAgeYears,
+    entries: entries.map((entry) => ({
+      dateKey: entryDateKey(entry),
+      checkIn: entryToCheckIn(entry),
+      scoringModelVersion: entry.scoringModelVersion ?? null,
+      score: entry.score,
+      deltaYears: entry.deltaYears,
+      currentBiologicalAgeYears: entry.currentBiologicalAgeYears ?? null,
+    })),
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex');
+}
+
+/**
+ * Recompute baseline and history in memory. Nothing is written.
+ */
+export function buildScoringRecompute(
+  user: UserDocument,
+  entries: DailyEntryDocument[],
+  toVersion: ScoringModelId
+): { plan: ScoringRecomputePlan; replay: ReplayResult } {
+  const model = getScoringModel(toVersion);
+  const sorted = entries.slice().sort((a, b) => entryDateKey(a).localeCompare(entryDateKey(b)));
+
+  // Users without stored onboarding answers keep their baseline
+  const baseline = user.onboardingAnswers
+    ? model.scoreOnboarding(
+        user.onboardingAnswers,
+        user.chronologicalAgeYearsAtOnboarding ?? user.chronologicalAgeYears
+      )
+    : {
+        totalScore: user.onboardingTotalScore,
+        BAOYears: user.baselineBAOYears,
+        baselineBiologicalAgeYears: user.baselineBiologicalAgeYears,
+      };
+
+  const replay = replayDailyEntries({
+    entries: sorted,
+    fromDateKey: '', // Replay the whole history
+    baselineBiologicalAgeYears: baseline.baselineBiologicalAgeYears,
+    chronologicalAgeYears: user.chronologicalAgeYears,
+    timezone: user.timezone || 'UTC',
+    scoringModelVersion: toVersion,
+  });
+
+  const changedEntries: EntryScoreChange[] = [];
+  replay.entries.forEach((after, i) => {
+    const before = sorted[i];
+    const change: EntryScoreChange = {
+      dateKey: after.dateKey,
+      before: {
+        score: before.score,
+        deltaYears: before.deltaYears,
+        biologicalAgeYears: before.currentBiologicalAgeYears ?? null,
+      },
+      after: {
+        score: after.score,
+        deltaYears: after.deltaYears,
+        biologicalAgeYears: after.currentBiologicalAgeYears!,
+      },
+    };
+    if (
+      change.before.score !== change.after.score ||
+      change.before.deltaYears !== change.after.deltaYears ||
+      change.before.biologicalAgeYears === null ||
+      round(change.before.biologicalAgeYears) !== round(change.after.biologicalAgeYears)
+    ) {
+      changedEntries.push(change);
+    }
+  });
+
+  const before = storedSnapshot(user);
+  const after: ScoringSnapshot = {
+    scoringModelVersion: toVersion,
+    onboardingTotalScore: baseline.totalScore,
+    baselineBAOYears: baseline.BAOYears,
+    baselineBiologicalAgeYears: baseline.baselineBiologicalAgeYears,
+    currentBiologicalAgeYears: replay.state.currentBiologicalAgeYears,
+    currentAgingDebtYears: replay.state.currentAgingDebtYears,
+  };
+
+  return {
+    plan: {
+      userId: user.userId,
+      before,
+      after,
+      difference: {
+        baselineBiologicalAgeYears: round(after.baselineBiologicalAgeYears - before.baselineBiologicalAgeYears),
+        currentBiologicalAgeYears: round(after.currentBiologicalAgeYears - before.currentBiologicalAgeYears),
+      },
+      totalEntries: sorted.length,
+      changedEntries,
+      diffToken: computeDiffToken(user, sorted, toVersion),
+    },
+    replay,
+  };
+}
+
+/**
+ * Dry-run (default) or commit a recompute of one user's numbers under toVersion.
+ * Committing requires the diffToken of a dry run over the same data.
+ * Throws 'User not found', 'Unknown scoring model: <id>' or 'Recompute diff is stale'.
+ */
+export async function recomputeUserScoring(
+  userId: string,
+  toVersion: ScoringModelId,
+  options: { dryRun: boolean; diffToken?: string }
+): Promise<ScoringRecomputePlan & { committed: boolean }> {
+  const user = await getUserDocument(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const entries = await listDailyEntries(userId);
+  const { plan, replay } = buildScoringRecompute(user, entries, toVersion);
+  if (options.dryRun) {
+    return { ...plan, committed: false };
+  }
+
+  if (options.diffToken !== plan.diffToken) {
+    throw new Error('Recompute diff is stale');
+  }
+
+  await storage.dailyEntries.writeMany(userId, {
+    upserts: replay.entries,
+    userUpdate: {
+      ...replay.state,
+      onboardingTotalScore: plan.after.onboardingTotalScore,
+      baselineBAOYears: plan.after.baselineBAOYears,
+      baselineBiologicalAgeYears: plan.after.baselineBiologicalAgeYears,
+      scoringModelVersion: toVersion,
+    },
+  });
+  scheduleInsightsRefresh(userId);
+
+  console.log('[scoringRecompute] committed:', {
+    userId,
+    from: plan.before.scoringModelVersion,
+    to: toVersion,
+    totalEntries: plan.totalEntries,
+    changedEntries: plan.changedEntries.length,
+  });
+
+  return { ...plan, committed: true };
+}
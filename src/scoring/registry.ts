@@ -0,0 +1,71 @@
+/**
+ * Registry of daily questionnaire schemas
+ * Add a new version here instead of changing an existing one: stored entries keep
+ * pointing at the version their answers were validated against. Scorers live with
+ * the scoring models (./models).
+ */
+
+import { QuestionnaireSchema, ScoringVersionId } from './scoringModel';
+
+const METRICS_V1_SCHEMA: QuestionnaireSchema = {
+  version: 'metrics-v1',
+  description: 'Numeric daily metrics',
+  questions: [
+    { key: 'sleepHours', type: 'number', min: 0, max: 24, description: 'Hours slept' },
+    { key: 'steps', type: 'integer', min: 0, max: 200000, description: 'Steps walked' },
+    { key: 'vigorousMinutes', type: 'number', min: 0, max: 1440, description: 'Minutes of vigorous exercise' },
+    { key: 'processedFoodScore', type: 'number', min: 0, max: 5, description: 'Processed food, 1 (none) - 5 (mostly processed)' },
+    { key: 'alcoholUnits', type: 'number', min: 0, max: 50, description: 'Alcohol units' },
+    { key: 'stressLevel', type: 'number', min: 0, max: 10, description: 'Stress, 0 (none) - 10 (extreme)' },
+    { key: 'lateCaffeine', type: 'boolean', default: false, description: 'Caffeine in the afternoon or evening' },
+    { key: 'screenLate', type: 'boolean', default: false, description: 'Screens within an hour of bedtime' },
+    { key: 'bedtimeHour', type: 'number', min: 0, max: 28, description: 'Bedtime hour (0-24; small hours may be given as 24+)' },
+  ],
+};
+
+const QUESTIONNAIRE_V1_SCHEMA: QuestionnaireSchema = {
+  version: 'questionnaire-v1',
+  description: 'Daily questionnaire (iOS app), answers are option indexes',
+  questions: [
+    { key: 'sleepQuality', type: 'integer', min: 0, max: 4, description: 'Sleep quality, 0 (worst) - 4 (best)' },
+    { key: 'energyLevel', type: 'integer', min: 0, max: 4, description: 'Energy, 0 (exhausted) - 4 (energized)' },
+    { key: 'physicalActivity', type: 'integer', min: 0, max: 4, description: 'Physical activity, 0 (none) - 4 (very active)' },
+    { key: 'nutritionQuality', type: 'integer', min: 0, max: 4, description: 'Nutrition quality, 0 (poor) - 4 (excellent)' },
+    { key: 'sugarAlcoholExposure', type: 'integer', min: 0, max: 3, description: 'Sugar/alcohol, 0 (high) - 3 (none)' },
+    { key: 'stressLevel', type: 'integer', min: 0, max: 4, description: 'Stress, 0 (extremely stressful) - 4 (calm)' },
+    { key: 'mentalEmotionalLoad', type: 'integer', min: 0, max: 4, description: 'Mental load, 0 (overloaded) - 4 (clear)' },
+    { key: 'circadianRhythm', type: 'integer', min: 0, max: 4, description: 'Daylight and screen timing, 0 (poor) - 4 (excellent)' },
+    {
+      key: 'bodySignals',
+      type: 'multiselect',
+      options: ['Bloating', 'Headache', 'Muscle soreness', 'None', 'Great'],
+      default: [],
+      description: 'Body signals today',
+    },
+    {
+      key: 'rejuvenationBehaviors',
+      type: 'multiselect',
+      default: [],
+      description: 'Recovery behaviors (e.g. Meditation, Sauna, Stretching, Social); "None" for none',
+    },
+  ],
+};
+
+const QUESTIONNAIRE_SCHEMAS: Record<ScoringVersionId, QuestionnaireSchema> = {
+  'metrics-v1': METRICS_V1_SCHEMA,
+  'questionnaire-v1': QUESTIONNAIRE_V1_SCHEMA,
+};
+
+export const SCORING_VERSION_IDS = Object.keys(QUESTIONNAIRE_SCHEMAS) as ScoringVersionId[];
+
+export function isScoringVersionId(value: unknown): value is ScoringVersionId {
+  return typeof value === 'string' && SCORING_VERSION_IDS.includes(value as ScoringVersionId);
+}
+
+export function getQuestionnaireSchema(version: ScoringVersionId): QuestionnaireSchema {
+  return QUESTIONNAIRE_SCHEMAS[version];
+}
+
+export function listQuestionnaireSchemas(): QuestionnaireSchema[] {
+  return SCORING_VERSION_IDS.map((version) => QUESTIONNAIRE_SCHEMAS[version]);
+}
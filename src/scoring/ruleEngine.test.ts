@@ -0,0 +1,461 @@
+/**
+ * Unit tests for the scoring rule engine
+ * Run with: npx ts-node src/scoring/ruleEngine.test.ts
+ *
+ * The legacy* functions are the hand-written rules the default rule files replaced,
+ * kept verbatim so the equivalence tests compare against the original behaviour.
+ */
+
+import { calculateDailyScore, DAILY_MAX_DELTA_YEARS } from '../longevity/longevityScoring';
+import { DailyMetrics } from '../longevity/longevityModel';
+import { calculateOnboardingScore, OnboardingAnswers, ScoreBreakdown } from '../score/scoreModel';
+import { DEFAULT_LOCALE, renderMessages } from '../i18n/i18n';
+import { evaluateRuleSet, loadRuleSet, validateRuleSet } from './ruleEngine';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Legacy daily metrics rules (longevityScoring.calculateDailyScore before rule files)
+function legacyDailyScore(
+  metrics: DailyMetrics
+): { score: number; deltaYears: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // Sleep hours
+  if (metrics.sleepHours >= 7 && metrics.sleepHours <= 9) {
+    score += 2;
+    reasons.push('Sleep: good duration');
+  } else if (metrics.sleepHours < 6) {
+    score -= 2;
+    reasons.push('Sleep: too short');
+  } else {
+    score -= 0.5;
+    reasons.push('Sleep: could be better');
+  }
+
+  // Steps
+  if (metrics.steps >= 10000) {
+    score += 2;
+    reasons.push('Steps: active day');
+  } else if (metrics.steps >= 7000) {
+    score += 1;
+    reasons.push('Steps: moderate');
+  } else if (metrics.steps < 4000) {
+    score -= 2;
+    reasons.push('Steps: low activity');
+  } else {
+    score -= 1;
+    reasons.push('Steps: below target');
+  }
+
+  // Vigorous minutes
+  if (metrics.vigorousMinutes >= 30) {
+    score += 1.5;
+    reasons.push('Exercise: strong session');
+  } else if (metrics.vigorousMinutes >= 10) {
+    score += 0.5;
+    reasons.push('Exercise: some intensity');
+  } else {
+    score -= 0.5;
+    reasons.push('Exercise: add intensity');
+  }
+
+  // Processed food (lower is better, assume 1-5 scale)
+  if (metrics.processedFoodScore <= 2) {
+    score += 1;
+    reasons.push('Food: minimally processed');
+  } else if (metrics.processedFoodScore >= 4) {
+    score -= 1.5;
+    reasons.push('Food: too processed');
+  } else {
+    score -= 0.5;
+    reasons.push('Food: mixed quality');
+  }
+
+  // Alcohol
+  if (metrics.alcoholUnits === 0) {
+    score += 1;
+    reasons.push('Alcohol: none');
+  } else if (metrics.alcoholUnits <= 2) {
+    reasons.push('Alcohol: moderate');
+  } else {
+    score -= 1;
+    reasons.push('Alcohol: high');
+  }
+
+  // Stress level (0-10 scale assumed; high is worse)
+  if (metrics.stressLevel <= 3) {
+    score += 1;
+    reasons.push('Stress: low');
+  } else if (metrics.stressLevel >= 7) {
+    score -= 1.5;
+    reasons.push('Stress: high');
+  } else {
+    score -= 0.5;
+    reasons.push('Stress: moderate');
+  }
+
+  if (metrics.lateCaffeine) {
+    score -= 1;
+    reasons.push('Caffeine: late intake');
+  }
+
+  if (metrics.screenLate) {
+    score -= 0.5;
+    reasons.push('Screen time: late use');
+  }
+
+  if (metrics.bedtimeHour > 24 || metrics.bedtimeHour < 5) {
+    score -= 1;
+    reasons.push('Bedtime: very late');
+  } else if (metrics.bedtimeHour > 23) {
+    score -= 0.5;
+    reasons.push('Bedtime: late');
+  } else {
+    score += 0.5;
+    reasons.push('Bedtime: good timing');
+  }
+
+  // Map score to deltaYears (positive score => negative deltaYears)
+  const deltaYears = clamp(-score * 0.03, -DAILY_MAX_DELTA_YEARS, DAILY_MAX_DELTA_YEARS);
+
+  return { score, deltaYears, reasons };
+}
+
+// Legacy onboarding score rules (scoreModel.calculateOnboardingScore before rule files)
+function legacyOnboardingScore(
+  answers: OnboardingAnswers
+): { score: number; breakdown: ScoreBreakdown; insights: string[] } {
+  const breakdown: ScoreBreakdown = {
+    sleep: 0,
+    activity: 0,
+    nutrition: 0,
+    stress: 0,
+    risk: 0,
+  };
+  const insights: string[] = [];
+
+  // Sleep (0-20)
+  // Hours: 7-9h = 10pts, 6-7h or 9-10h = 7pts, <6h or >10h = 3pts
+  if (answers.sleepHours >= 7 && answers.sleepHours <= 9) {
+    breakdown.sleep += 10;
+  } else if (
+    (answers.sleepHours >= 6 && answers.sleepHours < 7) ||
+    (answers.sleepHours > 9 && answers.sleepHours <= 10)
+  ) {
+    breakdown.sleep += 7;
+  } else {
+    breakdown.sleep += 3;
+  }
+
+  // Regularity: regular = 10pts, sometimes = 5pts, irregular = 0pts
+  if (answers.sleepRegularity === 'regular') {
+    breakdown.sleep += 10;
+  } else if (answers.sleepRegularity === 'sometimes') {
+    breakdown.sleep += 5;
+  }
+
+  if (breakdown.sleep < 15) {
+    insights.push('Sleep consistency is your biggest lever');
+  }
+
+  // Activity (0-20)
+  // Steps: >=8000 = 7pts, 5000-7999 = 5pts, <5000 = 2pts
+  if (answers.stepsAvg >= 8000) {
+    breakdown.activity += 7;
+  } else if (answers.stepsAvg >= 5000) {
+    breakdown.activity += 5;
+  } else {
+    breakdown.activity += 2;
+  }
+
+  // Exercise days: >=5 = 7pts, 3-4 = 5pts, 1-2 = 3pts, 0 = 0pts
+  const totalExerciseDays = answers.exerciseDays;
+  if (totalExerciseDays >= 5) {
+    breakdown.activity += 7;
+  } else if (totalExerciseDays >= 3) {
+    breakdown.activity += 5;
+  } else if (totalExerciseDays >= 1) {
+    breakdown.activity += 3;
+  }
+
+  // Strength + Cardio balance: both >=2 = 6pts, one >=2 = 3pts, neither = 0pts
+  if (answers.strengthDays >= 2 && answers.cardioDays >= 2) {
+    breakdown.activity += 6;
+  } else if (answers.strengthDays >= 2 || answers.cardioDays >= 2) {
+    breakdown.activity += 3;
+  }
+
+  // Nutrition (0-20)
+  // Processed food: 0-1 days = 8pts, 2-3 = 5pts, 4-5 = 2pts, 6+ = 0pts
+  if (answers.processedFoodDays <= 1) {
+    breakdown.nutrition += 8;
+  } else if (answers.processedFoodDays <= 3) {
+    breakdown.nutrition += 5;
+  } else if (answers.processedFoodDays <= 5) {
+    breakdown.nutrition += 2;
+  }
+
+  // Veg servings: >=5 = 7pts, 3-4 = 5pts, 1-2 = 3pts, 0 = 0pts
+  if (answers.vegServings >= 5) {
+    breakdown.nutrition += 7;
+  } else if (answers.vegServings >= 3) {
+    breakdown.nutrition += 5;
+  } else if (answers.vegServings >= 1) {
+    breakdown.nutrition += 3;
+  }
+
+  // Sugary drinks: 0 = 5pts, 1-3 = 3pts, 4-7 = 1pt, 8+ = 0pts
+  if (answers.sugaryDrinksPerWeek === 0) {
+    breakdown.nutrition += 5;
+  } else if (answers.sugaryDrinksPerWeek <= 3) {
+    breakdown.nutrition += 3;
+  } else if (answers.sugaryDrinksPerWeek <= 7) {
+    breakdown.nutrition += 1;
+  }
+
+  // Stress (0-20)
+  // Stress level: 1-3 = 10pts, 4-6 = 6pts, 7-8 = 3pts, 9-10 = 0pts
+  if (answers.stressLevel <= 3) {
+    breakdown.stress += 10;
+  } else if (answers.stressLevel <= 6) {
+    breakdown.stress += 6;
+  } else if (answers.stressLevel <= 8) {
+    breakdown.stress += 3;
+  }
+
+  // Meditation: regular = 10pts, sometimes = 5pts, never = 0pts
+  if (answers.meditation === 'regular') {
+    breakdown.stress += 10;
+  } else if (answers.meditation === 'sometimes') {
+    breakdown.stress += 5;
+  }
+
+  // Risk (0-20)
+  // Smoking: false = 10pts, true = 0pts
+  if (!answers.smoking) {
+    breakdown.risk += 10;
+  } else {
+    insights.push('Quitting smoking would significantly improve your score');
+  }
+
+  // Alcohol: 0-2 units/week = 10pts, 3-7 = 7pts, 8-14 = 4pts, 15+ = 0pts
+  if (answers.alcoholUnitsPerWeek <= 2) {
+    breakdown.risk += 10;
+  } else if (answers.alcoholUnitsPerWeek <= 7) {
+    breakdown.risk += 7;
+  } else if (answers.alcoholUnitsPerWeek <= 14) {
+    breakdown.risk += 4;
+  }
+
+  // Clamp each category to 0-20
+  breakdown.sleep = Math.max(0, Math.min(20, breakdown.sleep));
+  breakdown.activity = Math.max(0, Math.min(20, breakdown.activity));
+  breakdown.nutrition = Math.max(0, Math.min(20, breakdown.nutrition));
+  breakdown.stress = Math.max(0, Math.min(20, breakdown.stress));
+  breakdown.risk = Math.max(0, Math.min(20, breakdown.risk));
+
+  const score =
+    breakdown.sleep +
+    breakdown.activity +
+    breakdown.nutrition +
+    breakdown.stress +
+    breakdown.risk;
+
+  // Add generic insights if score is low
+  if (score < 60) {
+    insights.push('Focus on one category at a time for sustainable improvement');
+  }
+
+  return { score, breakdown, insights };
+}
+
+// Test 1: Daily metrics rules match the hand-written rules
+function testDailyEquivalence() {
+  console.log('\n=== Test 1: Daily metrics equivalence ===');
+
+  let cases = 0;
+  for (const sleepHours of [5.9, 6, 7, 9, 9.5]) {
+    for (const steps of [3999, 4000, 7000, 10000]) {
+      for (const vigorousMinutes of [9, 10, 30]) {
+        for (const processedFoodScore of [2, 3, 4]) {
+          for (const alcoholUnits of [0, 1, 2, 3]) {
+            for (const stressLevel of [3, 4, 7]) {
+              for (const [lateCaffeine, screenLate, bedtimeHour] of [
+                [false, false, 22],
+                [true, false, 23],
+                [false, true, 23.5],
+                [true, true, 24],
+                [false, false, 25],
+                [true, false, 2],
+                [false, true, 5],
+              ] as const) {
+                const metrics: DailyMetrics = {
+                  date: '2025-01-01',
+                  sleepHours,
+                  steps,
+                  vigorousMinutes,
+                  processedFoodScore,
+                  alcoholUnits,
+                  stressLevel,
+                  lateCaffeine,
+                  screenLate,
+                  bedtimeHour,
+                };
+                const expected = legacyDailyScore(metrics);
+                const actual = calculateDailyScore(metrics);
+                if (
+                  actual.score !== expected.score ||
+                  actual.deltaYears !== expected.deltaYears ||
+                  actual.reasons.join('|') !== expected.reasons.join('|')
+                ) {
+                  throw new Error(`TEST FAILED: daily rules differ for ${JSON.stringify(metrics)}`);
+                }
+                cases++;
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  assert(cases > 5000, `Score, deltaYears and reasons match on ${cases} combinations`);
+}
+
+// Test 2: Onboarding score rules match the hand-written rules
+function testOnboardingEquivalence() {
+  console.log('\n=== Test 2: Onboarding score equivalence ===');
+
+  const keys: Array<keyof ScoreBreakdown> = ['sleep', 'activity', 'nutrition', 'stress', 'risk'];
+  let cases = 0;
+  for (const sleepHours of [5, 6.5, 7, 9.5, 11]) {
+    for (const sleepRegularity of ['irregular', 'sometimes', 'regular'] as const) {
+      for (const stepsAvg of [3000, 5000, 8000]) {
+        for (const exerciseDays of [0, 1, 3, 5]) {
+          for (const [strengthDays, cardioDays] of [[0, 0], [2, 0], [0, 2], [3, 2]]) {
+            for (const processedFoodDays of [1, 3, 6]) {
+              for (const vegServings of [0, 1, 3, 5]) {
+                for (const sugaryDrinksPerWeek of [0, 3, 8]) {
+                  for (const [stressLevel, meditation, smoking, alcoholUnitsPerWeek] of [
+                    [2, 'regular', false, 0],
+                    [5, 'sometimes', true, 5],
+                    [8, 'never', false, 10],
+                    [10, 'never', true, 20],
+                  ] as const) {
+                    const answers: OnboardingAnswers = {
+                      sleepHours,
+                      sleepRegularity,
+                      exerciseDays,
+                      stepsAvg,
+                      strengthDays,
+                      cardioDays,
+                      processedFoodDays,
+                      vegServings,
+                      sugaryDrinksPerWeek,
+                      alcoholUnitsPerWeek,
+                      stressLevel,
+                      meditation,
+                      smoking,
+                    };
+                    const expected = legacyOnboardingScore(answers);
+                    const actual = calculateOnboardingScore(answers);
+                    if (
+                      actual.score !== expected.score ||
+                      keys.some((key) => actual.breakdown[key] !== expected.breakdown[key]) ||
+                      renderMessages(DEFAULT_LOCALE, actual.insights).join('|') !== expected.insights.join('|')
+                    ) {
+                      throw new Error(`TEST FAILED: onboarding rules differ for ${JSON.stringify(answers)}`);
+                    }
+                    cases++;
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  assert(cases > 5000, `Score, breakdown and insights match on ${cases} combinations`);
+}
+
+// Test 3: Rule files are validated
+function testValidation() {
+  console.log('\n=== Test 3: Validation ===');
+
+  assert(validateRuleSet(loadRuleSet('daily-metrics-v1')).length === 0, 'Default daily rule file is valid');
+  assert(validateRuleSet(loadRuleSet('onboarding-score-v1')).length === 0, 'Default onboarding rule file is valid');
+
+  const errors = validateRuleSet({
+    id: 'broken',
+    description: '',
+    rules: [
+      { metric: 'steps', bands: [{ points: 1 }, { min: 10, max: 5, points: 'two', reason: 'missing' }] },
+      { metric: 'sleep', category: 'rest', bands: [] },
+    ],
+  });
+  assert(errors.some((e) => e.includes('must be last')), 'Else band must be last');
+  assert(errors.some((e) => e.includes('min is greater than max')), 'Inverted band is rejected');
+  assert(errors.some((e) => e.includes('points must be a number')), 'Non-numeric points are rejected');
+  assert(errors.some((e) => e.includes('unknown message key missing')), 'Unknown reason key is rejected');
+  assert(errors.some((e) => e.includes('unknown category rest')), 'Undeclared category is rejected');
+}
+
+// Test 4: Edited bands change scoring without code
+function testCustomRules() {
+  console.log('\n=== Test 4: Custom rules ===');
+
+  const ruleSet = {
+    id: 'custom',
+    description: 'Stricter sleep band',
+    rules: [
+      {
+        metric: 'sleepHours',
+        bands: [
+          { min: 7.5, points: 2, reason: 'daily.sleep.good_duration' },
+          { points: -1, reason: 'daily.sleep.too_short' },
+        ],
+      },
+    ],
+  };
+  const result = evaluateRuleSet(ruleSet, { sleepHours: 7 });
+  assert(result.score === -1 && result.reasons[0].key === 'daily.sleep.too_short', 'A moved band threshold applies');
+  assert(result.reasons[0].params?.value === 7, 'Reasons carry the metric value');
+  assert(evaluateRuleSet(ruleSet, { sleepHours: '8' }).score === 2, 'Numeric strings compare as numbers');
+  assert(evaluateRuleSet(ruleSet, {}).score === -1, 'Missing metric falls through to the else band');
+  assert(DAILY_MAX_DELTA_YEARS === 0.3, 'Daily delta clamp is unchanged');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running Scoring Rule Engine Tests\n');
+
+  try {
+    testDailyEquivalence();
+    testOnboardingEquivalence();
+    testValidation();
+    testCustomRules();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,272 @@
+/**
+ * Scoring rule engine
+ * Interprets declarative rule sets (bands of points and message keys per metric) so
+ * thresholds can be tuned in data/scoring-rules without a code change. Rule files are
+ * validated when first loaded; an invalid file fails loudly instead of scoring wrongly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { hasMessage, MessageRef } from '../i18n/i18n';
+import {
+  BandCondition,
+  RuleBand,
+  RuleCondition,
+  RuleContribution,
+  RuleSet,
+  RuleSetResult,
+  ScoringRule,
+} from './scoringModel';
+
+const RULES_DIR = process.env.SCORING_RULES_DIR || path.join(__dirname, '../../data/scoring-rules');
+
+const CONDITION_KEYS = ['min', 'max', 'above', 'below'] as const;
+
+const loadedRuleSets = new Map<string, RuleSet>();
+
+function hasCondition(condition: RuleCondition): boolean {
+  return CONDITION_KEYS.some((key) => condition[key] !== undefined) || condition.equals !== undefined;
+}
+
+function isUnconditional(band: RuleBand): boolean {
+  return !hasCondition(band) && !band.all && !band.any;
+}
+
+function validateCondition(condition: RuleCondition, where: string, errors: string[]) {
+  if (condition.metric !== undefined && typeof condition.metric !== 'string') {
+    errors.push(`${where}: metric must be a string`);
+  }
+  for (const key of CONDITION_KEYS) {
+    if (condition[key] !== undefined && (typeof condition[key] !== 'number' || !Number.isFinite(condition[key]))) {
+      errors.push(`${where}: ${key} must be a number`);
+    }
+  }
+  if (
+    condition.equals !== undefined &&
+    !['number', 'boolean', 'string'].includes(typeof condition.equals)
+  ) {
+    errors.push(`${where}: equals must be a number, boolean or string`);
+  }
+  if (condition.min !== undefined && condition.max !== undefined && condition.min > condition.max) {
+    errors.push(`${where}: min is greater than max`);
+  }
+}
+
+function validateRules(ruleSet: RuleSet, rules: unknown, field: string, errors: string[]) {
+  if (!Array.isArray(rules)) {
+    errors.push(`${field} must be an array`);
+    return;
+  }
+  rules.forEach((rule: ScoringRule, i) => {
+    const where = `${field}[${i}]`;
+    if (!rule || typeof rule.metric !== 'string' || !rule.metric) {
+      errors.push(`${where}: metric is required`);
+      return;
+    }
+    if (rule.category !== undefined && !ruleSet.categories?.[rule.category]) {
+      errors.push(`${where}: unknown category ${rule.category}`);
+    }
+    if (!Array.isArray(rule.bands) || rule.bands.length === 0) {
+      errors.push(`${where}: bands must be a non-empty array`);
+      return;
+    }
+    rule.bands.forEach((band: RuleBand, j) => {
+      const bandWhere = `${where}.bands[${j}]`;
+      validateCondition(band, bandWhere, errors);
+      for (const group of ['all', 'any'] as const) {
+        if (band[group] === undefined) continue;
+        if (!Array.isArray(band[group]) || band[group]!.length === 0) {
+          errors.push(`${bandWhere}: ${group} must be a non-empty array`);
+          continue;
+        }
+        band[group]!.forEach((condition, k) => validateCondition(condition, `${bandWhere}.${group}[${k}]`, errors));
+      }
+      if (band.points !== undefined && (typeof band.points !== 'number' || !Number.isFinite(band.points))) {
+        errors.push(`${bandWhere}: points must be a number`);
+      }
+      for (const key of [band.reason, band.insight]) {
+        if (key !== undefined && !hasMessage(key)) {
+          errors.push(`${bandWhere}: unknown message key ${key}`);
+        }
+      }
+      // Only the last band may be an unconditional "else"
+      if (isUnconditional(band) && j !== rule.bands.length - 1) {
+        errors.push(`${bandWhere}: a band without conditions must be last`);
+      }
+    });
+  });
+}
+
+/**
+ * Validate a parsed rule file. Returns the list of problems (empty when valid).
+ */
+export function validateRuleSet(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Rule set must be an object'];
+  }
+  const ruleSet = raw as RuleSet;
+  if (typeof ruleSet.id !== 'string' || !ruleSet.id) {
+    errors.push('id is required');
+  }
+  if (ruleSet.categories !== undefined) {
+    for (const [name, range] of Object.entries(ruleSet.categories)) {
+      if (typeof range?.min !== 'number' || typeof range?.max !== 'number' || range.min > range.max) {
+        errors.push(`categories.${name} must have numeric min <= max`);
+      }
+    }
+  }
+  validateRules(ruleSet, ruleSet.rules, 'rules', errors);
+  if (ruleSet.totalRules !== undefined) {
+    validateRules(ruleSet, ruleSet.totalRules, 'totalRules', errors);
+  }
+  return errors;
+}
+
+/**
+ * Load and validate a rule set by id from the rules directory (cached after the first load).
+ * Throws if the file is missing or invalid.
+ */
+export function loadRuleSet(id: string): RuleSet {
+  const cached = loadedRuleSets.get(id);
+  if (cached) {
+    return cached;
+  }
+
+  const file = path.join(RULES_DIR, `${id}.json`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const errors = validateRuleSet(raw);
+  if (errors.length === 0 && raw.id !== id) {
+    errors.push(`id ${raw.id} does not match file name`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring rule set ${file}: ${errors.join('; ')}`);
+  }
+
+  loadedRuleSets.set(id, raw);
+  return raw;
+}
+
+function conditionHolds(condition: RuleCondition, metric: string, values: Record<string, unknown>): boolean {
+  const value = values[condition.metric ?? metric];
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (!CONDITION_KEYS.some((key) => condition[key] !== undefined)) {
+    return true;
+  }
+  // Numeric strings compare as numbers, like the hand-written rules this replaces
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || Number.isNaN(number)) {
+    return false;
+  }
+  return (
+    (condition.min === undefined || number >= condition.min) &&
+    (condition.max === undefined || number <= condition.max) &&
+    (condition.above === undefined || number > condition.above) &&
+    (condition.below === undefined || number < condition.below)
+  );
+}
+
+function bandMatches(band: RuleBand, metric: string, values: Record<string, unknown>): boolean {
+  return (
+    conditionHolds(band, metric, values) &&
+    (band.all ?? []).every((condition) => conditionHolds(condition, metric, values)) &&
+    (band.any === undefined || band.any.some((condition) => conditionHolds(condition, metric, values)))
+  );
+}
+
+function bandCondition(band: RuleBand): BandCondition {
+  const { points, reason, insight, ...condition } = band;
+  return condition;
+}
+
+/**
+ * Best-scoring outcome of a rule when it beats the current points. Without an "else" band,
+ * matching no band at all (0 points) is an outcome too.
+ */
+function findTarget(rule: ScoringRule, points: number): RuleContribution['target'] {
+  let best: { band: RuleBand | null; points: number } | null = rule.bands.some(isUnconditional)
+    ? null
+    : { band: null, points: 0 };
+  for (const band of rule.bands) {
+    const bandPoints = band.points ?? 0;
+    if (!best || bandPoints > best.points) {
+      best = { band, points: bandPoints };
+    }
+  }
+  if (!best || best.points <= points) {
+    return null;
+  }
+  return {
+    band: best.band?.reason ?? null,
+    condition: best.band ? bandCondition(best.band) : null,
+    points: best.points - points,
+  };
+}
+
+/**
+ * Score inputs with a rule set.
+ */
+export function evaluateRuleSet(ruleSet: RuleSet, answers: object): RuleSetResult {
+  const inputs = answers as Record<string, unknown>;
+  const categories: Record<string, number> = {};
+  for (const name of Object.keys(ruleSet.categories ?? {})) {
+    categories[name] = 0;
+  }
+  let uncategorized = 0;
+  const reasons: MessageRef[] = [];
+  const insights: MessageRef[] = [];
+  const contributions: RuleContribution[] = [];
+
+  const apply = (rules: ScoringRule[], values: () => Record<string, unknown>, track: boolean) => {
+    for (const rule of rules) {
+      const current = values();
+      const band = rule.bands.find((candidate) => bandMatches(candidate, rule.metric, current));
+      if (track) {
+        const points = band?.points ?? 0;
+        contributions.push({
+          metric: rule.metric,
+          ...(rule.category !== undefined && { category: rule.category }),
+          value: current[rule.metric] ?? null,
+          points,
+          band: band?.reason ?? null,
+          target: findTarget(rule, points),
+        });
+      }
+      if (!band) continue;
+      if (band.points !== undefined) {
+        if (rule.category !== undefined) {
+          categories[rule.category] += band.points;
+        } else {
+          uncategorized += band.points;
+        }
+      }
+      const value = current[rule.metric];
+      const params = typeof value === 'number' || typeof value === 'string' ? { value } : undefined;
+      if (band.reason !== undefined) reasons.push({ key: band.reason, params });
+      if (band.insight !== undefined) insights.push({ key: band.insight, params });
+    }
+  };
+
+  // Running category subtotals are readable as "category:<name>"
+  apply(ruleSet.rules, () => {
+    const values: Record<string, unknown> = { ...inputs };
+    for (const [name, subtotal] of Object.entries(categories)) {
+      values[`category:${name}`] = subtotal;
+    }
+    return values;
+  }, true);
+
+  let score = uncategorized;
+  for (const [name, range] of Object.entries(ruleSet.categories ?? {})) {
+    categories[name] = Math.max(range.min, Math.min(range.max, categories[name]));
+    score += categories[name];
+  }
+
+  if (ruleSet.totalRules) {
+    apply(ruleSet.totalRules, () => ({ ...inputs, total: score }), false);
+  }
+
+  return { score, categories, reasons, insights, contributions };
+}
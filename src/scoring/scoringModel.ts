@@ -0,0 +1,188 @@
+/**
+ * Versioned daily scoring types
+ * Every daily check-in is validated against a questionnaire schema and scored by the
+ * scorer registered for the same version; the version is stored on the entry.
+ * Scoring models (onboarding weights and daily thresholds) are versioned separately
+ * so the same answers can be rescored when the rules change.
+ */
+
+import type { MessageRef } from '../i18n/i18n';
+import type { OnboardingAnswers } from '../longevity/longevityModel';
+
+/**
+ * metrics-v1       - numeric metrics (sleep hours, steps, ...) scored by longevityScoring.calculateDailyScore
+ * questionnaire-v1 - 0-4 questionnaire sent by the iOS app, scored by ageModel.calculateDailyScore
+ */
+export type ScoringVersionId = 'metrics-v1' | 'questionnaire-v1';
+
+/** Version assumed for entries stored before versioning (they all hold numeric metrics). */
+export const LEGACY_SCORING_VERSION: ScoringVersionId = 'metrics-v1';
+
+export type AnswerValue = number | boolean | string[];
+export type DailyAnswers = Record<string, AnswerValue>;
+
+export interface QuestionSpec {
+  key: string;
+  type: 'number' | 'integer' | 'boolean' | 'multiselect';
+  description: string;
+  min?: number;
+  max?: number;
+  /** Allowed values for multiselect questions. */
+  options?: string[];
+  /** Used when the answer is missing; questions without a default are required. */
+  default?: AnswerValue;
+}
+
+export interface QuestionnaireSchema {
+  version: ScoringVersionId;
+  description: string;
+  questions: QuestionSpec[];
+}
+
+/**
+ * How one answered factor moved a day's score.
+ * Points are the factor's share of the score (positive is rejuvenating); deltaYears is its
+ * share of the scored delta, so the shares add up to the day's deltaYears after clamping.
+ */
+export interface FactorContribution {
+  /** Answer field, e.g. "sleepHours". */
+  factor: string;
+  value: number | boolean | string | string[] | null;
+  points: number;
+  deltaYears: number;
+  /** Catalog key of the band the answer fell in; null when no band applied. */
+  band: string | null;
+  /** Best band of the factor when the answer is not already in it. */
+  target: ContributionTarget | null;
+}
+
+export interface ContributionTarget {
+  /** Catalog key of the target band; null when the best outcome is avoiding every band. */
+  band: string | null;
+  /** What the answer has to satisfy; null when not expressible as one condition. */
+  condition: BandCondition | null;
+  /** Score points and years gained by reaching the target. */
+  points: number;
+  deltaYears: number;
+}
+
+export interface DailyScoreResult {
+  score: number;
+  deltaYears: number;
+  /** English rendering of reasonCodes. */
+  reasons: string[];
+  reasonCodes: MessageRef[];
+  contributions: FactorContribution[];
+}
+
+/**
+ * A validated check-in: the answers and the version they were validated against.
+ */
+export interface DailyCheckIn {
+  version: ScoringVersionId;
+  answers: DailyAnswers;
+}
+
+/**
+ * Id of a scoring model, e.g. "v1". Stored on the user and on each entry.
+ */
+export type ScoringModelId = string;
+
+/** Model assumed for users and entries stored before scoring models were versioned. */
+export const LEGACY_SCORING_MODEL: ScoringModelId = 'v1';
+
+export interface OnboardingScoreResult {
+  totalScore: number;
+  BAOYears: number;
+  baselineBiologicalAgeYears: number;
+}
+
+/**
+ * The rules that turn answers into numbers. A model scores every questionnaire version,
+ * so changing weights never changes which answers an entry holds.
+ */
+export interface ScoringModel {
+  id: ScoringModelId;
+  description: string;
+  scoreOnboarding(answers: OnboardingAnswers, chronologicalAgeYears: number): OnboardingScoreResult;
+  scoreDaily: Record<ScoringVersionId, (answers: DailyAnswers, dateKey: string) => DailyScoreResult>;
+}
+
+export type CheckInValidationResult =
+  | { ok: true; value: DailyCheckIn }
+  | { ok: false; errors: string[] };
+
+/**
+ * Declarative scoring rules (data/scoring-rules/*.json), interpreted by ./ruleEngine.
+ *
+ * A condition tests one input value (the rule's metric unless it names another).
+ * Numbers are compared with min (>=), max (<=), above (>) and below (<); equals is strict.
+ * Numeric strings compare as numbers; other non-numeric values never satisfy a comparison.
+ */
+export interface RuleCondition {
+  metric?: string;
+  min?: number;
+  max?: number;
+  above?: number;
+  below?: number;
+  equals?: number | boolean | string;
+}
+
+/**
+ * One band of a rule. Its own condition fields, every `all` condition and at least one
+ * `any` condition must hold; a band without conditions always matches (the "else" band).
+ */
+export interface RuleBand extends RuleCondition {
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+  points?: number;
+  /** Catalog key (src/i18n) added to the result's reasons, with the metric value as {value}. */
+  reason?: string;
+  /** Catalog key added to the result's insights. */
+  insight?: string;
+}
+
+/** The matching part of a band, without its outcome. */
+export type BandCondition = Omit<RuleBand, 'points' | 'reason' | 'insight'>;
+
+/**
+ * Bands are tried in order and only the first match applies. Points go to the rule's
+ * category when it has one. "category:<name>" reads a category's running subtotal and
+ * "total" (only in totalRules) reads the final score.
+ */
+export interface ScoringRule {
+  metric: string;
+  category?: string;
+  bands: RuleBand[];
+}
+
+export interface RuleSet {
+  id: string;
+  description: string;
+  /** Categories and their clamping range; the score is the sum of clamped categories. */
+  categories?: Record<string, { min: number; max: number }>;
+  rules: ScoringRule[];
+  /** Evaluated after the score is final, e.g. for insights on the total. */
+  totalRules?: ScoringRule[];
+}
+
+/**
+ * Outcome of one rule (rules only, not totalRules). Points are before category clamping.
+ */
+export interface RuleContribution {
+  metric: string;
+  category?: string;
+  value: unknown;
+  points: number;
+  /** Reason key of the matched band (null when none matched or it has no reason). */
+  band: string | null;
+  target: { band: string | null; condition: BandCondition | null; points: number } | null;
+}
+
+export interface RuleSetResult {
+  score: number;
+  categories: Record<string, number>;
+  reasons: MessageRef[];
+  insights: MessageRef[];
+  contributions: RuleContribution[];
+}
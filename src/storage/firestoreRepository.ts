@@ -0,0 +1,785 @@
+/**
+ * Firestore implementation of the persistence layer
+ *
+ * Layout:
+ *   users/{userId}                      - UserDocument (+ consent and subscription fields)
+ *   users/{userId}/dailyEntries/{date}  - DailyEntryDocument
+ *   users/{userId}/chatHistory/{id}     - chat messages of the default conversation
+ *   users/{userId}/conversations/{id}   - conversation threads
+ *   users/{userId}/conversations/{id}/messages/{id} - chat messages of other threads
+ *   users/{userId}/actionPlans/{weekStart} - weekly action plans
+ *   users/{userId}/insights/current     - cached check-in history insights
+ *   users/{userId}/goals/{goalId}       - outcome and behavior goals
+ *   users/{userId}/healthMetrics/{date} - per-day metrics and the HealthKit samples they were aggregated from
+ *   users/{userId}/moderationLogs/{id}  - coach safety moderation log
+ *   dataExports/{jobId}                 - personal data export jobs
+ *   dataExports/{jobId}/files/{n}       - export archive files, split into chunks of DATA_EXPORT_CHUNK_CHARS
+ *   passwordResets/{id}                 - password reset requests
+ *   accountDeletions/{userId}           - scheduled account deletions
+ *   accountDeletionAudits/{id}          - completed deletions, without personal data
+ */
+
+import * as admin from 'firebase-admin';
+import { firestore, firestoreToJSON } from '../config/firestore';
+import { DailyEntryDocument, UserDocument, UserInsightsDocument } from '../longevity/longevityModel';
+import { ActionPlanDocument } from '../coach/actionPlanModel';
+import { GoalDocument } from '../goals/goalModel';
+import { DEVICE_METRIC_KEYS, HealthDailyMetricsDocument } from '../health/healthModel';
+import { ModerationLogRecord } from '../safety/safetyModel';
+import {
+  AccountDeletionAudit,
+  AccountDeletionRequest,
+  DataExportFile,
+  DataExportJob,
+} from '../privacy/privacyModel';
+import {
+  ChatMessageRecord,
+  ConversationRecord,
+  DailyEntryWrite,
+  DEFAULT_CONVERSATION_ID,
+  PasswordResetRequest,
+  Repository,
+  StoredSubscription,
+  UserUpdate,
+} from './repository';
+
+const serverTimestamp = () => admin.firestore.FieldValue.serverTimestamp();
+
+// Firestore allows 500 operations per batch; keep headroom for the user update
+const MAX_BATCH_OPS = 400;
+
+// Documents are limited to 1 MiB; a chunk stays below it even if every character takes 4 bytes
+const DATA_EXPORT_CHUNK_CHARS = 200_000;
+
+const PASSWORD_RESET_TIMESTAMP_FIELDS = [
+  'createdAt',
+  'expiresAt',
+  'resendAvailableAt',
+  'sendCountWindowStart',
+  'verifiedAt',
+  'consumedAt',
+] as const;
+
+const usersRef = () => firestore.collection('users');
+const dailyEntriesRef = (userId: string) => usersRef().doc(userId).collection('dailyEntries');
+const chatHistoryRef = (userId: string) => usersRef().doc(userId).collection('chatHistory');
+const conversationsRef = (userId: string) => usersRef().doc(userId).collection('conversations');
+const actionPlansRef = (userId: string) => usersRef().doc(userId).collection('actionPlans');
+const moderationLogsRef = (userId: string) => usersRef().doc(userId).collection('moderationLogs');
+const insightsRef = (userId: string) => usersRef().doc(userId).collection('insights').doc('current');
+const goalsRef = (userId: string) => usersRef().doc(userId).collection('goals');
+const healthMetricsRef = (userId: string) => usersRef().doc(userId).collection('healthMetrics');
+const dataExportsRef = () => firestore.collection('dataExports');
+const dataExportFilesRef = (jobId: string) => dataExportsRef().doc(jobId).collection('files');
+const passwordResetsRef = () => firestore.collection('passwordResets');
+const accountDeletionsRef = () => firestore.collection('accountDeletions');
+const accountDeletionAuditsRef = () => firestore.collection('accountDeletionAudits');
+
+async function deleteDocuments(docs: admin.firestore.QueryDocumentSnapshot[]): Promise<void> {
+  for (let i = 0; i < docs.length; i += MAX_BATCH_OPS) {
+    const batch = firestore.batch();
+    docs.slice(i, i + MAX_BATCH_OPS).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+async function deleteDataExportFiles(jobId: string): Promise<void> {
+  const snap = await dataExportFilesRef(jobId).get();
+  await deleteDocuments(snap.docs);
+}
+
+// Default conversation messages stay in the legacy chatHistory collection
+const messagesRef = (userId: string, conversationId: string) =>
+  conversationId === DEFAULT_CONVERSATION_ID
+    ? chatHistoryRef(userId)
+    : conversationsRef(userId).doc(conversationId).collection('messages');
+
+function toChatMessage(
+  userId: string,
+  conversationId: string,
+  doc: admin.firestore.QueryDocumentSnapshot | admin.firestore.DocumentSnapshot
+): ChatMessageRecord {
+  const data = firestoreToJSON(doc.data());
+  return {
+    id: doc.id,
+    userId,
+    conversationId,
+    role: data.role as 'user' | 'assistant',
+    content: data.content as string,
+    createdAt: data.createdAt as string,
+  };
+}
+
+function toConversation(userId: string, doc: admin.firestore.DocumentSnapshot): ConversationRecord {
+  const data = firestoreToJSON(doc.data());
+  return {
+    id: doc.id,
+    userId,
+    title: data.title ?? null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt ?? data.createdAt,
+    lastMessageAt: data.lastMessageAt ?? null,
+    summary: data.summary ?? null,
+    summaryUpdatedAt: data.summaryUpdatedAt ?? null,
+  };
+}
+
+/**
+ * Convert epoch millis to Firestore Timestamps for storage.
+ */
+function passwordResetToFirestore(data: Partial<PasswordResetRequest>): Record<string, any> {
+  const result: Record<string, any> = { ...data };
+  for (const field of PASSWORD_RESET_TIMESTAMP_FIELDS) {
+    const value = data[field];
+    if (typeof value === 'number') {
+      result[field] = admin.firestore.Timestamp.fromMillis(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert stored Firestore Timestamps back to epoch millis.
+ */
+function passwordResetFromFirestore(data: admin.firestore.DocumentData): PasswordResetRequest {
+  const result: any = { ...data };
+  for (const field of PASSWORD_RESET_TIMESTAMP_FIELDS) {
+    const value = data[field];
+    if (value && typeof value.toMillis === 'function') {
+      result[field] = value.toMillis();
+    } else if (value === undefined) {
+      result[field] = null;
+    }
+  }
+  return result as PasswordResetRequest;
+}
+
+export function createFirestoreRepository(): Repository {
+  return {
+    backend: 'firestore',
+
+    users: {
+      async get(userId: string): Promise<UserDocument | null> {
+        const doc = await usersRef().doc(userId).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as UserDocument;
+      },
+
+      async merge(userId: string, data: UserUpdate): Promise<void> {
+        await usersRef().doc(userId).set({ ...data, updatedAt: serverTimestamp() }, { merge: true });
+      },
+
+      async delete(userId: string): Promise<void> {
+        // Removes every subcollection too, including ones a plain delete would orphan
+        await firestore.recursiveDelete(usersRef().doc(userId));
+      },
+
+      async countData(userId: string): Promise<Record<string, number>> {
+        const userRef = usersRef().doc(userId);
+        const counts: Record<string, number> = {};
+        if ((await userRef.get()).exists) {
+          counts.users = 1;
+        }
+        // Subcollections are listed rather than assumed so unknown leftovers are caught too
+        for (const collection of await userRef.listCollections()) {
+          const count = (await collection.count().get()).data().count;
+          if (count > 0) {
+            counts[collection.id] = count;
+          }
+        }
+        // Documents without data still hold their messages
+        let messages = 0;
+        for (const conversation of await conversationsRef(userId).listDocuments()) {
+          messages += (await conversation.collection('messages').count().get()).data().count;
+        }
+        if (messages > 0) {
+          counts['conversations/messages'] = messages;
+        }
+        return counts;
+      },
+    },
+
+    dailyEntries: {
+      async get(userId: string, dateKey: string): Promise<DailyEntryDocument | null> {
+        const snap = await dailyEntriesRef(userId).doc(dateKey).get();
+        if (!snap.exists) return null;
+        return firestoreToJSON(snap.data()) as DailyEntryDocument;
+      },
+
+      async exists(userId: string, dateKey: string): Promise<boolean> {
+        const snap = await dailyEntriesRef(userId).doc(dateKey).get();
+        return snap.exists;
+      },
+
+      async list(userId: string): Promise<DailyEntryDocument[]> {
+        const snap = await dailyEntriesRef(userId).get();
+        if (snap.empty) return [];
+        const docs = snap.docs.map((d) => firestoreToJSON(d.data()) as DailyEntryDocument);
+        // Sort by dateKey if available, otherwise fall back to date
+        return docs.sort((a, b) => {
+          const dateA = a.dateKey || a.date;
+          const dateB = b.dateKey || b.date;
+          return dateA.localeCompare(dateB);
+        });
+      },
+
+      async create(userId: string, entry: DailyEntryWrite): Promise<void> {
+        const ref = dailyEntriesRef(userId).doc(entry.dateKey);
+        const existing = await ref.get();
+        if (existing.exists) {
+          throw new Error('Daily check-in already completed for this date');
+        }
+        await ref.set({
+          ...entry,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      },
+
+      async createWithUserUpdate(userId, dateKey, build): Promise<void> {
+        const userRef = usersRef().doc(userId);
+        const entryRef = dailyEntriesRef(userId).doc(dateKey);
+
+        // Transaction guards against duplicate check-ins and stale streak state
+        await firestore.runTransaction(async (transaction) => {
+          const entrySnapshot = await transaction.get(entryRef);
+          if (entrySnapshot.exists) {
+            throw new Error('Daily check-in already completed for this date');
+          }
+
+          const userSnapshot = await transaction.get(userRef);
+          if (!userSnapshot.exists) {
+            throw new Error('User not found');
+          }
+
+          const { entry, userUpdate } = build(firestoreToJSON(userSnapshot.data()) as UserDocument);
+
+          transaction.set(entryRef, {
+            ...entry,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+          transaction.update(userRef, {
+            ...userUpdate,
+            updatedAt: serverTimestamp(),
+          });
+        });
+      },
+
+      async writeMany(userId, params): Promise<void> {
+        const userRef = usersRef().doc(userId);
+        const entriesRef = dailyEntriesRef(userId);
+        const upsertRefs = params.upserts.map((entry) => entriesRef.doc(entry.dateKey));
+
+        // One transaction, so a failure leaves either the old or the replayed history.
+        // Firestore bounds a transaction by its size (10 MiB), not by its number of writes.
+        await firestore.runTransaction(async (transaction) => {
+          // createdAt is kept from the stored entry, or set for entries that do not exist yet
+          const existingSnaps = upsertRefs.length > 0 ? await transaction.getAll(...upsertRefs) : [];
+          const existingCreatedAt = new Map(
+            existingSnaps.filter((s) => s.exists).map((s) => [s.id, s.get('createdAt')])
+          );
+
+          for (const dateKey of params.deleteDateKeys ?? []) {
+            transaction.delete(entriesRef.doc(dateKey));
+          }
+
+          params.upserts.forEach((entry, i) => {
+            const { createdAt, updatedAt, ...rest } = entry as DailyEntryWrite & {
+              createdAt?: unknown;
+              updatedAt?: unknown;
+            };
+            // Written whole (no merge) so answers from a previous scoring version do not linger
+            transaction.set(upsertRefs[i], {
+              ...rest,
+              createdAt: existingCreatedAt.get(entry.dateKey) ?? serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            });
+          });
+
+          if (params.userUpdate) {
+            transaction.set(userRef, { ...params.userUpdate, updatedAt: serverTimestamp() }, { merge: true });
+          }
+        });
+      },
+    },
+
+    chatHistory: {
+      async add(userId, message): Promise<string> {
+        const conversationId = message.conversationId ?? DEFAULT_CONVERSATION_ID;
+        const messageRef = messagesRef(userId, conversationId).doc();
+        const conversationRef = conversationsRef(userId).doc(conversationId);
+        const conversation = await conversationRef.get();
+
+        const batch = firestore.batch();
+        batch.set(messageRef, {
+          userId,
+          conversationId,
+          role: message.role,
+          content: message.content,
+          createdAt: serverTimestamp(),
+        });
+        batch.set(
+          conversationRef,
+          conversation.exists
+            ? { updatedAt: serverTimestamp(), lastMessageAt: serverTimestamp() }
+            : {
+                userId,
+                title: null,
+                summary: null,
+                summaryUpdatedAt: null,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp(),
+                lastMessageAt: serverTimestamp(),
+              },
+          { merge: true }
+        );
+        await batch.commit();
+        return messageRef.id;
+      },
+
+      async listRecent(
+        userId: string,
+        limit: number,
+        conversationId: string = DEFAULT_CONVERSATION_ID
+      ): Promise<ChatMessageRecord[]> {
+        const snap = await messagesRef(userId, conversationId).orderBy('createdAt', 'desc').limit(limit).get();
+        if (snap.empty) return [];
+
+        return snap.docs
+          .map((doc) => toChatMessage(userId, conversationId, doc))
+          .reverse(); // Reverse to get chronological order
+      },
+
+      async listPage(userId, conversationId, options) {
+        const ref = messagesRef(userId, conversationId);
+        let query = ref.orderBy('createdAt', 'desc');
+        if (options.before) {
+          const cursor = await ref.doc(options.before).get();
+          if (!cursor.exists) throw new Error('Invalid cursor');
+          query = query.startAfter(cursor);
+        }
+
+        // Fetch one extra message to know whether an older page exists
+        const snap = await query.limit(options.limit + 1).get();
+        const docs = snap.docs.slice(0, options.limit);
+        const messages = docs.map((doc) => toChatMessage(userId, conversationId, doc)).reverse();
+        return {
+          messages,
+          nextCursor: snap.docs.length > options.limit && messages.length > 0 ? messages[0].id : null,
+        };
+      },
+
+      async listAll(userId: string, conversationId: string): Promise<ChatMessageRecord[]> {
+        const snap = await messagesRef(userId, conversationId).orderBy('createdAt', 'asc').get();
+        return snap.docs.map((doc) => toChatMessage(userId, conversationId, doc));
+      },
+
+      async delete(userId: string, conversationId: string, messageId: string): Promise<boolean> {
+        const ref = messagesRef(userId, conversationId).doc(messageId);
+        const snap = await ref.get();
+        if (!snap.exists) return false;
+        await ref.delete();
+        return true;
+      },
+
+      async deleteAll(userId: string, conversationId: string): Promise<number> {
+        const snap = await messagesRef(userId, conversationId).get();
+        for (let i = 0; i < snap.docs.length; i += MAX_BATCH_OPS) {
+          const batch = firestore.batch();
+          snap.docs.slice(i, i + MAX_BATCH_OPS).forEach((doc) => batch.delete(doc.ref));
+          await batch.commit();
+        }
+        return snap.size;
+      },
+    },
+
+    conversations: {
+      async get(userId: string, conversationId: string): Promise<ConversationRecord | null> {
+        const doc = await conversationsRef(userId).doc(conversationId).get();
+        if (!doc.exists) return null;
+        return toConversation(userId, doc);
+      },
+
+      async list(userId: string): Promise<ConversationRecord[]> {
+        const snap = await conversationsRef(userId).get();
+        return snap.docs
+          .map((doc) => toConversation(userId, doc))
+          .sort((a, b) => (b.lastMessageAt ?? b.createdAt).localeCompare(a.lastMessageAt ?? a.createdAt));
+      },
+
+      async create(userId: string, data: { title: string | null }): Promise<ConversationRecord> {
+        const ref = conversationsRef(userId).doc();
+        const now = new Date().toISOString();
+        const record: ConversationRecord = {
+          id: ref.id,
+          userId,
+          title: data.title,
+          createdAt: now,
+          updatedAt: now,
+          lastMessageAt: null,
+          summary: null,
+          summaryUpdatedAt: null,
+        };
+        const { id, ...fields } = record;
+        await ref.set(fields);
+        return record;
+      },
+
+      async update(userId: string, conversationId: string, data: { title: string | null }): Promise<void> {
+        const ref = conversationsRef(userId).doc(conversationId);
+        const snap = await ref.get();
+        if (!snap.exists) {
+          throw new Error('Conversation not found');
+        }
+        await ref.update({ title: data.title, updatedAt: serverTimestamp() });
+      },
+
+      async setSummary(userId: string, conversationId: string, summary: string | null): Promise<void> {
+        const ref = conversationsRef(userId).doc(conversationId);
+        const snap = await ref.get();
+        if (!snap.exists) return;
+        await ref.update({
+          summary,
+          summaryUpdatedAt: summary === null ? null : serverTimestamp(),
+        });
+      },
+
+      async delete(userId: string, conversationId: string): Promise<void> {
+        await conversationsRef(userId).doc(conversationId).delete();
+      },
+    },
+
+    actionPlans: {
+      async get(userId: string, weekStart: string): Promise<ActionPlanDocument | null> {
+        const doc = await actionPlansRef(userId).doc(weekStart).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as ActionPlanDocument;
+      },
+
+      async list(userId: string, limit: number): Promise<ActionPlanDocument[]> {
+        const snap = await actionPlansRef(userId).orderBy('weekStart', 'desc').limit(limit).get();
+        return snap.docs.map((doc) => firestoreToJSON(doc.data()) as ActionPlanDocument);
+      },
+
+      async save(plan): Promise<ActionPlanDocument> {
+        const ref = actionPlansRef(plan.userId).doc(plan.weekStart);
+        const now = new Date().toISOString();
+        return firestore.runTransaction(async (transaction) => {
+          const existing = await transaction.get(ref);
+          const saved: ActionPlanDocument = {
+            ...plan,
+            createdAt: existing.exists ? firestoreToJSON(existing.data()).createdAt : now,
+            updatedAt: now,
+          };
+          transaction.set(ref, saved);
+          return saved;
+        });
+      },
+
+      async delete(userId: string, weekStart: string): Promise<boolean> {
+        const ref = actionPlansRef(userId).doc(weekStart);
+        const snap = await ref.get();
+        if (!snap.exists) return false;
+        await ref.delete();
+        return true;
+      },
+    },
+
+    insights: {
+      async get(userId: string): Promise<UserInsightsDocument | null> {
+        const doc = await insightsRef(userId).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as UserInsightsDocument;
+      },
+
+      async save(record): Promise<void> {
+        await insightsRef(record.userId).set(record);
+      },
+    },
+
+    goals: {
+      async get(userId: string, goalId: string): Promise<GoalDocument | null> {
+        const doc = await goalsRef(userId).doc(goalId).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as GoalDocument;
+      },
+
+      async list(userId: string): Promise<GoalDocument[]> {
+        const snap = await goalsRef(userId).orderBy('createdAt', 'desc').get();
+        return snap.docs.map((doc) => firestoreToJSON(doc.data()) as GoalDocument);
+      },
+
+      async save(goal): Promise<void> {
+        await goalsRef(goal.userId).doc(goal.id).set(goal);
+      },
+
+      async delete(userId: string, goalId: string): Promise<boolean> {
+        const ref = goalsRef(userId).doc(goalId);
+        const snap = await ref.get();
+        if (!snap.exists) return false;
+        await ref.delete();
+        return true;
+      },
+    },
+
+    healthMetrics: {
+      async get(userId: string, dateKey: string): Promise<HealthDailyMetricsDocument | null> {
+        const doc = await healthMetricsRef(userId).doc(dateKey).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as HealthDailyMetricsDocument;
+      },
+
+      async saveMany(userId: string, records): Promise<void> {
+        const now = new Date().toISOString();
+        for (let i = 0; i < records.length; i += MAX_BATCH_OPS) {
+          const batch = firestore.batch();
+          for (const record of records.slice(i, i + MAX_BATCH_OPS)) {
+            batch.set(healthMetricsRef(userId).doc(record.dateKey), { ...record, userId, updatedAt: now }, { merge: true });
+          }
+          await batch.commit();
+        }
+      },
+
+      async list(userId: string): Promise<HealthDailyMetricsDocument[]> {
+        const snap = await healthMetricsRef(userId).get();
+        return snap.docs
+          .map((doc) => firestoreToJSON(doc.data()) as HealthDailyMetricsDocument)
+          .sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+      },
+      async listRange(userId: string, fromDateKey: string, toDateKey: string): Promise<HealthDailyMetricsDocument[]> {
+        const snap = await healthMetricsRef(userId)
+          .where('dateKey', '>=', fromDateKey)
+          .where('dateKey', '<=', toDateKey)
+          .select('userId', 'dateKey', 'updatedAt', ...DEVICE_METRIC_KEYS)
+          .get();
+        return snap.docs
+          .map((doc) => firestoreToJSON(doc.data()) as HealthDailyMetricsDocument)
+          .sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+      },
+    },
+
+    dataExports: {
+      async get(jobId: string): Promise<DataExportJob | null> {
+        const doc = await dataExportsRef().doc(jobId).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as DataExportJob;
+      },
+
+      async listByUser(userId: string): Promise<DataExportJob[]> {
+        // Sorted in memory to avoid needing a composite index
+        const snap = await dataExportsRef().where('userId', '==', userId).get();
+        return snap.docs
+          .map((doc) => firestoreToJSON(doc.data()) as DataExportJob)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      },
+
+      async listExpired(before: string): Promise<DataExportJob[]> {
+        // Swept jobs have a null purgeAt, which range queries skip
+        const snap = await dataExportsRef().where('purgeAt', '<=', before).get();
+        return snap.docs.map((doc) => firestoreToJSON(doc.data()) as DataExportJob);
+      },
+
+      async save(job: DataExportJob): Promise<void> {
+        await dataExportsRef().doc(job.id).set(job);
+      },
+
+      async saveFiles(jobId: string, files: DataExportFile[]): Promise<void> {
+        await deleteDataExportFiles(jobId);
+        const chunks: Array<Record<string, unknown>> = [];
+        files.forEach((file, fileIndex) => {
+          // Empty files still get one chunk
+          const parts = Math.max(1, Math.ceil(file.content.length / DATA_EXPORT_CHUNK_CHARS));
+          for (let part = 0; part < parts; part++) {
+            chunks.push({
+              name: file.name,
+              contentType: file.contentType,
+              fileIndex,
+              part,
+              content: file.content.slice(part * DATA_EXPORT_CHUNK_CHARS, (part + 1) * DATA_EXPORT_CHUNK_CHARS),
+            });
+          }
+        });
+        for (let i = 0; i < chunks.length; i += MAX_BATCH_OPS) {
+          const batch = firestore.batch();
+          chunks.slice(i, i + MAX_BATCH_OPS).forEach((chunk, j) => {
+            batch.set(dataExportFilesRef(jobId).doc(String(i + j)), chunk);
+          });
+          await batch.commit();
+        }
+      },
+
+      async getFiles(jobId: string): Promise<DataExportFile[]> {
+        const snap = await dataExportFilesRef(jobId).get();
+        const chunks = snap.docs
+          .map((doc) => doc.data())
+          .sort((a, b) => a.fileIndex - b.fileIndex || a.part - b.part);
+        const files: DataExportFile[] = [];
+        for (const chunk of chunks) {
+          if (chunk.part === 0) {
+            files.push({ name: chunk.name, contentType: chunk.contentType, content: chunk.content });
+          } else {
+            files[files.length - 1].content += chunk.content;
+          }
+        }
+        return files;
+      },
+
+      async deleteFiles(jobId: string): Promise<void> {
+        await deleteDataExportFiles(jobId);
+      },
+
+      async deleteByUser(userId: string): Promise<number> {
+        const snap = await dataExportsRef().where('userId', '==', userId).get();
+        for (const doc of snap.docs) {
+          await firestore.recursiveDelete(doc.ref);
+        }
+        return snap.size;
+      },
+    },
+
+    accountDeletions: {
+      async get(userId: string): Promise<AccountDeletionRequest | null> {
+        const doc = await accountDeletionsRef().doc(userId).get();
+        if (!doc.exists) return null;
+        return firestoreToJSON(doc.data()) as AccountDeletionRequest;
+      },
+
+      async save(request: AccountDeletionRequest): Promise<void> {
+        await accountDeletionsRef().doc(request.userId).set(request);
+      },
+
+      async delete(userId: string): Promise<void> {
+        await accountDeletionsRef().doc(userId).delete();
+      },
+
+      async listDue(before: string): Promise<AccountDeletionRequest[]> {
+        const snap = await accountDeletionsRef().where('scheduledFor', '<=', before).get();
+        return snap.docs.map((doc) => firestoreToJSON(doc.data()) as AccountDeletionRequest);
+      },
+
+      async addAudit(audit: AccountDeletionAudit): Promise<void> {
+        await accountDeletionAuditsRef().doc(audit.id).set(audit);
+      },
+    },
+
+    moderationLogs: {
+      async add(entry): Promise<string> {
+        const ref = moderationLogsRef(entry.userId).doc();
+        await ref.set({ ...entry, createdAt: new Date().toISOString() });
+        return ref.id;
+      },
+
+      async list(userId: string, options): Promise<ModerationLogRecord[]> {
+        const toRecord = (doc: admin.firestore.QueryDocumentSnapshot): ModerationLogRecord => ({
+          ...(firestoreToJSON(doc.data()) as Omit<ModerationLogRecord, 'id'>),
+          id: doc.id,
+        });
+        if (!options.conversationId) {
+          const snap = await moderationLogsRef(userId).orderBy('createdAt', 'desc').limit(options.limit).get();
+          return snap.docs.map(toRecord);
+        }
+        // Filtered query is sorted in memory to avoid needing a composite index
+        const snap = await moderationLogsRef(userId).where('conversationId', '==', options.conversationId).get();
+        return snap.docs
+          .map(toRecord)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, options.limit);
+      },
+    },
+
+    passwordResets: {
+      async findByEmail(emailLower: string) {
+        // Avoiding orderBy to prevent needing a composite index
+        const query = await passwordResetsRef().where('emailLower', '==', emailLower).get();
+        return query.docs.map((doc) => ({ id: doc.id, data: passwordResetFromFirestore(doc.data()) }));
+      },
+
+      async get(id: string): Promise<PasswordResetRequest | null> {
+        const doc = await passwordResetsRef().doc(id).get();
+        if (!doc.exists) return null;
+        return passwordResetFromFirestore(doc.data()!);
+      },
+
+      async create(data: PasswordResetRequest): Promise<string> {
+        const ref = await passwordResetsRef().add(passwordResetToFirestore(data));
+        return ref.id;
+      },
+
+      async update(id: string, data: Partial<PasswordResetRequest>): Promise<void> {
+        await passwordResetsRef().doc(id).update(passwordResetToFirestore(data));
+      },
+
+      async incrementVerifyAttempts(id: string): Promise<void> {
+        await passwordResetsRef().doc(id).update({
+          verifyAttempts: admin.firestore.FieldValue.increment(1),
+        });
+      },
+
+      async deleteByEmail(emailLower: string): Promise<number> {
+        const snap = await passwordResetsRef().where('emailLower', '==', emailLower).get();
+        await deleteDocuments(snap.docs);
+        return snap.size;
+      },
+    },
+
+    consents: {
+      async get(userId: string) {
+        const doc = await usersRef().doc(userId).get();
+        if (!doc.exists) return null;
+
+        const data = doc.data();
+        if (!data) return null;
+
+        return {
+          acceptedPrivacyPolicyVersion: data.acceptedPrivacyPolicyVersion ?? null,
+          acceptedTermsVersion: data.acceptedTermsVersion ?? null,
+          acceptedAt: data.acceptedAt ?? null,
+        };
+      },
+
+      async record(userId, consent): Promise<void> {
+        await usersRef().doc(userId).set(
+          { ...consent, updatedAt: new Date().toISOString() },
+          { merge: true }
+        );
+      },
+    },
+
+    subscriptions: {
+      async get(userId: string): Promise<StoredSubscription | null> {
+        const doc = await usersRef().doc(userId).get();
+        if (!doc.exists) return null;
+
+        const data = doc.data() ?? {};
+        return {
+          status: data.subscriptionStatus ?? null,
+          plan: data.subscriptionPlan ?? null,
+          renewalDate: data.subscriptionRenewalDate ?? null,
+          originalTransactionId: data.subscriptionOriginalTransactionId ?? null,
+        };
+      },
+
+      async set(userId: string, subscription: StoredSubscription): Promise<void> {
+        await usersRef().doc(userId).set(
+          {
+            subscriptionStatus: subscription.status,
+            subscriptionPlan: subscription.plan,
+            subscriptionRenewalDate: subscription.renewalDate,
+            subscriptionOriginalTransactionId: subscription.originalTransactionId,
+            updatedAt: new Date().toISOString(),
+          },
+          { merge: true }
+        );
+      },
+
+      async findUserIdByOriginalTransactionId(originalTransactionId: string): Promise<string | null> {
+        const usersQuery = await usersRef()
+          .where('subscriptionOriginalTransactionId', '==', originalTransactionId)
+          .limit(1)
+          .get();
+        return usersQuery.empty ? null : usersQuery.docs[0].id;
+      },
+    },
+  };
+}
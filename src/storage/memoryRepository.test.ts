@@ -0,0 +1,243 @@
+/**
+ * Integration tests for the in-memory persistence backend
+ * Run with: npx ts-node src/storage/memoryRepository.test.ts
+ */
+
+process.env.STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'memory';
+
+import { storage } from '../config/storage';
+import {
+  upsertUserOnboarding,
+  getUserDocument,
+  saveDailyEntry,
+  listDailyEntries,
+  writeReplayedDailyEntries,
+  saveChatMessage,
+  getChatHistory,
+} from '../longevity/longevityStore';
+import { replayDailyEntries } from '../longevity/dailyReplay';
+import { recordConsent, getConsentRecord, needsConsentUpdate } from '../legal/consentTracking';
+import { getSubscriptionStatus } from '../subscription/appleSubscription';
+import { OnboardingAnswers } from '../longevity/longevityModel';
+
+// Test helper
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`TEST FAILED: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const answers: OnboardingAnswers = {
+  activity: 0.5,
+  smokingAlcohol: 1,
+  metabolicHealth: 0,
+  energyFocus: 0.5,
+  visceralFat: 0,
+  sleep: 0.5,
+  stress: 0,
+  muscle: 0,
+  nutritionPattern: 0.5,
+  sugar: 0,
+};
+
+const metrics = {
+  date: '2025-03-01',
+  sleepHours: 8,
+  steps: 9000,
+  vigorousMinutes: 20,
+  processedFoodScore: 2,
+  alcoholUnits: 0,
+  stressLevel: 4,
+  lateCaffeine: false,
+  screenLate: true,
+  bedtimeHour: 23,
+};
+
+// Test 1: User onboarding and daily entries round trip
+async function testUserAndEntries() {
+  console.log('\n=== Test 1: Users and daily entries ===');
+
+  await upsertUserOnboarding({
+    userId: 'u1',
+    chronologicalAgeYears: 40,
+    answers,
+    onboardingTotalScore: 0.2,
+    baselineBiologicalAgeYears: 38.4,
+    baselineBAOYears: -1.6,
+    scoringModelVersion: 'v1',
+  });
+  const user = await getUserDocument('u1');
+  assert(user !== null && user.baselineBiologicalAgeYears === 38.4, 'Onboarded user is stored');
+  assert(typeof user!.updatedAt === 'string', 'updatedAt is stamped by the backend');
+
+  await saveDailyEntry('u1', '2025-03-01', metrics, { score: 1, deltaYears: -0.03, reasons: [] });
+  let duplicateRejected = false;
+  try {
+    await saveDailyEntry('u1', '2025-03-01', metrics, { score: 1, deltaYears: -0.03, reasons: [] });
+  } catch (error: any) {
+    duplicateRejected = error.message.includes('Daily check-in already completed');
+  }
+  assert(duplicateRejected, 'Duplicate daily entry is rejected');
+
+  await saveDailyEntry('u1', '2025-02-27', { ...metrics, date: '2025-02-27' }, { score: 1, deltaYears: -0.03, reasons: [] });
+  const entries = await listDailyEntries('u1');
+  assert(entries.map((e) => e.dateKey).join(',') === '2025-02-27,2025-03-01', 'Entries are listed in date order');
+
+  entries[0].sleepHours = 1;
+  const reread = await listDailyEntries('u1');
+  assert(reread[0].sleepHours === 8, 'Returned entries are copies');
+}
+
+// Test 2: Atomic check-in sees the latest user state
+async function testCreateWithUserUpdate() {
+  console.log('\n=== Test 2: Atomic check-in ===');
+
+  await storage.dailyEntries.createWithUserUpdate('u1', '2025-03-02', (user) => ({
+    entry: {
+      ...metrics,
+      userId: 'u1',
+      dateKey: '2025-03-02',
+      date: '2025-03-02',
+      score: 2,
+      deltaYears: -0.06,
+      reasons: [],
+    },
+    userUpdate: { rejuvenationStreakDays: (user.rejuvenationStreakDays ?? 0) + 1, lastCheckinDayKey: '2025-03-02' },
+  }));
+
+  const user = await getUserDocument('u1');
+  assert(user!.rejuvenationStreakDays === 1, 'User update is applied with the entry');
+
+  let missingUserRejected = false;
+  try {
+    await storage.dailyEntries.createWithUserUpdate('nobody', '2025-03-02', () => {
+      throw new Error('build should not run');
+    });
+  } catch (error: any) {
+    missingUserRejected = error.message === 'User not found';
+  }
+  assert(missingUserRejected, 'Check-in for a missing user is rejected');
+}
+
+// Test 3: Replay writes through the repository
+async function testReplayWrite() {
+  console.log('\n=== Test 3: Replay persistence ===');
+
+  const user = await getUserDocument('u1');
+  const replay = replayDailyEntries({
+    entries: await listDailyEntries('u1'),
+    fromDateKey: '2025-02-27',
+    baselineBiologicalAgeYears: user!.baselineBiologicalAgeYears,
+    chronologicalAgeYears: user!.chronologicalAgeYears,
+    timezone: 'UTC',
+    scoringModelVersion: 'v1',
+  });
+  const createdAtBefore = (await listDailyEntries('u1'))[0].createdAt;
+
+  await writeReplayedDailyEntries('u1', {
+    entries: replay.entries.filter((e) => e.dateKey !== '2025-03-01'),
+    deleteDateKeys: ['2025-03-01'],
+    state: replay.state,
+  });
+
+  const entries = await listDailyEntries('u1');
+  assert(entries.length === 2, 'Deleted entry is removed');
+  assert(entries[0].createdAt === createdAtBefore, 'Existing entries keep createdAt');
+  const updated = await getUserDocument('u1');
+  assert(updated!.lastCheckinDayKey === replay.state.lastCheckinDayKey, 'User state is updated');
+}
+
+// Test 4: Chat, consent, subscription and password reset stores
+async function testOtherStores() {
+  console.log('\n=== Test 4: Chat, consent, subscription, password resets ===');
+
+  for (let i = 0; i < 12; i++) {
+    await saveChatMessage('u1', i % 2 === 0 ? 'user' : 'assistant', `message ${i}`);
+  }
+  const history = await getChatHistory('u1', 10);
+  assert(history.length === 10 && history[9].content === 'message 11', 'Chat history returns the latest messages in order');
+
+  await recordConsent('u1');
+  const consent = await getConsentRecord('u1');
+  assert(consent !== null && consent.acceptedAt !== null, 'Consent is recorded');
+  assert(!(await needsConsentUpdate('u1')), 'Current consent does not need update');
+
+  await storage.subscriptions.set('u1', {
+    status: 'active',
+    plan: 'membership_monthly',
+    renewalDate: new Date(Date.now() - 1000).toISOString(),
+    originalTransactionId: 'tx-1',
+  });
+  assert((await storage.subscriptions.findUserIdByOriginalTransactionId('tx-1')) === 'u1', 'User is found by transaction id');
+  const subscription = await getSubscriptionStatus('u1');
+  assert(subscription.status === 'expired', 'Lapsed subscription is expired on read');
+
+  const id = await storage.passwordResets.create({
+    emailLower: 'a@b.com',
+    codeHash: 'hash',
+    salt: 'salt',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 1000,
+    resendAvailableAt: Date.now(),
+    sendCountWindowStart: Date.now(),
+    sendCountInWindow: 1,
+    verifyAttempts: 0,
+    verifiedAt: null,
+    consumedAt: null,
+  });
+  await storage.passwordResets.incrementVerifyAttempts(id);
+  const found = await storage.passwordResets.findByEmail('a@b.com');
+  assert(found.length === 1 && found[0].data.verifyAttempts === 1, 'Password reset requests are stored and updated');
+}
+
+// Test 5: Conversations and cursor paging
+async function testConversations() {
+  console.log('\n=== Test 5: Conversations ===');
+
+  const thread = await storage.conversations.create('u2', { title: 'Sleep plan' });
+  for (let i = 0; i < 5; i++) {
+    await saveChatMessage('u2', 'user', `thread ${i}`, thread.id);
+  }
+  await saveChatMessage('u2', 'user', 'default message');
+
+  const first = await storage.chatHistory.listPage('u2', thread.id, { limit: 2 });
+  assert(first.messages.map((m) => m.content).join(',') === 'thread 3,thread 4', 'First page holds the newest messages in order');
+  const second = await storage.chatHistory.listPage('u2', thread.id, { limit: 2, before: first.nextCursor! });
+  assert(second.messages.map((m) => m.content).join(',') === 'thread 1,thread 2', 'Cursor pages to older messages');
+  const last = await storage.chatHistory.listPage('u2', thread.id, { limit: 2, before: second.nextCursor! });
+  assert(last.messages.length === 1 && last.nextCursor === null, 'Last page has no cursor');
+
+  const conversations = await storage.conversations.list('u2');
+  assert(conversations.length === 2 && conversations.some((c) => c.id === 'default'), 'Default conversation is created on first message');
+  assert((await getChatHistory('u2', 10)).length === 1, 'Threads do not leak into the default conversation');
+
+  assert(await storage.chatHistory.delete('u2', thread.id, first.messages[0].id), 'Single message is deleted');
+  assert((await storage.chatHistory.deleteAll('u2', thread.id)) === 4, 'Thread messages are deleted');
+}
+
+// Run all tests
+async function runTests() {
+  console.log('🧪 Running In-Memory Storage Tests\n');
+
+  try {
+    assert(storage.backend === 'memory', 'In-memory backend is selected');
+    await testUserAndEntries();
+    await testCreateWithUserUpdate();
+    await testReplayWrite();
+    await testOtherStores();
+    await testConversations();
+
+    console.log('\n✅ All tests passed!');
+  } catch (error: any) {
+    console.error('\n❌ Test suite failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,579 @@
+/**
+ * In-memory implementation of the persistence layer
+ * Used for running the API offline and for integration tests. Data is lost on restart.
+ */
+
+import * as crypto from 'crypto';
+import { DailyEntryDocument, UserDocument, UserInsightsDocument } from '../longevity/longevityModel';
+import { ActionPlanDocument } from '../coach/actionPlanModel';
+import { GoalDocument } from '../goals/goalModel';
+import { HealthDailyMetricsDocument } from '../health/healthModel';
+import { ModerationLogRecord } from '../safety/safetyModel';
+import {
+  AccountDeletionAudit,
+  AccountDeletionRequest,
+  DataExportFile,
+  DataExportJob,
+} from '../privacy/privacyModel';
+import {
+  ChatMessageRecord,
+  ConversationRecord,
+  DailyEntryWrite,
+  DEFAULT_CONVERSATION_ID,
+  PasswordResetRequest,
+  Repository,
+  StoredSubscription,
+  UserUpdate,
+} from './repository';
+
+const nowIso = () => new Date().toISOString();
+const newId = () => crypto.randomBytes(10).toString('hex');
+
+// Callers must never be able to mutate stored state through returned objects
+const clone = <T>(value: T): T => structuredClone(value);
+
+export function createMemoryRepository(): Repository {
+  const users = new Map<string, UserDocument>();
+  const dailyEntries = new Map<string, Map<string, DailyEntryDocument>>(); // userId -> dateKey -> entry
+  const chatHistory = new Map<string, ChatMessageRecord[]>(); // userId -> messages (chronological)
+  const conversations = new Map<string, Map<string, ConversationRecord>>(); // userId -> conversationId -> record
+  const actionPlans = new Map<string, Map<string, ActionPlanDocument>>(); // userId -> weekStart -> plan
+  const insights = new Map<string, UserInsightsDocument>(); // userId -> cached insights
+  const goals = new Map<string, Map<string, GoalDocument>>(); // userId -> goalId -> goal
+  const healthMetrics = new Map<string, Map<string, HealthDailyMetricsDocument>>(); // userId -> dateKey -> metrics
+  const moderationLogs = new Map<string, ModerationLogRecord[]>(); // userId -> entries (chronological)
+  const dataExports = new Map<string, DataExportJob>(); // jobId -> job
+  const dataExportFiles = new Map<string, DataExportFile[]>(); // jobId -> archive files
+  const accountDeletions = new Map<string, AccountDeletionRequest>(); // userId -> pending deletion
+  const accountDeletionAudits: AccountDeletionAudit[] = [];
+  const passwordResets = new Map<string, PasswordResetRequest>();
+
+  const entriesFor = (userId: string) => {
+    let entries = dailyEntries.get(userId);
+    if (!entries) {
+      entries = new Map();
+      dailyEntries.set(userId, entries);
+    }
+    return entries;
+  };
+
+  const messagesFor = (userId: string, conversationId: string) =>
+    (chatHistory.get(userId) ?? []).filter((m) => m.conversationId === conversationId);
+
+  const conversationsFor = (userId: string) => {
+    let records = conversations.get(userId);
+    if (!records) {
+      records = new Map();
+      conversations.set(userId, records);
+    }
+    return records;
+  };
+
+  const touchConversation = (userId: string, conversationId: string, at: string) => {
+    const records = conversationsFor(userId);
+    const existing = records.get(conversationId);
+    records.set(conversationId, {
+      ...(existing ?? {
+        id: conversationId,
+        userId,
+        title: null,
+        createdAt: at,
+        summary: null,
+        summaryUpdatedAt: null,
+      }),
+      updatedAt: at,
+      lastMessageAt: at,
+    });
+  };
+
+  const mergeUser = (userId: string, data: UserUpdate) => {
+    const existing = users.get(userId);
+    users.set(userId, {
+      ...(existing ?? { userId, createdAt: nowIso() }),
+      ...clone(data),
+      updatedAt: nowIso(),
+    } as UserDocument);
+  };
+
+  const toEntry = (entry: DailyEntryWrite, createdAt: string): DailyEntryDocument => {
+    const { createdAt: _ignored, ...rest } = entry as DailyEntryWrite & { createdAt?: unknown };
+    return { ...clone(rest), createdAt, updatedAt: nowIso() } as DailyEntryDocument;
+  };
+
+  return {
+    backend: 'memory',
+
+    users: {
+      async get(userId: string) {
+        const user = users.get(userId);
+        return user ? clone(user) : null;
+      },
+
+      async merge(userId: string, data: UserUpdate) {
+        mergeUser(userId, data);
+      },
+
+      async delete(userId: string) {
+        users.delete(userId);
+        dailyEntries.delete(userId);
+        chatHistory.delete(userId);
+        conversations.delete(userId);
+        actionPlans.delete(userId);
+        insights.delete(userId);
+        goals.delete(userId);
+        healthMetrics.delete(userId);
+        moderationLogs.delete(userId);
+      },
+
+      async countData(userId: string) {
+        const counts: Record<string, number> = {
+          users: users.has(userId) ? 1 : 0,
+          dailyEntries: dailyEntries.get(userId)?.size ?? 0,
+          chatHistory: chatHistory.get(userId)?.length ?? 0,
+          conversations: conversations.get(userId)?.size ?? 0,
+          actionPlans: actionPlans.get(userId)?.size ?? 0,
+          insights: insights.has(userId) ? 1 : 0,
+          goals: goals.get(userId)?.size ?? 0,
+          healthMetrics: healthMetrics.get(userId)?.size ?? 0,
+          moderationLogs: moderationLogs.get(userId)?.length ?? 0,
+        };
+        return Object.fromEntries(Object.entries(counts).filter(([, count]) => count > 0));
+      },
+    },
+
+    dailyEntries: {
+      async get(userId: string, dateKey: string) {
+        const entry = dailyEntries.get(userId)?.get(dateKey);
+        return entry ? clone(entry) : null;
+      },
+
+      async exists(userId: string, dateKey: string) {
+        return dailyEntries.get(userId)?.has(dateKey) ?? false;
+      },
+
+      async list(userId: string) {
+        const entries = Array.from(dailyEntries.get(userId)?.values() ?? []);
+        return clone(entries).sort((a, b) => (a.dateKey || a.date).localeCompare(b.dateKey || b.date));
+      },
+
+      async create(userId: string, entry: DailyEntryWrite) {
+        const entries = entriesFor(userId);
+        if (entries.has(entry.dateKey)) {
+          throw new Error('Daily check-in already completed for this date');
+        }
+        entries.set(entry.dateKey, toEntry(entry, nowIso()));
+      },
+
+      async createWithUserUpdate(userId, dateKey, build) {
+        const entries = entriesFor(userId);
+        if (entries.has(dateKey)) {
+          throw new Error('Daily check-in already completed for this date');
+        }
+        const user = users.get(userId);
+        if (!user) {
+          throw new Error('User not found');
+        }
+
+        const { entry, userUpdate } = build(clone(user));
+        entries.set(dateKey, toEntry(entry, nowIso()));
+        mergeUser(userId, userUpdate);
+      },
+
+      async writeMany(userId, params) {
+        const entries = entriesFor(userId);
+        for (const dateKey of params.deleteDateKeys ?? []) {
+          entries.delete(dateKey);
+        }
+        for (const entry of params.upserts) {
+          const existing = entries.get(entry.dateKey);
+          entries.set(entry.dateKey, toEntry(entry, existing?.createdAt ?? nowIso()));
+        }
+        if (params.userUpdate) {
+          mergeUser(userId, params.userUpdate);
+        }
+      },
+    },
+
+    chatHistory: {
+      async add(userId, message) {
+        const messages = chatHistory.get(userId) ?? [];
+        const conversationId = message.conversationId ?? DEFAULT_CONVERSATION_ID;
+        const record: ChatMessageRecord = {
+          id: newId(),
+          userId,
+          conversationId,
+          role: message.role,
+          content: message.content,
+          createdAt: nowIso(),
+        };
+        messages.push(record);
+        chatHistory.set(userId, messages);
+        touchConversation(userId, conversationId, record.createdAt);
+        return record.id;
+      },
+
+      async listRecent(userId: string, limit: number, conversationId = DEFAULT_CONVERSATION_ID) {
+        return clone(messagesFor(userId, conversationId).slice(-limit));
+      },
+
+      async listPage(userId, conversationId, options) {
+        const messages = messagesFor(userId, conversationId);
+        let end = messages.length;
+        if (options.before) {
+          end = messages.findIndex((m) => m.id === options.before);
+          if (end === -1) throw new Error('Invalid cursor');
+        }
+        const start = Math.max(0, end - options.limit);
+        const page = messages.slice(start, end);
+        return {
+          messages: clone(page),
+          nextCursor: start > 0 && page.length > 0 ? page[0].id : null,
+        };
+      },
+
+      async listAll(userId: string, conversationId: string) {
+        return clone(messagesFor(userId, conversationId));
+      },
+
+      async delete(userId: string, conversationId: string, messageId: string) {
+        const messages = chatHistory.get(userId) ?? [];
+        const index = messages.findIndex((m) => m.id === messageId && m.conversationId === conversationId);
+        if (index === -1) return false;
+        messages.splice(index, 1);
+        return true;
+      },
+
+      async deleteAll(userId: string, conversationId: string) {
+        const messages = chatHistory.get(userId) ?? [];
+        const remaining = messages.filter((m) => m.conversationId !== conversationId);
+        chatHistory.set(userId, remaining);
+        return messages.length - remaining.length;
+      },
+    },
+
+    conversations: {
+      async get(userId: string, conversationId: string) {
+        const conversation = conversations.get(userId)?.get(conversationId);
+        return conversation ? clone(conversation) : null;
+      },
+
+      async list(userId: string) {
+        const list = Array.from(conversations.get(userId)?.values() ?? []);
+        return clone(list).sort((a, b) =>
+          (b.lastMessageAt ?? b.createdAt).localeCompare(a.lastMessageAt ?? a.createdAt)
+        );
+      },
+
+      async create(userId: string, data: { title: string | null }) {
+        const now = nowIso();
+        const record: ConversationRecord = {
+          id: newId(),
+          userId,
+          title: data.title,
+          createdAt: now,
+          updatedAt: now,
+          lastMessageAt: null,
+          summary: null,
+          summaryUpdatedAt: null,
+        };
+        conversationsFor(userId).set(record.id, record);
+        return clone(record);
+      },
+
+      async update(userId: string, conversationId: string, data: { title: string | null }) {
+        const existing = conversations.get(userId)?.get(conversationId);
+        if (!existing) {
+          throw new Error('Conversation not found');
+        }
+        existing.title = data.title;
+        existing.updatedAt = nowIso();
+      },
+
+      async setSummary(userId: string, conversationId: string, summary: string | null) {
+        const existing = conversations.get(userId)?.get(conversationId);
+        if (!existing) return;
+        existing.summary = summary;
+        existing.summaryUpdatedAt = summary === null ? null : nowIso();
+      },
+
+      async delete(userId: string, conversationId: string) {
+        conversations.get(userId)?.delete(conversationId);
+      },
+    },
+
+    actionPlans: {
+      async get(userId: string, weekStart: string) {
+        const plan = actionPlans.get(userId)?.get(weekStart);
+        return plan ? clone(plan) : null;
+      },
+
+      async list(userId: string, limit: number) {
+        const plans = Array.from(actionPlans.get(userId)?.values() ?? []);
+        return clone(plans)
+          .sort((a, b) => b.weekStart.localeCompare(a.weekStart))
+          .slice(0, limit);
+      },
+
+      async save(plan) {
+        let plans = actionPlans.get(plan.userId);
+        if (!plans) {
+          plans = new Map();
+          actionPlans.set(plan.userId, plans);
+        }
+        const now = nowIso();
+        const saved: ActionPlanDocument = {
+          ...clone(plan),
+          createdAt: plans.get(plan.weekStart)?.createdAt ?? now,
+          updatedAt: now,
+        };
+        plans.set(plan.weekStart, saved);
+        return clone(saved);
+      },
+
+      async delete(userId: string, weekStart: string) {
+        return actionPlans.get(userId)?.delete(weekStart) ?? false;
+      },
+    },
+
+    insights: {
+      async get(userId: string) {
+        const cached = insights.get(userId);
+        return cached ? clone(cached) : null;
+      },
+
+      async save(record) {
+        insights.set(record.userId, clone(record));
+      },
+    },
+
+    goals: {
+      async get(userId: string, goalId: string) {
+        const goal = goals.get(userId)?.get(goalId);
+        return goal ? clone(goal) : null;
+      },
+
+      async list(userId: string) {
+        const records = Array.from(goals.get(userId)?.values() ?? []);
+        return clone(records).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      },
+
+      async save(goal) {
+        let records = goals.get(goal.userId);
+        if (!records) {
+          records = new Map();
+          goals.set(goal.userId, records);
+        }
+        records.set(goal.id, clone(goal));
+      },
+
+      async delete(userId: string, goalId: string) {
+        return goals.get(userId)?.delete(goalId) ?? false;
+      },
+    },
+
+    healthMetrics: {
+      async get(userId: string, dateKey: string) {
+        const record = healthMetrics.get(userId)?.get(dateKey);
+        return record ? clone(record) : null;
+      },
+
+      async saveMany(userId: string, records) {
+        let days = healthMetrics.get(userId);
+        if (!days) {
+          days = new Map();
+          healthMetrics.set(userId, days);
+        }
+        const now = nowIso();
+        for (const record of records) {
+          days.set(record.dateKey, { ...days.get(record.dateKey), ...clone(record), userId, updatedAt: now });
+        }
+      },
+
+      async list(userId: string) {
+        const records = Array.from(healthMetrics.get(userId)?.values() ?? []);
+        return clone(records).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+      },
+
+      async listRange(userId: string, fromDateKey: string, toDateKey: string) {
+        const records = Array.from(healthMetrics.get(userId)?.values() ?? [])
+          .filter((record) => record.dateKey >= fromDateKey && record.dateKey <= toDateKey)
+          .map(({ samples, ...record }) => record);
+        return clone(records).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+      },
+    },
+
+    dataExports: {
+      async get(jobId: string) {
+        const job = dataExports.get(jobId);
+        return job ? clone(job) : null;
+      },
+
+      async listByUser(userId: string) {
+        const jobs = Array.from(dataExports.values()).filter((job) => job.userId === userId);
+        return clone(jobs).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      },
+
+      async listExpired(before: string) {
+        const jobs = Array.from(dataExports.values());
+        return clone(jobs.filter((job) => job.purgeAt !== null && job.purgeAt <= before));
+      },
+
+      async save(job: DataExportJob) {
+        dataExports.set(job.id, clone(job));
+      },
+
+      async saveFiles(jobId: string, files: DataExportFile[]) {
+        dataExportFiles.set(jobId, clone(files));
+      },
+
+      async getFiles(jobId: string) {
+        return clone(dataExportFiles.get(jobId) ?? []);
+      },
+
+      async deleteFiles(jobId: string) {
+        dataExportFiles.delete(jobId);
+      },
+
+      async deleteByUser(userId: string) {
+        let deleted = 0;
+        for (const [jobId, job] of dataExports) {
+          if (job.userId !== userId) continue;
+          dataExports.delete(jobId);
+          dataExportFiles.delete(jobId);
+          deleted++;
+        }
+        return deleted;
+      },
+    },
+
+    accountDeletions: {
+      async get(userId: string) {
+        const request = accountDeletions.get(userId);
+        return request ? clone(request) : null;
+      },
+
+      async save(request: AccountDeletionRequest) {
+        accountDeletions.set(request.userId, clone(request));
+      },
+
+      async delete(userId: string) {
+        accountDeletions.delete(userId);
+      },
+
+      async listDue(before: string) {
+        return clone(Array.from(accountDeletions.values()).filter((request) => request.scheduledFor <= before));
+      },
+
+      async addAudit(audit: AccountDeletionAudit) {
+        accountDeletionAudits.push(clone(audit));
+      },
+    },
+
+    moderationLogs: {
+      async add(entry) {
+        const record: ModerationLogRecord = { ...clone(entry), id: newId(), createdAt: nowIso() };
+        moderationLogs.set(entry.userId, [...(moderationLogs.get(entry.userId) ?? []), record]);
+        return record.id;
+      },
+
+      async list(userId: string, options) {
+        return clone(moderationLogs.get(userId) ?? [])
+          .filter((entry) => !options.conversationId || entry.conversationId === options.conversationId)
+          .reverse()
+          .slice(0, options.limit);
+      },
+    },
+
+    passwordResets: {
+      async findByEmail(emailLower: string) {
+        return Array.from(passwordResets.entries())
+          .filter(([, data]) => data.emailLower === emailLower)
+          .map(([id, data]) => ({ id, data: clone(data) }));
+      },
+
+      async get(id: string) {
+        const data = passwordResets.get(id);
+        return data ? clone(data) : null;
+      },
+
+      async create(data: PasswordResetRequest) {
+        const id = newId();
+        passwordResets.set(id, clone(data));
+        return id;
+      },
+
+      async update(id: string, data: Partial<PasswordResetRequest>) {
+        const existing = passwordResets.get(id);
+        if (!existing) {
+          throw new Error(`Password reset request not found: ${id}`);
+        }
+        passwordResets.set(id, { ...existing, ...clone(data) });
+      },
+
+      async incrementVerifyAttempts(id: string) {
+        const existing = passwordResets.get(id);
+        if (existing) {
+          existing.verifyAttempts += 1;
+        }
+      },
+
+      async deleteByEmail(emailLower: string) {
+        let deleted = 0;
+        for (const [id, data] of passwordResets) {
+          if (data.emailLower === emailLower) {
+            passwordResets.delete(id);
+            deleted++;
+          }
+        }
+        return deleted;
+      },
+    },
+
+    consents: {
+      async get(userId: string) {
+        const user = users.get(userId);
+        if (!user) return null;
+        return {
+          acceptedPrivacyPolicyVersion: user.acceptedPrivacyPolicyVersion ?? null,
+          acceptedTermsVersion: user.acceptedTermsVersion ?? null,
+          acceptedAt: user.acceptedAt ?? null,
+        };
+      },
+
+      async record(userId, consent) {
+        mergeUser(userId, consent);
+      },
+    },
+
+    subscriptions: {
+      async get(userId: string): Promise<StoredSubscription | null> {
+        const user = users.get(userId);
+        if (!user) return null;
+        return {
+          status: user.subscriptionStatus ?? null,
+          plan: user.subscriptionPlan ?? null,
+          renewalDate: user.subscriptionRenewalDate ?? null,
+          originalTransactionId: user.subscriptionOriginalTransactionId ?? null,
+        };
+      },
+
+      async set(userId: string, subscription: StoredSubscription) {
+        mergeUser(userId, {
+          subscriptionStatus: subscription.status,
+          subscriptionPlan: subscription.plan,
+          subscriptionRenewalDate: subscription.renewalDate,
+          subscriptionOriginalTransactionId: subscription.originalTransactionId,
+        });
+      },
+
+      async findUserIdByOriginalTransactionId(originalTransactionId: string) {
+        for (const [userId, user] of users) {
+          if (user.subscriptionOriginalTransactionId === originalTransactionId) {
+            return userId;
+          }
+        }
+        return null;
+      },
+    },
+  };
+}
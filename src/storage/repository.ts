@@ -0,0 +1,263 @@
+/**
+ * Persistence layer interfaces
+ * Feature modules talk to these repositories instead of calling Firestore directly,
+ * so the backend can be swapped (Firestore in production, in-memory for local runs and tests).
+ */
+
+import { DailyEntryDocument, UserDocument, UserInsightsDocument } from '../longevity/longevityModel';
+import { ConsentRecord } from '../legal/consentTracking';
+import { SubscriptionPlan, SubscriptionStatus } from '../subscription/appleSubscription';
+import { ActionPlanDocument } from '../coach/actionPlanModel';
+import { GoalDocument } from '../goals/goalModel';
+import { HealthDailyMetricsDocument } from '../health/healthModel';
+import { ModerationLogRecord } from '../safety/safetyModel';
+import {
+  AccountDeletionAudit,
+  AccountDeletionRequest,
+  DataExportFile,
+  DataExportJob,
+} from '../privacy/privacyModel';
+
+/**
+ * Fields accepted when writing a user document. Nullable so callers can clear fields.
+ */
+export type UserUpdate = { [K in keyof UserDocument]?: UserDocument[K] | null };
+
+export interface UserRepository {
+  get(userId: string): Promise<UserDocument | null>;
+  /** Shallow-merges fields into users/{userId}, creating it if missing. Always stamps updatedAt. */
+  merge(userId: string, data: UserUpdate): Promise<void>;
+  /** Deletes the user document and everything stored under it (entries, chats, plans, goals, ...). */
+  delete(userId: string): Promise<void>;
+  /**
+   * Number of stored documents per collection of the user, the user document itself counted
+   * as "users". Collections without documents are left out, so {} means nothing remains.
+   */
+  countData(userId: string): Promise<Record<string, number>>;
+}
+
+/**
+ * Daily entry as written by callers; createdAt/updatedAt are stamped by the repository.
+ */
+export type DailyEntryWrite = Omit<DailyEntryDocument, 'createdAt'>;
+
+export interface DailyEntryRepository {
+  get(userId: string, dateKey: string): Promise<DailyEntryDocument | null>;
+  exists(userId: string, dateKey: string): Promise<boolean>;
+  /** All entries, sorted ascending by dateKey. */
+  list(userId: string): Promise<DailyEntryDocument[]>;
+  /** Creates an entry; throws 'Daily check-in already completed for this date' if one exists. */
+  create(userId: string, entry: DailyEntryWrite): Promise<void>;
+  /**
+   * Atomically creates an entry and updates the user document.
+   * build receives the latest user document so streaks can be computed against fresh state.
+   * Throws 'Daily check-in already completed for this date' or 'User not found'.
+   */
+  createWithUserUpdate(
+    userId: string,
+    dateKey: string,
+    build: (user: UserDocument) => { entry: DailyEntryWrite; userUpdate: UserUpdate }
+  ): Promise<void>;
+  /**
+   * Atomically writes many entries, deletions and the user update (used by replays).
+   * Existing entries keep their createdAt.
+   */
+  writeMany(
+    userId: string,
+    params: { upserts: DailyEntryWrite[]; deleteDateKeys?: string[]; userUpdate?: UserUpdate }
+  ): Promise<void>;
+}
+
+/**
+ * Conversation id used for messages written before threads existed (users/{uid}/chatHistory).
+ */
+export const DEFAULT_CONVERSATION_ID = 'default';
+
+export interface ChatMessageRecord {
+  id: string;
+  userId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface ChatHistoryRepository {
+  /** Appends a message and bumps the conversation's lastMessageAt (creating the record if missing). */
+  add(
+    userId: string,
+    message: { role: 'user' | 'assistant'; content: string; conversationId?: string }
+  ): Promise<string>;
+  /** Most recent messages, returned in chronological order. */
+  listRecent(userId: string, limit: number, conversationId?: string): Promise<ChatMessageRecord[]>;
+  /**
+   * One page of messages older than the cursor (a message id), in chronological order.
+   * nextCursor is set when older messages exist.
+   */
+  listPage(
+    userId: string,
+    conversationId: string,
+    options: { limit: number; before?: string }
+  ): Promise<{ messages: ChatMessageRecord[]; nextCursor: string | null }>;
+  /** Every message in the conversation, chronological. */
+  listAll(userId: string, conversationId: string): Promise<ChatMessageRecord[]>;
+  /** Returns false if the message does not exist. */
+  delete(userId: string, conversationId: string, messageId: string): Promise<boolean>;
+  /** Deletes every message in the conversation. Returns the number deleted. */
+  deleteAll(userId: string, conversationId: string): Promise<number>;
+}
+
+export interface ConversationRecord {
+  id: string;
+  userId: string;
+  title: string | null;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  lastMessageAt: string | null; // ISO timestamp
+  summary: string | null; // Rolling summary of the conversation so far
+  summaryUpdatedAt: string | null; // ISO timestamp
+}
+
+export interface ConversationRepository {
+  get(userId: string, conversationId: string): Promise<ConversationRecord | null>;
+  /** Sorted by most recent activity first. */
+  list(userId: string): Promise<ConversationRecord[]>;
+  create(userId: string, data: { title: string | null }): Promise<ConversationRecord>;
+  update(userId: string, conversationId: string, data: { title: string | null }): Promise<void>;
+  /** Replaces the rolling summary (null clears it). No-op if the conversation does not exist. */
+  setSummary(userId: string, conversationId: string, summary: string | null): Promise<void>;
+  /** Deletes the conversation record only; delete messages with chatHistory.deleteAll. */
+  delete(userId: string, conversationId: string): Promise<void>;
+}
+
+export interface ActionPlanRepository {
+  get(userId: string, weekStart: string): Promise<ActionPlanDocument | null>;
+  /** Most recent weeks first. */
+  list(userId: string, limit: number): Promise<ActionPlanDocument[]>;
+  /** Creates or replaces the plan for its week; createdAt is kept when replacing. */
+  save(plan: Omit<ActionPlanDocument, 'createdAt' | 'updatedAt'>): Promise<ActionPlanDocument>;
+  /** Returns false if no plan exists for the week. */
+  delete(userId: string, weekStart: string): Promise<boolean>;
+}
+
+export interface InsightsRepository {
+  get(userId: string): Promise<UserInsightsDocument | null>;
+  /** Replaces the user's cached insights. */
+  save(insights: UserInsightsDocument): Promise<void>;
+}
+
+export interface GoalRepository {
+  get(userId: string, goalId: string): Promise<GoalDocument | null>;
+  /** Newest first. */
+  list(userId: string): Promise<GoalDocument[]>;
+  /** Creates or replaces the goal with its id. */
+  save(goal: GoalDocument): Promise<void>;
+  /** Returns false if the goal does not exist. */
+  delete(userId: string, goalId: string): Promise<boolean>;
+}
+
+export interface HealthMetricsRepository {
+  get(userId: string, dateKey: string): Promise<HealthDailyMetricsDocument | null>;
+  /** Merges each day's metrics over the stored ones (metrics missing from a record are kept). */
+  saveMany(userId: string, records: Array<Omit<HealthDailyMetricsDocument, 'userId' | 'updatedAt'>>): Promise<void>;
+  /** All days, sorted ascending by dateKey. */
+  list(userId: string): Promise<HealthDailyMetricsDocument[]>;
+  /** Days from fromDateKey to toDateKey (inclusive) without their samples, sorted ascending by dateKey. */
+  listRange(userId: string, fromDateKey: string, toDateKey: string): Promise<HealthDailyMetricsDocument[]>;
+}
+
+export interface DataExportRepository {
+  get(jobId: string): Promise<DataExportJob | null>;
+  /** Newest first. */
+  listByUser(userId: string): Promise<DataExportJob[]>;
+  /** Jobs whose archive is due for deletion (purgeAt at or before the given ISO timestamp). */
+  listExpired(before: string): Promise<DataExportJob[]>;
+  /** Creates or replaces the job with its id. */
+  save(job: DataExportJob): Promise<void>;
+  /** Replaces the archive files of a job. */
+  saveFiles(jobId: string, files: DataExportFile[]): Promise<void>;
+  getFiles(jobId: string): Promise<DataExportFile[]>;
+  /** Deletes the archive files only; the job record stays for its status. */
+  deleteFiles(jobId: string): Promise<void>;
+  /** Deletes every job of a user with its files. Returns the number of jobs deleted. */
+  deleteByUser(userId: string): Promise<number>;
+}
+
+export interface AccountDeletionRepository {
+  get(userId: string): Promise<AccountDeletionRequest | null>;
+  /** Creates or replaces the user's request. */
+  save(request: AccountDeletionRequest): Promise<void>;
+  delete(userId: string): Promise<void>;
+  /** Requests whose grace period ended at or before the given ISO timestamp. */
+  listDue(before: string): Promise<AccountDeletionRequest[]>;
+  addAudit(audit: AccountDeletionAudit): Promise<void>;
+}
+
+export interface ModerationLogRepository {
+  add(entry: Omit<ModerationLogRecord, 'id' | 'createdAt'>): Promise<string>;
+  /** Newest first, optionally limited to one conversation. */
+  list(userId: string, options: { limit: number; conversationId?: string }): Promise<ModerationLogRecord[]>;
+}
+
+/**
+ * Password reset request. Timestamps are epoch milliseconds.
+ */
+export interface PasswordResetRequest {
+  emailLower: string;
+  codeHash: string;
+  salt: string;
+  createdAt: number;
+  expiresAt: number;
+  resendAvailableAt: number;
+  sendCountWindowStart: number;
+  sendCountInWindow: number;
+  verifyAttempts: number;
+  verifiedAt: number | null;
+  consumedAt: number | null;
+}
+
+export interface PasswordResetRepository {
+  findByEmail(emailLower: string): Promise<Array<{ id: string; data: PasswordResetRequest }>>;
+  get(id: string): Promise<PasswordResetRequest | null>;
+  create(data: PasswordResetRequest): Promise<string>;
+  update(id: string, data: Partial<PasswordResetRequest>): Promise<void>;
+  incrementVerifyAttempts(id: string): Promise<void>;
+  /** Returns the number of requests deleted. */
+  deleteByEmail(emailLower: string): Promise<number>;
+}
+
+export interface ConsentRepository {
+  get(userId: string): Promise<ConsentRecord | null>;
+  record(userId: string, consent: ConsentRecord): Promise<void>;
+}
+
+export interface StoredSubscription {
+  status: SubscriptionStatus | null;
+  plan: SubscriptionPlan | null;
+  renewalDate: string | null;
+  originalTransactionId: string | null;
+}
+
+export interface SubscriptionRepository {
+  get(userId: string): Promise<StoredSubscription | null>;
+  set(userId: string, subscription: StoredSubscription): Promise<void>;
+  findUserIdByOriginalTransactionId(originalTransactionId: string): Promise<string | null>;
+}
+
+export interface Repository {
+  backend: 'firestore' | 'memory';
+  users: UserRepository;
+  dailyEntries: DailyEntryRepository;
+  chatHistory: ChatHistoryRepository;
+  conversations: ConversationRepository;
+  actionPlans: ActionPlanRepository;
+  insights: InsightsRepository;
+  goals: GoalRepository;
+  healthMetrics: HealthMetricsRepository;
+  dataExports: DataExportRepository;
+  accountDeletions: AccountDeletionRepository;
+  moderationLogs: ModerationLogRepository;
+  passwordResets: PasswordResetRepository;
+  consents: ConsentRepository;
+  subscriptions: SubscriptionRepository;
+}
@@ -3,9 +3,7 @@
  * Handles Apple auto-renewable subscription verification and status tracking
  */
 
-import * as admin from 'firebase-admin';
-import { firestore } from '../config/firestore';
-import { getUserDocument } from '../longevity/longevityStore';
+import { storage } from '../config/storage';
 
 export type SubscriptionStatus = 'active' | 'expired';
 export type SubscriptionPlan = 'membership_monthly' | 'membership_yearly';
@@ -157,30 +155,28 @@ function extractSubscriptionState(
 }
 
 /**
- * Updates user's subscription state in Firestore
+ * Updates user's subscription state in storage
  */
 async function updateSubscriptionState(
   userId: string,
   subscriptionState: SubscriptionState | null
 ): Promise<void> {
-  const updates: any = {
-    updatedAt: new Date().toISOString(),
-  };
-
   if (subscriptionState) {
-    updates.subscriptionStatus = subscriptionState.status;
-    updates.subscriptionPlan = subscriptionState.plan;
-    updates.subscriptionRenewalDate = subscriptionState.renewalDate;
-    updates.subscriptionOriginalTransactionId = subscriptionState.originalTransactionId;
+    await storage.subscriptions.set(userId, {
+      status: subscriptionState.status,
+      plan: subscriptionState.plan,
+      renewalDate: subscriptionState.renewalDate,
+      originalTransactionId: subscriptionState.originalTransactionId,
+    });
   } else {
     // Clear subscription if no valid subscription found
-    updates.subscriptionStatus = 'expired';
-    updates.subscriptionPlan = null;
-    updates.subscriptionRenewalDate = null;
-    updates.subscriptionOriginalTransactionId = null;
+    await storage.subscriptions.set(userId, {
+      status: 'expired',
+      plan: null,
+      renewalDate: null,
+      originalTransactionId: null,
+    });
   }
-
-  await firestore.collection('users').doc(userId).set(updates, { merge: true });
 }
 
 /**
@@ -220,8 +216,8 @@ export async function getSubscriptionStatus(userId: string): Promise<{
   plan: SubscriptionPlan | null;
   renewalDate: string | null;
 }> {
-  const user = await getUserDocument(userId);
-  if (!user) {
+  const subscription = await storage.subscriptions.get(userId);
+  if (!subscription) {
     return {
       status: null,
       plan: null,
@@ -230,8 +226,8 @@ export async function getSubscriptionStatus(userId: string): Promise<{
   }
 
   // Check if subscription is still active (renewalDate hasn't passed)
-  if (user.subscriptionStatus === 'active' && user.subscriptionRenewalDate) {
-    const renewalDate = new Date(user.subscriptionRenewalDate);
+  if (subscription.status === 'active' && subscription.renewalDate) {
+    const renewalDate = new Date(subscription.renewalDate);
     const now = new Date();
     if (renewalDate <= now) {
       // Subscription expired, update status
@@ -245,9 +241,9 @@ export async function getSubscriptionStatus(userId: string): Promise<{
   }
 
   return {
-    status: user.subscriptionStatus || null,
-    plan: user.subscriptionPlan || null,
-    renewalDate: user.subscriptionRenewalDate || null,
+    status: subscription.status || null,
+    plan: subscription.plan || null,
+    renewalDate: subscription.renewalDate || null,
   };
 }
 
@@ -276,18 +272,13 @@ export async function handleAppleNotification(notification: any): Promise<void>
     }
 
     // Find user by original_transaction_id
-    const usersQuery = await firestore
-      .collection('users')
-      .where('subscriptionOriginalTransactionId', '==', originalTransactionId)
-      .limit(1)
-      .get();
+    const userId = await storage.subscriptions.findUserIdByOriginalTransactionId(originalTransactionId);
 
-    if (usersQuery.empty) {
+    if (!userId) {
       console.warn('[appleSubscription] No user found for original_transaction_id:', originalTransactionId);
       return;
     }
 
-    const userId = usersQuery.docs[0].id;
     const receiptData = unifiedReceipt.latest_receipt;
 
     // Re-verify subscription and update state
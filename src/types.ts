@@ -2,11 +2,17 @@ export interface VectorItem {
   id: string;
   text: string;
   embedding: number[];
+  contentHash?: string; // sha256 of the embedded text, used to skip re-embedding unchanged content
+  createdAt?: string; // ISO timestamp
   metadata: {
     source: "knowledge" | "user_log";
     userId?: string;
+    conversationId?: string; // Chat thread a user log was derived from
+    messageIds?: string[]; // Chat messages a user log was derived from
     title?: string;
     tags?: string[];
+    documentId?: string; // Source file for knowledge chunks
+    section?: string | null; // Heading path of the chunk
+    chunkIndex?: number;
   };
 }
-